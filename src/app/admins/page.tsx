@@ -0,0 +1,243 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { signOut } from "firebase/auth";
+import { auth } from "@/lib/firebaseClient";
+import { authedPost } from "@/lib/adminApi";
+
+type AdminRole = "owner" | "operator" | "viewer";
+
+type AdminAccount = {
+  uid: string;
+  email: string;
+  displayName: string;
+  role: AdminRole;
+  disabled: boolean;
+  lastSignInTime: string;
+};
+
+type ListOk = { ok: true; admins: AdminAccount[] };
+type InviteOk = { ok: true };
+type SetRoleOk = { ok: true; uid: string; role: AdminRole | null; self: boolean };
+
+const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "owner（全権限）",
+  operator: "operator（メンバー・課金操作）",
+  viewer: "viewer（閲覧のみ）",
+};
+
+const ROLES: AdminRole[] = ["owner", "operator", "viewer"];
+
+function fmtDate(s: string): string {
+  if (!s) return "-";
+  return new Date(s).toLocaleString("ja-JP", { hour12: false });
+}
+
+export default function AdminsPage() {
+  const [rows, setRows] = useState<AdminAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState("");
+  const [msg, setMsg] = useState("");
+
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<AdminRole>("operator");
+  const [inviting, setInviting] = useState(false);
+
+  const fetchRows = useCallback(async () => {
+    setErr("");
+    setLoading(true);
+    try {
+      const json = await authedPost<ListOk>("/api/admin/admins/list", {});
+      setRows(json.admins);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchRows();
+  }, [fetchRows]);
+
+  const doInvite = async () => {
+    setErr("");
+    setMsg("");
+    const em = inviteEmail.trim();
+    if (!em) return setErr("メールを入力してください。");
+
+    try {
+      setInviting(true);
+      await authedPost<InviteOk>("/api/admin/admins/invite", {
+        email: em,
+        role: inviteRole,
+      });
+      setMsg(
+        `${em} に ${inviteRole} を付与しました。パスワード未設定のアカウントには、設定用のリンクをメールで送りました。`,
+      );
+      setInviteEmail("");
+      await fetchRows();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "招待に失敗しました");
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const doSetRole = async (a: AdminAccount, role: AdminRole | null) => {
+    setErr("");
+    setMsg("");
+
+    const label = role ? `${a.role} → ${role}` : "管理者権限を剥奪";
+    if (!confirm(`${a.email}\n${label}\n\n続行しますか？`)) return;
+
+    try {
+      const json = await authedPost<SetRoleOk>("/api/admin/admins/set-role", {
+        uid: a.uid,
+        role,
+      });
+
+      // ✅ 自分のロールを変えた場合はトークンを取り直す（降格時は失効済みなので再ログイン）
+      if (json.self) {
+        try {
+          await auth.currentUser?.getIdToken(true);
+        } catch {
+          await signOut(auth);
+          return;
+        }
+      }
+
+      await fetchRows();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "更新に失敗しました");
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-7xl p-4">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-xl font-bold">管理者アカウント</h1>
+        <button
+          type="button"
+          onClick={fetchRows}
+          className="rounded-md border px-3 py-1.5 text-sm font-medium hover:bg-gray-50 dark:border-gray-800 dark:hover:bg-gray-900"
+        >
+          再読み込み
+        </button>
+      </div>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm font-bold text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300">
+          {err === "last_owner" ? "最後の owner は降格・剥奪できません。" : err}
+        </div>
+      )}
+
+      {msg && (
+        <div className="mt-3 whitespace-pre-wrap break-all rounded-lg border bg-white p-3 text-sm font-bold dark:border-gray-800 dark:bg-gray-900">
+          {msg}
+        </div>
+      )}
+
+      {/* 招待 */}
+      <div className="mt-4 rounded-xl border p-4 dark:border-gray-800">
+        <div className="text-sm font-semibold">管理者を招待</div>
+        <div className="mt-3 flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="flex-1">
+            <label className="text-xs font-bold text-gray-600 dark:text-gray-300">メール</label>
+            <input
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              className="mt-1 h-10 w-full rounded-md border px-3 bg-white dark:bg-gray-900 dark:border-gray-700"
+              placeholder="admin@example.com"
+              inputMode="email"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-bold text-gray-600 dark:text-gray-300">ロール</label>
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as AdminRole)}
+              className="mt-1 h-10 w-full rounded-md border px-3 bg-white dark:bg-gray-900 dark:border-gray-700"
+            >
+              {ROLES.map((r) => (
+                <option key={r} value={r}>
+                  {ROLE_LABELS[r]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            disabled={inviting}
+            onClick={() => void doInvite()}
+            className="h-10 rounded-md bg-blue-600 px-5 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {inviting ? "招待中..." : "招待"}
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-4 overflow-x-auto rounded-xl border dark:border-gray-800">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              <th className="px-3 py-2 text-left">email</th>
+              <th className="px-3 py-2 text-left">uid</th>
+              <th className="px-3 py-2 text-left">ロール</th>
+              <th className="px-3 py-2 text-left">最終ログイン</th>
+              <th className="px-3 py-2 text-left">操作</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td className="px-3 py-4" colSpan={5}>
+                  loading...
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td className="px-3 py-4" colSpan={5}>
+                  (no admins)
+                </td>
+              </tr>
+            ) : (
+              rows.map((a) => (
+                <tr key={a.uid} className="border-t dark:border-gray-800">
+                  <td className="px-3 py-2">
+                    {a.email || "-"}
+                    {a.disabled ? <span className="ml-2 text-xs text-red-600">（無効）</span> : null}
+                  </td>
+                  <td className="px-3 py-2 font-mono text-xs">{a.uid}</td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={a.role}
+                      onChange={(e) => void doSetRole(a, e.target.value as AdminRole)}
+                      className="h-8 rounded-md border px-2 bg-white dark:bg-gray-900 dark:border-gray-700"
+                    >
+                      {ROLES.map((r) => (
+                        <option key={r} value={r}>
+                          {r}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">{fmtDate(a.lastSignInTime)}</td>
+                  <td className="px-3 py-2">
+                    <button
+                      type="button"
+                      onClick={() => void doSetRole(a, null)}
+                      className="rounded-md border px-3 py-1.5 text-xs font-bold hover:bg-gray-50 dark:border-gray-800 dark:hover:bg-gray-900"
+                    >
+                      権限を剥奪
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
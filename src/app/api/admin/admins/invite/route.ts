@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import type { UserRecord } from "firebase-admin/auth";
+import { getAdminAuth } from "@/lib/firebaseAdmin";
+import { isAdminRole, roleFromClaims, withAdmin, type AdminRole } from "@/lib/adminGuard";
+import { needsPasswordSetup, sendAdminInvite, setAdminRole } from "@/lib/adminAccounts";
+import { writeAuditLog } from "@/lib/auditLog";
+
+export const runtime = "nodejs";
+
+type Body = {
+  email: string;
+  role: AdminRole;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function isNotFound(e: unknown): boolean {
+  return (
+    typeof e === "object" &&
+    e !== null &&
+    (e as { code?: unknown }).code === "auth/user-not-found"
+  );
+}
+
+/**
+ * 管理者の招待（メールでロール付与）
+ * - いなければパスワード無しで作成し、パスワード設定リンクを本人にメールで送る
+ * - パスワード未設定のままなら再招待でリンクを送り直す
+ * - リンクはレスポンスに含めない
+ */
+export const POST = withAdmin("admins:manage", async (req, actor) => {
+  const bodyUnknown: unknown = await req.json();
+  const body = bodyUnknown as Partial<Body>;
+
+  const email = toStr(body.email).trim();
+  const role = body.role;
+
+  if (!email) {
+    return NextResponse.json({ ok: false, error: "email_required" }, { status: 400 });
+  }
+  if (!isAdminRole(role)) {
+    return NextResponse.json({ ok: false, error: "role_invalid" }, { status: 400 });
+  }
+
+  const auth = getAdminAuth();
+
+  // 既存ユーザーならそのままロール付与、いなければパスワード無しで作成
+  let created = false;
+  let user: UserRecord;
+  try {
+    user = await auth.getUserByEmail(email);
+  } catch (e) {
+    if (!isNotFound(e)) throw e;
+    user = await auth.createUser({ email });
+    created = true;
+  }
+
+  if (roleFromClaims(user.customClaims) === "owner" && role !== "owner") {
+    return NextResponse.json(
+      { ok: false, error: "already_owner_use_set_role" },
+      { status: 409 },
+    );
+  }
+
+  await setAdminRole(user.uid, role);
+
+  // 初回ログイン用（パスワード設定リンク）。送信失敗でもロール付与は残す（再招待で送り直せる）
+  const mailed = created || needsPasswordSetup(user);
+  let mailError = "";
+  if (mailed) {
+    try {
+      await sendAdminInvite(email, role);
+    } catch (e) {
+      mailError = e instanceof Error ? e.message : "UNKNOWN";
+    }
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "admin.invite",
+    targetPath: `auth/${user.uid}`,
+    before: created ? null : { email, role: roleFromClaims(user.customClaims) },
+    after: { email, role, inviteMailed: mailed && !mailError, mailError: mailError || null },
+  });
+
+  if (mailError) {
+    return NextResponse.json({ ok: false, error: `mail_failed: ${mailError}` }, { status: 502 });
+  }
+
+  return NextResponse.json({ ok: true });
+});
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { listAdminAccounts } from "@/lib/adminAccounts";
+
+export const runtime = "nodejs";
+
+export const POST = withAdmin("admins:manage", async () => {
+  const admins = await listAdminAccounts();
+  admins.sort((a, b) => a.email.localeCompare(b.email));
+  return NextResponse.json({ ok: true, admins });
+});
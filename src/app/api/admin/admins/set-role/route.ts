@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getAdminAuth } from "@/lib/firebaseAdmin";
+import { isAdminRole, roleFromClaims, withAdmin, type AdminRole } from "@/lib/adminGuard";
+import { countOwners, setAdminRole } from "@/lib/adminAccounts";
+import { writeAuditLog } from "@/lib/auditLog";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid: string;
+  // null = 管理者権限を剥奪
+  role: AdminRole | null;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+export const POST = withAdmin("admins:manage", async (req, ctx) => {
+  const bodyUnknown: unknown = await req.json();
+  const body = bodyUnknown as Partial<Body>;
+
+  const uid = toStr(body.uid).trim();
+  const role = body.role === null ? null : body.role;
+
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: "uid_required" }, { status: 400 });
+  }
+  if (role !== null && !isAdminRole(role)) {
+    return NextResponse.json({ ok: false, error: "role_invalid" }, { status: 400 });
+  }
+
+  const user = await getAdminAuth().getUser(uid);
+  const before = roleFromClaims(user.customClaims);
+
+  // ✅ 最後の owner は降格 / 剥奪できない（自分自身も含む）
+  if (before === "owner" && role !== "owner") {
+    const owners = await countOwners();
+    if (owners <= 1) {
+      return NextResponse.json({ ok: false, error: "last_owner" }, { status: 409 });
+    }
+  }
+
+  await setAdminRole(uid, role);
+
+  await writeAuditLog({
+    req,
+    actor: ctx,
+    action: role ? "admin.setRole" : "admin.revoke",
+    targetPath: `auth/${uid}`,
+    before: { email: user.email ?? "", role: before },
+    after: { email: user.email ?? "", role },
+  });
+
+  return NextResponse.json({
+    ok: true,
+    uid,
+    before,
+    role,
+    self: uid === ctx.uid,
+  });
+});
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import type admin from "firebase-admin";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { withAdmin } from "@/lib/adminGuard";
+import { COL_AUDIT, type AuditDiffEntry } from "@/lib/auditLog";
+
+export const runtime = "nodejs";
+
+type Body = {
+  actor?: string; // uid または email
+  action?: string;
+  targetPath?: string;
+  fromMs?: number | null;
+  toMs?: number | null;
+  cursor?: string | null; // 前ページ最後の docId
+  limit?: number;
+};
+
+type AuditRow = {
+  id: string;
+  actorUid: string;
+  actorEmail: string;
+  actorRole: string;
+  action: string;
+  targetPath: string;
+  diff: AuditDiffEntry[];
+  ip: string;
+  source: string;
+  createdAtMs: number | null;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+function toNumOrNull(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+export const POST = withAdmin("audit:read", async (req) => {
+  const bodyUnknown: unknown = await req.json();
+  const body = bodyUnknown as Partial<Body>;
+
+  const actor = toStr(body.actor).trim();
+  const action = toStr(body.action).trim();
+  const targetPath = toStr(body.targetPath).trim();
+  const fromMs = toNumOrNull(body.fromMs);
+  const toMs = toNumOrNull(body.toMs);
+  const cursor = toStr(body.cursor);
+  const limit = Math.min(Math.max(Math.trunc(toNumOrNull(body.limit) ?? 50), 1), 200);
+
+  const db = getAdminDb();
+  let q: admin.firestore.Query = db.collection(COL_AUDIT);
+
+  if (actor) q = q.where(actor.includes("@") ? "actorEmail" : "actorUid", "==", actor);
+  if (action) q = q.where("action", "==", action);
+  if (targetPath) q = q.where("targetPath", "==", targetPath);
+  if (fromMs !== null) q = q.where("createdAtMs", ">=", fromMs);
+  if (toMs !== null) q = q.where("createdAtMs", "<", toMs);
+
+  q = q.orderBy("createdAtMs", "desc");
+
+  if (cursor) {
+    const cursorSnap = await db.collection(COL_AUDIT).doc(cursor).get();
+    if (cursorSnap.exists) q = q.startAfter(cursorSnap);
+  }
+
+  const snap = await q.limit(limit + 1).get();
+  const docs = snap.docs.slice(0, limit);
+
+  const entries: AuditRow[] = docs.map((d) => {
+    const data = d.data() as Record<string, unknown>;
+    return {
+      id: d.id,
+      actorUid: toStr(data.actorUid),
+      actorEmail: toStr(data.actorEmail),
+      actorRole: toStr(data.actorRole),
+      action: toStr(data.action),
+      targetPath: toStr(data.targetPath),
+      diff: Array.isArray(data.diff) ? (data.diff as AuditDiffEntry[]) : [],
+      ip: toStr(data.ip),
+      source: toStr(data.source),
+      createdAtMs: toNumOrNull(data.createdAtMs),
+    };
+  });
+
+  const nextCursor = snap.docs.length > limit ? docs[docs.length - 1]!.id : null;
+
+  return NextResponse.json({ ok: true, entries, nextCursor });
+});
@@ -0,0 +1,170 @@
+import { NextResponse } from "next/server";
+import admin from "firebase-admin";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+import { getStripe, isLiveSubscriptionStatus } from "@/lib/stripe";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+// 旧 set-billing が誤って書いていたコレクション
+const COL_LEGACY = "renovaUsers";
+
+const MERGE_FIELDS = ["mode", "status", "stripeCustomerId", "stripeSubscriptionId"] as const;
+
+type MergeAction =
+  | "merged"
+  | "unchanged"
+  | "no_member"
+  | "no_billing"
+  | "conflict"
+  | "live_subscription"
+  | "already_migrated";
+
+type MigrationResult = {
+  id: string;
+  memberPath: string;
+  action: MergeAction;
+  patch: Record<string, unknown>;
+  detail?: string;
+};
+
+type Body = {
+  dryRun?: boolean;
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function toMs(v: unknown): number {
+  return v instanceof admin.firestore.Timestamp ? v.toMillis() : 0;
+}
+
+function isEmpty(v: unknown): boolean {
+  return v === undefined || v === null || v === "";
+}
+
+// Stripe 上の status（消えていれば ""）
+async function subscriptionStatusOf(subscriptionId: string): Promise<string> {
+  try {
+    return (await getStripe().subscriptions.retrieve(subscriptionId)).status;
+  } catch (e) {
+    if (isObj(e) && e.code === "resource_missing") return "";
+    throw e;
+  }
+}
+
+/**
+ * renovaUsers の billing を reNovaMember へ戻す（1回限りの移行）
+ * - reNovaMember 側が空の項目、または renovaUsers 側の方が新しい項目だけ上書き
+ * - free なのに subscription が付く組み合わせになる場合は conflict で何もしない
+ * - reNovaMember の subscription が Stripe で生きていて、別の subscription に変わる場合は live_subscription で何もしない
+ * - renovaUsers は消さずに migratedAtMs を付ける（再実行しても二重に適用しない）
+ * - 状態（status 等）は移行後に /billing/reconcile で Stripe と突合すること
+ */
+export const POST = withAdmin("billing:write", async (req, actor) => {
+  const bodyUnknown: unknown = await req.json().catch(() => ({}));
+  const body = (bodyUnknown ?? {}) as Body;
+  const dryRun = body.dryRun !== false;
+
+  const snap = await getAdminDb().collection(COL_LEGACY).get();
+  const results: MigrationResult[] = [];
+
+  for (const d of snap.docs) {
+    const data = d.data();
+    const base = { id: d.id, memberPath: "", patch: {} };
+
+    if (typeof data.migratedAtMs === "number") {
+      results.push({ ...base, action: "already_migrated" });
+      continue;
+    }
+    const stray = isObj(data.billing) ? data.billing : null;
+    if (!stray) {
+      results.push({ ...base, action: "no_billing" });
+      continue;
+    }
+
+    const memberRef = await findMemberRefByUid(d.id);
+    if (!memberRef) {
+      results.push({ ...base, action: "no_member" });
+      continue;
+    }
+
+    const memberData = (await memberRef.get()).data() ?? {};
+    const current = isObj(memberData.billing) ? memberData.billing : {};
+    const strayIsNewer = toMs(stray.updatedAt) > toMs(current.updatedAt);
+
+    const patch: Record<string, unknown> = {};
+    for (const f of MERGE_FIELDS) {
+      const v = stray[f];
+      if (isEmpty(v) || v === current[f]) continue;
+      if (isEmpty(current[f]) || strayIsNewer) patch[f] = v;
+    }
+
+    const merged = { ...current, ...patch };
+    if (merged.mode === "free" && !isEmpty(merged.stripeSubscriptionId)) {
+      results.push({ ...base, memberPath: memberRef.path, action: "conflict", patch });
+      continue;
+    }
+
+    // 生きている今のサブスクを古い ID で置き換えない（dry-run でも Stripe を見て報告する）
+    const currentSubId = typeof current.stripeSubscriptionId === "string" ? current.stripeSubscriptionId : "";
+    if (currentSubId && "stripeSubscriptionId" in patch) {
+      const status = await subscriptionStatusOf(currentSubId);
+      if (status && isLiveSubscriptionStatus(status)) {
+        results.push({
+          ...base,
+          memberPath: memberRef.path,
+          action: "live_subscription",
+          patch,
+          detail: `${currentSubId} (${status})`,
+        });
+        continue;
+      }
+    }
+
+    const action: MergeAction = Object.keys(patch).length ? "merged" : "unchanged";
+    results.push({ ...base, memberPath: memberRef.path, action, patch });
+    if (dryRun) continue;
+
+    if (action === "merged") {
+      await memberRef.set(
+        {
+          billing: {
+            ...patch,
+            migratedFrom: COL_LEGACY,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+        },
+        { merge: true },
+      );
+
+      await writeAuditLog({
+        req,
+        actor,
+        action: "billing.migrate",
+        targetPath: memberRef.path,
+        before: { billing: memberData.billing ?? null },
+        after: { billing: (await memberRef.get()).data()?.billing ?? null },
+      });
+    }
+
+    await d.ref.set({ migratedAtMs: Date.now(), migratedTo: memberRef.path }, { merge: true });
+  }
+
+  const summary: Record<MergeAction, number> = {
+    merged: 0,
+    unchanged: 0,
+    no_member: 0,
+    no_billing: 0,
+    conflict: 0,
+    live_subscription: 0,
+    already_migrated: 0,
+  };
+  for (const r of results) summary[r.action]++;
+
+  return NextResponse.json({ ok: true, dryRun, summary, results });
+});
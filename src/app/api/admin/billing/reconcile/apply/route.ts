@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { ReconcileFixError, applyStripeTruth } from "@/lib/billingReconcile";
+
+export const runtime = "nodejs";
+
+type Body = {
+  reportId?: string;
+  index?: number;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/**
+ * レポートの差分1件を「Stripe を正」として修正
+ * body: reportId / index（report.items の位置）
+ */
+export const POST = withAdmin("billing:write", async (req, actor) => {
+  const body = (await req.json()) as Body;
+  const reportId = toStr(body.reportId).trim();
+  const index = typeof body.index === "number" && Number.isInteger(body.index) ? body.index : -1;
+
+  if (!reportId || index < 0) {
+    return NextResponse.json({ ok: false, error: "BAD_REQUEST" }, { status: 400 });
+  }
+
+  let result;
+  try {
+    result = await applyStripeTruth(reportId, index);
+  } catch (e) {
+    if (e instanceof ReconcileFixError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 409 });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "billing.reconcileApply",
+    targetPath: result.memberPath,
+    before: { billing: result.before },
+    after: { billing: result.after },
+  });
+
+  return NextResponse.json({ ok: true, memberPath: result.memberPath });
+});
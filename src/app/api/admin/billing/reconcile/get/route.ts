@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { withAdmin } from "@/lib/adminGuard";
+import { COL_RECONCILE } from "@/lib/billingReconcile";
+
+export const runtime = "nodejs";
+
+type Body = {
+  id?: string;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+export const POST = withAdmin("members:read", async (req) => {
+  const body = (await req.json()) as Body;
+  const id = toStr(body.id).trim();
+  if (!id) {
+    return NextResponse.json({ ok: false, error: "id_required" }, { status: 400 });
+  }
+
+  const snap = await getAdminDb().collection(COL_RECONCILE).doc(id).get();
+  if (!snap.exists) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const d = snap.data() ?? {};
+  return NextResponse.json({
+    ok: true,
+    report: {
+      id: snap.id,
+      createdAtMs: d.createdAtMs ?? null,
+      trigger: d.trigger ?? "",
+      actorUid: d.actorUid ?? "",
+      summary: d.summary ?? null,
+      items: d.items ?? [],
+      truncated: d.truncated === true,
+    },
+  });
+});
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { withAdmin } from "@/lib/adminGuard";
+import { COL_RECONCILE } from "@/lib/billingReconcile";
+
+export const runtime = "nodejs";
+
+const LIMIT = 20;
+
+// 直近のレポート（items は含めない）
+export const POST = withAdmin("members:read", async () => {
+  const snap = await getAdminDb()
+    .collection(COL_RECONCILE)
+    .orderBy("createdAtMs", "desc")
+    .select("createdAtMs", "trigger", "actorUid", "summary", "truncated")
+    .limit(LIMIT)
+    .get();
+
+  const reports = snap.docs.map((d) => ({ id: d.id, ...d.data() }));
+  return NextResponse.json({ ok: true, reports });
+});
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { COL_RECONCILE, runReconciliation } from "@/lib/billingReconcile";
+
+export const runtime = "nodejs";
+// メンバー数・サブスク数に比例して時間がかかる
+export const maxDuration = 300;
+
+// 突合を今すぐ実行（結果はレポートとして保存）
+export const POST = withAdmin("billing:write", async (req, actor) => {
+  const report = await runReconciliation({ trigger: "manual", actorUid: actor.uid });
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "billing.reconcile",
+    targetPath: `${COL_RECONCILE}/${report.id}`,
+    before: null,
+    after: { summary: report.summary, truncated: report.truncated },
+  });
+
+  return NextResponse.json({ ok: true, report });
+});
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { assignMemberToCompany, CompanyError } from "@/lib/reNovaCompany";
+import { COL_MEMBERS, findMemberRefByUid } from "@/lib/reNovaMember";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid?: string;
+  email?: string;
+  // null / 空 = 所属解除
+  companyId?: string | null;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+async function findMemberRef(uid: string, email: string) {
+  if (uid) return findMemberRefByUid(uid);
+  const q = await getAdminDb().collection(COL_MEMBERS).where("email", "==", email).limit(1).get();
+  return q.empty ? null : q.docs[0]!.ref;
+}
+
+/**
+ * メンバーの所属会社を変更（uid か email で指定）
+ * - 席数上限・会社課金との二重課金はここで弾く（reNovaCompany.assignMemberToCompany）
+ */
+export const POST = withAdmin("members:write", async (req, actor) => {
+  const body = (await req.json()) as Body;
+  const uid = toStr(body.uid).trim();
+  const email = toStr(body.email).trim();
+  const companyId = toStr(body.companyId).trim() || null;
+
+  if (!uid && !email) {
+    return NextResponse.json({ ok: false, error: "uid_or_email_required" }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRef(uid, email);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const before = (await memberRef.get()).data() ?? {};
+
+  let result;
+  try {
+    result = await assignMemberToCompany(memberRef, companyId);
+  } catch (e) {
+    if (e instanceof CompanyError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  const after = (await memberRef.get()).data() ?? {};
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "company.assignMember",
+    targetPath: memberRef.path,
+    before: { companyId: before.companyId ?? null, profile: before.profile ?? null, billing: before.billing ?? null },
+    after: { companyId: after.companyId ?? null, profile: after.profile ?? null, billing: after.billing ?? null },
+  });
+
+  return NextResponse.json({ ok: true, uid: memberRef.id, ...result });
+});
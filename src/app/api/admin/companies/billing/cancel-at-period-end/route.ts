@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { setCompanyCancelAtPeriodEnd } from "@/lib/companyBilling";
+import { COL_COMPANIES, CompanyError, getCompany } from "@/lib/reNovaCompany";
+
+export const runtime = "nodejs";
+
+type Body = {
+  companyId?: string;
+  cancelAtPeriodEnd?: boolean;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+// 会社課金の解約予約 / 取り消し
+export const POST = withAdmin("billing:write", async (req, actor) => {
+  const body = (await req.json()) as Body;
+  const companyId = toStr(body.companyId).trim();
+  if (!companyId || typeof body.cancelAtPeriodEnd !== "boolean") {
+    return NextResponse.json({ ok: false, error: "BAD_REQUEST" }, { status: 400 });
+  }
+
+  const before = await getCompany(companyId);
+
+  let result;
+  try {
+    result = await setCompanyCancelAtPeriodEnd(companyId, body.cancelAtPeriodEnd);
+  } catch (e) {
+    if (e instanceof CompanyError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "company.billingCancelAtPeriodEnd",
+    targetPath: `${COL_COMPANIES}/${companyId}`,
+    before: before ? { billing: before.billing } : null,
+    after: { billing: result.company.billing },
+  });
+
+  return NextResponse.json({ ok: true, company: result.company });
+});
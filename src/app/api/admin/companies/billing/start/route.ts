@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { PlanError } from "@/lib/billingPlans";
+import { startCompanyBilling } from "@/lib/companyBilling";
+import { COL_COMPANIES, CompanyError, getCompany } from "@/lib/reNovaCompany";
+
+export const runtime = "nodejs";
+
+type Body = {
+  companyId?: string;
+  planId?: string;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/**
+ * 会社課金を開始（選んだプランで 席数 = seatLimit のサブスクを作成、請求書払い）
+ * - 所属メンバーは billing.mode = company になり、status は会社のサブスクに従う
+ */
+export const POST = withAdmin("billing:write", async (req, actor) => {
+  const body = (await req.json()) as Body;
+  const companyId = toStr(body.companyId).trim();
+  const planId = toStr(body.planId).trim();
+  if (!companyId || !planId) {
+    return NextResponse.json({ ok: false, error: "BAD_REQUEST" }, { status: 400 });
+  }
+
+  const before = await getCompany(companyId);
+
+  let result;
+  try {
+    result = await startCompanyBilling(companyId, planId);
+  } catch (e) {
+    if (e instanceof CompanyError || e instanceof PlanError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "company.billingStart",
+    targetPath: `${COL_COMPANIES}/${companyId}`,
+    before: before ? { billing: before.billing } : null,
+    after: { billing: result.company.billing, members: result.members },
+  });
+
+  return NextResponse.json({
+    ok: true,
+    company: result.company,
+    subscriptionId: result.subscription.id,
+    members: result.members,
+  });
+});
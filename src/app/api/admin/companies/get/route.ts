@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { toMemberRow } from "@/lib/memberQuery";
+import { companyMembersQuery, getCompany } from "@/lib/reNovaCompany";
+
+export const runtime = "nodejs";
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+// 会社の詳細 + 所属メンバー
+export const POST = withAdmin("members:read", async (req) => {
+  const body = (await req.json()) as { id?: unknown };
+  const id = toStr(body.id).trim();
+  if (!id) {
+    return NextResponse.json({ ok: false, error: "id_required" }, { status: 400 });
+  }
+
+  const company = await getCompany(id);
+  if (!company) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const snap = await companyMembersQuery(id).get();
+  const members = snap.docs.map(toMemberRow).sort((a, b) => a.email.localeCompare(b.email));
+
+  return NextResponse.json({ ok: true, company, members });
+});
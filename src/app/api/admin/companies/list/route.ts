@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { countCompanyMembers, listCompanies } from "@/lib/reNovaCompany";
+
+export const runtime = "nodejs";
+
+// 会社一覧（席の使用数つき）
+export const POST = withAdmin("members:read", async () => {
+  const companies = await listCompanies();
+  const counts = await Promise.all(companies.map((c) => countCompanyMembers(c.id)));
+
+  return NextResponse.json({
+    ok: true,
+    companies: companies.map((c, i) => ({ ...c, memberCount: counts[i] })),
+  });
+});
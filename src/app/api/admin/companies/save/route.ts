@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { hasPermission, withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { isCompanyBilled, updateCompanyWithSeats } from "@/lib/companyBilling";
+import {
+  COL_COMPANIES,
+  CompanyError,
+  createCompany,
+  getCompany,
+  parseCompanyInput,
+  validateCompanyInput,
+} from "@/lib/reNovaCompany";
+
+export const runtime = "nodejs";
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/**
+ * 会社の作成（id なし）/ 更新（id あり）
+ * body: id / name / address / invoiceAddress { name, postalCode, address, email } / seatLimit（null = 無制限）
+ * - 同じ会社名（表記ゆれ込み）があれば作成せず 409
+ * - 会社課金中は席数 = Stripe の数量。変更すると次回請求で日割り（請求が変わるので billing:write も必要）
+ * - Stripe の変更に失敗したら席数は元のまま 502（試みたことは監査ログに残す）
+ */
+export const POST = withAdmin("members:write", async (req, actor) => {
+  const bodyUnknown: unknown = await req.json();
+  const body = (bodyUnknown ?? {}) as Record<string, unknown>;
+  const id = toStr(body.id).trim();
+
+  const input = parseCompanyInput(body);
+  const invalid = validateCompanyInput(input);
+  if (invalid) {
+    return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+  }
+
+  try {
+    if (!id) {
+      const { company, created } = await createCompany(input, actor.uid);
+      if (!created) {
+        return NextResponse.json(
+          { ok: false, error: "company_name_in_use", companyId: company.id },
+          { status: 409 },
+        );
+      }
+
+      await writeAuditLog({
+        req,
+        actor,
+        action: "company.create",
+        targetPath: `${COL_COMPANIES}/${company.id}`,
+        before: null,
+        after: company,
+      });
+      return NextResponse.json({ ok: true, company });
+    }
+
+    const current = await getCompany(id);
+    if (!current) throw new CompanyError("company_not_found", 404);
+    const billed = isCompanyBilled(current);
+    if (billed && input.seatLimit === null) throw new CompanyError("seatLimit_required");
+    if (billed && input.seatLimit !== current.seatLimit && !hasPermission(actor.role, "billing:write")) {
+      return NextResponse.json(
+        { ok: false, error: "FORBIDDEN", required: "billing:write" },
+        { status: 403 },
+      );
+    }
+
+    const { before, after, propagated, seatsError } = await updateCompanyWithSeats(
+      current,
+      input,
+      actor.uid,
+    );
+
+    await writeAuditLog({
+      req,
+      actor,
+      action: "company.update",
+      targetPath: `${COL_COMPANIES}/${id}`,
+      before,
+      after: {
+        ...after,
+        propagatedMembers: propagated,
+        ...(seatsError ? { requestedSeatLimit: input.seatLimit, seatsError } : {}),
+      },
+    });
+    if (seatsError) {
+      return NextResponse.json(
+        { ok: false, error: `stripe_seats_failed: ${seatsError}`, company: after },
+        { status: 502 },
+      );
+    }
+    return NextResponse.json({ ok: true, company: after, propagated });
+  } catch (e) {
+    if (e instanceof CompanyError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+});
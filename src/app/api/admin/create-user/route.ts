@@ -1,13 +1,34 @@
 import { NextResponse } from "next/server";
-import { getAdminAuth, getAdminDb } from "@/lib/firebaseAdmin";
-import { requireAdminFromRequest } from "@/lib/adminGuard";
-import admin from "firebase-admin";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import {
+  parseMemberInput,
+  toStr,
+  validateMemberInput,
+  validatePassword,
+} from "@/lib/memberProfile";
+import { PlanError, requireActivePlan } from "@/lib/billingPlans";
+import { sendMemberInvite } from "@/lib/memberInvite";
+import { ensureTrialCustomer, newTrial, trialStatusAt, validateTrialRange } from "@/lib/memberTrial";
+import {
+  assignMemberToCompany,
+  COL_COMPANIES,
+  CompanyError,
+  createCompany,
+  findCompanyByName,
+  getCompany,
+  requireSeatAvailable,
+  type Company,
+} from "@/lib/reNovaCompany";
+import { createMember, type BillingMode } from "@/lib/reNovaMember";
 
 export const runtime = "nodejs";
 
-type BillingMode = "free" | "paid";
+// invite: パスワード無しで作成して招待メール / password: 管理者が初期パスワードを決める（旧方式）
+type CreateMode = "invite" | "password";
 
 type Body = {
+  mode: CreateMode;
   email: string;
   password: string;
 
@@ -16,110 +37,182 @@ type Body = {
   phone: string;
   companyName: string;
   companyAddress: string;
+  // 既存の会社を選ぶ場合（省略時は companyName で探し、無ければ作成）
+  companyId: string;
 
   billingMode: BillingMode;
+  // paid / trial のみ（省略可。trial は期限後の移行先）
+  planId: string;
+  // trial のみ（epoch ms）
+  trialStartMs: number;
+  trialEndMs: number;
 };
 
-function toStr(v: unknown): string {
-  return typeof v === "string" ? v : "";
+// mode 省略時はパスワードがあれば password（旧クライアント互換）、無ければ invite。不明な値は null
+function toCreateMode(v: unknown, password: string): CreateMode | null {
+  if (v === "invite" || v === "password") return v;
+  if (v === undefined || v === null || v === "") return password ? "password" : "invite";
+  return null;
 }
 
 function toBillingMode(v: unknown): BillingMode {
-  return v === "free" ? "free" : "paid";
+  return v === "free" || v === "trial" ? v : "paid";
 }
 
-function normalizePhone(s: string): string {
-  return s.replace(/[^\d+]/g, "").trim();
+function toNumOrNull(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
 }
 
-export async function POST(req: Request) {
-  try {
-    await requireAdminFromRequest(req);
-
-    const bodyUnknown: unknown = await req.json();
-    const body = bodyUnknown as Partial<Body>;
-
-    const email = toStr(body.email).trim();
-    const password = toStr(body.password);
-
-    const fullName = toStr(body.fullName).trim();
-    const phone = normalizePhone(toStr(body.phone));
-    const companyName = toStr(body.companyName).trim();
-    const companyAddress = toStr(body.companyAddress).trim();
-
-    const billingMode = toBillingMode(body.billingMode);
-
-    // --- validation ---
-    if (!email) {
-      return NextResponse.json(
-        { ok: false, error: "email_required" },
-        { status: 400 },
-      );
-    }
-    if (!password || password.length < 6) {
-      return NextResponse.json(
-        { ok: false, error: "password_min_6" },
-        { status: 400 },
-      );
+/**
+ * メンバー作成
+ * - mode 省略時はパスワードの有無で決める。メール送信に失敗してもアカウントは作成済みなので ok で返す（詳細画面から再送）
+ */
+export const POST = withAdmin("members:write", async (req, actor) => {
+  const bodyUnknown: unknown = await req.json();
+  const body = bodyUnknown as Partial<Body>;
+
+  const mode = toCreateMode(body.mode, toStr(body.password));
+  if (!mode) {
+    return NextResponse.json({ ok: false, error: "mode_invalid" }, { status: 400 });
+  }
+  const input = parseMemberInput(body);
+  const password = mode === "password" ? toStr(body.password) : "";
+
+  const billingMode = toBillingMode(body.billingMode);
+  const planId = toStr(body.planId).trim();
+  const trialStartMs = toNumOrNull(body.trialStartMs);
+  const trialEndMs = toNumOrNull(body.trialEndMs);
+
+  // --- validation（update-member と共通） ---
+  const invalid =
+    validateMemberInput(input) ?? (mode === "password" ? validatePassword(password) : null);
+  if (invalid) {
+    return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+  }
+  if (planId && billingMode === "free") {
+    return NextResponse.json({ ok: false, error: "free_with_plan" }, { status: 400 });
+  }
+  const trialInvalid = billingMode === "trial" ? validateTrialRange(trialStartMs, trialEndMs) : null;
+  if (trialInvalid) {
+    return NextResponse.json({ ok: false, error: trialInvalid }, { status: 400 });
+  }
+  if (planId) {
+    try {
+      await requireActivePlan(planId);
+    } catch (e) {
+      if (e instanceof PlanError) {
+        return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+      }
+      throw e;
     }
-    if (!fullName) {
-      return NextResponse.json(
-        { ok: false, error: "fullName_required" },
-        { status: 400 },
-      );
+  }
+
+  // --- 会社（選択 or 名前で検索）。新しい会社はアカウント作成後に作る（作成失敗で会社だけ残さない） ---
+  const companyId = toStr(body.companyId).trim();
+  let company: Company | null;
+  try {
+    if (companyId) {
+      company = await getCompany(companyId);
+      if (!company) throw new CompanyError("company_not_found", 404);
+    } else {
+      company = await findCompanyByName(input.profile.companyName);
     }
-    if (!companyName) {
-      return NextResponse.json(
-        { ok: false, error: "companyName_required" },
-        { status: 400 },
-      );
+    if (company) await requireSeatAvailable(company);
+  } catch (e) {
+    if (e instanceof CompanyError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
     }
+    throw e;
+  }
+  if (company) {
+    // 会社名・住所は会社側の値に揃える
+    input.profile.companyName = company.name;
+    input.profile.companyAddress = company.address;
+  }
 
-    // --- create auth user ---
-    const userRecord = await getAdminAuth().createUser({
-      email,
-      password,
-      displayName: fullName,
-    });
-
-    const uid = userRecord.uid;
-
-    // --- create firestore doc ---
-    const db = getAdminDb();
+  const memberRef = await createMember({
+    input,
+    ...(mode === "password" ? { password } : {}),
+    billingMode,
+    ...(planId ? { planId } : {}),
+    ...(billingMode === "trial" && trialStartMs !== null && trialEndMs !== null
+      ? {
+          trial: newTrial(trialStartMs, trialEndMs),
+          status: trialStatusAt({ startMs: trialStartMs, endMs: trialEndMs }),
+        }
+      : {}),
+  });
+  const uid = memberRef.id;
+
+  // プラン付きトライアル：期限後に自動で移行できるよう Stripe 顧客を作る（失敗しても作成は ok）
+  // 会社課金の会社に入る場合は所属時にトライアル・プランを消すので作らない
+  let trialCustomerError = "";
+  if (billingMode === "trial" && planId && company?.billing.mode !== "company") {
+    try {
+      await ensureTrialCustomer({ memberRef, uid, email: input.email, fullName: input.profile.fullName });
+    } catch (e) {
+      console.error("trial customer failed", uid, e);
+      trialCustomerError = e instanceof Error ? e.message : "UNKNOWN";
+    }
+  }
 
-    // ✅ ここが reNovaMember
-    await db.collection("reNovaMember").doc(uid).set(
+  let companyCreated = false;
+  if (!company) {
+    ({ company, created: companyCreated } = await createCompany(
       {
-        uid,
-        email,
-
-        profile: {
-          fullName,
-          phone,
-          companyName,
-          companyAddress,
-        },
-
-        createdAt: admin.firestore.FieldValue.serverTimestamp(),
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-
-        billing: {
-          mode: billingMode, // free / paid
-          status: billingMode === "free" ? "active" : "inactive",
-          stripeCustomerId: "",
-          stripeSubscriptionId: "",
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        },
+        name: input.profile.companyName,
+        address: input.profile.companyAddress,
+        invoiceAddress: { name: "", postalCode: "", address: "", email: "" },
+        seatLimit: null,
       },
-      { merge: true },
-    );
+      actor.uid,
+    ));
+    if (companyCreated) {
+      await writeAuditLog({
+        req,
+        actor,
+        action: "company.create",
+        targetPath: `${COL_COMPANIES}/${company.id}`,
+        before: null,
+        after: company,
+      });
+    }
+  }
 
-    return NextResponse.json({ ok: true, uid });
+  // 席の確定（同時作成で埋まった場合はアカウントだけ作成済みで返す。会社ページから追加し直す）
+  let companyError = "";
+  try {
+    await assignMemberToCompany(memberRef, company.id);
   } catch (e) {
-    const msg = e instanceof Error ? e.message : "unknown";
-    const status =
-      msg === "missing_authorization" ? 401 : msg === "not_admin" ? 403 : 500;
-
-    return NextResponse.json({ ok: false, error: msg }, { status });
+    if (!(e instanceof CompanyError)) throw e;
+    companyError = e.message;
   }
-}
+
+  const invite =
+    mode === "invite"
+      ? await sendMemberInvite({
+          memberRef,
+          email: input.email,
+          fullName: input.profile.fullName,
+          sentBy: actor.uid,
+        })
+      : null;
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "member.create",
+    targetPath: memberRef.path,
+    before: null,
+    after: (await memberRef.get()).data(),
+  });
+
+  return NextResponse.json({
+    ok: true,
+    uid,
+    mode,
+    invite,
+    trialCustomerError,
+    company: { id: company.id, name: company.name, created: companyCreated, error: companyError },
+  });
+});
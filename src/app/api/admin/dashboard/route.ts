@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { loadDashboardStats } from "@/lib/dashboardStats";
+
+export const runtime = "nodejs";
+
+// ダッシュボードの集計（Stripe が失敗しても Firestore 側は返す。stripeError を見る）
+export const POST = withAdmin("members:read", async () => {
+  const stats = await loadDashboardStats();
+  return NextResponse.json({ ok: true, stats });
+});
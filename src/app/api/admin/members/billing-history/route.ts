@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { getBillingHistory } from "@/lib/billingHistory";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid?: string;
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+// billing.stripeCustomerId の請求書・支払い・返金・次回請求（読み取りのみ）
+export const POST = withAdmin("members:read", async (req) => {
+  const body = (await req.json()) as Body;
+  const uid = toStr(body.uid).trim();
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: "uid_required" }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const data = (await memberRef.get()).data() ?? {};
+  const billing = isObj(data.billing) ? data.billing : {};
+  const customerId = toStr(billing.stripeCustomerId);
+  if (!customerId) {
+    return NextResponse.json({ ok: false, error: "stripeCustomerId_missing" }, { status: 400 });
+  }
+
+  const history = await getBillingHistory(customerId);
+  return NextResponse.json({ ok: true, uid, history });
+});
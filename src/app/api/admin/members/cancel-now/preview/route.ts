@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+import { fixedCancelPlans, previewImmediateCancel } from "@/lib/stripeCancel";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid?: string;
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+// 即時解約の確認用（Stripe には何も書き込まない）
+// plans は補償ごとに実際に付けるクレジット額・返金額（解約時は prorationDate を渡すと同じ計算になる）
+export const POST = withAdmin("billing:write", async (req) => {
+  const body = (await req.json()) as Body;
+  const uid = toStr(body.uid).trim();
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: "uid_required" }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const data = (await memberRef.get()).data() ?? {};
+  const billing = isObj(data.billing) ? data.billing : {};
+  const stripeSubscriptionId = toStr(billing.stripeSubscriptionId);
+  if (!stripeSubscriptionId) {
+    return NextResponse.json({ ok: false, error: "stripeSubscriptionId_missing" }, { status: 400 });
+  }
+
+  const preview = await previewImmediateCancel(stripeSubscriptionId);
+  return NextResponse.json({ ok: true, uid, preview, plans: fixedCancelPlans(preview) });
+});
@@ -0,0 +1,162 @@
+import { NextResponse } from "next/server";
+import admin from "firebase-admin";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+import { subscriptionPeriodEndMs, toBillingStatus } from "@/lib/stripe";
+import {
+  CANCEL_REMEDIES,
+  CancelRequestError,
+  cancelImmediately,
+  previewImmediateCancel,
+  resolveCancelPlan,
+  type CancelPlan,
+  type CancelRemedy,
+} from "@/lib/stripeCancel";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid?: string;
+  remedy?: CancelRemedy;
+  refundAmount?: number;
+  prorationDate?: number;
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function toRemedy(v: unknown): CancelRemedy | null {
+  return CANCEL_REMEDIES.find((r) => r === v) ?? null;
+}
+
+/**
+ * 即時解約（契約トラブル・二重登録向け）
+ * body: uid / remedy（none | credit | prorated_refund | full_refund | partial_refund）
+ *       refundAmount（partial_refund のみ、最小通貨単位）/ prorationDate（プレビューで返った値）
+ * - 補償は1つだけ。額はプレビューと同じ prorationDate で Stripe から取り直して決める
+ * - 結果は reNovaMember.billing にミラー（webhook を待たない）
+ */
+export const POST = withAdmin("billing:write", async (req, actor) => {
+  const body = (await req.json()) as Body;
+  const uid = toStr(body.uid).trim();
+  const remedy = toRemedy(body.remedy);
+  const refundAmountIn = typeof body.refundAmount === "number" ? body.refundAmount : null;
+  const prorationDate =
+    typeof body.prorationDate === "number" && Number.isInteger(body.prorationDate)
+      ? body.prorationDate
+      : null;
+
+  if (!uid || !remedy) {
+    return NextResponse.json({ ok: false, error: "BAD_REQUEST" }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const before = (await memberRef.get()).data() ?? {};
+  const billing = isObj(before.billing) ? before.billing : {};
+  const stripeSubscriptionId = toStr(billing.stripeSubscriptionId);
+  if (!stripeSubscriptionId) {
+    return NextResponse.json({ ok: false, error: "stripeSubscriptionId_missing" }, { status: 400 });
+  }
+
+  const preview = await previewImmediateCancel(stripeSubscriptionId, prorationDate);
+  if (preview.subscriptionStatus === "canceled") {
+    return NextResponse.json({ ok: false, error: "already_canceled" }, { status: 409 });
+  }
+
+  let plan: CancelPlan;
+  try {
+    plan = resolveCancelPlan(remedy, refundAmountIn, preview);
+  } catch (e) {
+    if (e instanceof CancelRequestError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    }
+    throw e;
+  }
+
+  const { subscription, credit, refund, remedyError } = await cancelImmediately({
+    subscriptionId: stripeSubscriptionId,
+    customerId: preview.customerId,
+    currency: preview.currency,
+    plan,
+    lastPayment: preview.lastPayment,
+    metadata: { uid, reason: "admin_immediate_cancel" },
+  });
+
+  // ✅ Firestoreへミラー（UI表示用）
+  await memberRef.set(
+    {
+      billing: {
+        status: toBillingStatus(subscription.status),
+        stripeStatus: subscription.status,
+        cancelAtPeriodEnd: false,
+        currentPeriodEndMs: subscriptionPeriodEndMs(subscription),
+        canceledAtMs: subscription.canceled_at ? subscription.canceled_at * 1000 : Date.now(),
+        cancelMode: "immediate",
+        cancelRemedy: remedy,
+        lastCredit: credit
+          ? {
+              id: credit.id,
+              amount: -credit.amount,
+              currency: credit.currency,
+              createdAtMs: credit.created * 1000,
+            }
+          : null,
+        lastRefund: refund
+          ? {
+              id: refund.id,
+              amount: refund.amount,
+              currency: refund.currency,
+              status: refund.status ?? "",
+              invoiceId: preview.lastPayment?.invoiceId ?? "",
+              createdAtMs: refund.created * 1000,
+            }
+          : null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    },
+    { merge: true },
+  );
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "billing.cancelNow",
+    targetPath: memberRef.path,
+    before: { billing },
+    after: {
+      billing: (await memberRef.get()).data()?.billing ?? null,
+      remedy,
+      prorationDate: preview.prorationDate,
+      creditAmount: plan.creditAmount,
+      refundAmount: plan.refundAmount,
+      remedyError: remedyError || null,
+    },
+  });
+
+  // 解約は済んでいるので、補償だけ失敗した場合も状態は返す
+  if (remedyError) {
+    const code = plan.creditAmount > 0 ? "credit_failed" : "refund_failed";
+    return NextResponse.json(
+      { ok: false, error: `${code}: ${remedyError}`, canceled: true },
+      { status: 502 },
+    );
+  }
+
+  return NextResponse.json({
+    ok: true,
+    uid,
+    stripeStatus: subscription.status,
+    credit: credit ? { id: credit.id, amount: -credit.amount, currency: credit.currency } : null,
+    refund: refund ? { id: refund.id, amount: refund.amount, currency: refund.currency } : null,
+  });
+});
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { PlanError, requireActivePlan } from "@/lib/billingPlans";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+import { PlanChangeError, previewPlanChange } from "@/lib/stripePlanChange";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid?: string;
+  planId?: string;
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/**
+ * プラン変更の確認用（Stripe には何も書き込まない）
+ * - サブスク未作成（支払い待ち）のメンバーは preview: null（割当てプランだけ変わる）
+ */
+export const POST = withAdmin("billing:write", async (req) => {
+  const body = (await req.json()) as Body;
+  const uid = toStr(body.uid).trim();
+  const planId = toStr(body.planId).trim();
+  if (!uid || !planId) {
+    return NextResponse.json({ ok: false, error: "BAD_REQUEST" }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const data = (await memberRef.get()).data() ?? {};
+  const billing = isObj(data.billing) ? data.billing : {};
+  if (billing.mode === "free") {
+    return NextResponse.json({ ok: false, error: "member_is_free" }, { status: 409 });
+  }
+  if (billing.mode === "company") {
+    return NextResponse.json({ ok: false, error: "member_is_company_billed" }, { status: 409 });
+  }
+
+  try {
+    const plan = await requireActivePlan(planId);
+    const stripeSubscriptionId = toStr(billing.stripeSubscriptionId);
+    const preview = stripeSubscriptionId
+      ? await previewPlanChange(stripeSubscriptionId, plan.stripePriceId)
+      : null;
+    return NextResponse.json({ ok: true, uid, plan, preview });
+  } catch (e) {
+    if (e instanceof PlanError || e instanceof PlanChangeError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+});
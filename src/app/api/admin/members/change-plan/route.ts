@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import admin from "firebase-admin";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { PlanError, requireActivePlan } from "@/lib/billingPlans";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+import { billingMirrorOf } from "@/lib/stripe";
+import {
+  changeSubscriptionPrice,
+  PlanChangeError,
+  type ProrationBehavior,
+} from "@/lib/stripePlanChange";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid?: string;
+  planId?: string;
+  prorationBehavior?: ProrationBehavior;
+  prorationDate?: number;
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function toProrationBehavior(v: unknown): ProrationBehavior | null {
+  return v === "create_prorations" || v === "always_invoice" || v === "none" ? v : null;
+}
+
+/**
+ * プラン変更
+ * body: uid / planId / prorationBehavior / prorationDate（プレビューで返った値）
+ * - サブスクがあれば Stripe の Price を差し替えて billing にミラー（webhook を待たない）
+ * - サブスク未作成なら billing.planId だけ変える（支払い時にこのプランで契約）
+ */
+export const POST = withAdmin("billing:write", async (req, actor) => {
+  const body = (await req.json()) as Body;
+  const uid = toStr(body.uid).trim();
+  const planId = toStr(body.planId).trim();
+  const prorationBehavior = toProrationBehavior(body.prorationBehavior);
+  const prorationDate =
+    typeof body.prorationDate === "number" && Number.isInteger(body.prorationDate)
+      ? body.prorationDate
+      : null;
+
+  if (!uid || !planId || !prorationBehavior) {
+    return NextResponse.json({ ok: false, error: "BAD_REQUEST" }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const before = (await memberRef.get()).data() ?? {};
+  const billing = isObj(before.billing) ? before.billing : {};
+  if (billing.mode === "free") {
+    return NextResponse.json({ ok: false, error: "member_is_free" }, { status: 409 });
+  }
+  if (billing.mode === "company") {
+    return NextResponse.json({ ok: false, error: "member_is_company_billed" }, { status: 409 });
+  }
+
+  const stripeSubscriptionId = toStr(billing.stripeSubscriptionId);
+  let mirror = {};
+  try {
+    const plan = await requireActivePlan(planId);
+    if (stripeSubscriptionId) {
+      const sub = await changeSubscriptionPrice({
+        subscriptionId: stripeSubscriptionId,
+        newPriceId: plan.stripePriceId,
+        prorationBehavior,
+        prorationDate,
+        metadata: { uid, planId: plan.id },
+      });
+      mirror = billingMirrorOf(sub);
+    }
+  } catch (e) {
+    if (e instanceof PlanError || e instanceof PlanChangeError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await memberRef.set(
+    {
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      billing: {
+        ...mirror,
+        planId,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    },
+    { merge: true },
+  );
+
+  const after = (await memberRef.get()).data()?.billing ?? null;
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "billing.changePlan",
+    targetPath: memberRef.path,
+    before: { billing },
+    after: { billing: after, prorationBehavior },
+  });
+
+  return NextResponse.json({ ok: true, uid, billing: after });
+});
@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import admin from "firebase-admin";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import {
+  accountStateOf,
+  cancelSubscriptionNow,
+  purgeAfterMs,
+  setAuthDisabled,
+} from "@/lib/memberAccount";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+import { toBillingStatus } from "@/lib/stripe";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid?: string;
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/**
+ * 論理削除
+ * - Auth を無効化してトークン失効
+ * - Stripe サブスクを即時解約（失敗したら削除しない）
+ * - account.state = deleted、purgeAfterMs 経過後に cron（または purge）で物理削除
+ */
+export const POST = withAdmin("members:write", async (req, actor) => {
+  const body = (await req.json()) as Body;
+  const uid = toStr(body.uid).trim();
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: "uid_required" }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const before = (await memberRef.get()).data() ?? {};
+  if (accountStateOf(before) === "deleted") {
+    return NextResponse.json({ ok: false, error: "already_deleted" }, { status: 409 });
+  }
+
+  const billing = isObj(before.billing) ? before.billing : {};
+
+  // ✅ 課金を止めてから削除扱いにする
+  let sub;
+  try {
+    sub = await cancelSubscriptionNow(toStr(billing.stripeSubscriptionId));
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "UNKNOWN";
+    return NextResponse.json({ ok: false, error: `stripe_cancel_failed: ${msg}` }, { status: 502 });
+  }
+
+  await setAuthDisabled(uid, true);
+
+  const now = Date.now();
+  await memberRef.set(
+    {
+      account: {
+        state: "deleted",
+        deletedAtMs: now,
+        deletedBy: actor.uid,
+        purgeAfterMs: purgeAfterMs(now),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      ...(sub
+        ? {
+            billing: {
+              status: toBillingStatus(sub.status),
+              stripeStatus: sub.status,
+              cancelAtPeriodEnd: false,
+              updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            },
+          }
+        : {}),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true },
+  );
+
+  const after = (await memberRef.get()).data() ?? {};
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "member.delete",
+    targetPath: memberRef.path,
+    before: { account: before.account ?? null, billing: before.billing ?? null },
+    after: { account: after.account ?? null, billing: after.billing ?? null },
+  });
+
+  return NextResponse.json({
+    ok: true,
+    uid,
+    purgeAfterMs: purgeAfterMs(now),
+    stripeStatus: sub?.status ?? null,
+  });
+});
@@ -0,0 +1,126 @@
+import { PassThrough, Readable } from "node:stream";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { UTF8_BOM, toCsvLine } from "@/lib/csv";
+import { EXPORT_COLUMNS, iterateMembers, toExportRow, writeExportXlsx } from "@/lib/memberExport";
+import { parseMemberListQuery } from "@/lib/memberQuery";
+import { COL_MEMBERS } from "@/lib/reNovaMember";
+
+export const runtime = "nodejs";
+
+type ExportFormat = "csv" | "xlsx";
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// CSV は 100 行ずつ流す
+const CSV_CHUNK_ROWS = 100;
+
+function ymd(d: Date): string {
+  const p = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}${p(d.getMonth() + 1)}${p(d.getDate())}`;
+}
+
+/**
+ * body: members/list と同じ検索・絞り込み条件 + format（csv | xlsx）
+ * - 全件をメモリに載せずにストリームで返す
+ * - 誰がいつ何件出力したかを監査ログに残す（ダウンロードが中断されたら error = cancelled）
+ */
+export const POST = withAdmin("members:read", async (req, actor) => {
+  const bodyUnknown: unknown = await req.json().catch(() => ({}));
+  const body = (bodyUnknown ?? {}) as Record<string, unknown>;
+
+  const format: ExportFormat = body.format === "xlsx" ? "xlsx" : "csv";
+  const q = parseMemberListQuery(body);
+  const db = getAdminDb();
+
+  // 途中で中断されても（cancelled）それまでに出した件数で1回だけ記録する
+  let count = 0;
+  let recorded = false;
+  const recordExport = async (error: string | null) => {
+    if (recorded) return;
+    recorded = true;
+    await writeAuditLog({
+      req,
+      actor,
+      action: "members.export",
+      targetPath: COL_MEMBERS,
+      before: null,
+      after: { format, query: q, count, error },
+    });
+  };
+
+  const headers = {
+    "Content-Type": CONTENT_TYPES[format],
+    "Content-Disposition": `attachment; filename="members-${ymd(new Date())}.${format}"`,
+    "Cache-Control": "no-store",
+  };
+
+  if (format === "csv") {
+    const encoder = new TextEncoder();
+    const it = iterateMembers(db, q);
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // Excel で日本語が化けないよう BOM 付き
+        controller.enqueue(encoder.encode(UTF8_BOM + toCsvLine(EXPORT_COLUMNS.map((c) => c.header))));
+      },
+      async pull(controller) {
+        try {
+          let chunk = "";
+          for (let i = 0; i < CSV_CHUNK_ROWS; i++) {
+            const next = await it.next();
+            if (next.done) {
+              if (chunk) controller.enqueue(encoder.encode(chunk));
+              await recordExport(null);
+              controller.close();
+              return;
+            }
+            const row = toExportRow(next.value);
+            chunk += toCsvLine(EXPORT_COLUMNS.map((c) => row[c.key]));
+            count++;
+          }
+          controller.enqueue(encoder.encode(chunk));
+        } catch (e) {
+          await recordExport(e instanceof Error ? e.message : "UNKNOWN");
+          controller.error(e);
+        }
+      },
+      async cancel() {
+        await it.return(undefined);
+        await recordExport("cancelled");
+      },
+    });
+
+    return new Response(stream, { headers });
+  }
+
+  // --- xlsx（ExcelJS のストリーミングライター） ---
+  const pass = new PassThrough();
+  // 受け手が読み切る前に閉じた = ダウンロードの中断
+  pass.once("close", () => {
+    if (!pass.readableEnded) void recordExport("cancelled");
+  });
+  async function* rows() {
+    for await (const d of iterateMembers(db, q)) {
+      if (pass.destroyed) throw new Error("cancelled");
+      yield toExportRow(d);
+      count++;
+    }
+  }
+
+  void (async () => {
+    try {
+      await writeExportXlsx(pass, rows());
+      await recordExport(null);
+    } catch (e) {
+      await recordExport(e instanceof Error ? e.message : "UNKNOWN");
+      pass.destroy(e instanceof Error ? e : new Error("export_failed"));
+    }
+  })();
+
+  return new Response(Readable.toWeb(pass) as ReadableStream<Uint8Array>, { headers });
+});
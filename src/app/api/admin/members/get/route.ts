@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import admin from "firebase-admin";
+import { getAdminAuth } from "@/lib/firebaseAdmin";
+import { withAdmin } from "@/lib/adminGuard";
+import { inviteStatusOf, refreshInviteStatus } from "@/lib/memberInvite";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid?: string;
+};
+
+type AuthInfo = {
+  email: string;
+  emailVerified: boolean;
+  disabled: boolean;
+  displayName: string;
+  creationTime: string;
+  lastSignInTime: string;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// Timestamp → ms（画面でそのまま扱える形に）
+function toJsonValue(v: unknown): unknown {
+  if (v instanceof admin.firestore.Timestamp) return v.toMillis();
+  if (Array.isArray(v)) return v.map(toJsonValue);
+  if (isObj(v)) {
+    const out: Record<string, unknown> = {};
+    for (const [k, x] of Object.entries(v)) out[k] = toJsonValue(x);
+    return out;
+  }
+  return v;
+}
+
+async function getAuthInfo(uid: string): Promise<AuthInfo | null> {
+  try {
+    const u = await getAdminAuth().getUser(uid);
+    return {
+      email: u.email ?? "",
+      emailVerified: u.emailVerified,
+      disabled: u.disabled,
+      displayName: u.displayName ?? "",
+      creationTime: u.metadata.creationTime ?? "",
+      lastSignInTime: u.metadata.lastSignInTime ?? "",
+    };
+  } catch (e) {
+    const code = isObj(e) ? e.code : null;
+    if (code === "auth/user-not-found") return null;
+    throw e;
+  }
+}
+
+export const POST = withAdmin("members:read", async (req) => {
+  const body = (await req.json()) as Body;
+  const uid = toStr(body.uid).trim();
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: "uid_required" }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  // 招待中なら初回ログイン済みかを確認してから読む
+  await refreshInviteStatus(memberRef, uid);
+  const [snap, authUser] = await Promise.all([memberRef.get(), getAuthInfo(uid)]);
+
+  return NextResponse.json({
+    ok: true,
+    uid,
+    path: memberRef.path,
+    member: toJsonValue(snap.data() ?? {}),
+    inviteStatus: inviteStatusOf(snap.data()),
+    authUser,
+  });
+});
@@ -0,0 +1,155 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { sendMemberInvite, type InviteStatus } from "@/lib/memberInvite";
+import { IMPORT_BATCH_SIZE, checkImportRow, type ImportRow } from "@/lib/memberImport";
+import {
+  assignMemberToCompany,
+  COL_COMPANIES,
+  CompanyError,
+  createCompany,
+  findCompanyByName,
+  requireSeatAvailable,
+} from "@/lib/reNovaCompany";
+import { createMember } from "@/lib/reNovaMember";
+
+export const runtime = "nodejs";
+
+type Body = {
+  rows: ImportRow[];
+};
+
+type RowResult = {
+  line: number;
+  email: string;
+  uid: string;
+  // 招待メールの結果（作成できた行のみ）
+  invite: { status: InviteStatus; error: string } | null;
+  error: string;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function toImportRow(v: unknown): ImportRow {
+  const o = (typeof v === "object" && v !== null ? v : {}) as Record<string, unknown>;
+  return {
+    line: typeof o.line === "number" ? o.line : 0,
+    email: toStr(o.email),
+    fullName: toStr(o.fullName),
+    phone: toStr(o.phone),
+    companyName: toStr(o.companyName),
+    companyAddress: toStr(o.companyAddress),
+    billingMode: toStr(o.billingMode),
+  };
+}
+
+function errorCode(e: unknown): string {
+  const code =
+    typeof e === "object" && e !== null ? toStr((e as { code?: unknown }).code) : "";
+  if (code === "auth/email-already-exists") return "email_already_exists";
+  if (code) return code;
+  return e instanceof Error ? e.message : "unknown";
+}
+
+/**
+ * dry-run 済みの行を IMPORT_BATCH_SIZE 件ずつ作成
+ * - サーバー側でも同じチェックをやり直す（クライアントの結果は信用しない）
+ * - パスワードは作らない。create-user の招待モードと同じく招待メールを送る（リンクは返さない）
+ * - 会社は会社名（表記ゆれ吸収）で探し、無ければアカウント作成後に作成して所属させる
+ * - 既存の会社の席が埋まっていれば、アカウントを作らずに行エラー
+ */
+export const POST = withAdmin("members:write", async (req, actor) => {
+  const body = (await req.json()) as Partial<Body>;
+  const rows = Array.isArray(body.rows) ? body.rows.map(toImportRow) : [];
+
+  if (rows.length === 0) {
+    return NextResponse.json({ ok: false, error: "rows_required" }, { status: 400 });
+  }
+  if (rows.length > IMPORT_BATCH_SIZE) {
+    return NextResponse.json(
+      { ok: false, error: `too_many_rows:max_${IMPORT_BATCH_SIZE}` },
+      { status: 400 },
+    );
+  }
+
+  const results: RowResult[] = [];
+
+  for (const row of rows) {
+    const { input, billingMode, errors } = checkImportRow(row);
+    const base = { line: row.line, email: input.email, uid: "", invite: null };
+
+    if (errors.length > 0 || !billingMode) {
+      results.push({ ...base, error: errors.join(" ") });
+      continue;
+    }
+
+    try {
+      // 席の事前チェック（アカウントを作ってから席エラーにしない）
+      let company = await findCompanyByName(input.profile.companyName);
+      if (company) {
+        await requireSeatAvailable(company);
+        input.profile.companyName = company.name;
+        input.profile.companyAddress = company.address;
+      }
+
+      const memberRef = await createMember({ input, billingMode });
+
+      if (!company) {
+        const made = await createCompany(
+          {
+            name: input.profile.companyName,
+            address: input.profile.companyAddress,
+            invoiceAddress: { name: "", postalCode: "", address: "", email: "" },
+            seatLimit: null,
+          },
+          actor.uid,
+        );
+        company = made.company;
+        if (made.created) {
+          await writeAuditLog({
+            req,
+            actor,
+            action: "company.create",
+            targetPath: `${COL_COMPANIES}/${company.id}`,
+            before: null,
+            after: company,
+          });
+        }
+      }
+
+      // 同時登録で席が埋まった場合はアカウント作成済みのまま行エラーにする（会社ページから追加し直す）
+      let companyError = "";
+      try {
+        await assignMemberToCompany(memberRef, company.id);
+      } catch (e) {
+        if (!(e instanceof CompanyError)) throw e;
+        companyError = `company:${e.message}`;
+      }
+
+      const invite = await sendMemberInvite({
+        memberRef,
+        email: input.email,
+        fullName: input.profile.fullName,
+        sentBy: actor.uid,
+      });
+
+      await writeAuditLog({
+        req,
+        actor,
+        action: "member.import",
+        targetPath: memberRef.path,
+        before: null,
+        after: (await memberRef.get()).data(),
+      });
+
+      results.push({ ...base, uid: memberRef.id, invite, error: companyError });
+    } catch (e) {
+      const error = e instanceof CompanyError ? `company:${e.message}` : errorCode(e);
+      results.push({ ...base, error });
+    }
+  }
+
+  return NextResponse.json({ ok: true, results });
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { buildImportReport, rowsFromCsv } from "@/lib/memberImport";
+
+export const runtime = "nodejs";
+
+type Body = {
+  csv: string;
+};
+
+// 書き込みはしない。行ごとのエラーを返すだけ
+export const POST = withAdmin("members:write", async (req) => {
+  const body = (await req.json()) as Partial<Body>;
+  const csv = typeof body.csv === "string" ? body.csv : "";
+  if (!csv.trim()) {
+    return NextResponse.json({ ok: false, error: "csv_required" }, { status: 400 });
+  }
+
+  const parsed = rowsFromCsv(csv);
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+  }
+
+  const rows = await buildImportReport(parsed.rows);
+  const invalid = rows.filter((r) => r.errors.length > 0).length;
+
+  return NextResponse.json({
+    ok: true,
+    rows,
+    summary: { total: rows.length, valid: rows.length - invalid, invalid },
+  });
+});
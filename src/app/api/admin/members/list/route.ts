@@ -1,58 +1,63 @@
 import { NextResponse } from "next/server";
-import { getAdminDb } from "@/lib/adminAuth";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { withAdmin } from "@/lib/adminGuard";
+import { COL_MEMBERS } from "@/lib/reNovaMember";
+import {
+  buildMemberQuery,
+  parseMemberListQuery,
+  startAfterCursor,
+  toMemberRow,
+  type MemberRow,
+} from "@/lib/memberQuery";
 
 export const runtime = "nodejs";
 
-type BillingStatus = "active" | "inactive";
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
 
-type MemberRow = {
-  uid: string;
-  email: string;
-  status: BillingStatus;
-  stripeSubscriptionId: string;
-  cancelAtPeriodEnd: boolean | null;
-  currentPeriodEndMs: number | null;
-};
-
-function pickStatus(v: unknown): BillingStatus {
-  return v === "active" ? "active" : "inactive";
-}
 function toStr(v: unknown): string {
   return typeof v === "string" ? v : "";
 }
-function toBoolOrNull(v: unknown): boolean | null {
-  return typeof v === "boolean" ? v : null;
-}
 function toNumOrNull(v: unknown): number | null {
-  return typeof v === "number" ? v : null;
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function POST(_req: Request) {
-  try {
-    const db = getAdminDb();
-    const snap = await db.collection("reNovaMember").get();
-
-    const members: MemberRow[] = snap.docs.map((d) => {
-      const data = d.data() as Record<string, unknown>;
-      const billing = (data.billing as Record<string, unknown> | undefined) ?? {};
-
-      const uid = toStr(data.uid) || d.id;
-      const email = toStr(data.email);
-
-      return {
-        uid,
-        email,
-        status: pickStatus(billing.status),
-        stripeSubscriptionId: toStr(billing.stripeSubscriptionId),
-        cancelAtPeriodEnd: toBoolOrNull(billing.cancelAtPeriodEnd),
-        currentPeriodEndMs: toNumOrNull(billing.currentPeriodEndMs),
-      };
-    });
-
-    return NextResponse.json({ ok: true, members });
-  } catch (e) {
-    const msg = e instanceof Error ? e.message : "UNKNOWN";
-    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+/**
+ * body:
+ * - search / searchField（email | companyName | fullName の前方一致）
+ * - status / mode / cancelScheduled / accountState（絞り込み）
+ * - sort（email | createdAt | currentPeriodEnd）/ dir
+ * - cursor（前ページ最後の docId。消えていれば 400 cursor_not_found）/ limit
+ */
+export const POST = withAdmin("members:read", async (req) => {
+  const bodyUnknown: unknown = await req.json().catch(() => ({}));
+  const body = (bodyUnknown ?? {}) as Record<string, unknown>;
+
+  const q = parseMemberListQuery(body);
+  const cursor = toStr(body.cursor);
+  const limit = Math.min(
+    Math.max(Math.trunc(toNumOrNull(body.limit) ?? DEFAULT_LIMIT), 1),
+    MAX_LIMIT,
+  );
+
+  const db = getAdminDb();
+  let query = buildMemberQuery(db, q);
+
+  if (cursor) {
+    const cursorSnap = await db.collection(COL_MEMBERS).doc(cursor).get();
+    const next = startAfterCursor(query, cursorSnap);
+    if (!next) {
+      return NextResponse.json({ ok: false, error: "cursor_not_found" }, { status: 400 });
+    }
+    query = next;
   }
-}
+
+  // 1件多く取って次ページの有無を判定
+  const snap = await query.limit(limit + 1).get();
+  const docs = snap.docs.slice(0, limit);
+
+  const members: MemberRow[] = docs.map(toMemberRow);
+  const nextCursor = snap.docs.length > limit ? docs[docs.length - 1]!.id : null;
+
+  return NextResponse.json({ ok: true, members, nextCursor });
+});
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { accountStateOf, purgeMember } from "@/lib/memberAccount";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid?: string;
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/**
+ * 物理削除（Auth ユーザー + reNovaMember）
+ * - 論理削除済み かつ 保持期間（purgeAfterMs）経過後のみ
+ * - 通常は /api/cron/purge-members が自動で行う
+ */
+export const POST = withAdmin("members:write", async (req, actor) => {
+  const body = (await req.json()) as Body;
+  const uid = toStr(body.uid).trim();
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: "uid_required" }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const before = (await memberRef.get()).data() ?? {};
+  if (accountStateOf(before) !== "deleted") {
+    return NextResponse.json({ ok: false, error: "not_deleted" }, { status: 409 });
+  }
+
+  const account = isObj(before.account) ? before.account : {};
+  const purgeAfter = typeof account.purgeAfterMs === "number" ? account.purgeAfterMs : null;
+  if (purgeAfter === null || purgeAfter > Date.now()) {
+    return NextResponse.json(
+      { ok: false, error: "retention_not_elapsed", purgeAfterMs: purgeAfter },
+      { status: 409 },
+    );
+  }
+
+  await purgeMember(memberRef, uid);
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "member.purge",
+    targetPath: memberRef.path,
+    before,
+    after: null,
+  });
+
+  return NextResponse.json({ ok: true, uid });
+});
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { accountStateOf } from "@/lib/memberAccount";
+import { inviteStatusOf, refreshInviteStatus, sendMemberInvite } from "@/lib/memberInvite";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid?: string;
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/**
+ * 招待メールの再送（新しいパスワード設定リンクを発行）
+ * - ログイン済み（accepted）や停止中・削除済みのメンバーには送らない
+ */
+export const POST = withAdmin("members:write", async (req, actor) => {
+  const body = (await req.json()) as Body;
+  const uid = toStr(body.uid).trim();
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: "uid_required" }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  await refreshInviteStatus(memberRef, uid);
+  const before = (await memberRef.get()).data() ?? {};
+
+  if (accountStateOf(before) !== "active") {
+    return NextResponse.json({ ok: false, error: "member_not_active" }, { status: 409 });
+  }
+  if (inviteStatusOf(before) === "accepted") {
+    return NextResponse.json({ ok: false, error: "invite_already_accepted" }, { status: 409 });
+  }
+
+  const email = toStr(before.email);
+  const profile = isObj(before.profile) ? before.profile : {};
+  if (!email) {
+    return NextResponse.json({ ok: false, error: "email_missing" }, { status: 400 });
+  }
+
+  const result = await sendMemberInvite({
+    memberRef,
+    email,
+    fullName: toStr(profile.fullName),
+    sentBy: actor.uid,
+  });
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "member.inviteResend",
+    targetPath: memberRef.path,
+    before: { invite: before.invite ?? null },
+    after: { invite: (await memberRef.get()).data()?.invite ?? null },
+  });
+
+  if (result.status === "failed") {
+    return NextResponse.json({ ok: false, error: `mail_failed: ${result.error}` }, { status: 502 });
+  }
+  return NextResponse.json({ ok: true, uid, invite: result });
+});
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import admin from "firebase-admin";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { accountStateOf, setAuthDisabled } from "@/lib/memberAccount";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid?: string;
+  disabled?: boolean;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/**
+ * 利用停止 / 再開
+ * - Firebase Auth の disabled を切り替え（停止時はリフレッシュトークンも失効）
+ * - reNovaMember.account.state に反映
+ * - 削除済みメンバーは対象外
+ */
+export const POST = withAdmin("members:write", async (req, actor) => {
+  const body = (await req.json()) as Body;
+  const uid = toStr(body.uid).trim();
+  const disabled = typeof body.disabled === "boolean" ? body.disabled : null;
+
+  if (!uid || disabled === null) {
+    return NextResponse.json({ ok: false, error: "BAD_REQUEST" }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const before = (await memberRef.get()).data() ?? {};
+  if (accountStateOf(before) === "deleted") {
+    return NextResponse.json({ ok: false, error: "member_deleted" }, { status: 409 });
+  }
+
+  const authUpdated = await setAuthDisabled(uid, disabled);
+
+  await memberRef.set(
+    {
+      account: {
+        state: disabled ? "disabled" : "active",
+        disabledAtMs: disabled ? Date.now() : null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true },
+  );
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: disabled ? "member.disable" : "member.enable",
+    targetPath: memberRef.path,
+    before: { account: before.account ?? null },
+    after: { account: (await memberRef.get()).data()?.account ?? null },
+  });
+
+  return NextResponse.json({ ok: true, uid, disabled, authUpdated });
+});
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { listPlans } from "@/lib/billingPlans";
+
+export const runtime = "nodejs";
+
+// プラン一覧（停止中も含む。選択肢に出すかは画面側で active を見る）
+export const POST = withAdmin("members:read", async () => {
+  const plans = await listPlans();
+  return NextResponse.json({ ok: true, plans });
+});
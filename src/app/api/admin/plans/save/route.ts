@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import {
+  COL_PLANS,
+  getPlan,
+  parsePlanInput,
+  PlanError,
+  savePlan,
+  validatePlanInput,
+} from "@/lib/billingPlans";
+
+export const runtime = "nodejs";
+
+/**
+ * プランの作成 / 更新
+ * body: id / name / description / stripePriceId / active / sortOrder
+ * - 削除は無し（active=false で新規選択不可にする。既存メンバーの表示が崩れないように）
+ */
+export const POST = withAdmin("billing:write", async (req, actor) => {
+  const bodyUnknown: unknown = await req.json();
+  const input = parsePlanInput((bodyUnknown ?? {}) as Record<string, unknown>);
+
+  const invalid = validatePlanInput(input);
+  if (invalid) {
+    return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+  }
+
+  const before = await getPlan(input.id);
+
+  let plan;
+  try {
+    plan = await savePlan(input, actor.uid);
+  } catch (e) {
+    if (e instanceof PlanError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: before ? "plan.update" : "plan.create",
+    targetPath: `${COL_PLANS}/${plan.id}`,
+    before,
+    after: plan,
+  });
+
+  return NextResponse.json({ ok: true, plan });
+});
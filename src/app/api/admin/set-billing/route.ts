@@ -1,14 +1,21 @@
 import { NextResponse } from "next/server";
-import { getAdminDb } from "@/lib/firebaseAdmin";
-import { requireAdminFromRequest } from "@/lib/adminGuard";
 import admin from "firebase-admin";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import {
+  BillingSettingsError,
+  parseBillingSettings,
+  resolveBillingSettings,
+  validateBillingShape,
+} from "@/lib/billingSettings";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
 
 export const runtime = "nodejs";
 
 type Body = {
   uid: string;
   mode: "free" | "paid";
-  status: "active" | "inactive";
+  status?: "active" | "inactive" | null; // free のみ
   stripeCustomerId?: string | null;
   stripeSubscriptionId?: string | null;
 };
@@ -17,52 +24,74 @@ function toStr(v: unknown): string {
   return typeof v === "string" ? v : "";
 }
 
-function toMode(v: unknown): "free" | "paid" {
-  return v === "free" ? "free" : "paid";
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
 }
 
-function toStatus(v: unknown): "active" | "inactive" {
-  return v === "active" ? "active" : "inactive";
-}
+/**
+ * reNovaMember.billing を手動で設定
+ * - paid + subscription: Stripe の実体を確認し、状態は Stripe からミラー
+ * - paid（subscription なし）: inactive（支払い待ち）
+ * - free: subscription id は指定不可。生きているサブスクがあれば先に解約が必要
+ */
+export const POST = withAdmin("billing:write", async (req, actor) => {
+  const bodyUnknown: unknown = await req.json();
+  const body = (bodyUnknown ?? {}) as Partial<Body>;
 
-export async function POST(req: Request) {
-  try {
-    await requireAdminFromRequest(req);
+  const uid = toStr(body.uid).trim();
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: "uid_required" }, { status: 400 });
+  }
 
-    const bodyUnknown: unknown = await req.json();
-    const body = bodyUnknown as Partial<Body>;
+  const input = parseBillingSettings(body as Record<string, unknown>);
+  if (!input) {
+    return NextResponse.json({ ok: false, error: "mode_invalid" }, { status: 400 });
+  }
 
-    const uid = toStr(body.uid).trim();
-    if (!uid) {
-      return NextResponse.json({ ok: false, error: "uid_required" }, { status: 400 });
-    }
+  const invalid = validateBillingShape(input);
+  if (invalid) {
+    return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+  }
 
-    const mode = toMode(body.mode);
-    const status = toStatus(body.status);
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
 
-    const stripeCustomerId = toStr(body.stripeCustomerId ?? "");
-    const stripeSubscriptionId = toStr(body.stripeSubscriptionId ?? "");
+  const beforeData = (await memberRef.get()).data() ?? {};
+  const current = isObj(beforeData.billing) ? beforeData.billing : {};
 
-    const db = getAdminDb();
-    await db.collection("renovaUsers").doc(uid).set(
-      {
+  let billing: Record<string, unknown>;
+  try {
+    billing = await resolveBillingSettings({ input, current, memberPath: memberRef.path });
+  } catch (e) {
+    if (e instanceof BillingSettingsError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await memberRef.set(
+    {
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      billing: {
+        ...billing,
         updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        billing: {
-          mode,
-          status,
-          stripeCustomerId,
-          stripeSubscriptionId,
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        },
       },
-      { merge: true },
-    );
+    },
+    { merge: true },
+  );
 
-    return NextResponse.json({ ok: true });
-  } catch (e) {
-    const msg = e instanceof Error ? e.message : "unknown";
-    const status =
-      msg === "missing_authorization" ? 401 : msg === "not_admin" ? 403 : 500;
-    return NextResponse.json({ ok: false, error: msg }, { status });
-  }
-}
+  const after = (await memberRef.get()).data()?.billing ?? null;
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "billing.set",
+    targetPath: memberRef.path,
+    before: { billing: beforeData.billing ?? null },
+    after: { billing: after },
+  });
+
+  return NextResponse.json({ ok: true, uid, billing: after });
+});
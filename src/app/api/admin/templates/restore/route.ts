@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import {
+  COL_TEMPLATES,
+  getTemplateVersion,
+  parseDocId,
+  parseLabel,
+  parseRevision,
+  saveTemplate,
+  validateSteps,
+  WorkTemplateError,
+} from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+/**
+ * 版の復元（その版の内容で上書き保存。今の内容は versions に退避される）
+ * body: workTypeId / versionId / baseRevision（保存と同じく、読み込んだ後に更新されていれば 409）
+ */
+export const POST = withAdmin("templates:write", async (req, actor) => {
+  const body = (await req.json()) as { workTypeId?: unknown; versionId?: unknown; baseRevision?: unknown };
+  const id = parseDocId(body.workTypeId);
+  const versionId = parseDocId(body.versionId);
+  const baseRevision = parseRevision(body.baseRevision);
+  if (!id || !versionId || baseRevision === null) {
+    return NextResponse.json({ ok: false, error: "BAD_REQUEST" }, { status: 400 });
+  }
+
+  const version = await getTemplateVersion(id, versionId);
+  if (!version) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  // 古い版でも今の検証を通す（通らなければ復元しない）
+  const title = parseLabel(version.title) ?? id;
+  const parsed = validateSteps(version.steps);
+  if ("error" in parsed) {
+    return NextResponse.json({ ok: false, error: `version_${parsed.error}` }, { status: 409 });
+  }
+
+  let result;
+  try {
+    result = await saveTemplate({
+      id,
+      title,
+      steps: parsed.steps,
+      author: { uid: actor.uid, email: actor.email },
+      reason: "restore",
+      baseRevision,
+    });
+  } catch (e) {
+    if (e instanceof WorkTemplateError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "template.restore",
+    targetPath: `${COL_TEMPLATES}/${id}`,
+    before: result.before,
+    after: { ...(result.after as Record<string, unknown>), versionId },
+  });
+
+  return NextResponse.json({ ok: true, title, steps: parsed.steps, revision: result.revision });
+});
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import {
+  COL_TEMPLATES,
+  parseDocId,
+  parseLabel,
+  parseRevision,
+  saveTemplate,
+  validateSteps,
+  WorkTemplateError,
+} from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+/**
+ * テンプレの上書き保存
+ * body: workTypeId / title / steps [{ id, name, order }] / baseRevision
+ * - name は trim して空不可、id は重複不可、order は 1..n
+ * - 直前の版は versions に退避
+ * - baseRevision（読み込んだ時点の revision）が今と違えば 409 CONFLICT
+ */
+export const POST = withAdmin("templates:write", async (req, actor) => {
+  const body = (await req.json()) as {
+    workTypeId?: unknown;
+    title?: unknown;
+    steps?: unknown;
+    baseRevision?: unknown;
+  };
+  const id = parseDocId(body.workTypeId);
+  const title = parseLabel(body.title);
+  const baseRevision = parseRevision(body.baseRevision);
+  if (!id) {
+    return NextResponse.json({ ok: false, error: "workTypeId_required" }, { status: 400 });
+  }
+  if (baseRevision === null) {
+    return NextResponse.json({ ok: false, error: "baseRevision_required" }, { status: 400 });
+  }
+  if (!title) {
+    return NextResponse.json({ ok: false, error: "title_required" }, { status: 400 });
+  }
+
+  const parsed = validateSteps(body.steps);
+  if ("error" in parsed) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+  }
+
+  let result;
+  try {
+    result = await saveTemplate({
+      id,
+      title,
+      steps: parsed.steps,
+      author: { uid: actor.uid, email: actor.email },
+      reason: "save",
+      baseRevision,
+    });
+  } catch (e) {
+    if (e instanceof WorkTemplateError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "template.save",
+    targetPath: `${COL_TEMPLATES}/${id}`,
+    before: result.before,
+    after: result.after,
+  });
+
+  return NextResponse.json({ ok: true, title, steps: parsed.steps, revision: result.revision });
+});
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import admin from "firebase-admin";
+import { getAdminAuth } from "@/lib/firebaseAdmin";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { getCompany } from "@/lib/reNovaCompany";
+import { findMemberRefByUid } from "@/lib/reNovaMember";
+import { parseMemberInput, toStr, validateMemberInput } from "@/lib/memberProfile";
+
+export const runtime = "nodejs";
+
+type Body = {
+  uid: string;
+  email: string;
+
+  // profile
+  fullName: string;
+  phone: string;
+  companyName: string;
+  companyAddress: string;
+};
+
+function authErrorCode(e: unknown): string {
+  return typeof e === "object" && e !== null ? toStr((e as { code?: unknown }).code) : "";
+}
+
+export const POST = withAdmin("members:write", async (req, actor) => {
+  const bodyUnknown: unknown = await req.json();
+  const body = bodyUnknown as Partial<Body>;
+
+  const uid = toStr(body.uid).trim();
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: "uid_required" }, { status: 400 });
+  }
+
+  // --- validation（create-user と共通） ---
+  const input = parseMemberInput(body);
+  const invalid = validateMemberInput(input);
+  if (invalid) {
+    return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+  }
+
+  const memberRef = await findMemberRefByUid(uid);
+  if (!memberRef) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+  const beforeSnap = await memberRef.get();
+
+  // 会社に所属していれば会社名・住所は会社側が正（会社ページで変更する）
+  const company = await getCompany(toStr(beforeSnap.data()?.companyId));
+  if (company) {
+    input.profile.companyName = company.name;
+    input.profile.companyAddress = company.address;
+  }
+
+  // --- Firebase Auth（メール変更はこちらが正。先に反映して失敗したら止める） ---
+  const auth = getAdminAuth();
+  const authUser = await auth.getUser(uid);
+  const emailChanged = (authUser.email ?? "") !== input.email;
+
+  try {
+    await auth.updateUser(uid, {
+      displayName: input.profile.fullName,
+      ...(emailChanged ? { email: input.email, emailVerified: false } : {}),
+    });
+  } catch (e) {
+    const code = authErrorCode(e);
+    if (code === "auth/email-already-exists") {
+      return NextResponse.json({ ok: false, error: "email_already_exists" }, { status: 409 });
+    }
+    if (code === "auth/invalid-email") {
+      return NextResponse.json({ ok: false, error: "email_invalid" }, { status: 400 });
+    }
+    throw e;
+  }
+
+  // --- reNovaMember ---
+  await memberRef.set(
+    {
+      email: input.email,
+      profile: input.profile,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true },
+  );
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "member.update",
+    targetPath: memberRef.path,
+    before: beforeSnap.data() ?? null,
+    after: (await memberRef.get()).data(),
+  });
+
+  return NextResponse.json({ ok: true, uid, emailChanged });
+});
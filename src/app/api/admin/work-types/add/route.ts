@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { addWorkType, COL_CODES, parseLabel } from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+/**
+ * 工事種類の追加
+ * body: label
+ * - codes（自動ID）と同じIDの空テンプレを1トランザクションで作る
+ */
+export const POST = withAdmin("templates:write", async (req, actor) => {
+  const body = (await req.json()) as { label?: unknown };
+  const label = parseLabel(body.label);
+  if (!label) {
+    return NextResponse.json({ ok: false, error: "label_required" }, { status: 400 });
+  }
+
+  const { id, before, after } = await addWorkType(label, { uid: actor.uid, email: actor.email });
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "workType.add",
+    targetPath: `${COL_CODES}/${id}`,
+    before,
+    after,
+  });
+
+  return NextResponse.json({ ok: true, id });
+});
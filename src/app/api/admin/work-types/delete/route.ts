@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { COL_CODES, parseDocId, trashWorkType, WorkTemplateError } from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+// 削除（codes + templates をゴミ箱へ。版履歴は完全削除まで残す）
+export const POST = withAdmin("templates:write", async (req, actor) => {
+  const body = (await req.json()) as { id?: unknown };
+  const id = parseDocId(body.id);
+  if (!id) {
+    return NextResponse.json({ ok: false, error: "id_required" }, { status: 400 });
+  }
+
+  let result;
+  try {
+    result = await trashWorkType(id, { uid: actor.uid, email: actor.email });
+  } catch (e) {
+    if (e instanceof WorkTemplateError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "workType.delete",
+    targetPath: `${COL_CODES}/${id}`,
+    before: result.before,
+    after: result.after,
+  });
+
+  return NextResponse.json({ ok: true });
+});
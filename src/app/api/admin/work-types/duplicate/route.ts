@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import {
+  COL_CODES,
+  duplicateWorkType,
+  parseDocId,
+  parseLabel,
+  parseRevision,
+  parseStepPaths,
+  WorkTemplateError,
+} from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+/**
+ * 工事種類の複製（新しい自動IDで codes + templates を作る）
+ * body: sourceId / label / stepPaths（省略で全工程）/ sourceRevision（stepPaths を選んだ時点の revision）
+ */
+export const POST = withAdmin("templates:write", async (req, actor) => {
+  const body = (await req.json()) as {
+    sourceId?: unknown;
+    label?: unknown;
+    stepPaths?: unknown;
+    sourceRevision?: unknown;
+  };
+  const sourceId = parseDocId(body.sourceId);
+  const label = parseLabel(body.label);
+  const stepPaths = parseStepPaths(body.stepPaths);
+  const sourceRevision = parseRevision(body.sourceRevision);
+  if (!sourceId) {
+    return NextResponse.json({ ok: false, error: "sourceId_required" }, { status: 400 });
+  }
+  if (!label) {
+    return NextResponse.json({ ok: false, error: "label_required" }, { status: 400 });
+  }
+  if (stepPaths === null) {
+    return NextResponse.json({ ok: false, error: "stepPaths_invalid" }, { status: 400 });
+  }
+  // 位置で選ぶので、選んだ時点の revision が必要
+  if (stepPaths && sourceRevision === null) {
+    return NextResponse.json({ ok: false, error: "sourceRevision_required" }, { status: 400 });
+  }
+
+  let result;
+  try {
+    result = await duplicateWorkType({
+      sourceId,
+      label,
+      stepPaths,
+      sourceRevision,
+      author: { uid: actor.uid, email: actor.email },
+    });
+  } catch (e) {
+    if (e instanceof WorkTemplateError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "workType.duplicate",
+    targetPath: `${COL_CODES}/${result.id}`,
+    before: result.before,
+    after: result.after,
+  });
+
+  return NextResponse.json({ ok: true, id: result.id });
+});
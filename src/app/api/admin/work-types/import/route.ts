@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { COL_CODES, importWorkTypesFromTemplates } from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+// templates にあって codes 未登録の工種を codes に作る（0件なら監査ログは残さない）
+export const POST = withAdmin("templates:write", async (req, actor) => {
+  const { count, before, after } = await importWorkTypesFromTemplates();
+
+  if (count > 0) {
+    await writeAuditLog({
+      req,
+      actor,
+      action: "workType.import",
+      targetPath: COL_CODES,
+      before,
+      after,
+    });
+  }
+
+  return NextResponse.json({ ok: true, count });
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { COL_CODES, parseDocId, parseLabel, renameWorkType, WorkTemplateError } from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+// 表示名の変更（codes.label と templates.title を揃える）
+export const POST = withAdmin("templates:write", async (req, actor) => {
+  const body = (await req.json()) as { id?: unknown; label?: unknown };
+  const id = parseDocId(body.id);
+  const label = parseLabel(body.label);
+  if (!id) {
+    return NextResponse.json({ ok: false, error: "id_required" }, { status: 400 });
+  }
+  if (!label) {
+    return NextResponse.json({ ok: false, error: "label_required" }, { status: 400 });
+  }
+
+  let result;
+  try {
+    result = await renameWorkType(id, label);
+  } catch (e) {
+    if (e instanceof WorkTemplateError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "workType.rename",
+    targetPath: `${COL_CODES}/${id}`,
+    before: result.before,
+    after: result.after,
+  });
+
+  return NextResponse.json({ ok: true, revision: result.revision });
+});
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { COL_CODES, parseIdList, reorderWorkTypes, WorkTemplateError } from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+/**
+ * 工事種類の並び替え
+ * body: ids（画面の一覧の順。codes 未登録のテンプレも含めて全件）
+ */
+export const POST = withAdmin("templates:write", async (req, actor) => {
+  const body = (await req.json()) as { ids?: unknown };
+  const ids = parseIdList(body.ids);
+  if (!ids) {
+    return NextResponse.json({ ok: false, error: "ids_invalid" }, { status: 400 });
+  }
+
+  let result;
+  try {
+    result = await reorderWorkTypes(ids);
+  } catch (e) {
+    if (e instanceof WorkTemplateError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "workType.reorder",
+    targetPath: COL_CODES,
+    before: result.before,
+    after: result.after,
+  });
+
+  return NextResponse.json({ ok: true });
+});
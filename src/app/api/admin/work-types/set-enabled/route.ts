@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { COL_CODES, parseDocId, setWorkTypeEnabled, WorkTemplateError } from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+// 有効化 / 無効化（codes のみ）
+export const POST = withAdmin("templates:write", async (req, actor) => {
+  const body = (await req.json()) as { id?: unknown; enabled?: unknown };
+  const id = parseDocId(body.id);
+  if (!id) {
+    return NextResponse.json({ ok: false, error: "id_required" }, { status: 400 });
+  }
+  if (typeof body.enabled !== "boolean") {
+    return NextResponse.json({ ok: false, error: "enabled_invalid" }, { status: 400 });
+  }
+
+  let result;
+  try {
+    result = await setWorkTypeEnabled(id, body.enabled);
+  } catch (e) {
+    if (e instanceof WorkTemplateError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "workType.setEnabled",
+    targetPath: `${COL_CODES}/${id}`,
+    before: result.before,
+    after: result.after,
+  });
+
+  return NextResponse.json({ ok: true });
+});
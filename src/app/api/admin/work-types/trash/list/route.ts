@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { listTrashedWorkTypes, trashRetentionDays } from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+// ゴミ箱の一覧（削除日時の新しい順）
+export const POST = withAdmin("templates:write", async () => {
+  const items = await listTrashedWorkTypes();
+  return NextResponse.json({ ok: true, items, retentionDays: trashRetentionDays() });
+});
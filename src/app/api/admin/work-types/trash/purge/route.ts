@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { COL_TRASH, parseDocId, purgeTrashedWorkType, WorkTemplateError } from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+// ゴミ箱から完全削除（保持期間を待たずに消す。版履歴も消える）
+export const POST = withAdmin("templates:write", async (req, actor) => {
+  const body = (await req.json()) as { id?: unknown };
+  const id = parseDocId(body.id);
+  if (!id) {
+    return NextResponse.json({ ok: false, error: "id_required" }, { status: 400 });
+  }
+
+  let result;
+  try {
+    result = await purgeTrashedWorkType(id);
+  } catch (e) {
+    if (e instanceof WorkTemplateError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "workType.purge",
+    targetPath: `${COL_TRASH}/${id}`,
+    before: result.before,
+    after: result.after,
+  });
+
+  return NextResponse.json({ ok: true });
+});
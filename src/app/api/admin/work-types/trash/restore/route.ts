@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { withAdmin } from "@/lib/adminGuard";
+import { writeAuditLog } from "@/lib/auditLog";
+import { COL_CODES, parseDocId, restoreTrashedWorkType, WorkTemplateError } from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+// ゴミ箱から戻す（同じ id がすでにあれば 409 ALREADY_EXISTS）
+export const POST = withAdmin("templates:write", async (req, actor) => {
+  const body = (await req.json()) as { id?: unknown };
+  const id = parseDocId(body.id);
+  if (!id) {
+    return NextResponse.json({ ok: false, error: "id_required" }, { status: 400 });
+  }
+
+  let result;
+  try {
+    result = await restoreTrashedWorkType(id);
+  } catch (e) {
+    if (e instanceof WorkTemplateError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: e.status });
+    }
+    throw e;
+  }
+
+  await writeAuditLog({
+    req,
+    actor,
+    action: "workType.restore",
+    targetPath: `${COL_CODES}/${id}`,
+    before: result.before,
+    after: result.after,
+  });
+
+  return NextResponse.json({ ok: true });
+});
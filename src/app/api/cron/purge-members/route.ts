@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { withCron } from "@/lib/cronGuard";
+import { SYSTEM_ACTOR, writeAuditLog } from "@/lib/auditLog";
+import { purgeMember } from "@/lib/memberAccount";
+import { COL_MEMBERS } from "@/lib/reNovaMember";
+
+export const runtime = "nodejs";
+
+// 1回の実行で処理する上限（残りは翌日）
+const BATCH_LIMIT = 100;
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/**
+ * 保持期間を過ぎた論理削除メンバーを物理削除（Vercel Cron から毎日）
+ * - account.state == deleted × account.purgeAfterMs の複合インデックスが必要
+ */
+export const GET = withCron(async (req) => {
+  const snap = await getAdminDb()
+    .collection(COL_MEMBERS)
+    .where("account.state", "==", "deleted")
+    .where("account.purgeAfterMs", "<=", Date.now())
+    .limit(BATCH_LIMIT)
+    .get();
+
+  const purged: string[] = [];
+  const failed: { uid: string; error: string }[] = [];
+
+  for (const d of snap.docs) {
+    const data = d.data();
+    const uid = toStr(data.uid) || d.id;
+    try {
+      await purgeMember(d.ref, uid);
+      await writeAuditLog({
+        req,
+        actor: SYSTEM_ACTOR,
+        action: "member.purge",
+        targetPath: d.ref.path,
+        before: data,
+        after: null,
+      });
+      purged.push(uid);
+    } catch (e) {
+      failed.push({ uid, error: e instanceof Error ? e.message : "UNKNOWN" });
+    }
+  }
+
+  if (failed.length) console.error("purge-members failed", failed);
+
+  return NextResponse.json({ ok: true, purged, failed });
+});
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { withCron } from "@/lib/cronGuard";
+import { SYSTEM_ACTOR, writeAuditLog } from "@/lib/auditLog";
+import { COL_TRASH, purgeTrashedWorkType } from "@/lib/workTemplates";
+
+export const runtime = "nodejs";
+
+// 1回の実行で処理する上限（残りは翌日）
+const BATCH_LIMIT = 100;
+
+// 保持期間を過ぎたゴミ箱の工事種類を完全削除（Vercel Cron から毎日）
+export const GET = withCron(async (req) => {
+  const snap = await getAdminDb()
+    .collection(COL_TRASH)
+    .where("purgeAfterMs", "<=", Date.now())
+    .limit(BATCH_LIMIT)
+    .get();
+
+  const purged: string[] = [];
+  const failed: { id: string; error: string }[] = [];
+
+  for (const d of snap.docs) {
+    try {
+      const result = await purgeTrashedWorkType(d.id);
+      await writeAuditLog({
+        req,
+        actor: SYSTEM_ACTOR,
+        action: "workType.purge",
+        targetPath: d.ref.path,
+        before: result.before,
+        after: null,
+      });
+      purged.push(d.id);
+    } catch (e) {
+      failed.push({ id: d.id, error: e instanceof Error ? e.message : "UNKNOWN" });
+    }
+  }
+
+  if (failed.length) console.error("purge-work-types failed", failed);
+
+  return NextResponse.json({ ok: true, purged, failed });
+});
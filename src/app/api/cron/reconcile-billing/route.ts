@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { withCron } from "@/lib/cronGuard";
+import { SYSTEM_ACTOR, writeAuditLog } from "@/lib/auditLog";
+import { COL_RECONCILE, runReconciliation } from "@/lib/billingReconcile";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+// 毎日の突合（修正はしない。差分は /billing/reconcile で確認して適用）
+export const GET = withCron(async (req) => {
+  const report = await runReconciliation({ trigger: "cron", actorUid: SYSTEM_ACTOR.uid });
+
+  await writeAuditLog({
+    req,
+    actor: SYSTEM_ACTOR,
+    action: "billing.reconcile",
+    targetPath: `${COL_RECONCILE}/${report.id}`,
+    before: null,
+    after: { summary: report.summary, truncated: report.truncated },
+  });
+
+  if (report.items.length) console.warn("billing drift detected", report.id, report.summary);
+
+  return NextResponse.json({ ok: true, id: report.id, summary: report.summary });
+});
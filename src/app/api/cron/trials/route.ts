@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { withCron } from "@/lib/cronGuard";
+import { SYSTEM_ACTOR, writeAuditLog } from "@/lib/auditLog";
+import { listTrialMembers, processTrialMember, type TrialJobResult } from "@/lib/memberTrial";
+
+export const runtime = "nodejs";
+
+const AUDIT_ACTIONS: Partial<Record<TrialJobResult["action"], string>> = {
+  converted: "billing.trialConvert",
+  expired: "billing.trialExpire",
+  reminded: "member.trialReminder",
+};
+
+/**
+ * トライアルの期限処理（Vercel Cron から毎日）
+ * - 期限切れ: 支払い方法があればサブスクへ移行、無ければ inactive
+ * - 期限 TRIAL_REMINDER_DAYS 日前: リマインドメール
+ */
+export const GET = withCron(async (req) => {
+  const results: TrialJobResult[] = [];
+  const failed: { uid: string; error: string }[] = [];
+
+  for (const d of await listTrialMembers()) {
+    const before = d.data();
+    try {
+      const result = await processTrialMember(d);
+      if (!result) continue;
+      results.push(result);
+
+      const action = AUDIT_ACTIONS[result.action];
+      if (action) {
+        await writeAuditLog({
+          req,
+          actor: SYSTEM_ACTOR,
+          action,
+          targetPath: d.ref.path,
+          before: { billing: before.billing ?? null },
+          after: { billing: (await d.ref.get()).data()?.billing ?? null, detail: result.detail },
+        });
+      }
+    } catch (e) {
+      failed.push({ uid: d.id, error: e instanceof Error ? e.message : "UNKNOWN" });
+    }
+  }
+
+  if (failed.length) console.error("trials failed", failed);
+
+  return NextResponse.json({ ok: true, results, failed });
+});
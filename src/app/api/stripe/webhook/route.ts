@@ -0,0 +1,190 @@
+// src/app/api/stripe/webhook/route.ts
+import { NextResponse } from "next/server";
+import type Stripe from "stripe";
+import admin from "firebase-admin";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { syncCompanySubscription } from "@/lib/companyBilling";
+import { findMemberRefByStripe } from "@/lib/reNovaMember";
+import { getStripe, getStripeWebhookSecret, stripeId } from "@/lib/stripe";
+import {
+  claimOf,
+  decideSubscriptionSync,
+  subscriptionTargetOf,
+  type EventClaim,
+  type InvoiceResult,
+} from "@/lib/stripeWebhook";
+
+export const runtime = "nodejs";
+
+// 処理済みイベント（event.id = docId）。再送・重複配信はここで弾く
+const COL_EVENTS = "stripeWebhookEvents";
+
+async function claimEvent(event: Stripe.Event): Promise<EventClaim> {
+  const db = getAdminDb();
+  const ref = db.collection(COL_EVENTS).doc(event.id);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (claimOf(snap.exists ? (snap.data() as Record<string, unknown>) : null) === "duplicate") {
+      return "duplicate";
+    }
+
+    tx.set(
+      ref,
+      {
+        type: event.type,
+        created: event.created,
+        livemode: event.livemode,
+        status: "processing",
+        receivedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true },
+    );
+    return "new";
+  });
+}
+
+async function markEvent(
+  event: Stripe.Event,
+  status: "processed" | "ignored" | "failed",
+  extra: Record<string, unknown> = {},
+) {
+  await getAdminDb()
+    .collection(COL_EVENTS)
+    .doc(event.id)
+    .set(
+      {
+        status,
+        ...extra,
+        finishedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true },
+    );
+}
+
+// subscription の状態を reNovaMember.billing へミラー（判定は decideSubscriptionSync）
+async function syncSubscription(
+  event: Stripe.Event,
+  sub: Stripe.Subscription,
+  invoice?: { id: string; result: InvoiceResult },
+): Promise<string | null> {
+  const target = subscriptionTargetOf(sub);
+  if (target.kind === "company") return syncCompanySubscription(target.companyId, sub, event.created);
+
+  const memberRef = await findMemberRefByStripe({
+    uid: target.uid,
+    stripeSubscriptionId: sub.id,
+    stripeCustomerId: stripeId(sub.customer),
+  });
+  if (!memberRef) return null;
+
+  const db = getAdminDb();
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(memberRef);
+    const data = (snap.data() ?? {}) as Record<string, unknown>;
+    const billing = (data.billing as Record<string, unknown> | undefined) ?? {};
+
+    const decision = decideSubscriptionSync({
+      billing,
+      sub,
+      eventCreated: event.created,
+      nowMs: Date.now(),
+      invoice,
+    });
+    if (decision.action === "skip") {
+      if (decision.reason === "other_subscription") {
+        console.warn("skip event for other subscription", memberRef.path, sub.id, billing.stripeSubscriptionId);
+      }
+      return;
+    }
+
+    tx.set(
+      memberRef,
+      {
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        billing: {
+          ...decision.billing,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      },
+      { merge: true },
+    );
+  });
+
+  return memberRef.path;
+}
+
+async function handleInvoice(
+  event: Stripe.Event,
+  invoice: Stripe.Invoice,
+  result: InvoiceResult,
+): Promise<string | null> {
+  const subRef = invoice.parent?.subscription_details?.subscription ?? null;
+  const subscriptionId = stripeId(subRef);
+  if (!subscriptionId) return null;
+
+  // invoice 自体には cancel / period の情報が無いので最新の subscription を取り直す
+  const sub = await getStripe().subscriptions.retrieve(subscriptionId);
+  return syncSubscription(event, sub, { id: invoice.id ?? "", result });
+}
+
+async function handleEvent(event: Stripe.Event): Promise<string | null | "ignored"> {
+  switch (event.type) {
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+    case "customer.subscription.paused":
+    case "customer.subscription.resumed":
+      return syncSubscription(event, event.data.object);
+
+    case "invoice.paid":
+      return handleInvoice(event, event.data.object, "paid");
+
+    case "invoice.payment_failed":
+      return handleInvoice(event, event.data.object, "payment_failed");
+
+    default:
+      return "ignored";
+  }
+}
+
+export async function POST(req: Request) {
+  const signature = req.headers.get("stripe-signature") ?? "";
+  if (!signature) {
+    return NextResponse.json({ ok: false, error: "signature_missing" }, { status: 400 });
+  }
+
+  // ✅ 署名検証は raw body で行う（json() してからだと検証できない）
+  const payload = await req.text();
+
+  let event: Stripe.Event;
+  try {
+    event = getStripe().webhooks.constructEvent(payload, signature, getStripeWebhookSecret());
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "invalid_signature";
+    return NextResponse.json({ ok: false, error: msg }, { status: 400 });
+  }
+
+  try {
+    const claim = await claimEvent(event);
+    if (claim === "duplicate") {
+      return NextResponse.json({ ok: true, duplicate: true });
+    }
+
+    const result = await handleEvent(event);
+
+    if (result === "ignored") {
+      await markEvent(event, "ignored");
+    } else {
+      // member が見つからなくても 200 を返す（Stripe のリトライを止める）
+      await markEvent(event, "processed", { memberPath: result ?? null });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : "UNKNOWN";
+    await markEvent(event, "failed", { error: msg }).catch(() => {});
+    // 500 → Stripe が自動リトライする
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,301 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { authedPost } from "@/lib/adminApi";
+
+type AuditDiffEntry = {
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+type AuditRow = {
+  id: string;
+  actorUid: string;
+  actorEmail: string;
+  actorRole: string;
+  action: string;
+  targetPath: string;
+  diff: AuditDiffEntry[];
+  ip: string;
+  source: string;
+  createdAtMs: number | null;
+};
+
+type ListOk = { ok: true; entries: AuditRow[]; nextCursor: string | null };
+
+type Filters = {
+  actor: string;
+  action: string;
+  targetPath: string;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+};
+
+const EMPTY_FILTERS: Filters = { actor: "", action: "", targetPath: "", from: "", to: "" };
+
+// 既知の action（自由入力も可）
+const ACTIONS = [
+  "member.create",
+  "member.update",
+  "member.import",
+  "member.disable",
+  "member.enable",
+  "member.delete",
+  "member.purge",
+  "member.inviteResend",
+  "member.trialReminder",
+  "members.export",
+  "billing.set",
+  "billing.migrate",
+  "billing.cancelAtPeriodEnd",
+  "billing.cancelNow",
+  "billing.reconcile",
+  "billing.reconcileApply",
+  "billing.changePlan",
+  "billing.trialConvert",
+  "billing.trialExpire",
+  "plan.create",
+  "plan.update",
+  "company.create",
+  "company.update",
+  "company.assignMember",
+  "company.billingStart",
+  "company.billingCancelAtPeriodEnd",
+  "admin.invite",
+  "admin.setRole",
+  "admin.revoke",
+  "workType.add",
+  "workType.duplicate",
+  "workType.import",
+  "workType.rename",
+  "workType.setEnabled",
+  "workType.reorder",
+  "workType.delete",
+  "workType.restore",
+  "workType.purge",
+  "template.save",
+  "template.restore",
+];
+
+function fmtDate(ms: number | null): string {
+  if (!ms) return "-";
+  return new Date(ms).toLocaleString("ja-JP", { hour12: false });
+}
+
+function fmtValue(v: unknown): string {
+  if (v === null || v === undefined) return "∅";
+  if (typeof v === "string") return v;
+  return JSON.stringify(v);
+}
+
+// 日付入力（ローカル日付）→ ms。to はその日の終わりまで含める
+function dayStartMs(s: string): number | null {
+  if (!s) return null;
+  const d = new Date(`${s}T00:00:00`);
+  return Number.isNaN(d.getTime()) ? null : d.getTime();
+}
+
+function toQuery(f: Filters) {
+  const toStart = dayStartMs(f.to);
+  return {
+    actor: f.actor.trim(),
+    action: f.action.trim(),
+    targetPath: f.targetPath.trim(),
+    fromMs: dayStartMs(f.from),
+    toMs: toStart === null ? null : toStart + 24 * 60 * 60 * 1000,
+  };
+}
+
+export default function AuditPage() {
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+
+  const [rows, setRows] = useState<AuditRow[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState("");
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const fetchPage = useCallback(async (f: Filters, cursor: string | null) => {
+    setErr("");
+    setLoading(true);
+    try {
+      const json = await authedPost<ListOk>("/api/admin/audit/list", {
+        ...toQuery(f),
+        cursor,
+      });
+      setRows((prev) => (cursor ? [...prev, ...json.entries] : json.entries));
+      setNextCursor(json.nextCursor);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchPage(applied, null);
+  }, [applied, fetchPage]);
+
+  const setField = (k: keyof Filters, v: string) => setDraft((prev) => ({ ...prev, [k]: v }));
+
+  const inputCls =
+    "mt-1 h-10 w-full rounded-md border px-3 bg-white dark:bg-gray-900 dark:border-gray-700";
+
+  return (
+    <div className="mx-auto max-w-7xl p-4">
+      <h1 className="text-xl font-bold">監査ログ（adminAuditLog）</h1>
+
+      {/* フィルタ */}
+      <div className="mt-4 grid gap-3 rounded-xl border p-4 dark:border-gray-800 md:grid-cols-5">
+        <div>
+          <label className="text-xs font-bold text-gray-600 dark:text-gray-300">実行者（uid / email）</label>
+          <input value={draft.actor} onChange={(e) => setField("actor", e.target.value)} className={inputCls} />
+        </div>
+        <div>
+          <label className="text-xs font-bold text-gray-600 dark:text-gray-300">action</label>
+          <input
+            value={draft.action}
+            onChange={(e) => setField("action", e.target.value)}
+            className={inputCls}
+            list="audit-actions"
+          />
+          <datalist id="audit-actions">
+            {ACTIONS.map((a) => (
+              <option key={a} value={a} />
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label className="text-xs font-bold text-gray-600 dark:text-gray-300">対象パス</label>
+          <input
+            value={draft.targetPath}
+            onChange={(e) => setField("targetPath", e.target.value)}
+            className={inputCls}
+            placeholder="reNovaMember/xxxx"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-bold text-gray-600 dark:text-gray-300">From</label>
+          <input type="date" value={draft.from} onChange={(e) => setField("from", e.target.value)} className={inputCls} />
+        </div>
+        <div>
+          <label className="text-xs font-bold text-gray-600 dark:text-gray-300">To</label>
+          <input type="date" value={draft.to} onChange={(e) => setField("to", e.target.value)} className={inputCls} />
+        </div>
+
+        <div className="flex gap-2 md:col-span-5">
+          <button
+            type="button"
+            onClick={() => setApplied(draft)}
+            className="h-10 rounded-md bg-blue-600 px-5 text-sm font-semibold text-white hover:bg-blue-700"
+          >
+            検索
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(EMPTY_FILTERS);
+              setApplied(EMPTY_FILTERS);
+            }}
+            className="h-10 rounded-md border px-4 text-sm font-semibold hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-800"
+          >
+            クリア
+          </button>
+        </div>
+      </div>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm font-bold text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300">
+          {err}
+        </div>
+      )}
+
+      <div className="mt-4 overflow-x-auto rounded-xl border dark:border-gray-800">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              <th className="px-3 py-2 text-left">日時</th>
+              <th className="px-3 py-2 text-left">実行者</th>
+              <th className="px-3 py-2 text-left">action</th>
+              <th className="px-3 py-2 text-left">対象</th>
+              <th className="px-3 py-2 text-left">変更</th>
+              <th className="px-3 py-2 text-left">IP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && !loading ? (
+              <tr>
+                <td className="px-3 py-4" colSpan={6}>
+                  (no entries)
+                </td>
+              </tr>
+            ) : (
+              rows.map((r) => {
+                const open = openId === r.id;
+                return (
+                  <tr key={r.id} className="border-t align-top dark:border-gray-800">
+                    <td className="whitespace-nowrap px-3 py-2">{fmtDate(r.createdAtMs)}</td>
+                    <td className="px-3 py-2">
+                      <div>{r.actorEmail || "-"}</div>
+                      <div className="font-mono text-xs text-gray-500">
+                        {r.actorUid}（{r.actorRole}）
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs">
+                      {r.action}
+                      {r.source === "client" ? <span className="ml-1 text-gray-500">[client]</span> : null}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs break-all">{r.targetPath}</td>
+                    <td className="px-3 py-2">
+                      <button
+                        type="button"
+                        onClick={() => setOpenId(open ? null : r.id)}
+                        className="text-xs font-bold text-blue-600 hover:underline dark:text-blue-400"
+                      >
+                        {r.diff.length}件 {open ? "▲" : "▼"}
+                      </button>
+                      {open && (
+                        <div className="mt-2 grid gap-1">
+                          {r.diff.map((d) => (
+                            <div key={d.path} className="font-mono text-xs break-all">
+                              <span className="font-bold">{d.path}</span>:{" "}
+                              <span className="text-red-600 line-through">{fmtValue(d.before)}</span>
+                              {" → "}
+                              <span className="text-green-700 dark:text-green-400">{fmtValue(d.after)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs">{r.ip || "-"}</td>
+                  </tr>
+                );
+              })
+            )}
+            {loading && (
+              <tr>
+                <td className="px-3 py-4" colSpan={6}>
+                  loading...
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {nextCursor && !loading && (
+        <div className="mt-3 flex justify-center">
+          <button
+            type="button"
+            onClick={() => void fetchPage(applied, nextCursor)}
+            className="rounded-md border px-4 py-2 text-sm font-semibold hover:bg-gray-50 dark:border-gray-800 dark:hover:bg-gray-900"
+          >
+            もっと見る
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { authedPost } from "@/lib/adminApi";
+import { fmtMoney } from "@/lib/money";
+
+type Plan = {
+  id: string;
+  name: string;
+  description: string;
+  stripePriceId: string;
+  amount: number;
+  currency: string;
+  interval: string;
+  intervalCount: number;
+  active: boolean;
+  sortOrder: number;
+  updatedAtMs: number;
+};
+
+type ListOk = { ok: true; plans: Plan[] };
+
+type Draft = {
+  id: string;
+  name: string;
+  description: string;
+  stripePriceId: string;
+  active: boolean;
+  sortOrder: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  id: "",
+  name: "",
+  description: "",
+  stripePriceId: "",
+  active: true,
+  sortOrder: "0",
+};
+
+const INTERVAL_LABELS: Record<string, string> = {
+  day: "日",
+  week: "週",
+  month: "月",
+  year: "年",
+};
+
+function fmtInterval(p: Plan): string {
+  const unit = INTERVAL_LABELS[p.interval] ?? p.interval;
+  return p.intervalCount > 1 ? `${p.intervalCount}${unit}ごと` : `毎${unit}`;
+}
+
+function toDraft(p: Plan): Draft {
+  return {
+    id: p.id,
+    name: p.name,
+    description: p.description,
+    stripePriceId: p.stripePriceId,
+    active: p.active,
+    sortOrder: String(p.sortOrder),
+  };
+}
+
+export default function PlansPage() {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState("");
+  const [msg, setMsg] = useState("");
+
+  // editing: null = 閉じている / "" = 新規 / それ以外 = 編集中の planId
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setErr("");
+    setLoading(true);
+    try {
+      const json = await authedPost<ListOk>("/api/admin/plans/list", {});
+      setPlans(json.plans);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const patch = (p: Partial<Draft>) => setDraft((prev) => ({ ...prev, ...p }));
+
+  const onSave = async () => {
+    setErr("");
+    setMsg("");
+    try {
+      setSaving(true);
+      await authedPost("/api/admin/plans/save", {
+        id: draft.id.trim(),
+        name: draft.name.trim(),
+        description: draft.description.trim(),
+        stripePriceId: draft.stripePriceId.trim(),
+        active: draft.active,
+        sortOrder: Number(draft.sortOrder) || 0,
+      });
+      setEditing(null);
+      setMsg("保存しました");
+      await load();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "保存に失敗しました");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputCls =
+    "mt-1 h-10 w-full rounded-md border px-3 text-sm bg-white disabled:opacity-60 dark:bg-gray-900 dark:border-gray-700";
+  const labelCls = "text-xs font-bold text-gray-600 dark:text-gray-300";
+
+  return (
+    <div className="mx-auto max-w-7xl p-4">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-xl font-bold">プラン（reNovaPlans）</h1>
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(EMPTY_DRAFT);
+            setEditing("");
+          }}
+          className="h-10 rounded-md bg-blue-600 px-5 text-sm font-semibold text-white hover:bg-blue-700"
+        >
+          プランを追加
+        </button>
+      </div>
+      <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+        1プラン = 1つの Stripe Price（定期課金）。金額・周期は保存時に Stripe から取り込みます。停止したプランは新規に選べなくなります。
+      </p>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm font-bold text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300">
+          {err}
+        </div>
+      )}
+      {msg && <div className="mt-3 text-sm font-bold text-green-700 dark:text-green-300">{msg}</div>}
+
+      {editing !== null && (
+        <div className="mt-4 rounded-xl border p-4 dark:border-gray-800">
+          <div className="text-sm font-bold">{editing ? `プランを編集（${editing}）` : "プランを追加"}</div>
+          <div className="mt-2 grid gap-3 sm:grid-cols-2">
+            <div>
+              <label className={labelCls}>id（英小文字・数字・-_）</label>
+              <input
+                value={draft.id}
+                disabled={editing !== ""}
+                onChange={(e) => patch({ id: e.target.value })}
+                className={`${inputCls} font-mono`}
+                placeholder="monthly"
+              />
+            </div>
+            <div>
+              <label className={labelCls}>名前</label>
+              <input
+                value={draft.name}
+                onChange={(e) => patch({ name: e.target.value })}
+                className={inputCls}
+                placeholder="月額プラン"
+              />
+            </div>
+            <div>
+              <label className={labelCls}>Stripe Price</label>
+              <input
+                value={draft.stripePriceId}
+                onChange={(e) => patch({ stripePriceId: e.target.value })}
+                className={`${inputCls} font-mono`}
+                placeholder="price_..."
+              />
+            </div>
+            <div>
+              <label className={labelCls}>表示順</label>
+              <input
+                value={draft.sortOrder}
+                onChange={(e) => patch({ sortOrder: e.target.value.replace(/[^\d-]/g, "") })}
+                className={inputCls}
+                inputMode="numeric"
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className={labelCls}>説明</label>
+              <input
+                value={draft.description}
+                onChange={(e) => patch({ description: e.target.value })}
+                className={inputCls}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={draft.active}
+                onChange={(e) => patch({ active: e.target.checked })}
+              />
+              新規に選択可能（有効）
+            </label>
+          </div>
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => setEditing(null)}
+              className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:hover:bg-gray-800"
+            >
+              閉じる
+            </button>
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => void onSave()}
+              className="h-9 rounded-md bg-black px-4 text-sm font-semibold text-white hover:bg-gray-900 disabled:opacity-50"
+            >
+              {saving ? "Stripe と照合中..." : "保存"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 overflow-x-auto rounded-xl border dark:border-gray-800">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              <th className="px-3 py-2 text-left">id</th>
+              <th className="px-3 py-2 text-left">名前</th>
+              <th className="px-3 py-2 text-left">金額</th>
+              <th className="px-3 py-2 text-left">周期</th>
+              <th className="px-3 py-2 text-left">Stripe Price</th>
+              <th className="px-3 py-2 text-left">状態</th>
+              <th className="px-3 py-2 text-left">操作</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td className="px-3 py-4" colSpan={7}>
+                  loading...
+                </td>
+              </tr>
+            ) : plans.length === 0 ? (
+              <tr>
+                <td className="px-3 py-4" colSpan={7}>
+                  (no plans)
+                </td>
+              </tr>
+            ) : (
+              plans.map((p) => (
+                <tr key={p.id} className="border-t dark:border-gray-800">
+                  <td className="px-3 py-2 font-mono text-xs">{p.id}</td>
+                  <td className="px-3 py-2">
+                    <div className="font-semibold">{p.name}</div>
+                    {p.description && <div className="text-xs text-gray-500">{p.description}</div>}
+                  </td>
+                  <td className="px-3 py-2">{fmtMoney(p.amount, p.currency)}</td>
+                  <td className="px-3 py-2">{fmtInterval(p)}</td>
+                  <td className="px-3 py-2 font-mono text-xs">{p.stripePriceId}</td>
+                  <td className="px-3 py-2">{p.active ? "有効" : "停止"}</td>
+                  <td className="px-3 py-2">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setDraft(toDraft(p));
+                        setEditing(p.id);
+                      }}
+                      className="font-bold text-blue-600 hover:underline dark:text-blue-400"
+                    >
+                      編集
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
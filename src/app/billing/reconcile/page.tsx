@@ -0,0 +1,404 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { authedPost } from "@/lib/adminApi";
+
+type DriftKind = "mismatch" | "missing_in_stripe" | "orphan_subscription";
+
+type FieldDrift = {
+  field: string;
+  firestore: unknown;
+  stripe: unknown;
+};
+
+type DriftItem = {
+  kind: DriftKind;
+  uid: string;
+  memberPath: string;
+  subscriptionId: string;
+  customerId: string;
+  stripeStatus: string;
+  fields: FieldDrift[];
+  fixedAtMs: number | null;
+};
+
+type Summary = {
+  members: number;
+  subscriptions: number;
+  mismatches: number;
+  missing: number;
+  orphans: number;
+};
+
+type ReportHead = {
+  id: string;
+  createdAtMs: number;
+  trigger: "manual" | "cron";
+  actorUid: string;
+  summary: Summary;
+  truncated: boolean;
+};
+
+type Report = ReportHead & { items: DriftItem[] };
+
+type MigrationResult = {
+  id: string;
+  memberPath: string;
+  action: string;
+  patch: Record<string, unknown>;
+  detail?: string;
+};
+
+type MigrateOk = {
+  ok: true;
+  dryRun: boolean;
+  summary: Record<string, number>;
+  results: MigrationResult[];
+};
+
+type ListOk = { ok: true; reports: ReportHead[] };
+type ReportOk = { ok: true; report: Report };
+
+const KIND_LABELS: Record<DriftKind, string> = {
+  mismatch: "値の不一致",
+  missing_in_stripe: "Stripeに存在しない",
+  orphan_subscription: "メンバー未紐づけ",
+};
+
+function fmtDate(ms: number | null): string {
+  if (!ms) return "-";
+  return new Date(ms).toLocaleString("ja-JP", { hour12: false });
+}
+
+function fmtValue(field: string, v: unknown): string {
+  if (v === null || v === undefined) return "∅";
+  if (field === "currentPeriodEndMs" && typeof v === "number") return fmtDate(v);
+  if (typeof v === "string") return v;
+  return JSON.stringify(v);
+}
+
+function fmtSummary(s: Summary): string {
+  return `メンバー ${s.members} / サブスク ${s.subscriptions} / 不一致 ${s.mismatches} / 欠落 ${s.missing} / 未紐づけ ${s.orphans}`;
+}
+
+export default function BillingReconcilePage() {
+  const [reports, setReports] = useState<ReportHead[]>([]);
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [applying, setApplying] = useState<number | null>(null);
+  const [err, setErr] = useState("");
+  const [migration, setMigration] = useState<MigrateOk | null>(null);
+  const [migrating, setMigrating] = useState(false);
+
+  const fetchReports = useCallback(async () => {
+    setErr("");
+    setLoading(true);
+    try {
+      const json = await authedPost<ListOk>("/api/admin/billing/reconcile/list", {});
+      setReports(json.reports);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const openReport = useCallback(async (id: string) => {
+    setErr("");
+    try {
+      const json = await authedPost<ReportOk>("/api/admin/billing/reconcile/get", { id });
+      setReport(json.report);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchReports();
+  }, [fetchReports]);
+
+  const onRun = async () => {
+    setErr("");
+    try {
+      setRunning(true);
+      const json = await authedPost<ReportOk>("/api/admin/billing/reconcile/run", {});
+      setReport(json.report);
+      await fetchReports();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "突合に失敗しました");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const applyOne = async (index: number): Promise<boolean> => {
+    if (!report) return false;
+    try {
+      setApplying(index);
+      await authedPost("/api/admin/billing/reconcile/apply", { reportId: report.id, index });
+      return true;
+    } catch (e) {
+      setErr(`#${index + 1}: ${e instanceof Error ? e.message : "修正に失敗しました"}`);
+      return false;
+    } finally {
+      setApplying(null);
+    }
+  };
+
+  const onApply = async (index: number) => {
+    setErr("");
+    if (await applyOne(index)) await openReport(report!.id);
+  };
+
+  const fixable = report
+    ? report.items
+        .map((it, i) => ({ it, i }))
+        .filter(({ it }) => !it.fixedAtMs && it.kind !== "missing_in_stripe")
+    : [];
+
+  const onApplyAll = async () => {
+    if (!report || !fixable.length) return;
+    if (!confirm(`${fixable.length}件を Stripe の値で上書きします。続行しますか？`)) return;
+    setErr("");
+    for (const { i } of fixable) {
+      if (!(await applyOne(i))) break;
+    }
+    await openReport(report.id);
+  };
+
+  const onMigrate = async (dryRun: boolean) => {
+    if (!dryRun && !confirm("renovaUsers の課金情報を reNovaMember へ書き戻します。続行しますか？")) return;
+    setErr("");
+    try {
+      setMigrating(true);
+      setMigration(await authedPost<MigrateOk>("/api/admin/billing/migrate-renova-users", { dryRun }));
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "移行に失敗しました");
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-7xl p-4">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-xl font-bold">課金突合（Stripe ↔ reNovaMember）</h1>
+        <button
+          type="button"
+          disabled={running}
+          onClick={() => void onRun()}
+          className="h-10 rounded-md bg-blue-600 px-5 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {running ? "突合中..." : "今すぐ突合"}
+        </button>
+      </div>
+      <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+        status / 解約予定 / 期間満了 / 顧客ID を Stripe と比較します。毎日 cron でも実行されます（修正は手動）。
+      </p>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm font-bold text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300">
+          {err}
+        </div>
+      )}
+
+      <div className="mt-4 grid gap-4 lg:grid-cols-[320px_1fr]">
+        {/* レポート一覧 */}
+        <div className="rounded-xl border dark:border-gray-800">
+          <div className="border-b px-3 py-2 text-sm font-semibold dark:border-gray-800">履歴</div>
+          {loading ? (
+            <div className="px-3 py-4 text-sm">loading...</div>
+          ) : reports.length === 0 ? (
+            <div className="px-3 py-4 text-sm">(no reports)</div>
+          ) : (
+            reports.map((r) => (
+              <button
+                key={r.id}
+                type="button"
+                onClick={() => void openReport(r.id)}
+                className={`block w-full border-t px-3 py-2 text-left text-xs first:border-t-0 hover:bg-gray-50 dark:border-gray-800 dark:hover:bg-gray-900 ${
+                  report?.id === r.id ? "bg-gray-50 dark:bg-gray-900" : ""
+                }`}
+              >
+                <div className="font-semibold">
+                  {fmtDate(r.createdAtMs)}（{r.trigger}）
+                </div>
+                <div className="text-gray-500">{fmtSummary(r.summary)}</div>
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* 差分 */}
+        <div className="rounded-xl border p-3 dark:border-gray-800">
+          {!report ? (
+            <div className="text-sm text-gray-500">左の履歴から選ぶか「今すぐ突合」を押してください。</div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="text-sm">
+                  <div className="font-semibold">{fmtDate(report.createdAtMs)}</div>
+                  <div className="text-xs text-gray-500">{fmtSummary(report.summary)}</div>
+                  {report.truncated && (
+                    <div className="text-xs font-bold text-amber-700 dark:text-amber-300">
+                      差分が多いため先頭の {report.items.length} 件のみ保存しています。
+                    </div>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  disabled={!fixable.length || applying !== null}
+                  onClick={() => void onApplyAll()}
+                  className="h-9 rounded-md bg-black px-4 text-sm font-semibold text-white hover:bg-gray-900 disabled:opacity-50"
+                >
+                  修正可能な{fixable.length}件をすべて適用
+                </button>
+              </div>
+
+              <div className="mt-3 overflow-x-auto rounded-lg border dark:border-gray-800">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-3 py-2 text-left">種類</th>
+                      <th className="px-3 py-2 text-left">メンバー</th>
+                      <th className="px-3 py-2 text-left">サブスク</th>
+                      <th className="px-3 py-2 text-left">差分（Firestore → Stripe）</th>
+                      <th className="px-3 py-2 text-left">操作</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.items.length === 0 ? (
+                      <tr>
+                        <td className="px-3 py-4" colSpan={5}>
+                          差分はありません。
+                        </td>
+                      </tr>
+                    ) : (
+                      report.items.map((it, i) => (
+                        <tr key={`${it.subscriptionId}-${i}`} className="border-t align-top dark:border-gray-800">
+                          <td className="px-3 py-2 text-xs font-bold">{KIND_LABELS[it.kind]}</td>
+                          <td className="px-3 py-2 font-mono text-xs">
+                            {it.uid ? (
+                              <Link
+                                href={`/members/${encodeURIComponent(it.uid)}`}
+                                className="text-blue-600 hover:underline dark:text-blue-400"
+                              >
+                                {it.uid}
+                              </Link>
+                            ) : (
+                              "-"
+                            )}
+                          </td>
+                          <td className="px-3 py-2 font-mono text-xs">
+                            <div>{it.subscriptionId}</div>
+                            <div className="text-gray-500">
+                              {it.customerId} {it.stripeStatus && `（${it.stripeStatus}）`}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 text-xs">
+                            {it.fields.length === 0
+                              ? "-"
+                              : it.fields.map((f) => (
+                                  <div key={f.field}>
+                                    <span className="font-mono">{f.field}</span>: {fmtValue(f.field, f.firestore)} →{" "}
+                                    <span className="font-bold">{fmtValue(f.field, f.stripe)}</span>
+                                  </div>
+                                ))}
+                          </td>
+                          <td className="px-3 py-2 text-xs">
+                            {it.fixedAtMs ? (
+                              <span className="text-green-700 dark:text-green-400">修正済み {fmtDate(it.fixedAtMs)}</span>
+                            ) : it.kind === "missing_in_stripe" ? (
+                              <span className="text-gray-500">手動で確認</span>
+                            ) : (
+                              <button
+                                type="button"
+                                disabled={applying !== null}
+                                onClick={() => void onApply(i)}
+                                className="rounded-md border px-3 py-1.5 text-xs font-bold hover:bg-gray-50 disabled:opacity-50 dark:border-gray-800 dark:hover:bg-gray-900"
+                              >
+                                {applying === i ? "適用中..." : "Stripeの値を適用"}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* 旧コレクションの移行 */}
+      <div className="mt-6 rounded-xl border p-3 dark:border-gray-800">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <div className="text-sm font-semibold">renovaUsers → reNovaMember 移行</div>
+            <div className="text-xs text-gray-500">
+              旧 set-billing が renovaUsers に書いた課金情報を戻します（1回限り）。移行後に突合してください。
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={migrating}
+              onClick={() => void onMigrate(true)}
+              className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:hover:bg-gray-800"
+            >
+              確認（dry-run）
+            </button>
+            <button
+              type="button"
+              disabled={migrating || !migration?.dryRun || !migration.summary.merged}
+              onClick={() => void onMigrate(false)}
+              className="h-9 rounded-md bg-black px-4 text-sm font-semibold text-white hover:bg-gray-900 disabled:opacity-50"
+            >
+              移行を実行
+            </button>
+          </div>
+        </div>
+
+        {migration && (
+          <div className="mt-3">
+            <div className="text-xs font-semibold">
+              {migration.dryRun ? "dry-run: " : "実行結果: "}
+              {Object.entries(migration.summary)
+                .map(([k, v]) => `${k} ${v}`)
+                .join(" / ")}
+            </div>
+            <div className="mt-2 overflow-x-auto rounded-lg border dark:border-gray-800">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    <th className="px-3 py-2 text-left">renovaUsers</th>
+                    <th className="px-3 py-2 text-left">結果</th>
+                    <th className="px-3 py-2 text-left">反映する値</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {migration.results.map((r) => (
+                    <tr key={r.id} className="border-t dark:border-gray-800">
+                      <td className="px-3 py-2 font-mono">{r.id}</td>
+                      <td className="px-3 py-2">
+                        {r.action}
+                        {r.detail && <span className="ml-1 font-mono text-gray-500">{r.detail}</span>}
+                      </td>
+                      <td className="px-3 py-2 font-mono">
+                        {Object.keys(r.patch).length ? JSON.stringify(r.patch) : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { authedPost } from "@/lib/adminApi";
+import { fmtMoney } from "@/lib/money";
+
+type InvoiceAddress = { name: string; postalCode: string; address: string; email: string };
+
+type Company = {
+  id: string;
+  name: string;
+  address: string;
+  invoiceAddress: InvoiceAddress;
+  seatLimit: number | null;
+  billing: {
+    mode: "member" | "company";
+    status: "active" | "inactive";
+    stripeStatus: string;
+    stripeSubscriptionId: string;
+    planId: string;
+    seats: number | null;
+    cancelAtPeriodEnd: boolean | null;
+    currentPeriodEndMs: number | null;
+  };
+};
+
+type MemberRow = {
+  uid: string;
+  email: string;
+  fullName: string;
+  mode: string;
+  status: string;
+  accountState: string;
+};
+
+type Plan = { id: string; name: string; amount: number; currency: string; interval: string; active: boolean };
+
+type GetOk = { ok: true; company: Company; members: MemberRow[] };
+type PlansOk = { ok: true; plans: Plan[] };
+type SaveOk = { ok: true; company: Company; propagated: number };
+
+const ENDED_STATUSES = ["canceled", "incomplete_expired"];
+
+function fmtMs(v: number | null): string {
+  if (!v) return "-";
+  return new Date(v).toLocaleString("ja-JP", { hour12: false });
+}
+
+export default function CompanyDetailPage() {
+  const params = useParams<{ id: string }>();
+  const id = decodeURIComponent(params.id ?? "");
+
+  const [company, setCompany] = useState<Company | null>(null);
+  const [members, setMembers] = useState<MemberRow[]>([]);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+  const [msg, setMsg] = useState("");
+
+  // 編集フォーム
+  const [name, setName] = useState("");
+  const [address, setAddress] = useState("");
+  const [invoice, setInvoice] = useState<InvoiceAddress>({ name: "", postalCode: "", address: "", email: "" });
+  const [seatLimit, setSeatLimit] = useState("");
+
+  const [addEmail, setAddEmail] = useState("");
+  const [planId, setPlanId] = useState("");
+
+  const fill = (c: Company) => {
+    setName(c.name);
+    setAddress(c.address);
+    setInvoice(c.invoiceAddress);
+    setSeatLimit(c.seatLimit === null ? "" : String(c.seatLimit));
+  };
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [json, planJson] = await Promise.all([
+        authedPost<GetOk>("/api/admin/companies/get", { id }),
+        authedPost<PlansOk>("/api/admin/plans/list", {}),
+      ]);
+      setCompany(json.company);
+      setMembers(json.members);
+      setPlans(planJson.plans.filter((p) => p.active));
+      fill(json.company);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const run = async (fn: () => Promise<string>) => {
+    setErr("");
+    setMsg("");
+    try {
+      setBusy(true);
+      const done = await fn();
+      await load();
+      setMsg(done);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "処理に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onSave = () => {
+    const limit = seatLimit.trim() === "" ? null : Number(seatLimit.trim());
+    if (limit !== null && !Number.isInteger(limit)) return setErr("席数上限は整数で入力してください。");
+    void run(async () => {
+      const json = await authedPost<SaveOk>("/api/admin/companies/save", {
+        id,
+        name: name.trim(),
+        address: address.trim(),
+        invoiceAddress: invoice,
+        seatLimit: limit,
+      });
+      return `保存しました（メンバー ${json.propagated} 件に反映）`;
+    });
+  };
+
+  const onAssign = (body: Record<string, unknown>, done: string) =>
+    run(async () => {
+      await authedPost("/api/admin/companies/assign-member", body);
+      return done;
+    });
+
+  const onStartBilling = () => {
+    const plan = plans.find((p) => p.id === planId);
+    if (!plan || !company) return;
+    const lines = [
+      `「${plan.name}」× ${company.seatLimit ?? "-"} 席で会社課金を開始します（請求書払い）。`,
+      "所属メンバーは全員「会社課金」になり、個別の課金はなくなります。",
+      "",
+      "続行しますか？",
+    ];
+    if (!confirm(lines.join("\n"))) return;
+    void run(async () => {
+      await authedPost("/api/admin/companies/billing/start", { companyId: id, planId });
+      setPlanId("");
+      return "会社課金を開始しました";
+    });
+  };
+
+  const onToggleCancel = (cancelAtPeriodEnd: boolean) => {
+    const text = cancelAtPeriodEnd
+      ? "期間満了で会社課金を終了します。終了後、所属メンバーは inactive になります。続行しますか？"
+      : "解約予約を取り消します。続行しますか？";
+    if (!confirm(text)) return;
+    void run(async () => {
+      await authedPost("/api/admin/companies/billing/cancel-at-period-end", { companyId: id, cancelAtPeriodEnd });
+      return cancelAtPeriodEnd ? "解約を予約しました" : "解約予約を取り消しました";
+    });
+  };
+
+  const inputCls = "h-10 w-full rounded-md border px-3 text-sm bg-white dark:bg-gray-900 dark:border-gray-700";
+  const btnCls =
+    "h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:hover:bg-gray-800";
+
+  if (loading && !company) return <div className="mx-auto max-w-5xl p-4">loading...</div>;
+  if (!company) {
+    return (
+      <div className="mx-auto max-w-5xl p-4">
+        <div className="text-sm font-bold text-red-700 dark:text-red-300">{err || "NOT_FOUND"}</div>
+        <Link href="/companies" className="mt-3 inline-block text-sm text-blue-600 hover:underline dark:text-blue-400">
+          ← 会社一覧
+        </Link>
+      </div>
+    );
+  }
+
+  const billing = company.billing;
+  const billed =
+    billing.mode === "company" && !!billing.stripeSubscriptionId && !ENDED_STATUSES.includes(billing.stripeStatus);
+  const full = company.seatLimit !== null && members.length >= company.seatLimit;
+
+  return (
+    <div className="mx-auto max-w-5xl p-4">
+      <Link href="/companies" className="text-sm text-blue-600 hover:underline dark:text-blue-400">
+        ← 会社一覧
+      </Link>
+      <h1 className="mt-2 text-xl font-bold">{company.name}</h1>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm font-bold text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300">
+          {err}
+        </div>
+      )}
+      {msg && (
+        <div className="mt-3 rounded-lg border border-green-200 bg-green-50 p-3 text-sm font-bold text-green-700 dark:border-green-900/40 dark:bg-green-950/30 dark:text-green-300">
+          {msg}
+        </div>
+      )}
+
+      {/* 会社情報 */}
+      <section className="mt-4 rounded-xl border p-4 dark:border-gray-800">
+        <div className="text-sm font-bold">会社情報</div>
+        <div className="mt-3 grid gap-3 text-sm md:grid-cols-2">
+          <label className="grid gap-1">
+            <span className="font-semibold">会社名</span>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputCls} />
+          </label>
+          <label className="grid gap-1">
+            <span className="font-semibold">席数上限（空欄 = 無制限）</span>
+            <input
+              value={seatLimit}
+              onChange={(e) => setSeatLimit(e.target.value)}
+              inputMode="numeric"
+              className={inputCls}
+            />
+          </label>
+          <label className="grid gap-1 md:col-span-2">
+            <span className="font-semibold">住所</span>
+            <input value={address} onChange={(e) => setAddress(e.target.value)} className={inputCls} />
+          </label>
+        </div>
+
+        <div className="mt-4 text-sm font-bold">請求先</div>
+        <div className="mt-2 grid gap-3 text-sm md:grid-cols-2">
+          <label className="grid gap-1">
+            <span className="font-semibold">宛名（空欄 = 会社名）</span>
+            <input
+              value={invoice.name}
+              onChange={(e) => setInvoice({ ...invoice, name: e.target.value })}
+              className={inputCls}
+            />
+          </label>
+          <label className="grid gap-1">
+            <span className="font-semibold">請求書送付先メール</span>
+            <input
+              value={invoice.email}
+              onChange={(e) => setInvoice({ ...invoice, email: e.target.value })}
+              className={inputCls}
+            />
+          </label>
+          <label className="grid gap-1">
+            <span className="font-semibold">郵便番号</span>
+            <input
+              value={invoice.postalCode}
+              onChange={(e) => setInvoice({ ...invoice, postalCode: e.target.value })}
+              className={inputCls}
+            />
+          </label>
+          <label className="grid gap-1">
+            <span className="font-semibold">住所（空欄 = 会社住所）</span>
+            <input
+              value={invoice.address}
+              onChange={(e) => setInvoice({ ...invoice, address: e.target.value })}
+              className={inputCls}
+            />
+          </label>
+        </div>
+
+        <div className="mt-3 flex justify-end">
+          <button
+            type="button"
+            disabled={busy}
+            onClick={onSave}
+            className="h-9 rounded-md bg-black px-4 text-sm font-semibold text-white hover:bg-gray-900 disabled:opacity-50"
+          >
+            {busy ? "処理中..." : "保存"}
+          </button>
+        </div>
+      </section>
+
+      {/* 会社課金 */}
+      <section className="mt-4 rounded-xl border p-4 dark:border-gray-800">
+        <div className="text-sm font-bold">会社課金（請求書払い）</div>
+        {billed ? (
+          <div className="mt-2 grid gap-1 text-sm">
+            <div>
+              状態: {billing.status}（Stripe: {billing.stripeStatus}）
+            </div>
+            <div>プラン: {plans.find((p) => p.id === billing.planId)?.name ?? (billing.planId || "-")}</div>
+            <div>課金席数: {billing.seats ?? "-"}</div>
+            <div>
+              現在の期間終了: {fmtMs(billing.currentPeriodEndMs)}
+              {billing.cancelAtPeriodEnd ? "（期間満了で終了予定）" : ""}
+            </div>
+            <div className="mt-2 flex justify-end">
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => onToggleCancel(!billing.cancelAtPeriodEnd)}
+                className={btnCls}
+              >
+                {billing.cancelAtPeriodEnd ? "解約予約を取り消す" : "期間満了で解約…"}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="mt-2 grid gap-2 text-sm">
+            <div className="text-gray-600 dark:text-gray-300">
+              メンバーごとに課金中です。会社課金を開始すると、席数上限分を1つのサブスクでまとめて請求します。
+              {company.seatLimit === null ? "（先に席数上限を設定してください）" : ""}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={planId}
+                disabled={busy || company.seatLimit === null}
+                onChange={(e) => setPlanId(e.target.value)}
+                className="h-10 min-w-0 flex-1 rounded-md border px-2 bg-white dark:bg-gray-900 dark:border-gray-700"
+              >
+                <option value="">プランを選択</option>
+                {plans.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}（{fmtMoney(p.amount, p.currency)} / {p.interval} × 席）
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                disabled={busy || !planId || company.seatLimit === null}
+                onClick={onStartBilling}
+                className="h-10 rounded-md bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                会社課金を開始
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {/* メンバー */}
+      <section className="mt-4 rounded-xl border p-4 dark:border-gray-800">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-bold">
+            メンバー（{members.length} / {company.seatLimit ?? "無制限"}）
+          </div>
+          {full && <span className="text-xs font-bold text-amber-700 dark:text-amber-300">席数上限に達しています</span>}
+        </div>
+
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <input
+            value={addEmail}
+            onChange={(e) => setAddEmail(e.target.value)}
+            className="h-10 min-w-0 flex-1 rounded-md border px-3 text-sm bg-white dark:bg-gray-900 dark:border-gray-700"
+            placeholder="追加するメンバーのメールアドレス"
+          />
+          <button
+            type="button"
+            disabled={busy || !addEmail.trim() || full}
+            onClick={() => {
+              void onAssign({ email: addEmail.trim(), companyId: id }, "メンバーを追加しました");
+              setAddEmail("");
+            }}
+            className={btnCls}
+          >
+            追加
+          </button>
+        </div>
+
+        <div className="mt-3 overflow-x-auto rounded-lg border dark:border-gray-800">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-3 py-2 text-left">Email</th>
+                <th className="px-3 py-2 text-left">氏名</th>
+                <th className="px-3 py-2 text-left">課金</th>
+                <th className="px-3 py-2 text-left">アカウント</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {members.length === 0 ? (
+                <tr>
+                  <td className="px-3 py-4" colSpan={5}>
+                    (no members)
+                  </td>
+                </tr>
+              ) : (
+                members.map((m) => (
+                  <tr key={m.uid} className="border-t dark:border-gray-800">
+                    <td className="px-3 py-2">
+                      <Link
+                        href={`/members/${encodeURIComponent(m.uid)}`}
+                        className="text-blue-600 hover:underline dark:text-blue-400"
+                      >
+                        {m.email}
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2">{m.fullName || "-"}</td>
+                    <td className="px-3 py-2">
+                      {m.mode} / {m.status}
+                    </td>
+                    <td className="px-3 py-2">{m.accountState}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => {
+                          if (!confirm(`${m.email} を会社から外します。続行しますか？`)) return;
+                          void onAssign({ uid: m.uid, companyId: null }, "メンバーを外しました");
+                        }}
+                        className={btnCls}
+                      >
+                        外す
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
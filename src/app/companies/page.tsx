@@ -0,0 +1,172 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { authedPost } from "@/lib/adminApi";
+
+type CompanyRow = {
+  id: string;
+  name: string;
+  address: string;
+  seatLimit: number | null;
+  memberCount: number;
+  billing: { mode: "member" | "company"; status: "active" | "inactive" };
+};
+
+type ListOk = { ok: true; companies: CompanyRow[] };
+type SaveOk = { ok: true; company: { id: string } };
+
+export default function CompaniesPage() {
+  const router = useRouter();
+  const [companies, setCompanies] = useState<CompanyRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState("");
+  const [filter, setFilter] = useState("");
+
+  const [name, setName] = useState("");
+  const [address, setAddress] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const load = useCallback(async () => {
+    setErr("");
+    setLoading(true);
+    try {
+      const json = await authedPost<ListOk>("/api/admin/companies/list", {});
+      setCompanies(json.companies);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const visible = useMemo(() => {
+    const f = filter.trim().normalize("NFKC").toLowerCase();
+    if (!f) return companies;
+    return companies.filter((c) => c.name.normalize("NFKC").toLowerCase().includes(f));
+  }, [companies, filter]);
+
+  const onCreate = async () => {
+    setErr("");
+    if (!name.trim()) return setErr("会社名を入力してください。");
+    try {
+      setCreating(true);
+      const json = await authedPost<SaveOk>("/api/admin/companies/save", {
+        name: name.trim(),
+        address: address.trim(),
+        seatLimit: null,
+      });
+      router.push(`/companies/${encodeURIComponent(json.company.id)}`);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "作成に失敗しました");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const inputCls = "h-10 rounded-md border px-3 text-sm bg-white dark:bg-gray-900 dark:border-gray-700";
+
+  return (
+    <div className="mx-auto max-w-7xl p-4">
+      <h1 className="text-xl font-bold">会社（reNovaCompany）</h1>
+      <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+        会社名は「株式会社」の有無・全角半角・空白の違いを同じ会社として扱います。メンバー作成時に会社名から自動で紐づきます。
+      </p>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm font-bold text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300">
+          {err}
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 rounded-xl border p-3 dark:border-gray-800">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={`${inputCls} w-64`}
+          placeholder="会社名"
+        />
+        <input
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          className={`${inputCls} min-w-0 flex-1`}
+          placeholder="住所"
+        />
+        <button
+          type="button"
+          disabled={creating}
+          onClick={() => void onCreate()}
+          className="h-10 rounded-md bg-blue-600 px-5 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {creating ? "作成中..." : "会社を追加"}
+        </button>
+      </div>
+
+      <div className="mt-4">
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className={`${inputCls} w-72`}
+          placeholder="会社名で絞り込み"
+        />
+      </div>
+
+      <div className="mt-3 overflow-x-auto rounded-xl border dark:border-gray-800">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              <th className="px-3 py-2 text-left">会社名</th>
+              <th className="px-3 py-2 text-left">住所</th>
+              <th className="px-3 py-2 text-left">席（使用 / 上限）</th>
+              <th className="px-3 py-2 text-left">課金</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td className="px-3 py-4" colSpan={4}>
+                  loading...
+                </td>
+              </tr>
+            ) : visible.length === 0 ? (
+              <tr>
+                <td className="px-3 py-4" colSpan={4}>
+                  (no companies)
+                </td>
+              </tr>
+            ) : (
+              visible.map((c) => (
+                <tr key={c.id} className="border-t dark:border-gray-800">
+                  <td className="px-3 py-2">
+                    <Link
+                      href={`/companies/${encodeURIComponent(c.id)}`}
+                      className="text-blue-600 hover:underline dark:text-blue-400"
+                    >
+                      {c.name}
+                    </Link>
+                  </td>
+                  <td className="px-3 py-2">{c.address || "-"}</td>
+                  <td
+                    className={`px-3 py-2 ${
+                      c.seatLimit !== null && c.memberCount >= c.seatLimit ? "font-bold text-amber-700 dark:text-amber-300" : ""
+                    }`}
+                  >
+                    {c.memberCount} / {c.seatLimit ?? "無制限"}
+                  </td>
+                  <td className="px-3 py-2">
+                    {c.billing.mode === "company" ? `会社でまとめて（${c.billing.status}）` : "メンバーごと"}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -36,9 +36,15 @@ export default function AdminNavbar() {
 
   const menuLinks = useMemo(
     () => [
+      { href: "/dashboard", label: "ダッシュボード" },
       { href: "/", label: "アカウント作成" },
       { href: "/members", label: "メンバー一覧" },
+      { href: "/companies", label: "会社" },
       { href: "/steps", label: "工程設定" },
+      { href: "/billing/plans", label: "プラン" },
+      { href: "/billing/reconcile", label: "課金突合" },
+      { href: "/audit", label: "監査ログ" },
+      { href: "/admins", label: "管理者" },
     ],
     [],
   );
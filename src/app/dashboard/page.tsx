@@ -0,0 +1,202 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { authedPost } from "@/lib/adminApi";
+import { fmtMoney } from "@/lib/money";
+
+type Stats = {
+  generatedAtMs: number;
+  members: {
+    total: number;
+    active: number;
+    inactive: number;
+    free: number;
+    paid: number;
+    trial: number;
+    company: number;
+    disabled: number;
+    deleted: number;
+  };
+  scheduledCancellations: { monthStartMs: number; monthEndMs: number; count: number };
+  signupsByWeek: { weekStartMs: number; count: number }[];
+  mrr: { currency: string; amount: number; subscriptions: number }[];
+  churnByMonth: { monthStartMs: number; activeAtStart: number; canceled: number; rate: number | null }[];
+  stripeError: string;
+};
+
+type StatsOk = { ok: true; stats: Stats };
+
+function fmtDate(ms: number): string {
+  return new Date(ms).toLocaleDateString("ja-JP", { timeZone: "Asia/Tokyo", month: "numeric", day: "numeric" });
+}
+
+function fmtMonth(ms: number): string {
+  return new Date(ms).toLocaleDateString("ja-JP", { timeZone: "Asia/Tokyo", year: "numeric", month: "numeric" });
+}
+
+function fmtRate(rate: number | null): string {
+  return rate === null ? "-" : `${(rate * 100).toFixed(1)}%`;
+}
+
+function Kpi(props: { label: string; value: string; sub?: string; href?: string }) {
+  const body = (
+    <>
+      <div className="text-xs font-semibold text-gray-500 dark:text-gray-400">{props.label}</div>
+      <div className="mt-1 text-2xl font-extrabold">{props.value}</div>
+      {props.sub && <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">{props.sub}</div>}
+    </>
+  );
+  const cls = "rounded-xl border p-4 dark:border-gray-800";
+  return props.href ? (
+    <Link href={props.href} className={`${cls} hover:bg-gray-50 dark:hover:bg-gray-900`}>
+      {body}
+    </Link>
+  ) : (
+    <div className={cls}>{body}</div>
+  );
+}
+
+// 横棒（最大値に対する割合）
+function Bar(props: { value: number; max: number; className: string }) {
+  const pct = props.max > 0 ? Math.max(2, Math.round((props.value / props.max) * 100)) : 0;
+  return (
+    <div className="h-3 w-full rounded bg-gray-100 dark:bg-gray-800">
+      <div className={`h-3 rounded ${props.className}`} style={{ width: `${pct}%` }} />
+    </div>
+  );
+}
+
+export default function DashboardPage() {
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState("");
+
+  const load = useCallback(async () => {
+    setErr("");
+    setLoading(true);
+    try {
+      const json = await authedPost<StatsOk>("/api/admin/dashboard", {});
+      setStats(json.stats);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const m = stats?.members;
+  const maxSignups = Math.max(0, ...(stats?.signupsByWeek ?? []).map((w) => w.count));
+  const maxRate = Math.max(0, ...(stats?.churnByMonth ?? []).map((c) => c.rate ?? 0));
+
+  return (
+    <div className="mx-auto max-w-7xl p-4">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-xl font-bold">ダッシュボード</h1>
+        <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+          {stats && <span>{new Date(stats.generatedAtMs).toLocaleString("ja-JP", { hour12: false })} 時点</span>}
+          <button
+            type="button"
+            disabled={loading}
+            onClick={() => void load()}
+            className="h-9 rounded-md border px-3 text-sm font-semibold text-gray-900 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-100 dark:hover:bg-gray-800"
+          >
+            {loading ? "集計中..." : "再集計"}
+          </button>
+        </div>
+      </div>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm font-bold text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300">
+          {err}
+        </div>
+      )}
+      {stats?.stripeError && (
+        <div className="mt-3 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm font-bold text-amber-800 dark:border-amber-900/40 dark:bg-amber-950/30 dark:text-amber-300">
+          Stripe から取得できませんでした（MRR・解約率は空です）: {stats.stripeError}
+        </div>
+      )}
+
+      {!stats && loading && <div className="mt-4 text-sm">loading...</div>}
+
+      {stats && m && (
+        <>
+          <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-4">
+            <Kpi label="メンバー合計" value={String(m.total)} sub={`停止 ${m.disabled} / 削除予定 ${m.deleted}`} href="/members" />
+            <Kpi label="有効（active）" value={String(m.active)} sub={`inactive ${m.inactive}`} />
+            <Kpi
+              label="課金区分"
+              value={`${m.paid} 有料`}
+              sub={`無料 ${m.free} / トライアル ${m.trial} / 会社課金 ${m.company}`}
+            />
+            <Kpi
+              label={`今月の解約予定（${fmtMonth(stats.scheduledCancellations.monthStartMs)}）`}
+              value={String(stats.scheduledCancellations.count)}
+              sub="期間満了で終了するメンバー"
+            />
+          </div>
+
+          <div className="mt-3 grid grid-cols-1 gap-3 md:grid-cols-3">
+            {stats.mrr.length === 0 ? (
+              <Kpi label="MRR" value="-" sub="有効なサブスクがありません" />
+            ) : (
+              stats.mrr.map((r) => (
+                <Kpi
+                  key={r.currency}
+                  label={`MRR（${r.currency.toUpperCase()}）`}
+                  value={fmtMoney(r.amount, r.currency)}
+                  sub={`有効なサブスク ${r.subscriptions} 件（年額などは月額換算）`}
+                />
+              ))
+            )}
+          </div>
+
+          <div className="mt-4 grid grid-cols-1 gap-3 lg:grid-cols-2">
+            <section className="rounded-xl border p-4 dark:border-gray-800">
+              <div className="text-sm font-bold">週ごとの新規登録（直近{stats.signupsByWeek.length}週）</div>
+              <div className="mt-3 grid gap-2 text-sm">
+                {stats.signupsByWeek.map((w) => (
+                  <div key={w.weekStartMs} className="grid grid-cols-[5rem_1fr_3rem] items-center gap-2">
+                    <span className="text-gray-600 dark:text-gray-300">{fmtDate(w.weekStartMs)}〜</span>
+                    <Bar value={w.count} max={maxSignups} className="bg-blue-500" />
+                    <span className="text-right font-semibold">{w.count}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section className="rounded-xl border p-4 dark:border-gray-800">
+              <div className="text-sm font-bold">月ごとの解約率（Stripe サブスク）</div>
+              {stats.churnByMonth.length === 0 ? (
+                <div className="mt-3 text-sm">-</div>
+              ) : (
+                <div className="mt-3 grid gap-2 text-sm">
+                  {stats.churnByMonth.map((c) => (
+                    <div key={c.monthStartMs} className="grid grid-cols-[5rem_1fr_8rem] items-center gap-2">
+                      <span className="text-gray-600 dark:text-gray-300">{fmtMonth(c.monthStartMs)}</span>
+                      <Bar value={c.rate ?? 0} max={maxRate} className="bg-red-500" />
+                      <span className="text-right">
+                        <span className="font-semibold">{fmtRate(c.rate)}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {" "}
+                          ({c.canceled}/{c.activeAtStart})
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                その月に終了したサブスク ÷ 月初に有効だったサブスク（無料期間のまま終了したものは除く）
+              </div>
+            </section>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -15,7 +15,7 @@ export default function LoginPage() {
 
   useEffect(() => {
     const unsub = onAuthStateChanged(auth, (u) => {
-      if (u) router.replace("/");
+      if (u) router.replace("/dashboard");
     });
     return () => unsub();
   }, [router]);
@@ -78,7 +78,7 @@ export default function LoginPage() {
                 try {
                   setBusy(true);
                   await signInWithEmailAndPassword(auth, em, password);
-                  router.replace("/");
+                  router.replace("/dashboard");
                 } catch (e) {
                   const msg = e instanceof Error ? e.message : "ログインに失敗しました。";
                   setErr(msg);
@@ -0,0 +1,250 @@
+"use client";
+
+import { useState } from "react";
+import { authedPost } from "@/lib/adminApi";
+import { fmtMoney } from "@/lib/money";
+
+type InvoiceEntry = {
+  id: string;
+  number: string;
+  status: string;
+  createdMs: number;
+  periodStartMs: number;
+  periodEndMs: number;
+  currency: string;
+  subtotal: number;
+  tax: number;
+  total: number;
+  amountPaid: number;
+  amountRemaining: number;
+  hostedInvoiceUrl: string;
+  invoicePdf: string;
+};
+
+type PaymentEntry = {
+  id: string;
+  createdMs: number;
+  currency: string;
+  amount: number;
+  amountRefunded: number;
+  status: string;
+  description: string;
+  failureMessage: string;
+  receiptUrl: string;
+  paymentIntentId: string;
+};
+
+type RefundEntry = {
+  id: string;
+  chargeId: string;
+  createdMs: number;
+  currency: string;
+  amount: number;
+  status: string;
+  reason: string;
+};
+
+type UpcomingInvoice = {
+  currency: string;
+  subtotal: number;
+  tax: number;
+  total: number;
+  amountDue: number;
+  nextPaymentAttemptMs: number | null;
+  periodStartMs: number;
+  periodEndMs: number;
+};
+
+type History = {
+  customerId: string;
+  invoices: InvoiceEntry[];
+  payments: PaymentEntry[];
+  refunds: RefundEntry[];
+  upcoming: UpcomingInvoice | null;
+};
+
+type HistoryOk = { ok: true; history: History };
+
+function fmtDay(ms: number | null): string {
+  if (!ms) return "-";
+  return new Date(ms).toLocaleDateString("ja-JP");
+}
+
+function fmtMs(ms: number | null): string {
+  if (!ms) return "-";
+  return new Date(ms).toLocaleString("ja-JP", { hour12: false });
+}
+
+const thCls = "px-3 py-2 text-left";
+const tdCls = "px-3 py-2";
+const linkCls = "font-bold text-blue-600 hover:underline dark:text-blue-400";
+
+function Table(props: { head: string[]; empty: boolean; children: React.ReactNode }) {
+  return (
+    <div className="mt-2 overflow-x-auto rounded-lg border dark:border-gray-800">
+      <table className="min-w-full text-xs">
+        <thead className="bg-gray-50 dark:bg-gray-900">
+          <tr>
+            {props.head.map((h) => (
+              <th key={h} className={thCls}>
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {props.empty ? (
+            <tr>
+              <td className={tdCls} colSpan={props.head.length}>
+                (none)
+              </td>
+            </tr>
+          ) : (
+            props.children
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * 請求・支払い履歴（Stripe から都度取得。開いたときだけ読む）
+ */
+export default function BillingHistoryPanel(props: { uid: string; customerId: string }) {
+  const [history, setHistory] = useState<History | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState("");
+
+  const load = async () => {
+    setErr("");
+    try {
+      setLoading(true);
+      const json = await authedPost<HistoryOk>("/api/admin/members/billing-history", { uid: props.uid });
+      setHistory(json.history);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <section className="rounded-xl border p-4 dark:border-gray-800">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="font-semibold">請求・支払い履歴</div>
+          <div className="font-mono text-xs text-gray-500">{props.customerId}</div>
+        </div>
+        <button
+          type="button"
+          disabled={loading}
+          onClick={() => void load()}
+          className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:hover:bg-gray-800"
+        >
+          {loading ? "取得中..." : history ? "再取得" : "Stripe から取得"}
+        </button>
+      </div>
+
+      {err && <div className="mt-2 text-sm font-bold text-red-600">{err}</div>}
+
+      {history && (
+        <div className="mt-3 grid gap-4">
+          <div>
+            <div className="text-sm font-semibold">次回請求（プレビュー）</div>
+            {history.upcoming ? (
+              <div className="mt-1 text-sm">
+                {fmtMoney(history.upcoming.amountDue, history.upcoming.currency)}（税{" "}
+                {fmtMoney(history.upcoming.tax, history.upcoming.currency)}）/ 対象{" "}
+                {fmtDay(history.upcoming.periodStartMs)}〜{fmtDay(history.upcoming.periodEndMs)} / 請求予定{" "}
+                {fmtMs(history.upcoming.nextPaymentAttemptMs)}
+              </div>
+            ) : (
+              <div className="mt-1 text-sm text-gray-500">次回請求はありません。</div>
+            )}
+          </div>
+
+          <div>
+            <div className="text-sm font-semibold">請求書</div>
+            <Table
+              head={["作成日", "番号", "対象期間", "小計", "税", "合計", "支払済", "status", "リンク"]}
+              empty={history.invoices.length === 0}
+            >
+              {history.invoices.map((inv) => (
+                <tr key={inv.id} className="border-t dark:border-gray-800">
+                  <td className={tdCls}>{fmtDay(inv.createdMs)}</td>
+                  <td className={`${tdCls} font-mono`}>{inv.number || inv.id}</td>
+                  <td className={tdCls}>
+                    {fmtDay(inv.periodStartMs)}〜{fmtDay(inv.periodEndMs)}
+                  </td>
+                  <td className={tdCls}>{fmtMoney(inv.subtotal, inv.currency)}</td>
+                  <td className={tdCls}>{fmtMoney(inv.tax, inv.currency)}</td>
+                  <td className={tdCls}>{fmtMoney(inv.total, inv.currency)}</td>
+                  <td className={tdCls}>{fmtMoney(inv.amountPaid, inv.currency)}</td>
+                  <td className={tdCls}>{inv.status}</td>
+                  <td className={`${tdCls} whitespace-nowrap`}>
+                    {inv.hostedInvoiceUrl && (
+                      <a href={inv.hostedInvoiceUrl} target="_blank" rel="noreferrer" className={linkCls}>
+                        表示
+                      </a>
+                    )}
+                    {inv.invoicePdf && (
+                      <a href={inv.invoicePdf} target="_blank" rel="noreferrer" className={`ml-2 ${linkCls}`}>
+                        PDF
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </Table>
+          </div>
+
+          <div>
+            <div className="text-sm font-semibold">支払い</div>
+            <Table
+              head={["日時", "金額", "返金済", "status", "内容", "領収書"]}
+              empty={history.payments.length === 0}
+            >
+              {history.payments.map((p) => (
+                <tr key={p.id} className="border-t dark:border-gray-800">
+                  <td className={tdCls}>{fmtMs(p.createdMs)}</td>
+                  <td className={tdCls}>{fmtMoney(p.amount, p.currency)}</td>
+                  <td className={tdCls}>{p.amountRefunded ? fmtMoney(p.amountRefunded, p.currency) : "-"}</td>
+                  <td className={tdCls}>
+                    {p.status}
+                    {p.failureMessage && <div className="text-red-600">{p.failureMessage}</div>}
+                  </td>
+                  <td className={tdCls}>{p.description || "-"}</td>
+                  <td className={tdCls}>
+                    {p.receiptUrl ? (
+                      <a href={p.receiptUrl} target="_blank" rel="noreferrer" className={linkCls}>
+                        表示
+                      </a>
+                    ) : (
+                      "-"
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </Table>
+          </div>
+
+          <div>
+            <div className="text-sm font-semibold">返金</div>
+            <Table head={["日時", "金額", "status", "理由", "支払い"]} empty={history.refunds.length === 0}>
+              {history.refunds.map((r) => (
+                <tr key={r.id} className="border-t dark:border-gray-800">
+                  <td className={tdCls}>{fmtMs(r.createdMs)}</td>
+                  <td className={tdCls}>{fmtMoney(r.amount, r.currency)}</td>
+                  <td className={tdCls}>{r.status}</td>
+                  <td className={tdCls}>{r.reason || "-"}</td>
+                  <td className={`${tdCls} font-mono`}>{r.chargeId}</td>
+                </tr>
+              ))}
+            </Table>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
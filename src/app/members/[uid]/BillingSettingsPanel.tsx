@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { authedPost } from "@/lib/adminApi";
+
+type BillingMode = "free" | "paid";
+type BillingStatus = "active" | "inactive";
+
+type Draft = {
+  mode: BillingMode;
+  status: BillingStatus;
+  stripeCustomerId: string;
+  stripeSubscriptionId: string;
+};
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function toDraft(billing: Record<string, unknown>): Draft {
+  return {
+    mode: billing.mode === "free" ? "free" : "paid",
+    status: billing.status === "inactive" ? "inactive" : "active",
+    stripeCustomerId: str(billing.stripeCustomerId),
+    stripeSubscriptionId: str(billing.stripeSubscriptionId),
+  };
+}
+
+/**
+ * 課金設定の手動変更（set-billing）
+ * - paid の status は Stripe のサブスクから決まるので入力させない
+ */
+export default function BillingSettingsPanel(props: {
+  uid: string;
+  billing: Record<string, unknown>;
+  onDone: (message: string) => Promise<void>;
+  onError: (message: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(props.billing));
+  const [saving, setSaving] = useState(false);
+
+  const patch = (p: Partial<Draft>) => setDraft((prev) => ({ ...prev, ...p }));
+
+  const onSave = async () => {
+    props.onError("");
+    try {
+      setSaving(true);
+      await authedPost("/api/admin/set-billing", {
+        uid: props.uid,
+        mode: draft.mode,
+        stripeCustomerId: draft.stripeCustomerId.trim(),
+        ...(draft.mode === "free"
+          ? { status: draft.status }
+          : { stripeSubscriptionId: draft.stripeSubscriptionId.trim() }),
+      });
+      setOpen(false);
+      await props.onDone("課金設定を保存しました");
+    } catch (e) {
+      props.onError(e instanceof Error ? e.message : "保存に失敗しました");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputCls =
+    "mt-1 h-10 w-full rounded-md border px-3 font-mono text-xs bg-white dark:bg-gray-900 dark:border-gray-700";
+
+  if (!open) {
+    return (
+      <div className="mt-3 flex justify-end">
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(toDraft(props.billing));
+            setOpen(true);
+          }}
+          className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-800"
+        >
+          課金設定を変更…
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 rounded-lg border p-3 dark:border-gray-800">
+      <div className="text-sm font-bold">課金設定を変更</div>
+      <div className="mt-2 grid gap-3 sm:grid-cols-2">
+        <div>
+          <label className="text-xs font-bold text-gray-600 dark:text-gray-300">mode</label>
+          <select
+            value={draft.mode}
+            onChange={(e) => patch({ mode: e.target.value as BillingMode })}
+            className="mt-1 h-10 w-full rounded-md border px-2 bg-white dark:bg-gray-900 dark:border-gray-700"
+          >
+            <option value="paid">paid（サブスク必要）</option>
+            <option value="free">free（無課金OK）</option>
+          </select>
+        </div>
+        {draft.mode === "free" ? (
+          <div>
+            <label className="text-xs font-bold text-gray-600 dark:text-gray-300">status</label>
+            <select
+              value={draft.status}
+              onChange={(e) => patch({ status: e.target.value as BillingStatus })}
+              className="mt-1 h-10 w-full rounded-md border px-2 bg-white dark:bg-gray-900 dark:border-gray-700"
+            >
+              <option value="active">active</option>
+              <option value="inactive">inactive</option>
+            </select>
+          </div>
+        ) : (
+          <div className="self-end text-xs text-gray-500">status は Stripe のサブスク状態から自動で決まります。</div>
+        )}
+        <div>
+          <label className="text-xs font-bold text-gray-600 dark:text-gray-300">stripeCustomerId</label>
+          <input
+            value={draft.stripeCustomerId}
+            onChange={(e) => patch({ stripeCustomerId: e.target.value })}
+            className={inputCls}
+            placeholder="cus_..."
+          />
+        </div>
+        {draft.mode === "paid" && (
+          <div>
+            <label className="text-xs font-bold text-gray-600 dark:text-gray-300">stripeSubscriptionId</label>
+            <input
+              value={draft.stripeSubscriptionId}
+              onChange={(e) => patch({ stripeSubscriptionId: e.target.value })}
+              className={inputCls}
+              placeholder="sub_...（空欄 = 支払い待ち）"
+            />
+          </div>
+        )}
+      </div>
+      <div className="mt-3 flex justify-end gap-2">
+        <button
+          type="button"
+          disabled={saving}
+          onClick={() => setOpen(false)}
+          className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:hover:bg-gray-800"
+        >
+          閉じる
+        </button>
+        <button
+          type="button"
+          disabled={saving}
+          onClick={() => void onSave()}
+          className="h-9 rounded-md bg-black px-4 text-sm font-semibold text-white hover:bg-gray-900 disabled:opacity-50"
+        >
+          {saving ? "Stripe と照合中..." : "保存"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import { authedPost } from "@/lib/adminApi";
+import { fmtMoney } from "@/lib/money";
+
+type ProrationBehavior = "create_prorations" | "always_invoice" | "none";
+
+type Plan = {
+  id: string;
+  name: string;
+  stripePriceId: string;
+  amount: number;
+  currency: string;
+  interval: string;
+  active: boolean;
+};
+
+type Preview = {
+  currentPriceId: string;
+  newPriceId: string;
+  currency: string;
+  prorationAmount: number;
+  nextInvoiceTotal: number;
+  nextPaymentAttemptMs: number | null;
+  prorationDate: number;
+};
+
+type PlansOk = { ok: true; plans: Plan[] };
+type PreviewOk = { ok: true; plan: Plan; preview: Preview | null };
+
+const BEHAVIOR_LABELS: Record<ProrationBehavior, string> = {
+  create_prorations: "差額を次回請求に載せる",
+  always_invoice: "差額を今すぐ請求・返金",
+  none: "日割りしない（次回から新料金）",
+};
+
+function fmtMs(v: number | null): string {
+  if (!v) return "-";
+  return new Date(v).toLocaleString("ja-JP", { hour12: false });
+}
+
+/**
+ * プラン変更（プラン選択 → Stripe で日割りプレビュー → 確定）
+ * - サブスク未作成のメンバーは割当てプランだけ変わる
+ */
+export default function ChangePlanPanel(props: {
+  uid: string;
+  billing: Record<string, unknown>;
+  onDone: (message: string) => Promise<void>;
+  onError: (message: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [planId, setPlanId] = useState("");
+  const [result, setResult] = useState<PreviewOk | null>(null);
+  const [behavior, setBehavior] = useState<ProrationBehavior>("create_prorations");
+  const [busy, setBusy] = useState(false);
+
+  const currentPriceId = typeof props.billing.stripePriceId === "string" ? props.billing.stripePriceId : "";
+
+  const onOpen = async () => {
+    setOpen(true);
+    props.onError("");
+    try {
+      setBusy(true);
+      const json = await authedPost<PlansOk>("/api/admin/plans/list", {});
+      setPlans(json.plans.filter((p) => p.active));
+    } catch (e) {
+      props.onError(e instanceof Error ? e.message : "プランの取得に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadPreview = async (nextPlanId: string) => {
+    setPlanId(nextPlanId);
+    setResult(null);
+    if (!nextPlanId) return;
+    props.onError("");
+    try {
+      setBusy(true);
+      const json = await authedPost<PreviewOk>("/api/admin/members/change-plan/preview", {
+        uid: props.uid,
+        planId: nextPlanId,
+      });
+      setResult(json);
+    } catch (e) {
+      props.onError(e instanceof Error ? e.message : "プレビューの取得に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onConfirm = async () => {
+    if (!result) return;
+    const lines = result.preview
+      ? [
+          `プランを「${result.plan.name}」に変更します（Stripe のサブスクを更新）。`,
+          `日割り: ${BEHAVIOR_LABELS[behavior]}`,
+          "",
+          "続行しますか？",
+        ]
+      : [`割当てプランを「${result.plan.name}」に変更します。`, "", "続行しますか？"];
+    if (!confirm(lines.join("\n"))) return;
+
+    props.onError("");
+    try {
+      setBusy(true);
+      await authedPost("/api/admin/members/change-plan", {
+        uid: props.uid,
+        planId: result.plan.id,
+        prorationBehavior: behavior,
+        ...(result.preview ? { prorationDate: result.preview.prorationDate } : {}),
+      });
+      setOpen(false);
+      setResult(null);
+      setPlanId("");
+      await props.onDone("プランを変更しました");
+    } catch (e) {
+      props.onError(e instanceof Error ? e.message : "プラン変更に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <div className="mt-3 flex justify-end">
+        <button
+          type="button"
+          onClick={() => void onOpen()}
+          className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-800"
+        >
+          プラン変更…
+        </button>
+      </div>
+    );
+  }
+
+  const preview = result?.preview ?? null;
+
+  return (
+    <div className="mt-3 rounded-lg border p-3 dark:border-gray-800">
+      <div className="text-sm font-bold">プラン変更</div>
+
+      <div className="mt-2 grid gap-3 text-sm">
+        <select
+          value={planId}
+          disabled={busy}
+          onChange={(e) => void loadPreview(e.target.value)}
+          className="h-10 w-full rounded-md border px-2 bg-white dark:bg-gray-900 dark:border-gray-700"
+        >
+          <option value="">変更先のプランを選択</option>
+          {plans.map((p) => (
+            <option key={p.id} value={p.id} disabled={!!currentPriceId && p.stripePriceId === currentPriceId}>
+              {p.name}（{fmtMoney(p.amount, p.currency)} / {p.interval}）
+            </option>
+          ))}
+        </select>
+
+        {busy && planId && !result && <div>Stripe から取得中...</div>}
+
+        {result && !preview && (
+          <div className="text-gray-600 dark:text-gray-300">
+            サブスク未作成のため、割当てプランだけ変更します（支払い時にこのプランで契約）。
+          </div>
+        )}
+
+        {preview && (
+          <>
+            <div className="grid gap-1">
+              <div>
+                日割り差額: {fmtMoney(preview.prorationAmount, preview.currency)}
+                {preview.prorationAmount < 0 ? "（クレジット）" : ""}
+              </div>
+              <div>
+                次回請求（日割り込み）: {fmtMoney(preview.nextInvoiceTotal, preview.currency)}（
+                {fmtMs(preview.nextPaymentAttemptMs)}）
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="font-semibold">日割り</span>
+              {(Object.keys(BEHAVIOR_LABELS) as ProrationBehavior[]).map((b) => (
+                <label key={b} className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    name="prorationBehavior"
+                    checked={behavior === b}
+                    onChange={() => setBehavior(b)}
+                  />
+                  {BEHAVIOR_LABELS[b]}
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => {
+              setOpen(false);
+              setResult(null);
+              setPlanId("");
+            }}
+            className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:hover:bg-gray-800"
+          >
+            閉じる
+          </button>
+          <button
+            type="button"
+            disabled={busy || !result}
+            onClick={() => void onConfirm()}
+            className="h-9 rounded-md bg-black px-4 text-sm font-semibold text-white hover:bg-gray-900 disabled:opacity-50"
+          >
+            {busy ? "処理中..." : "変更する"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import { useState } from "react";
+import { authedPost } from "@/lib/adminApi";
+import { fmtMoney } from "@/lib/money";
+
+type Remedy = "none" | "credit" | "prorated_refund" | "full_refund" | "partial_refund";
+
+type Plan = { creditAmount: number; refundAmount: number };
+
+type LastPayment = {
+  invoiceId: string;
+  invoiceNumber: string;
+  amountPaid: number;
+  paidAtMs: number | null;
+  refundable: number;
+};
+
+type Preview = {
+  subscriptionId: string;
+  subscriptionStatus: string;
+  currency: string;
+  prorationCredit: number;
+  lastPayment: LastPayment | null;
+  prorationDate: number;
+};
+
+type PreviewOk = {
+  ok: true;
+  preview: Preview;
+  plans: Record<Exclude<Remedy, "partial_refund">, Plan | null>;
+};
+
+const REMEDY_LABELS: Record<Remedy, string> = {
+  none: "補償しない",
+  credit: "未使用分を顧客残高へクレジット",
+  prorated_refund: "未使用分だけ返金",
+  full_refund: "最新の支払いを全額返金",
+  partial_refund: "金額を指定して返金",
+};
+
+function fmtMs(v: number | null): string {
+  if (!v) return "-";
+  return new Date(v).toLocaleString("ja-JP", { hour12: false });
+}
+
+/**
+ * 即時解約（補償を1つ選ぶ → Stripe でプレビュー → 確定）
+ * - 表示する額はプレビュー API が返した実行額。確定時は同じ prorationDate を渡す
+ */
+export default function ImmediateCancelPanel(props: {
+  uid: string;
+  onDone: (message: string) => Promise<void>;
+  onError: (message: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [remedy, setRemedy] = useState<Remedy>("none");
+  const [partial, setPartial] = useState("");
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [plans, setPlans] = useState<PreviewOk["plans"] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadPreview = async () => {
+    props.onError("");
+    try {
+      setBusy(true);
+      const json = await authedPost<PreviewOk>("/api/admin/members/cancel-now/preview", { uid: props.uid });
+      setPreview(json.preview);
+      setPlans(json.plans);
+      setRemedy("none");
+      setPartial(String(json.plans.prorated_refund?.refundAmount ?? ""));
+    } catch (e) {
+      props.onError(e instanceof Error ? e.message : "プレビューの取得に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const plan: Plan =
+    remedy === "partial_refund"
+      ? { creditAmount: 0, refundAmount: Number(partial) || 0 }
+      : (plans?.[remedy] ?? { creditAmount: 0, refundAmount: 0 });
+  const refundAmount = plan.refundAmount;
+
+  const onConfirm = async () => {
+    if (!preview) return;
+    const lines = [
+      "サブスクを今すぐ解約します。元に戻せません。",
+      `クレジット: ${plan.creditAmount ? fmtMoney(plan.creditAmount, preview.currency) : "なし"}`,
+      `返金: ${refundAmount ? fmtMoney(refundAmount, preview.currency) : "なし"}`,
+      "",
+      "続行しますか？",
+    ];
+    if (!confirm(lines.join("\n"))) return;
+
+    props.onError("");
+    try {
+      setBusy(true);
+      await authedPost("/api/admin/members/cancel-now", {
+        uid: props.uid,
+        remedy,
+        prorationDate: preview.prorationDate,
+        ...(remedy === "partial_refund" ? { refundAmount } : {}),
+      });
+      setOpen(false);
+      setPreview(null);
+      setPlans(null);
+      await props.onDone("即時解約しました");
+    } catch (e) {
+      props.onError(e instanceof Error ? e.message : "解約に失敗しました");
+      await props.onDone("");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <div className="mt-3 flex justify-end">
+        <button
+          type="button"
+          onClick={() => {
+            setOpen(true);
+            void loadPreview();
+          }}
+          className="h-9 rounded-md border border-red-300 px-3 text-sm font-semibold text-red-700 hover:bg-red-50 dark:border-red-900/60 dark:text-red-300 dark:hover:bg-red-950/30"
+        >
+          即時解約…
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 rounded-lg border border-red-200 p-3 dark:border-red-900/40">
+      <div className="text-sm font-bold text-red-700 dark:text-red-300">即時解約</div>
+
+      {!preview ? (
+        <div className="mt-2 text-sm">{busy ? "Stripe から取得中..." : "-"}</div>
+      ) : (
+        <div className="mt-2 grid gap-3 text-sm">
+          <div className="grid gap-1">
+            <div>
+              最新の支払い:{" "}
+              {preview.lastPayment
+                ? `${preview.lastPayment.invoiceNumber || preview.lastPayment.invoiceId} / ${fmtMoney(
+                    preview.lastPayment.amountPaid,
+                    preview.currency,
+                  )}（${fmtMs(preview.lastPayment.paidAtMs)}）`
+                : "なし"}
+            </div>
+            <div>
+              返金可能額:{" "}
+              {fmtMoney(preview.lastPayment?.refundable ?? 0, preview.currency)}
+            </div>
+            <div>未使用期間の日割り額: {fmtMoney(preview.prorationCredit, preview.currency)}</div>
+          </div>
+
+          <div className="grid gap-1">
+            <span className="font-semibold">補償（1つだけ）</span>
+            {(Object.keys(REMEDY_LABELS) as Remedy[]).map((m) => {
+              const fixed = m === "partial_refund" ? null : (plans?.[m] ?? null);
+              const available = m === "partial_refund" ? !!preview.lastPayment?.refundable : fixed !== null;
+              const amount = fixed ? fixed.creditAmount || fixed.refundAmount : 0;
+              return (
+                <label key={m} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="remedy"
+                    checked={remedy === m}
+                    disabled={!available}
+                    onChange={() => setRemedy(m)}
+                  />
+                  {REMEDY_LABELS[m]}
+                  {amount > 0 && <span className="font-mono">{fmtMoney(amount, preview.currency)}</span>}
+                  {m === "partial_refund" && remedy === m && (
+                    <input
+                      value={partial}
+                      onChange={(e) => setPartial(e.target.value.replace(/[^\d]/g, ""))}
+                      className="h-8 w-32 rounded-md border px-2 bg-white dark:bg-gray-900 dark:border-gray-700"
+                      inputMode="numeric"
+                      title="最小通貨単位（JPY は円）。初期値は未使用分"
+                    />
+                  )}
+                </label>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => {
+                setOpen(false);
+                setPreview(null);
+                setPlans(null);
+              }}
+              className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:hover:bg-gray-800"
+            >
+              閉じる
+            </button>
+            <button
+              type="button"
+              disabled={busy || (remedy === "partial_refund" && refundAmount <= 0)}
+              onClick={() => void onConfirm()}
+              className="h-9 rounded-md bg-red-600 px-3 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-50"
+            >
+              {busy
+                ? "処理中..."
+                : `今すぐ解約${
+                    plan.creditAmount
+                      ? `（${fmtMoney(plan.creditAmount, preview.currency)} クレジット）`
+                      : refundAmount
+                        ? `（${fmtMoney(refundAmount, preview.currency)} 返金）`
+                        : ""
+                  }`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,571 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { AsYouType } from "libphonenumber-js";
+import { authedPost } from "@/lib/adminApi";
+import BillingHistoryPanel from "./BillingHistoryPanel";
+import BillingSettingsPanel from "./BillingSettingsPanel";
+import ChangePlanPanel from "./ChangePlanPanel";
+import ImmediateCancelPanel from "./ImmediateCancelPanel";
+
+type AuthInfo = {
+  email: string;
+  emailVerified: boolean;
+  disabled: boolean;
+  displayName: string;
+  creationTime: string;
+  lastSignInTime: string;
+};
+
+type GetOk = {
+  ok: true;
+  uid: string;
+  path: string;
+  member: Record<string, unknown>;
+  inviteStatus: InviteStatus | null;
+  authUser: AuthInfo | null;
+};
+
+type UpdateOk = { ok: true; uid: string; emailChanged: boolean };
+
+type AccountState = "active" | "disabled" | "deleted";
+type InviteStatus = "sent" | "accepted" | "expired" | "failed";
+
+const INVITE_STATUS_LABELS: Record<InviteStatus, string> = {
+  sent: "送信済み（未ログイン）",
+  accepted: "ログイン済み",
+  expired: "リンク期限切れ",
+  failed: "送信失敗",
+};
+
+const ACCOUNT_STATE_LABELS: Record<AccountState, string> = {
+  active: "利用中",
+  disabled: "停止中",
+  deleted: "削除済み",
+};
+
+type ProfileDraft = {
+  email: string;
+  fullName: string;
+  phone: string;
+  companyName: string;
+  companyAddress: string;
+};
+
+const EMPTY_DRAFT: ProfileDraft = {
+  email: "",
+  fullName: "",
+  phone: "",
+  companyName: "",
+  companyAddress: "",
+};
+
+function obj(v: unknown): Record<string, unknown> {
+  return typeof v === "object" && v !== null ? (v as Record<string, unknown>) : {};
+}
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function normalizePhone(s: string): string {
+  return s.replace(/[^\d+]/g, "").trim();
+}
+
+function fmtMs(v: unknown): string {
+  if (typeof v !== "number" || !v) return "-";
+  return new Date(v).toLocaleString("ja-JP", { hour12: false });
+}
+
+function fmtDateStr(s: string): string {
+  if (!s) return "-";
+  return new Date(s).toLocaleString("ja-JP", { hour12: false });
+}
+
+function fmtBool(v: unknown): string {
+  return typeof v === "boolean" ? (v ? "true" : "false") : "-";
+}
+
+function toAccountState(v: unknown): AccountState {
+  return v === "disabled" || v === "deleted" ? v : "active";
+}
+
+function toDraft(member: Record<string, unknown>): ProfileDraft {
+  const p = obj(member.profile);
+  return {
+    email: str(member.email),
+    fullName: str(p.fullName),
+    phone: new AsYouType("JP").input(str(p.phone)),
+    companyName: str(p.companyName),
+    companyAddress: str(p.companyAddress),
+  };
+}
+
+function Row(props: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="grid grid-cols-[160px_1fr] gap-2 border-t py-2 text-sm first:border-t-0 dark:border-gray-800">
+      <div className="font-semibold text-gray-600 dark:text-gray-300">{props.label}</div>
+      <div className="break-all">{props.children}</div>
+    </div>
+  );
+}
+
+export default function MemberDetailPage() {
+  const params = useParams<{ uid: string }>();
+  const uid = decodeURIComponent(params.uid ?? "");
+
+  const [data, setData] = useState<GetOk | null>(null);
+  const [draft, setDraft] = useState<ProfileDraft>(EMPTY_DRAFT);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+  const [msg, setMsg] = useState("");
+
+  const fetchMember = useCallback(async () => {
+    setErr("");
+    setLoading(true);
+    try {
+      const json = await authedPost<GetOk>("/api/admin/members/get", { uid });
+      setData(json);
+      setDraft(toDraft(json.member));
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  }, [uid]);
+
+  useEffect(() => {
+    void fetchMember();
+  }, [fetchMember]);
+
+  const setField = (k: keyof ProfileDraft, v: string) =>
+    setDraft((prev) => ({ ...prev, [k]: v }));
+
+  const onSave = async () => {
+    setErr("");
+    setMsg("");
+
+    const em = draft.email.trim();
+    const nm = draft.fullName.trim();
+    const cn = draft.companyName.trim();
+
+    if (!nm) return setErr("氏名（必須）を入力してください。");
+    if (!cn) return setErr("所属会社名（必須）を入力してください。");
+    if (!em) return setErr("メール（必須）を入力してください。");
+
+    const prevEmail = data ? str(data.member.email) : "";
+    if (em !== prevEmail) {
+      const ok = confirm(
+        `メールを変更します。\n${prevEmail || "(なし)"} → ${em}\n\nログインIDも変わります。続行しますか？`,
+      );
+      if (!ok) return;
+    }
+
+    try {
+      setSaving(true);
+      const json = await authedPost<UpdateOk>("/api/admin/update-member", {
+        uid,
+        email: em,
+        fullName: nm,
+        phone: normalizePhone(draft.phone),
+        companyName: cn,
+        companyAddress: draft.companyAddress.trim(),
+      });
+      setMsg(json.emailChanged ? "保存しました（メール変更をAuthにも反映）" : "保存しました");
+      await fetchMember();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "保存に失敗しました");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 利用停止 / 再開 / 削除 / 完全削除（共通の実行処理）
+  const runAccountAction = async (path: string, body: Record<string, unknown>, done: string) => {
+    setErr("");
+    setMsg("");
+    try {
+      setBusy(true);
+      await authedPost(path, { uid, ...body });
+      setMsg(done);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "更新に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onSetDisabled = async (disabled: boolean) => {
+    if (disabled && !confirm("このメンバーのログインを停止します。続行しますか？")) return;
+    await runAccountAction(
+      "/api/admin/members/set-disabled",
+      { disabled },
+      disabled ? "利用停止しました" : "利用を再開しました",
+    );
+    await fetchMember();
+  };
+
+  const onResendInvite = async () => {
+    await runAccountAction("/api/admin/members/resend-invite", {}, "招待メールを再送しました");
+    await fetchMember();
+  };
+
+  const onDelete = async () => {
+    const ok = confirm(
+      "このメンバーを削除します。\nログインを停止し、Stripeのサブスクは即時解約されます。\n保持期間の経過後に完全に削除されます。続行しますか？",
+    );
+    if (!ok) return;
+    await runAccountAction("/api/admin/members/delete", {}, "削除しました");
+    await fetchMember();
+  };
+
+  const onPurge = async () => {
+    if (!confirm("Authユーザーとドキュメントを完全に削除します。元に戻せません。続行しますか？")) return;
+    await runAccountAction("/api/admin/members/purge", {}, "完全に削除しました");
+    setData(null);
+  };
+
+  const inputCls =
+    "mt-1 h-10 w-full rounded-md border px-3 bg-white dark:bg-gray-900 dark:border-gray-700";
+
+  const member = data?.member ?? {};
+  const billing = obj(member.billing);
+  const authUser = data?.authUser ?? null;
+  const account = obj(member.account);
+  const accountState = toAccountState(account.state);
+  const purgeAfterMs = typeof account.purgeAfterMs === "number" ? account.purgeAfterMs : null;
+  const invite = obj(member.invite);
+  const inviteStatus = data?.inviteStatus ?? null;
+  // 会社に所属していれば会社名・住所は会社ページで管理
+  const companyId = str(member.companyId);
+
+  return (
+    <div className="mx-auto max-w-5xl p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <Link href="/members" className="text-sm text-blue-600 hover:underline dark:text-blue-400">
+            ← メンバー一覧
+          </Link>
+          <h1 className="mt-1 text-xl font-bold">{str(member.email) || "メンバー詳細"}</h1>
+          <div className="font-mono text-xs text-gray-500">{data?.path ?? uid}</div>
+        </div>
+        <button
+          type="button"
+          onClick={() => void fetchMember()}
+          className="rounded-md border px-3 py-1.5 text-sm font-medium hover:bg-gray-50 dark:border-gray-800 dark:hover:bg-gray-900"
+        >
+          再読み込み
+        </button>
+      </div>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm font-bold text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300">
+          {err}
+        </div>
+      )}
+      {msg && (
+        <div className="mt-3 rounded-lg border bg-white p-3 text-sm font-bold dark:border-gray-800 dark:bg-gray-900">
+          {msg}
+        </div>
+      )}
+
+      {loading && !data ? (
+        <div className="mt-4 text-sm">loading...</div>
+      ) : data ? (
+        <div className="mt-4 grid gap-4">
+          {/* プロフィール */}
+          <section className="rounded-xl border p-4 dark:border-gray-800">
+            <div className="font-semibold">プロフィール</div>
+            <div className="mt-3 grid gap-3 sm:grid-cols-2">
+              <div className="sm:col-span-2">
+                <label className="text-xs font-bold text-gray-600 dark:text-gray-300">氏名</label>
+                <input value={draft.fullName} onChange={(e) => setField("fullName", e.target.value)} className={inputCls} />
+              </div>
+              <div>
+                <label className="text-xs font-bold text-gray-600 dark:text-gray-300">携帯番号</label>
+                <input
+                  value={draft.phone}
+                  onChange={(e) => setField("phone", new AsYouType("JP").input(e.target.value))}
+                  className={inputCls}
+                  inputMode="tel"
+                />
+              </div>
+              <div>
+                <label className="text-xs font-bold text-gray-600 dark:text-gray-300">
+                  所属会社名
+                  {companyId && (
+                    <Link
+                      href={`/companies/${encodeURIComponent(companyId)}`}
+                      className="ml-2 text-blue-600 hover:underline dark:text-blue-400"
+                    >
+                      会社ページで変更
+                    </Link>
+                  )}
+                </label>
+                <input
+                  value={draft.companyName}
+                  disabled={!!companyId}
+                  onChange={(e) => setField("companyName", e.target.value)}
+                  className={`${inputCls} disabled:opacity-60`}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="text-xs font-bold text-gray-600 dark:text-gray-300">住所</label>
+                <input
+                  value={draft.companyAddress}
+                  disabled={!!companyId}
+                  onChange={(e) => setField("companyAddress", e.target.value)}
+                  className={`${inputCls} disabled:opacity-60`}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="text-xs font-bold text-gray-600 dark:text-gray-300">
+                  メール（Firebase Auth のログインIDも変更されます）
+                </label>
+                <input
+                  value={draft.email}
+                  onChange={(e) => setField("email", e.target.value)}
+                  className={inputCls}
+                  inputMode="email"
+                />
+              </div>
+            </div>
+            <div className="mt-3 flex justify-end">
+              <button
+                type="button"
+                disabled={saving}
+                onClick={() => void onSave()}
+                className="h-10 rounded-md bg-black px-4 text-sm font-semibold text-white hover:bg-gray-900 disabled:opacity-50"
+              >
+                {saving ? "保存中..." : "保存"}
+              </button>
+            </div>
+          </section>
+
+          {/* Firebase Auth */}
+          <section className="rounded-xl border p-4 dark:border-gray-800">
+            <div className="font-semibold">Firebase Auth</div>
+            {authUser ? (
+              <div className="mt-2">
+                <Row label="email">{authUser.email || "-"}</Row>
+                <Row label="メール確認済み">{fmtBool(authUser.emailVerified)}</Row>
+                <Row label="無効化">{fmtBool(authUser.disabled)}</Row>
+                <Row label="表示名">{authUser.displayName || "-"}</Row>
+                <Row label="作成日時">{fmtDateStr(authUser.creationTime)}</Row>
+                <Row label="最終ログイン">{fmtDateStr(authUser.lastSignInTime)}</Row>
+              </div>
+            ) : (
+              <div className="mt-2 text-sm text-red-600">Auth ユーザーが存在しません。</div>
+            )}
+          </section>
+
+          {/* 招待 */}
+          {inviteStatus && (
+            <section className="rounded-xl border p-4 dark:border-gray-800">
+              <div className="font-semibold">招待メール</div>
+              <div className="mt-2">
+                <Row label="状態">
+                  <span
+                    className={
+                      inviteStatus === "expired" || inviteStatus === "failed"
+                        ? "font-bold text-red-600 dark:text-red-400"
+                        : ""
+                    }
+                  >
+                    {INVITE_STATUS_LABELS[inviteStatus]}
+                  </span>
+                </Row>
+                <Row label="送信日時">{fmtMs(invite.sentAtMs)}</Row>
+                <Row label="リンク期限">{fmtMs(invite.expiresAtMs)}</Row>
+                <Row label="送信回数">{typeof invite.sentCount === "number" ? invite.sentCount : "-"}</Row>
+                {inviteStatus === "accepted" && <Row label="初回ログイン">{fmtMs(invite.acceptedAtMs)}</Row>}
+                {inviteStatus === "failed" && <Row label="エラー">{str(invite.lastError) || "-"}</Row>}
+              </div>
+              {inviteStatus !== "accepted" && accountState === "active" && (
+                <div className="mt-3 flex justify-end">
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => void onResendInvite()}
+                    className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:hover:bg-gray-800"
+                  >
+                    招待メールを再送
+                  </button>
+                </div>
+              )}
+            </section>
+          )}
+
+          {/* 利用状態 */}
+          <section className="rounded-xl border p-4 dark:border-gray-800">
+            <div className="font-semibold">利用状態</div>
+            <div className="mt-2">
+              <Row label="状態">
+                <span className={accountState === "active" ? "" : "font-bold text-red-600 dark:text-red-400"}>
+                  {ACCOUNT_STATE_LABELS[accountState]}
+                </span>
+              </Row>
+              {accountState === "disabled" && <Row label="停止日時">{fmtMs(account.disabledAtMs)}</Row>}
+              {accountState === "deleted" && (
+                <>
+                  <Row label="削除日時">{fmtMs(account.deletedAtMs)}</Row>
+                  <Row label="完全削除予定">{fmtMs(purgeAfterMs)}</Row>
+                </>
+              )}
+            </div>
+            <div className="mt-3 flex flex-wrap justify-end gap-2">
+              {accountState === "active" && (
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void onSetDisabled(true)}
+                  className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:hover:bg-gray-800"
+                >
+                  利用停止
+                </button>
+              )}
+              {accountState === "disabled" && (
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void onSetDisabled(false)}
+                  className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:hover:bg-gray-800"
+                >
+                  利用再開
+                </button>
+              )}
+              {accountState !== "deleted" ? (
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void onDelete()}
+                  className="h-9 rounded-md bg-red-600 px-3 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  削除
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  disabled={busy || purgeAfterMs === null || purgeAfterMs > Date.now()}
+                  onClick={() => void onPurge()}
+                  title={purgeAfterMs && purgeAfterMs > Date.now() ? "保持期間中は完全削除できません" : ""}
+                  className="h-9 rounded-md bg-red-600 px-3 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  完全削除
+                </button>
+              )}
+            </div>
+          </section>
+
+          {/* 課金 */}
+          <section className="rounded-xl border p-4 dark:border-gray-800">
+            <div className="font-semibold">課金</div>
+            <div className="mt-2">
+              <Row label="mode">{str(billing.mode) || "-"}</Row>
+              <Row label="status">{str(billing.status) || "-"}</Row>
+              <Row label="Stripe status">{str(billing.stripeStatus) || "-"}</Row>
+              {str(billing.mode) === "trial" && (
+                <>
+                  <Row label="トライアル期間">
+                    {fmtMs(obj(billing.trial).startMs)} 〜 {fmtMs(obj(billing.trial).endMs)}
+                  </Row>
+                  <Row label="リマインド送信">{fmtMs(obj(billing.trial).reminderSentAtMs)}</Row>
+                  {str(obj(billing.trial).outcome) && (
+                    <Row label="トライアル結果">
+                      {str(obj(billing.trial).outcome) === "converted" ? "サブスクへ移行" : "期限切れ"}
+                      {str(obj(billing.trial).convertError) && `（${str(obj(billing.trial).convertError)}）`}
+                    </Row>
+                  )}
+                </>
+              )}
+              {(str(billing.mode) === "paid" || str(billing.mode) === "trial") && (
+                <Row label="プラン">
+                  <span className="font-mono text-xs">
+                    {str(billing.planId) || "-"}
+                    {str(billing.stripePriceId) ? ` / ${str(billing.stripePriceId)}` : ""}
+                  </span>
+                </Row>
+              )}
+              <Row label="stripeCustomerId">
+                <span className="font-mono text-xs">{str(billing.stripeCustomerId) || "-"}</span>
+              </Row>
+              <Row label="stripeSubscriptionId">
+                <span className="font-mono text-xs">{str(billing.stripeSubscriptionId) || "-"}</span>
+              </Row>
+              <Row label="解約予定">{fmtBool(billing.cancelAtPeriodEnd)}</Row>
+              <Row label="期間満了">{fmtMs(billing.currentPeriodEndMs)}</Row>
+              {typeof billing.canceledAtMs === "number" && (
+                <Row label="解約日時">{fmtMs(billing.canceledAtMs)}</Row>
+              )}
+              {str(obj(billing.lastRefund).id) && (
+                <Row label="直近の返金">
+                  <span className="font-mono text-xs">
+                    {str(obj(billing.lastRefund).id)} / {String(obj(billing.lastRefund).amount)}{" "}
+                    {str(obj(billing.lastRefund).currency).toUpperCase()}（{str(obj(billing.lastRefund).status)}）
+                  </span>
+                </Row>
+              )}
+              {str(obj(billing.lastCredit).id) && (
+                <Row label="直近のクレジット">
+                  <span className="font-mono text-xs">
+                    {str(obj(billing.lastCredit).id)} / {String(obj(billing.lastCredit).amount)}{" "}
+                    {str(obj(billing.lastCredit).currency).toUpperCase()}
+                  </span>
+                </Row>
+              )}
+              <Row label="更新日時">{fmtMs(billing.updatedAt)}</Row>
+            </div>
+            <BillingSettingsPanel
+              uid={uid}
+              billing={billing}
+              onError={setErr}
+              onDone={async (m) => {
+                setMsg(m);
+                await fetchMember();
+              }}
+            />
+            {(str(billing.mode) === "paid" || str(billing.mode) === "trial") &&
+              str(billing.stripeStatus) !== "canceled" && (
+              <ChangePlanPanel
+                uid={uid}
+                billing={billing}
+                onError={setErr}
+                onDone={async (m) => {
+                  setMsg(m);
+                  await fetchMember();
+                }}
+              />
+            )}
+            {str(billing.stripeSubscriptionId) && str(billing.stripeStatus) !== "canceled" && (
+              <ImmediateCancelPanel
+                uid={uid}
+                onError={setErr}
+                onDone={async (m) => {
+                  if (m) setMsg(m);
+                  await fetchMember();
+                }}
+              />
+            )}
+          </section>
+
+          {/* 請求・支払い履歴 */}
+          {str(billing.stripeCustomerId) && (
+            <BillingHistoryPanel uid={uid} customerId={str(billing.stripeCustomerId)} />
+          )}
+
+          {/* 生データ */}
+          <section className="rounded-xl border p-4 dark:border-gray-800">
+            <div className="font-semibold">reNovaMember ドキュメント</div>
+            <pre className="mt-2 overflow-x-auto rounded-md bg-gray-50 p-3 text-xs dark:bg-gray-900">
+              {JSON.stringify(member, null, 2)}
+            </pre>
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+}
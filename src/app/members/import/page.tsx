@@ -0,0 +1,298 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { authedPost } from "@/lib/adminApi";
+import { toCsv } from "@/lib/csv";
+
+type ImportRow = {
+  line: number;
+  email: string;
+  fullName: string;
+  phone: string;
+  companyName: string;
+  companyAddress: string;
+  billingMode: string;
+};
+
+type ImportRowReport = ImportRow & { errors: string[] };
+
+type DryRunOk = {
+  ok: true;
+  rows: ImportRowReport[];
+  summary: { total: number; valid: number; invalid: number };
+};
+
+type RowResult = {
+  line: number;
+  email: string;
+  uid: string;
+  invite: { status: "sent" | "failed"; error: string } | null;
+  error: string;
+};
+
+type CommitOk = { ok: true; results: RowResult[] };
+
+// サーバー側 IMPORT_BATCH_SIZE と合わせる
+const BATCH_SIZE = 20;
+
+const TEMPLATE_HEADER = ["fullName", "phone", "company", "address", "email", "billingMode"];
+
+// Excel 由来の CSV は Shift_JIS のことがあるので、UTF-8 で読めなければ切り替える
+function decodeCsv(buf: ArrayBuffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buf);
+  } catch {
+    return new TextDecoder("shift_jis").decode(buf);
+  }
+}
+
+function download(filename: string, content: string) {
+  const blob = new Blob([content], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function MemberImportPage() {
+  const [fileName, setFileName] = useState("");
+  const [csvText, setCsvText] = useState("");
+
+  const [report, setReport] = useState<DryRunOk | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const [committing, setCommitting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [results, setResults] = useState<RowResult[]>([]);
+
+  const [err, setErr] = useState("");
+
+  const validRows = useMemo(
+    () => (report ? report.rows.filter((r) => r.errors.length === 0) : []),
+    [report],
+  );
+
+  const onFile = async (file: File | null) => {
+    setErr("");
+    setReport(null);
+    setResults([]);
+    setProgress({ done: 0, total: 0 });
+    if (!file) return;
+    setFileName(file.name);
+    setCsvText(decodeCsv(await file.arrayBuffer()));
+  };
+
+  const onDryRun = async () => {
+    setErr("");
+    setResults([]);
+    try {
+      setChecking(true);
+      const json = await authedPost<DryRunOk>("/api/admin/members/import/dry-run", { csv: csvText });
+      setReport(json);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "チェックに失敗しました");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const onCommit = async () => {
+    if (!validRows.length) return;
+    if (!confirm(`${validRows.length}件のアカウントを作成します。続行しますか？`)) return;
+
+    setErr("");
+    setResults([]);
+    setCommitting(true);
+    setProgress({ done: 0, total: validRows.length });
+
+    const all: RowResult[] = [];
+    try {
+      for (let i = 0; i < validRows.length; i += BATCH_SIZE) {
+        const chunk = validRows.slice(i, i + BATCH_SIZE).map((r) => ({
+          line: r.line,
+          email: r.email,
+          fullName: r.fullName,
+          phone: r.phone,
+          companyName: r.companyName,
+          companyAddress: r.companyAddress,
+          billingMode: r.billingMode,
+        }));
+        const json = await authedPost<CommitOk>("/api/admin/members/import/commit", { rows: chunk });
+        all.push(...json.results);
+        setResults([...all]);
+        setProgress({ done: all.length, total: validRows.length });
+      }
+    } catch (e) {
+      setErr(
+        `${e instanceof Error ? e.message : "取り込みに失敗しました"}（${all.length}件目まで処理済み）`,
+      );
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const downloadResults = () => {
+    download(
+      `member-import-result-${Date.now()}.csv`,
+      toCsv([
+        ["line", "email", "uid", "invite", "error"],
+        ...results.map((r) => [
+          r.line,
+          r.email,
+          r.uid,
+          r.invite ? (r.invite.status === "sent" ? "sent" : `failed:${r.invite.error}`) : "",
+          r.error,
+        ]),
+      ]),
+    );
+  };
+
+  const succeeded = results.filter((r) => !r.error).length;
+
+  return (
+    <div className="mx-auto max-w-7xl p-4">
+      <Link href="/members" className="text-sm text-blue-600 hover:underline dark:text-blue-400">
+        ← メンバー一覧
+      </Link>
+      <h1 className="mt-1 text-xl font-bold">CSV一括登録</h1>
+      <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+        列: <span className="font-mono">{TEMPLATE_HEADER.join(", ")}</span>（billingMode は free / paid、空欄は
+        paid）。まずチェック（dry-run）で内容を確認してから登録します。パスワードは作成せず、本人に招待メール（パスワード設定リンク）を送ります。送信に失敗した行はメンバー詳細から再送してください。
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 rounded-xl border p-4 dark:border-gray-800">
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => void onFile(e.target.files?.[0] ?? null)}
+          className="text-sm"
+        />
+        <button
+          type="button"
+          onClick={() => download("member-import-template.csv", toCsv([TEMPLATE_HEADER]))}
+          className="h-9 rounded-md border px-3 text-sm font-semibold hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-800"
+        >
+          テンプレートをダウンロード
+        </button>
+        <button
+          type="button"
+          disabled={!csvText || checking || committing}
+          onClick={() => void onDryRun()}
+          className="h-9 rounded-md bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {checking ? "チェック中..." : "チェック（dry-run）"}
+        </button>
+        {fileName && <span className="text-xs text-gray-500">{fileName}</span>}
+      </div>
+
+      {err && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm font-bold text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-300">
+          {err}
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-4 rounded-xl border p-4 dark:border-gray-800">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm font-semibold">
+              全{report.summary.total}件 / OK {report.summary.valid}件 /{" "}
+              <span className={report.summary.invalid ? "text-red-600" : ""}>
+                エラー {report.summary.invalid}件
+              </span>
+            </div>
+            <button
+              type="button"
+              disabled={!validRows.length || committing || results.length > 0}
+              onClick={() => void onCommit()}
+              className="h-9 rounded-md bg-black px-4 text-sm font-semibold text-white hover:bg-gray-900 disabled:opacity-50"
+            >
+              {committing ? "登録中..." : `OKの${validRows.length}件を登録`}
+            </button>
+          </div>
+
+          {progress.total > 0 && (
+            <div className="mt-3">
+              <div className="h-2 w-full overflow-hidden rounded bg-gray-200 dark:bg-gray-800">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }}
+                />
+              </div>
+              <div className="mt-1 flex items-center justify-between text-xs text-gray-500">
+                <span>
+                  {progress.done} / {progress.total}（成功 {succeeded} / 失敗 {results.length - succeeded}）
+                </span>
+                {results.length > 0 && !committing && (
+                  <button
+                    type="button"
+                    onClick={downloadResults}
+                    className="font-bold text-blue-600 hover:underline dark:text-blue-400"
+                  >
+                    結果ファイルをダウンロード
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="mt-3 overflow-x-auto rounded-lg border dark:border-gray-800">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className="px-3 py-2 text-left">行</th>
+                  <th className="px-3 py-2 text-left">氏名</th>
+                  <th className="px-3 py-2 text-left">電話</th>
+                  <th className="px-3 py-2 text-left">会社 / 住所</th>
+                  <th className="px-3 py-2 text-left">email</th>
+                  <th className="px-3 py-2 text-left">mode</th>
+                  <th className="px-3 py-2 text-left">結果</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((r) => {
+                  const res = results.find((x) => x.line === r.line);
+                  return (
+                    <tr key={r.line} className="border-t align-top dark:border-gray-800">
+                      <td className="px-3 py-2">{r.line}</td>
+                      <td className="px-3 py-2">{r.fullName}</td>
+                      <td className="px-3 py-2 font-mono text-xs">{r.phone}</td>
+                      <td className="px-3 py-2">
+                        <div>{r.companyName}</div>
+                        <div className="text-xs text-gray-500">{r.companyAddress}</div>
+                      </td>
+                      <td className="px-3 py-2">{r.email}</td>
+                      <td className="px-3 py-2">{r.billingMode || "paid"}</td>
+                      <td className="px-3 py-2 text-xs">
+                        {r.errors.length > 0 ? (
+                          <span className="font-bold text-red-600">{r.errors.join(" / ")}</span>
+                        ) : res ? (
+                          res.error ? (
+                            <span className="font-bold text-red-600">{res.error}</span>
+                          ) : (
+                            <>
+                              <span className="font-mono text-green-700 dark:text-green-400">{res.uid}</span>
+                              {res.invite?.status === "failed" && (
+                                <div className="text-amber-700 dark:text-amber-300">
+                                  招待メール送信失敗（{res.invite.error}）
+                                </div>
+                              )}
+                            </>
+                          )
+                        ) : (
+                          <span className="text-gray-500">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
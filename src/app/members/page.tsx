@@ -1,54 +1,92 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { auth } from "@/lib/firebaseClient";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { authedFetch, authedPost } from "@/lib/adminApi";
 
 type BillingStatus = "active" | "inactive";
+type BillingMode = "free" | "paid" | "trial" | "company";
+type AccountState = "active" | "disabled" | "deleted";
 type MemberRow = {
   uid: string;
   email: string;
+  fullName: string;
+  companyName: string;
+  mode: BillingMode;
   status: BillingStatus;
   stripeSubscriptionId: string;
+  planId: string;
+  stripePriceId: string;
   cancelAtPeriodEnd: boolean | null;
   currentPeriodEndMs: number | null;
+  trialEndMs: number | null;
+  companyId: string;
+  accountState: AccountState;
 };
 
-type ApiOk = { ok: true; members: MemberRow[] };
-type ApiNg = { ok: false; error: string };
+type ApiOk = { ok: true; members: MemberRow[]; nextCursor: string | null };
 
-function toErrMsgFromResponseText(t: string, status: number): string {
-  const s = (t ?? "").trim();
-  if (s) return s;
-  return `HTTP ${status}`;
-}
+type Plan = { id: string; name: string; stripePriceId: string };
+type PlansOk = { ok: true; plans: Plan[] };
 
-async function readApiError(res: Response): Promise<string> {
-  const status = res.status;
-  const ct = (res.headers.get("content-type") ?? "").toLowerCase();
+type SearchField = "email" | "companyName" | "fullName";
+type SortKey = "email" | "createdAt" | "currentPeriodEnd";
 
-  if (ct.includes("application/json")) {
-    try {
-      const j = (await res.json()) as unknown;
-      if (typeof j === "object" && j !== null) {
-        const o = j as Record<string, unknown>;
-        const msg = typeof o.error === "string" ? o.error : "";
-        const code = typeof o.errorCode === "string" ? o.errorCode : "";
-        if (msg && code) return `${code}: ${msg}`;
-        if (msg) return msg;
-        if (code) return code;
-      }
-      return `HTTP ${status}`;
-    } catch {
-      // fallthrough
-    }
-  }
-
-  try {
-    const t = await res.text();
-    return toErrMsgFromResponseText(t, status);
-  } catch {
-    return `HTTP ${status}`;
-  }
+type ListQuery = {
+  search: string;
+  searchField: SearchField;
+  status: BillingStatus | null;
+  mode: BillingMode | null;
+  cancelScheduled: boolean | null;
+  accountState: Exclude<AccountState, "active"> | null;
+  sort: SortKey;
+  dir: "asc" | "desc";
+};
+
+const DEFAULT_QUERY: ListQuery = {
+  search: "",
+  searchField: "email",
+  status: null,
+  mode: null,
+  cancelScheduled: null,
+  accountState: null,
+  sort: "email",
+  dir: "asc",
+};
+
+const PAGE_SIZE = 50;
+
+const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  email: "メール",
+  companyName: "会社名",
+  fullName: "氏名",
+};
+
+const SORT_LABELS: Record<SortKey, string> = {
+  email: "メール",
+  createdAt: "作成日",
+  currentPeriodEnd: "期間満了日",
+};
+
+const ACCOUNT_STATE_LABELS: Record<AccountState, string> = {
+  active: "利用中",
+  disabled: "停止中",
+  deleted: "削除済み",
+};
+
+// サブスクの実際の Price を優先、無ければ割当てプラン
+function planLabel(m: MemberRow, plans: Plan[]): string {
+  const byPrice = m.stripePriceId ? plans.find((p) => p.stripePriceId === m.stripePriceId) : undefined;
+  if (byPrice) return byPrice.name;
+  if (m.planId) return plans.find((p) => p.id === m.planId)?.name ?? m.planId;
+  return m.stripePriceId || "-";
+}
+
+// トライアルの残り日数（終了済みは「終了」）
+function trialCountdown(endMs: number | null): string {
+  if (!endMs) return "";
+  const left = Math.ceil((endMs - Date.now()) / (24 * 60 * 60 * 1000));
+  return left > 0 ? `残り${left}日` : "終了";
 }
 
 function fmtDate(ms: number | null): string {
@@ -57,94 +95,284 @@ function fmtDate(ms: number | null): string {
   return d.toLocaleString("ja-JP", { hour12: false });
 }
 
+// Content-Disposition の filename を拾う（無ければ fallback）
+function filenameFrom(res: Response, fallback: string): string {
+  const cd = res.headers.get("content-disposition") ?? "";
+  const m = /filename="([^"]+)"/.exec(cd);
+  return m?.[1] ?? fallback;
+}
+
+function Chip(props: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={props.onClick}
+      className={`rounded-full border px-3 py-1 text-xs font-bold ${
+        props.active
+          ? "bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900"
+          : "bg-white text-gray-700 hover:bg-gray-50 dark:bg-gray-950 dark:text-gray-200 dark:border-gray-800"
+      }`}
+    >
+      {props.children}
+    </button>
+  );
+}
+
 export default function MembersPage() {
   const [rows, setRows] = useState<MemberRow[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState("");
 
-  const fetchRows = useCallback(async () => {
+  const [query, setQuery] = useState<ListQuery>(DEFAULT_QUERY);
+  const [searchDraft, setSearchDraft] = useState("");
+  const [exporting, setExporting] = useState<"csv" | "xlsx" | null>(null);
+  const [plans, setPlans] = useState<Plan[]>([]);
+
+  useEffect(() => {
+    authedPost<PlansOk>("/api/admin/plans/list", {})
+      .then((json) => setPlans(json.plans))
+      .catch(() => setPlans([]));
+  }, []);
+
+  const fetchRows = useCallback(async (q: ListQuery, cursor: string | null) => {
     setErr("");
     setLoading(true);
     try {
-      const u = auth.currentUser;
-      if (!u) throw new Error("未ログインです");
-
-      const token = await u.getIdToken(true);
-      const res = await fetch("/api/admin/members/list", {
-        method: "POST",
-        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
-        body: JSON.stringify({}),
+      const json = await authedPost<ApiOk>("/api/admin/members/list", {
+        ...q,
+        cursor,
+        limit: PAGE_SIZE,
       });
-
-      if (!res.ok) {
-        const msg = await readApiError(res);
-        throw new Error(msg);
-      }
-
-      const json = (await res.json()) as ApiOk | ApiNg;
-      if (!json.ok) {
-        throw new Error(
-          "error" in json && typeof json.error === "string" && json.error ? json.error : "取得失敗",
-        );
-      }
-
-      setRows(json.members);
+      setRows((prev) => (cursor ? [...prev, ...json.members] : json.members));
+      setNextCursor(json.nextCursor);
     } catch (e) {
-      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+      const msg = e instanceof Error ? e.message : "取得に失敗しました";
+      setErr(
+        msg === "cursor_not_found"
+          ? "前ページの最後のメンバーが削除されたため続きを読めません。再読み込みしてください。"
+          : msg,
+      );
     } finally {
       setLoading(false);
     }
   }, []);
 
   useEffect(() => {
-    void fetchRows();
-  }, [fetchRows]);
+    void fetchRows(query, null);
+  }, [query, fetchRows]);
+
+  const reload = useCallback(() => fetchRows(query, null), [fetchRows, query]);
+
+  const patchQuery = (patch: Partial<ListQuery>) => setQuery((prev) => ({ ...prev, ...patch }));
 
   const doToggleCancel = useCallback(
     async (uid: string, cancelAtPeriodEnd: boolean) => {
       setErr("");
       try {
-        const u = auth.currentUser;
-        if (!u) throw new Error("未ログインです");
-
-        const token = await u.getIdToken(true);
-        const res = await fetch("/api/admin/members/cancel-at-period-end", {
-          method: "POST",
-          headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
-          body: JSON.stringify({ uid, cancelAtPeriodEnd }),
-        });
-
-        if (!res.ok) {
-          const msg = await readApiError(res);
-          throw new Error(msg);
-        }
-
-        const json = (await res.json()) as { ok: boolean; error?: string };
-        if (!json.ok) throw new Error(json.error ?? "更新に失敗しました");
-
-        await fetchRows();
+        await authedPost("/api/admin/members/cancel-at-period-end", { uid, cancelAtPeriodEnd });
+        await reload();
       } catch (e) {
         setErr(e instanceof Error ? e.message : "更新に失敗しました");
       }
     },
-    [fetchRows],
+    [reload],
   );
 
-  const sorted = useMemo(() => {
-    return [...rows].sort((a, b) => a.email.localeCompare(b.email));
-  }, [rows]);
+  // 現在の検索・絞り込み条件で全件をダウンロード
+  const doExport = async (format: "csv" | "xlsx") => {
+    setErr("");
+    setExporting(format);
+    try {
+      const res = await authedFetch("/api/admin/members/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...query, format }),
+      });
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filenameFrom(res, `members.${format}`);
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "エクスポートに失敗しました");
+    } finally {
+      setExporting(null);
+    }
+  };
 
   return (
     <div className="mx-auto max-w-7xl p-4">
       <div className="flex items-center justify-between gap-3">
         <h1 className="text-xl font-bold">メンバー一覧（reNovaMember）</h1>
-        <button
-          type="button"
-          onClick={fetchRows}
-          className="rounded-md border px-3 py-1.5 text-sm font-medium hover:bg-gray-50 dark:border-gray-800 dark:hover:bg-gray-900"
+        <div className="flex items-center gap-2">
+          <Link
+            href="/members/import"
+            className="rounded-md border px-3 py-1.5 text-sm font-medium hover:bg-gray-50 dark:border-gray-800 dark:hover:bg-gray-900"
+          >
+            CSV一括登録
+          </Link>
+          <button
+            type="button"
+            disabled={exporting !== null}
+            onClick={() => void doExport("csv")}
+            className="rounded-md border px-3 py-1.5 text-sm font-medium hover:bg-gray-50 disabled:opacity-50 dark:border-gray-800 dark:hover:bg-gray-900"
+          >
+            {exporting === "csv" ? "出力中..." : "CSV出力"}
+          </button>
+          <button
+            type="button"
+            disabled={exporting !== null}
+            onClick={() => void doExport("xlsx")}
+            className="rounded-md border px-3 py-1.5 text-sm font-medium hover:bg-gray-50 disabled:opacity-50 dark:border-gray-800 dark:hover:bg-gray-900"
+          >
+            {exporting === "xlsx" ? "出力中..." : "Excel出力"}
+          </button>
+          <button
+            type="button"
+            onClick={() => void reload()}
+            className="rounded-md border px-3 py-1.5 text-sm font-medium hover:bg-gray-50 dark:border-gray-800 dark:hover:bg-gray-900"
+          >
+            再読み込み
+          </button>
+        </div>
+      </div>
+
+      {/* 検索 / 絞り込み */}
+      <div className="mt-4 grid gap-3 rounded-xl border p-3 dark:border-gray-800">
+        <form
+          className="flex flex-col gap-2 sm:flex-row"
+          onSubmit={(e) => {
+            e.preventDefault();
+            patchQuery({ search: searchDraft.trim() });
+          }}
         >
-          再読み込み
-        </button>
+          <select
+            value={query.searchField}
+            onChange={(e) => patchQuery({ searchField: e.target.value as SearchField })}
+            className="h-10 rounded-md border px-2 bg-white dark:bg-gray-900 dark:border-gray-700"
+          >
+            {(Object.keys(SEARCH_FIELD_LABELS) as SearchField[]).map((k) => (
+              <option key={k} value={k}>
+                {SEARCH_FIELD_LABELS[k]}
+              </option>
+            ))}
+          </select>
+          <input
+            value={searchDraft}
+            onChange={(e) => setSearchDraft(e.target.value)}
+            className="h-10 flex-1 rounded-md border px-3 bg-white dark:bg-gray-900 dark:border-gray-700"
+            placeholder="前方一致で検索"
+          />
+          <button
+            type="submit"
+            className="h-10 rounded-md bg-blue-600 px-5 text-sm font-semibold text-white hover:bg-blue-700"
+          >
+            検索
+          </button>
+        </form>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-bold text-gray-500">status</span>
+          <Chip active={query.status === null} onClick={() => patchQuery({ status: null })}>
+            すべて
+          </Chip>
+          <Chip active={query.status === "active"} onClick={() => patchQuery({ status: "active" })}>
+            active
+          </Chip>
+          <Chip active={query.status === "inactive"} onClick={() => patchQuery({ status: "inactive" })}>
+            inactive
+          </Chip>
+
+          <span className="ml-3 text-xs font-bold text-gray-500">mode</span>
+          <Chip active={query.mode === null} onClick={() => patchQuery({ mode: null })}>
+            すべて
+          </Chip>
+          <Chip active={query.mode === "paid"} onClick={() => patchQuery({ mode: "paid" })}>
+            paid
+          </Chip>
+          <Chip active={query.mode === "free"} onClick={() => patchQuery({ mode: "free" })}>
+            free
+          </Chip>
+          <Chip active={query.mode === "trial"} onClick={() => patchQuery({ mode: "trial" })}>
+            trial
+          </Chip>
+          <Chip active={query.mode === "company"} onClick={() => patchQuery({ mode: "company" })}>
+            company
+          </Chip>
+
+          <span className="ml-3 text-xs font-bold text-gray-500">解約</span>
+          <Chip
+            active={query.cancelScheduled === true}
+            onClick={() => patchQuery({ cancelScheduled: query.cancelScheduled === true ? null : true })}
+          >
+            解約予定のみ
+          </Chip>
+
+          <span className="ml-3 text-xs font-bold text-gray-500">利用状態</span>
+          <Chip active={query.accountState === null} onClick={() => patchQuery({ accountState: null })}>
+            すべて
+          </Chip>
+          <Chip
+            active={query.accountState === "disabled"}
+            onClick={() => patchQuery({ accountState: "disabled" })}
+          >
+            停止中
+          </Chip>
+          <Chip
+            active={query.accountState === "deleted"}
+            onClick={() => patchQuery({ accountState: "deleted" })}
+          >
+            削除済み
+          </Chip>
+
+          <span className="ml-3 text-xs font-bold text-gray-500">並び順</span>
+          <select
+            value={query.sort}
+            onChange={(e) => patchQuery({ sort: e.target.value as SortKey })}
+            disabled={!!query.search}
+            className="h-8 rounded-md border px-2 text-xs bg-white disabled:opacity-50 dark:bg-gray-900 dark:border-gray-700"
+            title={query.search ? "検索中は検索項目順になります" : ""}
+          >
+            {(Object.keys(SORT_LABELS) as SortKey[]).map((k) => (
+              <option key={k} value={k}>
+                {SORT_LABELS[k]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => patchQuery({ dir: query.dir === "asc" ? "desc" : "asc" })}
+            disabled={!!query.search}
+            className="h-8 rounded-md border px-2 text-xs disabled:opacity-50 dark:border-gray-700"
+          >
+            {query.dir === "asc" ? "昇順 ↑" : "降順 ↓"}
+          </button>
+          {!query.search && query.sort !== "email" && (
+            <span className="text-xs text-amber-700 dark:text-amber-300">
+              {SORT_LABELS[query.sort]}が記録されていないメンバーは、この並び順では表示されません
+            </span>
+          )}
+
+          {(query.search ||
+            query.status ||
+            query.mode ||
+            query.cancelScheduled !== null ||
+            query.accountState) && (
+            <button
+              type="button"
+              onClick={() => {
+                setSearchDraft("");
+                setQuery(DEFAULT_QUERY);
+              }}
+              className="ml-auto text-xs font-bold text-blue-600 hover:underline dark:text-blue-400"
+            >
+              条件をクリア
+            </button>
+          )}
+        </div>
       </div>
 
       {err && (
@@ -158,7 +386,11 @@ export default function MembersPage() {
           <thead className="bg-gray-50 dark:bg-gray-900">
             <tr>
               <th className="px-3 py-2 text-left">email</th>
+              <th className="px-3 py-2 text-left">氏名 / 会社</th>
               <th className="px-3 py-2 text-left">uid</th>
+              <th className="px-3 py-2 text-left">利用状態</th>
+              <th className="px-3 py-2 text-left">mode</th>
+              <th className="px-3 py-2 text-left">プラン</th>
               <th className="px-3 py-2 text-left">status</th>
               <th className="px-3 py-2 text-left">解約状態</th>
               <th className="px-3 py-2 text-left">期間満了</th>
@@ -166,28 +398,63 @@ export default function MembersPage() {
             </tr>
           </thead>
           <tbody>
-            {loading ? (
-              <tr>
-                <td className="px-3 py-4" colSpan={6}>
-                  loading...
-                </td>
-              </tr>
-            ) : sorted.length === 0 ? (
+            {rows.length === 0 && !loading ? (
               <tr>
-                <td className="px-3 py-4" colSpan={6}>
+                <td className="px-3 py-4" colSpan={10}>
                   (no members)
                 </td>
               </tr>
             ) : (
-              sorted.map((m) => {
-                const canOperate = m.status === "active" && m.stripeSubscriptionId;
+              rows.map((m) => {
+                const canOperate =
+                  m.accountState !== "deleted" && m.status === "active" && m.stripeSubscriptionId;
                 const isCancel = m.cancelAtPeriodEnd === true;
                 const unknown = m.cancelAtPeriodEnd === null;
 
                 return (
                   <tr key={m.uid} className="border-t dark:border-gray-800">
-                    <td className="px-3 py-2">{m.email || "-"}</td>
+                    <td className="px-3 py-2">
+                      <Link
+                        href={`/members/${encodeURIComponent(m.uid)}`}
+                        className="text-blue-600 hover:underline dark:text-blue-400"
+                      >
+                        {m.email || "-"}
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div>{m.fullName || "-"}</div>
+                      <div className="text-xs text-gray-500">{m.companyName}</div>
+                    </td>
                     <td className="px-3 py-2 font-mono text-xs">{m.uid}</td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={
+                          m.accountState === "active"
+                            ? ""
+                            : "font-bold text-red-600 dark:text-red-400"
+                        }
+                      >
+                        {ACCOUNT_STATE_LABELS[m.accountState]}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      {m.mode}
+                      {m.mode === "trial" && (
+                        <div
+                          className={`text-xs font-bold ${
+                            m.trialEndMs && m.trialEndMs > Date.now()
+                              ? "text-amber-700 dark:text-amber-300"
+                              : "text-gray-500"
+                          }`}
+                          title={`終了: ${fmtDate(m.trialEndMs)}`}
+                        >
+                          {trialCountdown(m.trialEndMs)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {m.mode === "paid" || m.mode === "trial" ? planLabel(m, plans) : "-"}
+                    </td>
                     <td className="px-3 py-2">{m.status}</td>
                     <td className="px-3 py-2">
                       {unknown ? "未同期" : isCancel ? "解約予定" : "継続中"}
@@ -215,14 +482,42 @@ export default function MembersPage() {
                       ) : (
                         <span className="text-xs text-gray-500">操作不可</span>
                       )}
+                      {canOperate && (
+                        <Link
+                          href={`/members/${encodeURIComponent(m.uid)}`}
+                          className="ml-2 text-xs font-bold text-red-600 hover:underline dark:text-red-400"
+                        >
+                          即時解約…
+                        </Link>
+                      )}
                     </td>
                   </tr>
                 );
               })
             )}
+            {loading && (
+              <tr>
+                <td className="px-3 py-4" colSpan={10}>
+                  loading...
+                </td>
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
+
+      <div className="mt-3 flex items-center justify-between text-xs text-gray-500">
+        <span>表示中: {rows.length}件</span>
+        {nextCursor && !loading && (
+          <button
+            type="button"
+            onClick={() => void fetchRows(query, nextCursor)}
+            className="rounded-md border px-4 py-2 text-sm font-semibold text-gray-900 hover:bg-gray-50 dark:border-gray-800 dark:text-gray-100 dark:hover:bg-gray-900"
+          >
+            もっと見る
+          </button>
+        )}
+      </div>
     </div>
   );
 }
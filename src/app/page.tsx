@@ -4,38 +4,50 @@ import React, { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { onAuthStateChanged } from "firebase/auth";
 import { auth } from "@/lib/firebaseClient";
+import { authedPost } from "@/lib/adminApi";
+import { fmtMoney } from "@/lib/money";
 import { AsYouType } from "libphonenumber-js";
 
-type BillingMode = "free" | "paid";
+type BillingMode = "free" | "paid" | "trial";
+type CreateMode = "invite" | "password";
+
+type Plan = {
+  id: string;
+  name: string;
+  amount: number;
+  currency: string;
+  interval: string;
+  active: boolean;
+};
+type PlansOk = { ok: true; plans: Plan[] };
+
+type CompanyOption = { id: string; name: string; address: string; seatLimit: number | null; memberCount: number };
+type CompaniesOk = { ok: true; companies: CompanyOption[] };
 
 type CreateUserResponse =
-  | { ok: true; uid: string }
+  | {
+      ok: true;
+      uid: string;
+      invite: { status: "sent" | "failed"; error: string } | null;
+      trialCustomerError: string;
+      company: { id: string; name: string; created: boolean; error: string };
+    }
   | { ok: false; error: string };
 
-async function authedPost(path: string, body: unknown): Promise<unknown> {
-  const u = auth.currentUser;
-  if (!u) throw new Error("未ログインです。");
-
-  const token = await u.getIdToken(true);
-
-  const res = await fetch(path, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-    body: JSON.stringify(body),
-  });
-
-  const json: unknown = await res.json();
-  if (!res.ok) {
-    const err =
-      typeof (json as { error?: unknown })?.error === "string"
-        ? (json as { error: string }).error
-        : "error";
-    throw new Error(err);
-  }
-  return json;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRIAL_DEFAULT_DAYS = 30;
+
+// <input type="date"> 用（ローカル日付）
+function toDateInput(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// ローカル日付の 0:00（不正なら null）
+function fromDateInput(s: string): number | null {
+  const ms = new Date(`${s}T00:00:00`).getTime();
+  return Number.isFinite(ms) ? ms : null;
 }
 
 function normalizePhone(s: string): string {
@@ -51,10 +63,18 @@ export default function AdminHomePage() {
   const [phone, setPhone] = useState("");
   const [companyName, setCompanyName] = useState("");
   const [companyAddress, setCompanyAddress] = useState("");
+  // 空 = 入力した会社名で検索・作成
+  const [companies, setCompanies] = useState<CompanyOption[]>([]);
+  const [companyId, setCompanyId] = useState("");
 
   const [email, setEmail] = useState("");
+  const [createMode, setCreateMode] = useState<CreateMode>("invite");
   const [password, setPassword] = useState("");
   const [billingMode, setBillingMode] = useState<BillingMode>("paid");
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [planId, setPlanId] = useState("");
+  const [trialStart, setTrialStart] = useState(() => toDateInput(Date.now()));
+  const [trialEnd, setTrialEnd] = useState(() => toDateInput(Date.now() + TRIAL_DEFAULT_DAYS * DAY_MS));
   const [creating, setCreating] = useState(false);
 
   const [msg, setMsg] = useState<string>("");
@@ -70,6 +90,18 @@ export default function AdminHomePage() {
     return () => unsub();
   }, [router]);
 
+  useEffect(() => {
+    if (!ready) return;
+    authedPost<PlansOk>("/api/admin/plans/list", {})
+      .then((json) => setPlans(json.plans.filter((p) => p.active)))
+      .catch(() => setPlans([]));
+    authedPost<CompaniesOk>("/api/admin/companies/list", {})
+      .then((json) => setCompanies(json.companies))
+      .catch(() => setCompanies([]));
+  }, [ready]);
+
+  const pickedCompany = companies.find((c) => c.id === companyId) ?? null;
+
   if (!ready) return null;
 
   return (
@@ -129,14 +161,37 @@ export default function AdminHomePage() {
                 />
               </div>
 
+              <div className="sm:col-span-2">
+                <div className="text-sm font-bold text-gray-900 dark:text-gray-100">
+                  会社
+                </div>
+                <select
+                  value={companyId}
+                  onChange={(e) => setCompanyId(e.target.value)}
+                  className="mt-2 w-full rounded-xl border px-3 py-3 text-base font-bold text-gray-900 outline-none
+                             dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
+                >
+                  <option value="">新規（入力した会社名で検索・作成）</option>
+                  {companies.map((c) => {
+                    const full = c.seatLimit !== null && c.memberCount >= c.seatLimit;
+                    return (
+                      <option key={c.id} value={c.id} disabled={full}>
+                        {c.name}（{c.memberCount} / {c.seatLimit ?? "無制限"}）{full ? " 満席" : ""}
+                      </option>
+                    );
+                  })}
+                </select>
+              </div>
+
               <div>
                 <div className="text-sm font-bold text-gray-900 dark:text-gray-100">
                   所属会社名
                 </div>
                 <input
-                  value={companyName}
+                  value={pickedCompany ? pickedCompany.name : companyName}
+                  disabled={!!pickedCompany}
                   onChange={(e) => setCompanyName(e.target.value)}
-                  className="mt-2 w-full rounded-xl border px-3 py-3 text-base font-bold text-gray-900 outline-none
+                  className="mt-2 w-full rounded-xl border px-3 py-3 text-base font-bold text-gray-900 outline-none disabled:opacity-60
                              dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
                   placeholder="例）TSリフォーム"
                 />
@@ -147,9 +202,10 @@ export default function AdminHomePage() {
                   住所
                 </div>
                 <input
-                  value={companyAddress}
+                  value={pickedCompany ? pickedCompany.address : companyAddress}
+                  disabled={!!pickedCompany}
                   onChange={(e) => setCompanyAddress(e.target.value)}
-                  className="mt-2 w-full rounded-xl border px-3 py-3 text-base font-bold text-gray-900 outline-none
+                  className="mt-2 w-full rounded-xl border px-3 py-3 text-base font-bold text-gray-900 outline-none disabled:opacity-60
                              dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
                   placeholder="例）大阪府○○市..."
                 />
@@ -170,19 +226,51 @@ export default function AdminHomePage() {
                 />
               </div>
 
-              <div>
+              {createMode === "password" && (
+                <div>
+                  <div className="text-sm font-bold text-gray-900 dark:text-gray-100">
+                    初期パスワード
+                  </div>
+                  <input
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="mt-2 w-full rounded-xl border px-3 py-3 text-base font-bold text-gray-900 outline-none
+                               dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
+                    placeholder="6文字以上"
+                    type="password"
+                    autoComplete="new-password"
+                  />
+                </div>
+              )}
+
+              <div className="sm:col-span-2">
                 <div className="text-sm font-bold text-gray-900 dark:text-gray-100">
-                  初期パスワード
+                  パスワード
+                </div>
+                <div className="mt-2 flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setCreateMode("invite")}
+                    className={`rounded-xl border px-3 py-2 text-sm font-extrabold ${
+                      createMode === "invite"
+                        ? "bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900"
+                        : "bg-white text-gray-900 dark:bg-gray-950 dark:text-gray-100 dark:border-gray-800"
+                    }`}
+                  >
+                    招待メール（本人が設定）
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setCreateMode("password")}
+                    className={`rounded-xl border px-3 py-2 text-sm font-extrabold ${
+                      createMode === "password"
+                        ? "bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900"
+                        : "bg-white text-gray-900 dark:bg-gray-950 dark:text-gray-100 dark:border-gray-800"
+                    }`}
+                  >
+                    初期パスワードを指定
+                  </button>
                 </div>
-                <input
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="mt-2 w-full rounded-xl border px-3 py-3 text-base font-bold text-gray-900 outline-none
-                             dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
-                  placeholder="6文字以上"
-                  type="password"
-                  autoComplete="new-password"
-                />
               </div>
 
               <div className="sm:col-span-2">
@@ -212,8 +300,69 @@ export default function AdminHomePage() {
                   >
                     free（無課金OK）
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => setBillingMode("trial")}
+                    className={`rounded-xl border px-3 py-2 text-sm font-extrabold ${
+                      billingMode === "trial"
+                        ? "bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900"
+                        : "bg-white text-gray-900 dark:bg-gray-950 dark:text-gray-100 dark:border-gray-800"
+                    }`}
+                  >
+                    trial（期間限定の無料）
+                  </button>
                 </div>
               </div>
+
+              {billingMode === "trial" && (
+                <>
+                  <div>
+                    <div className="text-sm font-bold text-gray-900 dark:text-gray-100">
+                      トライアル開始日
+                    </div>
+                    <input
+                      type="date"
+                      value={trialStart}
+                      onChange={(e) => setTrialStart(e.target.value)}
+                      className="mt-2 w-full rounded-xl border px-3 py-3 text-base font-bold text-gray-900 outline-none
+                                 dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
+                    />
+                  </div>
+                  <div>
+                    <div className="text-sm font-bold text-gray-900 dark:text-gray-100">
+                      トライアル終了日（この日まで利用可）
+                    </div>
+                    <input
+                      type="date"
+                      value={trialEnd}
+                      onChange={(e) => setTrialEnd(e.target.value)}
+                      className="mt-2 w-full rounded-xl border px-3 py-3 text-base font-bold text-gray-900 outline-none
+                                 dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
+                    />
+                  </div>
+                </>
+              )}
+
+              {billingMode !== "free" && (
+                <div className="sm:col-span-2">
+                  <div className="text-sm font-bold text-gray-900 dark:text-gray-100">
+                    {billingMode === "trial" ? "終了後のプラン（支払い方法があれば自動で移行）" : "プラン"}
+                  </div>
+                  <select
+                    value={planId}
+                    onChange={(e) => setPlanId(e.target.value)}
+                    className="mt-2 w-full rounded-xl border px-3 py-3 text-base font-bold text-gray-900 outline-none
+                               dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
+                  >
+                    <option value="">未選択（支払い時に決める）</option>
+                    {plans.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}（{fmtMoney(p.amount, p.currency)} / {p.interval}）
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
             <button
@@ -225,31 +374,49 @@ export default function AdminHomePage() {
                 const em = email.trim();
                 const nm = fullName.trim();
                 const ph = phone.trim();
-                const cn = companyName.trim();
-                const addr = companyAddress.trim();
+                // 既存の会社を選んだ場合は会社側の値（サーバーでも上書き）
+                const cn = (pickedCompany ? pickedCompany.name : companyName).trim();
+                const addr = (pickedCompany ? pickedCompany.address : companyAddress).trim();
 
                 if (!nm) return setMsg("氏名（必須）を入力してください。");
                 if (!ph) return setMsg("携帯番号（必須）を入力してください。");
                 if (!cn)
                   return setMsg("所属会社名（必須）を入力してください。");
-                if (!addr) return setMsg("住所（必須）を入力してください。");
+                if (!addr && !pickedCompany) return setMsg("住所（必須）を入力してください。");
                 if (!em) return setMsg("メール（必須）を入力してください。");
-                if (!password || password.length < 6)
+                if (
+                  createMode === "password" &&
+                  (!password || password.length < 6)
+                )
                   return setMsg("パスワードは6文字以上にしてください。");
 
+                const trialStartMs = fromDateInput(trialStart);
+                const trialEndDayMs = fromDateInput(trialEnd);
+                if (
+                  billingMode === "trial" &&
+                  (trialStartMs === null || trialEndDayMs === null || trialEndDayMs < trialStartMs)
+                )
+                  return setMsg("トライアルの開始日・終了日を確認してください。");
+
                 try {
                   setCreating(true);
 
                   const jsonUnknown = await authedPost(
                     "/api/admin/create-user",
                     {
+                      mode: createMode,
                       email: em,
-                      password,
+                      ...(createMode === "password" ? { password } : {}),
                       fullName: nm,
                       phone: normalizePhone(ph),
                       companyName: cn,
                       companyAddress: addr,
+                      ...(pickedCompany ? { companyId: pickedCompany.id } : {}),
                       billingMode,
+                      ...(billingMode !== "free" && planId ? { planId } : {}),
+                      ...(billingMode === "trial" && trialEndDayMs !== null
+                        ? { trialStartMs, trialEndMs: trialEndDayMs + DAY_MS }
+                        : {}),
                     },
                   );
 
@@ -258,8 +425,21 @@ export default function AdminHomePage() {
                     throw new Error("作成に失敗しました（レスポンス不正）。");
                   }
 
+                  const inviteMsg = !json.invite
+                    ? ""
+                    : json.invite.status === "sent"
+                      ? " 招待メールを送信しました。"
+                      : ` 招待メールの送信に失敗しました（${json.invite.error}）。メンバー詳細から再送してください。`;
+                  const companyMsg = json.company.error
+                    ? ` 会社「${json.company.name}」への所属に失敗しました（${json.company.error}）。`
+                    : json.company.created
+                      ? ` 会社「${json.company.name}」を新規作成しました。`
+                      : ` 会社「${json.company.name}」に所属させました。`;
+                  const trialMsg = json.trialCustomerError
+                    ? ` Stripe 顧客の作成に失敗しました（${json.trialCustomerError}）。このままでは期限後に自動で移行できません。`
+                    : "";
                   setMsg(
-                    `作成しました。uid=${json.uid}（billing=${billingMode}）`,
+                    `作成しました。uid=${json.uid}（billing=${billingMode}）${companyMsg}${inviteMsg}${trialMsg}`,
                   );
 
                   // reset
@@ -267,7 +447,11 @@ export default function AdminHomePage() {
                   setPhone("");
                   setCompanyName("");
                   setCompanyAddress("");
+                  setCompanyId("");
                   setEmail("");
+                  authedPost<CompaniesOk>("/api/admin/companies/list", {})
+                    .then((list) => setCompanies(list.companies))
+                    .catch(() => undefined);
                   setPassword("");
                 } catch (e) {
                   setMsg(
@@ -0,0 +1,439 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverEvent,
+  DragStartEvent,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  pointerWithin,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type CollisionDetection,
+  type DraggableAttributes,
+  type DraggableSyntheticListeners,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import {
+  findParentId,
+  indentStep,
+  moveChild,
+  newStepId,
+  outdentStep,
+  renumberByArrayOrder,
+  type Step,
+} from "./stepTree";
+
+// 大工程の小工程エリア（ドロップ先）の id
+const GROUP_PREFIX = "group:";
+
+const btnCls =
+  "h-8 rounded-md border px-2 text-xs font-semibold bg-white hover:bg-gray-50 disabled:opacity-40 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+/** ✅ 1行分（大工程・小工程共通。ドラッグハンドルは親の useSortable から受け取る） */
+function StepRow(props: {
+  step: Step;
+  label: string;
+  handle: { attributes: DraggableAttributes; listeners: DraggableSyntheticListeners };
+  onChangeName: (v: string) => void;
+  onDelete: () => void;
+  actions?: React.ReactNode;
+}) {
+  const { step: s, handle } = props;
+  return (
+    <div
+      className="grid gap-2 rounded-lg border p-2 md:grid-cols-[120px_1fr_auto]
+                 bg-white dark:bg-gray-950 dark:border-gray-800"
+    >
+      <div className="flex items-center gap-2">
+        <div className="text-sm font-semibold text-gray-700 dark:text-gray-200">#{props.label}</div>
+
+        {/* ✅ ドラッグハンドル */}
+        <button
+          type="button"
+          className="h-8 w-8 rounded-md border text-sm leading-none
+                     bg-white hover:bg-gray-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800
+                     text-gray-900 dark:text-gray-100"
+          aria-label="ドラッグして並び替え"
+          {...handle.attributes}
+          {...handle.listeners}
+          style={{ touchAction: "none" }}
+          title="ドラッグして並び替え"
+        >
+          ≡
+        </button>
+      </div>
+
+      <textarea
+        rows={2}
+        className="rounded-md border px-3 py-2 leading-5 resize-none
+                   bg-white dark:bg-gray-900 dark:border-gray-700
+                   text-gray-900 dark:text-gray-100
+                   placeholder:text-gray-400 dark:placeholder:text-gray-500"
+        value={s.name}
+        onChange={(e) => props.onChangeName(e.target.value)}
+        placeholder="工程名（2行まで）"
+      />
+
+      <div className="flex flex-wrap items-center justify-end gap-1">
+        {props.actions}
+        <button
+          type="button"
+          className="h-10 rounded-md border px-3 text-sm
+                     bg-white hover:bg-gray-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800
+                     text-gray-900 dark:text-gray-100"
+          onClick={props.onDelete}
+        >
+          削除
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function SortableChild(props: {
+  step: Step;
+  label: string;
+  onChangeName: (v: string) => void;
+  onDelete: () => void;
+  onOutdent: () => void;
+}) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: props.step.id,
+  });
+
+  const style: React.CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.6 : 1,
+    zIndex: isDragging ? 10 : "auto",
+  };
+
+  return (
+    <div ref={setNodeRef} style={style} className={isDragging ? "shadow" : ""}>
+      <StepRow
+        step={props.step}
+        label={props.label}
+        handle={{ attributes, listeners }}
+        onChangeName={props.onChangeName}
+        onDelete={props.onDelete}
+        actions={
+          <button type="button" className={btnCls} onClick={props.onOutdent} title="大工程にする">
+            ← 外す
+          </button>
+        }
+      />
+    </div>
+  );
+}
+
+// 小工程エリア（別の大工程からのドロップ先。小工程が無いときはドラッグ中だけ出す）
+function ChildDropArea(props: { groupId: string; showEmpty: boolean; children: React.ReactNode }) {
+  const { setNodeRef, isOver } = useDroppable({ id: `${GROUP_PREFIX}${props.groupId}` });
+  return (
+    <div
+      ref={setNodeRef}
+      className={[
+        "ml-8 grid gap-2 rounded-lg",
+        isOver ? "bg-blue-50 dark:bg-blue-950/30" : "",
+        props.showEmpty ? "min-h-10 border border-dashed p-2 dark:border-gray-700" : "",
+      ].join(" ")}
+    >
+      {props.showEmpty && (
+        <div className="text-xs text-gray-500 dark:text-gray-400">ここにドロップして小工程にする</div>
+      )}
+      {props.children}
+    </div>
+  );
+}
+
+function SortableGroup(props: {
+  step: Step;
+  index: number;
+  isFirst: boolean;
+  collapsed: boolean;
+  draggingChild: boolean;
+  onToggle: () => void;
+  onChangeName: (id: string, v: string) => void;
+  onDelete: (id: string) => void;
+  onAddChild: () => void;
+  onIndent: () => void;
+  onOutdent: (childId: string) => void;
+}) {
+  const { step: s, index } = props;
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: s.id });
+
+  const style: React.CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.6 : 1,
+    zIndex: isDragging ? 10 : "auto",
+  };
+
+  const hasChildren = s.children.length > 0;
+
+  return (
+    <div ref={setNodeRef} style={style} className={["grid gap-2", isDragging ? "shadow" : ""].join(" ")}>
+      <StepRow
+        step={s}
+        label={String(index + 1)}
+        handle={{ attributes, listeners }}
+        onChangeName={(v) => props.onChangeName(s.id, v)}
+        onDelete={() => props.onDelete(s.id)}
+        actions={
+          <>
+            {hasChildren && (
+              <button type="button" className={btnCls} onClick={props.onToggle}>
+                {props.collapsed ? `▶ 小工程 ${s.children.length}` : "▼ 折りたたむ"}
+              </button>
+            )}
+            <button type="button" className={btnCls} onClick={props.onAddChild}>
+              + 小工程
+            </button>
+            {!hasChildren && (
+              <button
+                type="button"
+                className={btnCls}
+                disabled={props.isFirst}
+                onClick={props.onIndent}
+                title="直前の大工程の小工程にする"
+              >
+                字下げ →
+              </button>
+            )}
+          </>
+        }
+      />
+
+      {!props.collapsed && (hasChildren || props.draggingChild) && (
+        <ChildDropArea groupId={s.id} showEmpty={!hasChildren}>
+          <SortableContext items={s.children.map((c) => c.id)} strategy={verticalListSortingStrategy}>
+            {s.children.map((c, j) => (
+              <SortableChild
+                key={c.id}
+                step={c}
+                label={`${index + 1}-${j + 1}`}
+                onChangeName={(v) => props.onChangeName(c.id, v)}
+                onDelete={() => props.onDelete(c.id)}
+                onOutdent={() => props.onOutdent(c.id)}
+              />
+            ))}
+          </SortableContext>
+        </ChildDropArea>
+      )}
+    </div>
+  );
+}
+
+/**
+ * ✅ 工程ツリーの編集（大工程の並び替え・小工程の並び替え / 大工程間の移動・折りたたみ）
+ * - 大工程をドラッグすると小工程ごと動く
+ * - 小工程は別の大工程の上へドラッグすると移る
+ */
+export default function StepTreeEditor(props: {
+  steps: Step[];
+  setSteps: React.Dispatch<React.SetStateAction<Step[]>>;
+}) {
+  const { steps, setSteps } = props;
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [draggingChild, setDraggingChild] = useState(false);
+
+  // ✅ DnD sensors（PC/スマホ両対応）
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  );
+
+  const topIds = steps.map((s) => s.id);
+
+  // 大工程をドラッグ中は大工程だけ、小工程をドラッグ中は小工程と小工程エリアだけを当たり判定に使う
+  const collisionDetection: CollisionDetection = (args) => {
+    const activeIsTop = topIds.includes(String(args.active.id));
+    const filtered = {
+      ...args,
+      droppableContainers: args.droppableContainers.filter((c) => topIds.includes(String(c.id)) === activeIsTop),
+    };
+    if (activeIsTop) return closestCenter(filtered);
+
+    const hits = pointerWithin(filtered);
+    const rows = hits.filter((c) => !String(c.id).startsWith(GROUP_PREFIX));
+    if (rows.length) return rows;
+    if (hits.length) return hits;
+    return closestCenter(filtered);
+  };
+
+  // 移動先の親（小工程エリアならその大工程、小工程ならその親）
+  const containerOf = (id: string): string | null =>
+    id.startsWith(GROUP_PREFIX) ? id.slice(GROUP_PREFIX.length) : findParentId(steps, id);
+
+  const onDragStart = (event: DragStartEvent) => {
+    setDraggingChild(!!findParentId(steps, String(event.active.id)));
+  };
+
+  // 小工程を別の大工程へ（ドラッグ中に移して、並びは onDragEnd で確定）
+  const onDragOver = (event: DragOverEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+    const activeId = String(active.id);
+    const overId = String(over.id);
+
+    const from = findParentId(steps, activeId);
+    const to = containerOf(overId);
+    if (!from || !to || from === to) return;
+
+    setSteps((prev) => {
+      const target = prev.find((s) => s.id === to);
+      if (!target) return prev;
+      const overIndex = target.children.findIndex((c) => c.id === overId);
+      return moveChild(prev, activeId, to, overIndex >= 0 ? overIndex : target.children.length);
+    });
+  };
+
+  const onDragEnd = (event: DragEndEvent) => {
+    setDraggingChild(false);
+    const { active, over } = event;
+    if (!over) return;
+    const activeId = String(active.id);
+    const overId = String(over.id);
+    if (activeId === overId) return;
+
+    const from = findParentId(steps, activeId);
+    if (from === "") {
+      setSteps((prev) => {
+        const oldIndex = prev.findIndex((x) => x.id === activeId);
+        const newIndex = prev.findIndex((x) => x.id === overId);
+        if (oldIndex < 0 || newIndex < 0) return prev;
+        return renumberByArrayOrder(arrayMove(prev, oldIndex, newIndex));
+      });
+      return;
+    }
+    if (!from || containerOf(overId) !== from) return;
+
+    setSteps((prev) =>
+      renumberByArrayOrder(
+        prev.map((s) => {
+          if (s.id !== from) return s;
+          const oldIndex = s.children.findIndex((c) => c.id === activeId);
+          const overIndex = s.children.findIndex((c) => c.id === overId);
+          const newIndex = overIndex >= 0 ? overIndex : s.children.length - 1;
+          if (oldIndex < 0) return s;
+          return { ...s, children: arrayMove(s.children, oldIndex, newIndex) };
+        }),
+      ),
+    );
+  };
+
+  const onChangeName = (id: string, v: string) => {
+    setSteps((prev) =>
+      prev.map((s) =>
+        s.id === id
+          ? { ...s, name: v }
+          : { ...s, children: s.children.map((c) => (c.id === id ? { ...c, name: v } : c)) },
+      ),
+    );
+  };
+
+  const onDelete = (id: string) => {
+    const group = steps.find((s) => s.id === id);
+    if (group && group.children.length > 0) {
+      if (!confirm(`「${group.name || "(無題)"}」と小工程 ${group.children.length} 件を削除します。続行しますか？`)) return;
+    }
+    setSteps((prev) =>
+      renumberByArrayOrder(
+        prev.filter((s) => s.id !== id).map((s) => ({ ...s, children: s.children.filter((c) => c.id !== id) })),
+      ),
+    );
+  };
+
+  const onAddChild = (groupId: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      next.delete(groupId);
+      return next;
+    });
+    setSteps((prev) =>
+      renumberByArrayOrder(
+        prev.map((s) =>
+          s.id === groupId
+            ? { ...s, children: [...s.children, { id: newStepId(), name: "", order: 0, children: [] }] }
+            : s,
+        ),
+      ),
+    );
+  };
+
+  const toggle = (groupId: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(groupId)) next.delete(groupId);
+      else next.add(groupId);
+      return next;
+    });
+  };
+
+  const groupIds = steps.filter((s) => s.children.length > 0).map((s) => s.id);
+  const allCollapsed = groupIds.length > 0 && groupIds.every((id) => collapsed.has(id));
+
+  return (
+    <div>
+      {groupIds.length > 0 && (
+        <div className="mb-2 flex justify-end">
+          <button
+            type="button"
+            className={btnCls}
+            onClick={() => setCollapsed(allCollapsed ? new Set() : new Set(groupIds))}
+          >
+            {allCollapsed ? "すべて展開" : "すべて折りたたむ"}
+          </button>
+        </div>
+      )}
+
+      <DndContext
+        sensors={sensors}
+        collisionDetection={collisionDetection}
+        onDragStart={onDragStart}
+        onDragOver={onDragOver}
+        onDragEnd={onDragEnd}
+        onDragCancel={() => setDraggingChild(false)}
+      >
+        <SortableContext items={topIds} strategy={verticalListSortingStrategy}>
+          <div className="grid gap-2">
+            {steps.map((s, index) => (
+              <SortableGroup
+                key={s.id}
+                step={s}
+                index={index}
+                isFirst={index === 0}
+                collapsed={collapsed.has(s.id)}
+                draggingChild={draggingChild}
+                onToggle={() => toggle(s.id)}
+                onChangeName={onChangeName}
+                onDelete={onDelete}
+                onAddChild={() => onAddChild(s.id)}
+                onIndent={() => setSteps((prev) => indentStep(prev, s.id))}
+                onOutdent={(childId) => setSteps((prev) => outdentStep(prev, childId))}
+              />
+            ))}
+          </div>
+        </SortableContext>
+      </DndContext>
+
+      <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        並び替えは「≡」をドラッグしてください。大工程は小工程ごと動きます。小工程は別の大工程へドラッグすると移動します。
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useMemo } from "react";
+import { diffTemplates, mergeTemplates, type TemplateStep } from "@/lib/templateVersions";
+import TemplateDiffList from "./TemplateDiffList";
+
+type Template = { title: string; steps: TemplateStep[] };
+
+/**
+ * 保存の競合（読み込んだ後に他の人が保存した）
+ * - base = 読み込んだ版 / ours = 編集中 / theirs = 最新の保存内容
+ * - マージ結果は編集に反映するだけ（保存は改めて行う）
+ */
+export default function TemplateConflictPanel(props: {
+  base: Template;
+  ours: Template;
+  theirs: Template;
+  theirsLabel: string;
+  busy: boolean;
+  onApplyMerge: (merged: Template) => void;
+  onOverwrite: () => Promise<void>;
+  onTakeTheirs: () => void;
+  onClose: () => void;
+}) {
+  const { base, ours, theirs } = props;
+
+  const oursDiff = useMemo(() => diffTemplates(base, ours), [base, ours]);
+  const theirsDiff = useMemo(() => diffTemplates(base, theirs), [base, theirs]);
+  const merged = useMemo(() => mergeTemplates(base, ours, theirs), [base, ours, theirs]);
+
+  const btnCls =
+    "h-9 rounded-md border px-3 text-sm font-semibold bg-white hover:bg-gray-50 disabled:opacity-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="mt-4 rounded-xl border border-red-300 bg-red-50 p-3 text-sm dark:border-red-900 dark:bg-red-950/30">
+      <div className="font-semibold text-red-700 dark:text-red-300">他の人の保存と競合しています</div>
+      <div className="mt-1 text-xs text-gray-600 dark:text-gray-300">{props.theirsLabel}</div>
+
+      <div className="mt-3 grid gap-3 md:grid-cols-3">
+        <div className="rounded-lg border bg-white p-3 dark:border-gray-800 dark:bg-gray-950">
+          <div className="font-semibold">自分の変更（読み込み時 → 編集中）</div>
+          <div className="mt-2 grid gap-1">
+            <TemplateDiffList diff={oursDiff} />
+          </div>
+        </div>
+
+        <div className="rounded-lg border bg-white p-3 dark:border-gray-800 dark:bg-gray-950">
+          <div className="font-semibold">相手の変更（読み込み時 → 最新）</div>
+          <div className="mt-2 grid gap-1">
+            <TemplateDiffList diff={theirsDiff} />
+          </div>
+        </div>
+
+        <div className="rounded-lg border bg-white p-3 dark:border-gray-800 dark:bg-gray-950">
+          <div className="font-semibold">マージ結果（{merged.title}）</div>
+          {merged.conflicts.length > 0 && (
+            <ul className="mt-2 grid gap-1 text-xs text-amber-700 dark:text-amber-300">
+              {merged.conflicts.map((c, i) => (
+                <li key={i}>⚠ {c}</li>
+              ))}
+            </ul>
+          )}
+          <ol className="mt-2 list-decimal pl-5 text-xs">
+            {merged.steps.map((s) => (
+              <li key={s.id}>
+                {s.name}
+                {!!s.children?.length && (
+                  <ol className="list-[lower-alpha] pl-5 text-gray-600 dark:text-gray-300">
+                    {s.children.map((c) => (
+                      <li key={c.id}>{c.name}</li>
+                    ))}
+                  </ol>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap justify-end gap-2">
+        <button type="button" className={btnCls} disabled={props.busy} onClick={props.onClose}>
+          閉じる
+        </button>
+        <button type="button" className={btnCls} disabled={props.busy} onClick={props.onTakeTheirs}>
+          最新を読み込む（自分の変更は破棄）
+        </button>
+        <button type="button" className={btnCls} disabled={props.busy} onClick={() => void props.onOverwrite()}>
+          自分の内容で上書き
+        </button>
+        <button
+          type="button"
+          className="h-9 rounded-md bg-blue-600 px-3 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+          disabled={props.busy}
+          onClick={() => props.onApplyMerge({ title: merged.title, steps: merged.steps })}
+        >
+          マージ結果を編集に反映
+        </button>
+      </div>
+    </div>
+  );
+}
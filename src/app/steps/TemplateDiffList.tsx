@@ -0,0 +1,56 @@
+"use client";
+
+import type { StepChange, TemplateDiff } from "@/lib/templateVersions";
+
+function ChangeLine(props: { change: StepChange }) {
+  const c = props.change;
+  switch (c.kind) {
+    case "added":
+      return (
+        <div className="text-green-700 dark:text-green-400">
+          + #{c.at} {c.name}
+        </div>
+      );
+    case "removed":
+      return (
+        <div className="text-red-700 line-through dark:text-red-400">
+          − #{c.at} {c.name}
+        </div>
+      );
+    case "renamed":
+      return (
+        <div className="text-amber-700 dark:text-amber-300">
+          ~ #{c.at} {c.from} → {c.to}
+        </div>
+      );
+    case "moved":
+      return (
+        <div className="text-blue-700 dark:text-blue-300">
+          ↕ {c.name}（#{c.from} → #{c.to}）
+        </div>
+      );
+  }
+}
+
+// 差分の一覧（履歴・競合の画面で共通）
+export default function TemplateDiffList(props: { diff: TemplateDiff | null }) {
+  const { diff } = props;
+  if (!diff) {
+    return <div className="text-gray-600 dark:text-gray-300">比較対象がありません。</div>;
+  }
+  if (!diff.title && diff.steps.length === 0) {
+    return <div className="text-gray-600 dark:text-gray-300">差分はありません。</div>;
+  }
+  return (
+    <>
+      {diff.title && (
+        <div className="text-amber-700 dark:text-amber-300">
+          テンプレ名: {diff.title.from} → {diff.title.to}
+        </div>
+      )}
+      {diff.steps.map((c, i) => (
+        <ChangeLine key={i} change={c} />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { collection, getDocs, limit, orderBy, query, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebaseClient";
+import {
+  diffTemplates,
+  SUBCOL_VERSIONS,
+  toAuthor,
+  toTemplateSteps,
+  VERSION_LIST_LIMIT,
+  type TemplateStep,
+  type VersionAuthor,
+  type VersionReason,
+} from "@/lib/templateVersions";
+import TemplateDiffList from "./TemplateDiffList";
+
+export type TemplateVersion = {
+  id: string;
+  title: string;
+  steps: TemplateStep[];
+  // この版が保存された日時・保存した人（古いデータは無い）
+  savedAt: string;
+  savedBy: VersionAuthor | null;
+  // 上書きされて履歴に退避された日時・上書きした人
+  archivedAt: string;
+  archivedBy: VersionAuthor | null;
+  reason: VersionReason;
+};
+
+const CURRENT = "__current__";
+
+function tsLabel(v: unknown): string {
+  return v instanceof Timestamp ? v.toDate().toLocaleString() : "";
+}
+
+function authorLabel(a: VersionAuthor | null): string {
+  return a ? a.email || a.uid : "不明";
+}
+
+/**
+ * テンプレの版履歴（選んだ版と比較対象の差分 + 復元）
+ * - current は保存済みの内容（編集中の未保存分ではない）
+ * - reloadKey が変わったら取り直す（保存・復元の後）
+ */
+export default function TemplateHistoryPanel(props: {
+  collectionName: string;
+  workTypeId: string;
+  current: { title: string; steps: TemplateStep[] } | null;
+  reloadKey: number;
+  busy: boolean;
+  onRestore: (version: TemplateVersion) => Promise<void>;
+}) {
+  const { collectionName, workTypeId, reloadKey } = props;
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState("");
+  const [selectedId, setSelectedId] = useState("");
+  const [compareId, setCompareId] = useState(CURRENT);
+
+  useEffect(() => {
+    setSelectedId("");
+    setCompareId(CURRENT);
+  }, [workTypeId]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setErr("");
+      try {
+        const snap = await getDocs(
+          query(
+            collection(db, collectionName, workTypeId, SUBCOL_VERSIONS),
+            orderBy("archivedAt", "desc"),
+            limit(VERSION_LIST_LIMIT),
+          ),
+        );
+        if (cancelled) return;
+        setVersions(
+          snap.docs.map((d) => {
+            const data = d.data() as Record<string, unknown>;
+            return {
+              id: d.id,
+              title: typeof data.title === "string" ? data.title : "",
+              steps: toTemplateSteps(data.steps),
+              savedAt: tsLabel(data.savedAt),
+              savedBy: toAuthor(data.savedBy),
+              archivedAt: tsLabel(data.archivedAt),
+              archivedBy: toAuthor(data.archivedBy),
+              reason: data.reason === "restore" ? "restore" : "save",
+            };
+          }),
+        );
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setErr("履歴の取得に失敗しました（コンソール確認）");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, collectionName, workTypeId, reloadKey]);
+
+  const selected = versions.find((v) => v.id === selectedId) ?? null;
+  const compareTo = compareId === CURRENT ? props.current : (versions.find((v) => v.id === compareId) ?? null);
+
+  const diff = useMemo(
+    () => (selected && compareTo ? diffTemplates(selected, compareTo) : null),
+    [selected, compareTo],
+  );
+
+  const btnCls =
+    "h-9 rounded-md border px-3 text-sm font-semibold bg-white hover:bg-gray-50 disabled:opacity-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="mt-4 rounded-xl border p-3 dark:border-gray-800">
+      <div className="flex items-center justify-between">
+        <div className="font-semibold">変更履歴</div>
+        <button type="button" className={btnCls} onClick={() => setOpen((v) => !v)}>
+          {open ? "閉じる" : "履歴を見る"}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 grid gap-3 md:grid-cols-[280px_1fr]">
+          <div className="grid max-h-96 content-start gap-1 overflow-y-auto">
+            {loading ? (
+              <div className="text-sm text-gray-600 dark:text-gray-300">読み込み中...</div>
+            ) : err ? (
+              <div className="text-sm font-bold text-red-700 dark:text-red-300">{err}</div>
+            ) : versions.length === 0 ? (
+              <div className="text-sm text-gray-600 dark:text-gray-300">履歴はまだありません（次の保存から残ります）。</div>
+            ) : (
+              versions.map((v) => (
+                <button
+                  key={v.id}
+                  type="button"
+                  onClick={() => setSelectedId(v.id)}
+                  className={[
+                    "rounded-md border px-3 py-2 text-left text-xs dark:border-gray-700",
+                    v.id === selectedId
+                      ? "border-blue-500 bg-blue-50 dark:border-blue-500 dark:bg-blue-950/30"
+                      : "hover:bg-gray-50 dark:hover:bg-gray-900",
+                  ].join(" ")}
+                >
+                  <div className="font-semibold">{v.savedAt || "(保存日時なし)"}</div>
+                  <div className="text-gray-600 dark:text-gray-300">
+                    {authorLabel(v.savedBy)} ・ {v.steps.length}工程
+                  </div>
+                  <div className="text-gray-500 dark:text-gray-400">
+                    {v.archivedAt} に{v.reason === "restore" ? "復元で" : ""}上書き（{authorLabel(v.archivedBy)}）
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          <div className="rounded-lg border p-3 text-sm dark:border-gray-800">
+            {!selected ? (
+              <div className="text-gray-600 dark:text-gray-300">左の一覧から版を選ぶと差分を表示します。</div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold">この版 →</span>
+                  <select
+                    value={compareId}
+                    onChange={(e) => setCompareId(e.target.value)}
+                    className="h-9 rounded-md border px-2 bg-white dark:bg-gray-900 dark:border-gray-700"
+                  >
+                    <option value={CURRENT}>現在の保存内容</option>
+                    {versions
+                      .filter((v) => v.id !== selected.id)
+                      .map((v) => (
+                        <option key={v.id} value={v.id}>
+                          {v.savedAt || v.id}（{authorLabel(v.savedBy)}）
+                        </option>
+                      ))}
+                  </select>
+                </div>
+
+                <div className="mt-3 grid gap-1">
+                  <TemplateDiffList diff={diff} />
+                </div>
+
+                <div className="mt-3 rounded-md bg-gray-50 p-2 text-xs dark:bg-gray-900">
+                  <div className="font-semibold">この版の工程（{selected.title}）</div>
+                  <ol className="mt-1 list-decimal pl-5">
+                    {selected.steps.map((s) => (
+                      <li key={s.id}>
+                        {s.name}
+                        {!!s.children?.length && (
+                          <ol className="list-[lower-alpha] pl-5 text-gray-600 dark:text-gray-300">
+                            {s.children.map((c) => (
+                              <li key={c.id}>{c.name}</li>
+                            ))}
+                          </ol>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+
+                <div className="mt-3 flex justify-end">
+                  <button
+                    type="button"
+                    className={btnCls}
+                    disabled={props.busy}
+                    onClick={() => void props.onRestore(selected)}
+                  >
+                    この版に戻す
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { authedPost } from "@/lib/adminApi";
+import type { TemplateStep } from "@/lib/templateVersions";
+
+// 工程の位置（"2" = 2番目の大工程、"2-1" = その1番目の小工程）。id の無い古い工程もあるので位置で選ぶ
+function allPaths(steps: TemplateStep[]): string[] {
+  return steps.flatMap((s, i) => [String(i + 1), ...(s.children ?? []).map((_, j) => `${i + 1}-${j + 1}`)]);
+}
+
+/**
+ * 工事種類の複製（新しい表示名 + コピーする工程を選ぶ）
+ * - steps は複製元の保存済みの内容（サーバーも保存済みの内容からコピーする）
+ * - revision は steps を読み込んだ時点のもの（その後に保存されていれば複製しない）
+ * - 大工程のチェックは小工程もまとめて切り替える
+ * - 小工程を選べば大工程も選び、最後の小工程を外せば大工程も外す
+ *   （大工程だけを送るとサーバーは小工程ごとコピーするので、画面と結果を揃える）
+ */
+export default function WorkTypeDuplicatePanel(props: {
+  source: { id: string; label: string };
+  steps: TemplateStep[];
+  revision: number;
+  onClose: () => void;
+  onCreated: (id: string) => Promise<void>;
+}) {
+  const { source, steps } = props;
+  const [label, setLabel] = useState(`${source.label}（コピー）`);
+  const [picked, setPicked] = useState<Set<string>>(() => new Set(allPaths(steps)));
+  const [saving, setSaving] = useState(false);
+
+  const total = allPaths(steps).length;
+
+  const toggle = (paths: string[], on: boolean) => {
+    setPicked((prev) => {
+      const next = new Set(prev);
+      paths.forEach((p) => (on ? next.add(p) : next.delete(p)));
+      return next;
+    });
+  };
+
+  const toggleChild = (i: number, j: number, on: boolean) => {
+    const parent = String(i + 1);
+    const siblings = (steps[i]?.children ?? []).map((_, k) => `${parent}-${k + 1}`);
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (on) {
+        next.add(`${parent}-${j + 1}`);
+        next.add(parent);
+      } else {
+        next.delete(`${parent}-${j + 1}`);
+        if (!siblings.some((p) => next.has(p))) next.delete(parent);
+      }
+      return next;
+    });
+  };
+
+  const submit = async () => {
+    const fixed = label.trim();
+    if (!fixed) return alert("表示名を入力してください。");
+
+    setSaving(true);
+    try {
+      const json = await authedPost<{ ok: true; id: string }>("/api/admin/work-types/duplicate", {
+        sourceId: source.id,
+        label: fixed,
+        // 全部選んでいれば省略（保存済みの内容をそのまま全工程コピー）
+        ...(picked.size === total ? {} : { stepPaths: [...picked], sourceRevision: props.revision }),
+      });
+      await props.onCreated(json.id);
+    } catch (e) {
+      console.error(e);
+      if (e instanceof Error && e.message === "CONFLICT") {
+        alert("複製元が他の人に保存されています。最新を読み込んでから、もう一度工程を選んでください。");
+        return;
+      }
+      alert(`複製に失敗しました（${e instanceof Error ? e.message : "コンソール確認"}）`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const btnCls =
+    "h-9 rounded-md border px-3 text-sm font-semibold bg-white hover:bg-gray-50 disabled:opacity-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="mt-4 rounded-xl border p-4 dark:border-gray-800">
+      <div className="text-sm font-semibold">「{source.label}」を複製</div>
+      <p className="mt-1 text-xs text-gray-600 dark:text-gray-300">
+        保存済みの工程をコピーします（編集中の未保存の変更は含まれません）。工程IDは新しく振り直します。
+      </p>
+
+      <div className="mt-3 grid gap-2">
+        <label className="text-xs font-bold text-gray-600 dark:text-gray-300">新しい表示名</label>
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          className="h-10 w-full rounded-md border px-3
+                     bg-white dark:bg-gray-900 dark:border-gray-700
+                     text-gray-900 dark:text-gray-100"
+        />
+      </div>
+
+      <div className="mt-3">
+        <div className="flex items-center justify-between">
+          <div className="text-xs font-bold text-gray-600 dark:text-gray-300">
+            コピーする工程（{picked.size} / {total}）
+          </div>
+          <div className="flex gap-2">
+            <button type="button" className={btnCls} onClick={() => setPicked(new Set(allPaths(steps)))}>
+              すべて選択
+            </button>
+            <button type="button" className={btnCls} onClick={() => setPicked(new Set())}>
+              すべて解除
+            </button>
+          </div>
+        </div>
+
+        {steps.length === 0 ? (
+          <div className="mt-2 text-sm text-gray-600 dark:text-gray-300">工程はありません。</div>
+        ) : (
+          <div className="mt-2 grid max-h-72 gap-1 overflow-y-auto text-sm">
+            {steps.map((s, i) => {
+              const children = s.children ?? [];
+              return (
+                <div key={s.id}>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={picked.has(String(i + 1))}
+                      onChange={(e) =>
+                        toggle([String(i + 1), ...children.map((_, j) => `${i + 1}-${j + 1}`)], e.target.checked)
+                      }
+                    />
+                    <span>
+                      {i + 1}. {s.name}
+                    </span>
+                  </label>
+                  {children.map((c, j) => (
+                    <label key={c.id} className="ml-6 flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={picked.has(`${i + 1}-${j + 1}`)}
+                        onChange={(e) => toggleChild(i, j, e.target.checked)}
+                      />
+                      <span>
+                        {i + 1}-{j + 1}. {c.name}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          小工程を選ぶと、その大工程もコピーされます。小工程をすべて外すと大工程も外れます。
+        </div>
+      </div>
+
+      <div className="mt-3 flex justify-end gap-2">
+        <button type="button" className={btnCls} disabled={saving} onClick={props.onClose}>
+          キャンセル
+        </button>
+        <button
+          type="button"
+          className="h-9 rounded-md bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+          disabled={saving}
+          onClick={() => void submit()}
+        >
+          {saving ? "複製中..." : "複製"}
+        </button>
+      </div>
+    </div>
+  );
+}
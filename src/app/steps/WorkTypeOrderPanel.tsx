@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { authedPost } from "@/lib/adminApi";
+
+type WorkTypeItem = {
+  id: string;
+  label: string;
+  enabled: boolean;
+  source: "codes" | "templates" | "both";
+};
+
+function SortableWorkType(props: { item: WorkTypeItem; index: number }) {
+  const { item, index } = props;
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: item.id });
+
+  const style: React.CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.6 : 1,
+    zIndex: isDragging ? 10 : "auto",
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={[
+        "flex items-center gap-2 rounded-lg border px-2 py-1 bg-white dark:bg-gray-950 dark:border-gray-800",
+        isDragging ? "shadow" : "",
+      ].join(" ")}
+    >
+      {/* ✅ ドラッグハンドル */}
+      <button
+        type="button"
+        className="h-8 w-8 rounded-md border text-sm leading-none
+                   bg-white hover:bg-gray-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800
+                   text-gray-900 dark:text-gray-100"
+        aria-label="ドラッグして並び替え"
+        {...attributes}
+        {...listeners}
+        style={{ touchAction: "none" }}
+        title="ドラッグして並び替え"
+      >
+        ≡
+      </button>
+      <div className="w-8 text-sm font-semibold text-gray-700 dark:text-gray-200">{index + 1}</div>
+      <div className="flex-1 text-sm">
+        {item.label}
+        {!item.enabled && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">（無効）</span>}
+        {item.source === "templates" && (
+          <span className="ml-2 text-xs text-amber-700 dark:text-amber-300">（テンプレのみ・保存で登録）</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 工事種類の並び順（現場アプリの表示順 = codes.order）
+ * - 並べ替えてから保存すると、全件の order を 1..n で振り直す
+ * - codes 未登録のテンプレ（末尾に出る）も、保存時に codes を作って並びに入れる
+ */
+export default function WorkTypeOrderPanel(props: { workTypes: WorkTypeItem[] }) {
+  const { workTypes } = props;
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<WorkTypeItem[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // 未変更なら一覧の更新（追加・削除・他の人の並び替え）に追従する
+  useEffect(() => {
+    if (!dirty) setDraft(workTypes);
+  }, [workTypes, dirty]);
+
+  // ✅ DnD sensors（PC/スマホ両対応）
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  );
+
+  const onDragEnd = (e: DragEndEvent) => {
+    const { active, over } = e;
+    if (!over || active.id === over.id) return;
+    setDraft((prev) => {
+      const oldIndex = prev.findIndex((w) => w.id === active.id);
+      const newIndex = prev.findIndex((w) => w.id === over.id);
+      if (oldIndex < 0 || newIndex < 0) return prev;
+      return arrayMove(prev, oldIndex, newIndex);
+    });
+    setDirty(true);
+  };
+
+  const reset = () => {
+    setDraft(workTypes);
+    setDirty(false);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await authedPost("/api/admin/work-types/reorder", { ids: draft.map((w) => w.id) });
+      setDirty(false);
+      alert("並び順を保存しました");
+    } catch (e) {
+      console.error(e);
+      const msg = e instanceof Error ? e.message : "コンソール確認";
+      if (msg === "STALE_LIST") {
+        alert("並べ替え中に工事種類が追加・削除されました。最新の一覧に戻すので、もう一度並べ替えてください。");
+        reset();
+        return;
+      }
+      alert(`保存に失敗しました（${msg}）`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // codes 未登録のテンプレがあれば、並べ替えなくても保存で登録できる
+  const canSave = dirty || draft.some((w) => w.source === "templates");
+
+  const btnCls =
+    "h-9 rounded-md border px-3 text-sm font-semibold bg-white hover:bg-gray-50 disabled:opacity-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="mt-4 rounded-xl border p-4 dark:border-gray-800">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-semibold">工事種類の並び順</div>
+          <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">現場アプリでの表示順です。</div>
+        </div>
+        <button type="button" className={btnCls} onClick={() => setOpen((v) => !v)}>
+          {open ? "閉じる" : "並び順を編集"}
+        </button>
+      </div>
+
+      {open && (
+        <>
+          <div className="mt-3">
+            <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={onDragEnd}>
+              <SortableContext items={draft.map((w) => w.id)} strategy={verticalListSortingStrategy}>
+                <div className="grid gap-1">
+                  {draft.map((w, i) => (
+                    <SortableWorkType key={w.id} item={w} index={i} />
+                  ))}
+                </div>
+              </SortableContext>
+            </DndContext>
+          </div>
+
+          <div className="mt-3 flex justify-end gap-2">
+            <button type="button" className={btnCls} disabled={!dirty || saving} onClick={reset}>
+              元に戻す
+            </button>
+            <button
+              type="button"
+              className="h-9 rounded-md bg-black px-4 text-sm font-semibold text-white hover:bg-gray-900 disabled:opacity-50"
+              disabled={!canSave || saving}
+              onClick={() => void save()}
+            >
+              {saving ? "保存中..." : "並び順を保存"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { authedPost } from "@/lib/adminApi";
+
+type TrashItem = {
+  id: string;
+  label: string;
+  stepCount: number;
+  deletedAtMs: number | null;
+  deletedBy: { uid: string; email: string } | null;
+  purgeAfterMs: number;
+};
+
+type ListOk = { ok: true; items: TrashItem[]; retentionDays: number };
+
+function msLabel(ms: number | null): string {
+  return ms ? new Date(ms).toLocaleString() : "-";
+}
+
+/**
+ * 削除した工事種類（ゴミ箱）
+ * - 復元：codes + templates を元の id で戻す
+ * - 完全削除：版履歴ごと消す（保持期間を過ぎたものは cron が消す）
+ * - reloadKey が変わったら取り直す（削除の後）
+ */
+export default function WorkTypeTrashPanel(props: {
+  reloadKey: number;
+  onRestored: (id: string) => Promise<void>;
+}) {
+  const { reloadKey } = props;
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState("");
+  const [err, setErr] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErr("");
+    try {
+      const json = await authedPost<ListOk>("/api/admin/work-types/trash/list", {});
+      setItems(json.items);
+      setRetentionDays(json.retentionDays);
+    } catch (e) {
+      console.error(e);
+      setErr(e instanceof Error ? e.message : "取得に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) void load();
+  }, [open, load, reloadKey]);
+
+  const restore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await authedPost("/api/admin/work-types/trash/restore", { id: item.id });
+      await load();
+      await props.onRestored(item.id);
+    } catch (e) {
+      console.error(e);
+      const msg = e instanceof Error ? e.message : "コンソール確認";
+      alert(
+        msg === "ALREADY_EXISTS"
+          ? "同じIDの工事種類がすでにあるため復元できません。"
+          : `復元に失敗しました（${msg}）`,
+      );
+    } finally {
+      setBusyId("");
+    }
+  };
+
+  const purge = async (item: TrashItem) => {
+    const ok = confirm(`「${item.label}」を完全削除します。版履歴も消え、元に戻せません。\n\n続行しますか？`);
+    if (!ok) return;
+
+    setBusyId(item.id);
+    try {
+      await authedPost("/api/admin/work-types/trash/purge", { id: item.id });
+      await load();
+    } catch (e) {
+      console.error(e);
+      alert(`完全削除に失敗しました（${e instanceof Error ? e.message : "コンソール確認"}）`);
+    } finally {
+      setBusyId("");
+    }
+  };
+
+  const btnCls =
+    "h-9 rounded-md border px-3 text-sm font-semibold bg-white hover:bg-gray-50 disabled:opacity-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="mt-4 rounded-xl border p-4 dark:border-gray-800">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-semibold">ゴミ箱</div>
+          {retentionDays !== null && (
+            <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              削除から{retentionDays}日で自動的に完全削除されます。
+            </div>
+          )}
+        </div>
+        <button type="button" className={btnCls} onClick={() => setOpen((v) => !v)}>
+          {open ? "閉じる" : "ゴミ箱を見る"}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 grid gap-2">
+          {loading ? (
+            <div className="text-sm text-gray-600 dark:text-gray-300">読み込み中...</div>
+          ) : err ? (
+            <div className="text-sm font-bold text-red-700 dark:text-red-300">{err}</div>
+          ) : items.length === 0 ? (
+            <div className="text-sm text-gray-600 dark:text-gray-300">ゴミ箱は空です。</div>
+          ) : (
+            items.map((item) => (
+              <div
+                key={item.id}
+                className="flex flex-col gap-2 rounded-md border px-3 py-2 text-sm md:flex-row md:items-center md:justify-between dark:border-gray-700"
+              >
+                <div>
+                  <div className="font-semibold">
+                    {item.label}（{item.stepCount}工程）
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    <span className="font-mono">{item.id}</span> ・ {msLabel(item.deletedAtMs)} に削除（
+                    {item.deletedBy ? item.deletedBy.email || item.deletedBy.uid : "不明"}） ・{" "}
+                    {msLabel(item.purgeAfterMs)} 以降に自動削除
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    className={btnCls}
+                    disabled={busyId !== ""}
+                    onClick={() => void restore(item)}
+                  >
+                    復元
+                  </button>
+                  <button
+                    type="button"
+                    className={btnCls}
+                    disabled={busyId !== ""}
+                    onClick={() => void purge(item)}
+                  >
+                    完全削除
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
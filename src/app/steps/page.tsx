@@ -4,50 +4,50 @@ import React, { useEffect, useMemo, useState } from "react";
 import { onAuthStateChanged } from "firebase/auth";
 import {
   collection,
-  deleteDoc,
   doc,
   getDoc,
   getDocs,
   onSnapshot,
   orderBy,
   query,
-  serverTimestamp,
-  setDoc,
   Timestamp,
-  writeBatch,
 } from "firebase/firestore";
 import { auth, db } from "@/lib/firebaseClient";
-
-// ✅ DnD
-import {
-  DndContext,
-  DragEndEvent,
-  KeyboardSensor,
-  PointerSensor,
-  closestCenter,
-  useSensor,
-  useSensors,
-} from "@dnd-kit/core";
+import { authedPost } from "@/lib/adminApi";
+import { toTemplateSteps, type TemplateStep } from "@/lib/templateVersions";
+import TemplateHistoryPanel, { type TemplateVersion } from "./TemplateHistoryPanel";
+import TemplateConflictPanel from "./TemplateConflictPanel";
+import WorkTypeTrashPanel from "./WorkTypeTrashPanel";
+import WorkTypeOrderPanel from "./WorkTypeOrderPanel";
+import WorkTypeDuplicatePanel from "./WorkTypeDuplicatePanel";
+import StepTreeEditor from "./StepTreeEditor";
 import {
-  SortableContext,
-  arrayMove,
-  sortableKeyboardCoordinates,
-  useSortable,
-  verticalListSortingStrategy,
-} from "@dnd-kit/sortable";
-import { CSS } from "@dnd-kit/utilities";
-
-type Step = {
-  id: string;
-  name: string;
-  order: number;
-};
+  hasUnnamedGroup,
+  newStepId,
+  normalizeStepsForSave,
+  renumberByArrayOrder,
+  renumberFromOrder,
+  type Step,
+} from "./stepTree";
 
 type PublicWorkTemplate = {
   workTypeId: string;
   title: string;
-  steps: Step[];
+  steps: TemplateStep[];
+  revision?: number;
   updatedAt?: Timestamp;
+  updatedBy?: { uid: string; email: string };
+  // 複製で作ったテンプレの複製元
+  derivedFrom?: { workTypeId: string; revision: number; title: string };
+};
+
+// 他の人が保存した最新の内容（競合・更新通知用）
+type RemoteTemplate = {
+  title: string;
+  steps: TemplateStep[];
+  revision: number;
+  updatedAtLabel: string;
+  updatedByLabel: string;
 };
 
 type WorkTypeCodeDoc = {
@@ -74,10 +74,6 @@ type WorkTypeRow = {
 const COL_CODES = "proclinkWorkTypeCodes";
 const COL_TEMPLATES = "publicWorkTemplates";
 
-function uid() {
-  return `st_${Math.random().toString(36).slice(2, 10)}_${Date.now().toString(36)}`;
-}
-
 function normStr(v: unknown, fallback = "") {
   return typeof v === "string" ? v : fallback;
 }
@@ -89,123 +85,18 @@ function normBool(v: unknown, fallback = true) {
   return typeof v === "boolean" ? v : fallback;
 }
 
-/**
- * ✅ 配列順のまま order を 1..n に振り直す（DnD/追加/削除の後に使う）
- * ここでは sort しない。これが重要。
- */
-function renumberByArrayOrder(steps: Step[]): Step[] {
-  const normalized = steps.map((s) => ({
-    id: String(s.id || uid()),
-    name: typeof s.name === "string" ? s.name : String(s.name ?? ""),
-    order: Number.isFinite(s.order) ? s.order : 0,
-  }));
-  return normalized.map((s, i) => ({ ...s, order: i + 1 }));
-}
-
-/** ✅ ロード時だけ order を信用して整列 → 配列順に採番 */
-function renumberFromOrder(steps: Step[]): Step[] {
-  const sorted = steps
-    .map((s) => ({
-      id: String(s.id || uid()),
-      name: typeof s.name === "string" ? s.name : String(s.name ?? ""),
-      order: Number.isFinite(s.order) ? s.order : 0,
-    }))
-    .slice()
-    .sort((a, b) => a.order - b.order);
-  return renumberByArrayOrder(sorted);
-}
-
-/** ✅ 保存用：空欄除外 + trim + 今の並び（配列順）で採番 */
-function normalizeStepsForSave(steps: Step[]): Step[] {
-  const cleaned = steps
-    .map((s) => ({
-      id: String(s.id || uid()),
-      name: String(s.name || "").trim(),
-      order: Number.isFinite(s.order) ? s.order : 0,
-    }))
-    .filter((s) => s.name.length > 0);
-  return cleaned.map((s, i) => ({ ...s, order: i + 1 }));
-}
-
-/** ✅ 1行分（Sortable Item） */
-function SortableStepRow(props: {
-  step: Step;
-  index: number;
-  onChangeName: (id: string, v: string) => void;
-  onDelete: (id: string) => void;
-}) {
-  const { step: s, index, onChangeName, onDelete } = props;
-
-  const {
-    attributes,
-    listeners,
-    setNodeRef,
-    transform,
-    transition,
-    isDragging,
-  } = useSortable({ id: s.id });
-
-  const style: React.CSSProperties = {
-    transform: CSS.Transform.toString(transform),
-    transition,
-    opacity: isDragging ? 0.6 : 1,
-    zIndex: isDragging ? 10 : "auto",
+function toRemoteTemplate(
+  data: Partial<PublicWorkTemplate>,
+  fallbackTitle: string,
+): RemoteTemplate {
+  const ts = data.updatedAt instanceof Timestamp ? data.updatedAt : null;
+  return {
+    title: normStr(data.title, fallbackTitle),
+    steps: toTemplateSteps(data.steps),
+    revision: normNum(data.revision, 0),
+    updatedAtLabel: ts ? ts.toDate().toLocaleString() : "(更新日時なし)",
+    updatedByLabel: data.updatedBy?.email || data.updatedBy?.uid || "不明",
   };
-
-  return (
-    <div
-      ref={setNodeRef}
-      style={style}
-      className={[
-        "grid gap-2 rounded-lg border p-2",
-        "md:grid-cols-[120px_1fr_96px]",
-        "bg-white dark:bg-gray-950 dark:border-gray-800",
-        isDragging ? "shadow" : "",
-      ].join(" ")}
-    >
-      <div className="flex items-center gap-2">
-        <div className="text-sm font-semibold text-gray-700 dark:text-gray-200">
-          #{index + 1}
-        </div>
-
-        {/* ✅ ドラッグハンドル */}
-        <button
-          type="button"
-          className="h-8 w-8 rounded-md border text-sm leading-none
-                     bg-white hover:bg-gray-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800
-                     text-gray-900 dark:text-gray-100"
-          aria-label="ドラッグして並び替え"
-          {...attributes}
-          {...listeners}
-          style={{ touchAction: "none" }}
-          title="ドラッグして並び替え"
-        >
-          ≡
-        </button>
-      </div>
-
-      <textarea
-        rows={2}
-        className="rounded-md border px-3 py-2 leading-5 resize-none
-                   bg-white dark:bg-gray-900 dark:border-gray-700
-                   text-gray-900 dark:text-gray-100
-                   placeholder:text-gray-400 dark:placeholder:text-gray-500"
-        value={s.name}
-        onChange={(e) => onChangeName(s.id, e.target.value)}
-        placeholder="工程名（2行まで）"
-      />
-
-      <button
-        type="button"
-        className="h-10 rounded-md border text-sm
-                   bg-white hover:bg-gray-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800
-                   text-gray-900 dark:text-gray-100"
-        onClick={() => onDelete(s.id)}
-      >
-        削除
-      </button>
-    </div>
-  );
 }
 
 export default function WorkSettingsPage() {
@@ -330,13 +221,6 @@ export default function WorkSettingsPage() {
     return rows;
   }, [codesMap, templatesMeta]);
 
-  const maxOrder = useMemo(() => {
-    const orders = workTypes
-      .map((x) => x.order)
-      .filter((n) => Number.isFinite(n));
-    return orders.length ? Math.max(...orders) : 0;
-  }, [workTypes]);
-
   // -----------------------------
   // selected workType
   // -----------------------------
@@ -366,40 +250,20 @@ export default function WorkSettingsPage() {
     if (!label) return alert("表示名を入力してください。");
 
     try {
-      // ✅ codes: auto documentID
-      const newCodeRef = doc(collection(db, COL_CODES)); // auto id
-      const id = newCodeRef.id;
-
-      await setDoc(
-        newCodeRef,
-        {
-          label,
-          order: maxOrder + 1,
-          enabled: true,
-          createdAt: serverTimestamp(),
-          updatedAt: serverTimestamp(),
-        },
-        { merge: false },
-      );
-
-      // ✅ templates: codes と同じ id を採用（選択キー統一）
-      await setDoc(
-        doc(db, COL_TEMPLATES, id),
-        {
-          workTypeId: id,
-          title: label,
-          steps: [],
-          updatedAt: serverTimestamp(),
-        },
-        { merge: false },
+      // ✅ codes（自動ID）と同じIDのテンプレをサーバーで作る（監査ログもサーバー側）
+      const json = await authedPost<{ ok: true; id: string }>(
+        "/api/admin/work-types/add",
+        { label },
       );
 
       setNewWorkLabel("");
-      setWorkTypeId(id);
+      setWorkTypeId(json.id);
       await loadTemplatesMeta();
     } catch (e) {
       console.error(e);
-      alert("追加に失敗しました（コンソール確認）");
+      alert(
+        `追加に失敗しました（${e instanceof Error ? e.message : "コンソール確認"}）`,
+      );
     }
   };
 
@@ -408,43 +272,20 @@ export default function WorkSettingsPage() {
     if (!requireLogin()) return;
 
     try {
-      const snap = await getDocs(collection(db, COL_TEMPLATES));
-      const batch = writeBatch(db);
-
-      let nextOrder = maxOrder + 1;
-      let count = 0;
-
-      for (const d of snap.docs) {
-        const id = d.id;
-        if (codesMap.has(id)) continue;
-
-        const data = d.data() as Record<string, unknown>;
-        const title = normStr(data.title, id);
-
-        batch.set(
-          doc(db, COL_CODES, id), // ✅ 既存テンプレのIDをそのまま使う
-          {
-            label: title || id,
-            order: nextOrder++,
-            enabled: true,
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp(),
-          },
-          { merge: true },
-        );
-        count++;
-      }
-
-      if (count === 0) {
+      const json = await authedPost<{ ok: true; count: number }>(
+        "/api/admin/work-types/import",
+        {},
+      );
+      if (json.count === 0) {
         alert("取り込み対象はありません（すでに揃っています）。");
         return;
       }
-
-      await batch.commit();
-      alert(`取り込みしました: ${count}件`);
+      alert(`取り込みしました: ${json.count}件`);
     } catch (e) {
       console.error(e);
-      alert("取り込みに失敗しました（コンソール確認）");
+      alert(
+        `取り込みに失敗しました（${e instanceof Error ? e.message : "コンソール確認"}）`,
+      );
     }
   };
 
@@ -454,57 +295,67 @@ export default function WorkSettingsPage() {
     if (!fixed) return alert("表示名が空です。");
 
     try {
-      // codes（存在しない場合も作れる）
-      await setDoc(
-        doc(db, COL_CODES, id),
-        { label: fixed, updatedAt: serverTimestamp() },
-        { merge: true },
-      );
-
-      // templates.title も同期
-      await setDoc(
-        doc(db, COL_TEMPLATES, id),
-        { title: fixed, updatedAt: serverTimestamp(), workTypeId: id },
-        { merge: true },
+      // codes.label と templates.title をサーバーで同期
+      const json = await authedPost<{ ok: true; revision: number }>(
+        "/api/admin/work-types/rename",
+        { id, label: fixed },
       );
-
+      // 自分の変更だけなら（間に他の人の保存が無ければ）編集中のテンプレ名にも反映
+      if (id === workTypeId && json.revision === baseRevision + 1) {
+        setTitle(fixed);
+        setSavedTemplate((prev) => (prev ? { ...prev, title: fixed } : prev));
+        setBaseRevision(json.revision);
+      }
       await loadTemplatesMeta();
     } catch (e) {
       console.error(e);
-      alert("保存に失敗しました（コンソール確認）");
+      alert(
+        `保存に失敗しました（${e instanceof Error ? e.message : "コンソール確認"}）`,
+      );
     }
   };
 
   const setEnabled = async (id: string, enabled: boolean) => {
     if (!requireLogin()) return;
     try {
-      await setDoc(
-        doc(db, COL_CODES, id),
-        { enabled, updatedAt: serverTimestamp() },
-        { merge: true },
-      );
+      await authedPost("/api/admin/work-types/set-enabled", { id, enabled });
     } catch (e) {
       console.error(e);
-      alert("更新に失敗しました（コンソール確認）");
+      alert(
+        `更新に失敗しました（${e instanceof Error ? e.message : "コンソール確認"}）`,
+      );
     }
   };
 
-  const hardDelete = async (id: string) => {
+  // 複製パネル（選択中の工事種類が変わったら閉じる）
+  const [duplicating, setDuplicating] = useState(false);
+
+  useEffect(() => {
+    setDuplicating(false);
+  }, [workTypeId]);
+
+  // ゴミ箱の再読み込み用（削除の後）
+  const [trashKey, setTrashKey] = useState(0);
+
+  // ✅ 削除はゴミ箱へ移動（codes + templates をサーバーで退避。ゴミ箱から復元できる）
+  const moveToTrash = async (id: string) => {
     if (!requireLogin()) return;
 
     const ok = confirm(
-      `完全削除します。\n- ${COL_CODES}/${id}\n- ${COL_TEMPLATES}/${id}\n\n続行しますか？`,
+      `ゴミ箱へ移動します。\n- ${COL_CODES}/${id}\n- ${COL_TEMPLATES}/${id}\n\n続行しますか？`,
     );
     if (!ok) return;
 
     try {
-      await deleteDoc(doc(db, COL_CODES, id)).catch(() => {});
-      await deleteDoc(doc(db, COL_TEMPLATES, id)).catch(() => {});
+      await authedPost("/api/admin/work-types/delete", { id });
       await loadTemplatesMeta();
+      setTrashKey((k) => k + 1);
       // UIメッセージ「削除しました」は表示しない
     } catch (e) {
       console.error(e);
-      alert("削除に失敗しました（コンソール確認）");
+      alert(
+        `削除に失敗しました（${e instanceof Error ? e.message : "コンソール確認"}）`,
+      );
     }
   };
 
@@ -517,6 +368,19 @@ export default function WorkSettingsPage() {
   const [title, setTitle] = useState("");
   const [steps, setSteps] = useState<Step[]>([]);
   const [lastLoadedAt, setLastLoadedAt] = useState<string>("");
+  // 保存済みの内容（履歴の差分・復元の比較用）
+  const [savedTemplate, setSavedTemplate] = useState<{
+    title: string;
+    steps: TemplateStep[];
+  } | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
+  // ✅ 読み込んだ時点の revision（保存はこれが最新のときだけ通る）
+  const [baseRevision, setBaseRevision] = useState(0);
+  const [remote, setRemote] = useState<RemoteTemplate | null>(null);
+  const [conflict, setConflict] = useState<RemoteTemplate | null>(null);
+  const [derivedFrom, setDerivedFrom] = useState<
+    PublicWorkTemplate["derivedFrom"] | null
+  >(null);
 
   const [workLabelDraft, setWorkLabelDraft] = useState("");
 
@@ -527,6 +391,7 @@ export default function WorkSettingsPage() {
   useEffect(() => {
     const load = async () => {
       setLoading(true);
+      setConflict(null);
       try {
         const ref = doc(db, COL_TEMPLATES, workTypeId);
         const snap = await getDoc(ref);
@@ -535,6 +400,9 @@ export default function WorkSettingsPage() {
           const fallbackTitle = selectedWork?.label ?? workTypeId;
           setTitle(fallbackTitle);
           setSteps([]);
+          setSavedTemplate(null);
+          setBaseRevision(0);
+          setDerivedFrom(null);
           setLastLoadedAt("(未作成)");
           return;
         }
@@ -546,19 +414,12 @@ export default function WorkSettingsPage() {
         );
         setTitle(baseTitle);
 
-        const rawSteps = Array.isArray(data.steps) ? data.steps : [];
-        const parsed: Step[] = rawSteps
-          .map((x) => {
-            const obj = x as Record<string, unknown>;
-            return {
-              id: String(obj.id ?? uid()),
-              name: String(obj.name ?? ""),
-              order: Number(obj.order ?? 0),
-            };
-          })
-          .filter((s) => s.name.trim().length > 0);
-
-        setSteps(renumberFromOrder(parsed));
+        // フラットな従来テンプレは children 無し（小工程0件の大工程）として読む
+        const loadedSteps = renumberFromOrder(toTemplateSteps(data.steps));
+        setSteps(loadedSteps);
+        setSavedTemplate({ title: baseTitle, steps: loadedSteps });
+        setBaseRevision(normNum(data.revision, 0));
+        setDerivedFrom(data.derivedFrom ?? null);
 
         const ts = data.updatedAt instanceof Timestamp ? data.updatedAt : null;
         setLastLoadedAt(ts ? ts.toDate().toLocaleString() : "(更新日時なし)");
@@ -571,22 +432,95 @@ export default function WorkSettingsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [workTypeId]);
 
+  // ✅ 選択中テンプレの変更を監視（他の人の保存を知らせる）
+  useEffect(() => {
+    setRemote(null);
+    const unsub = onSnapshot(
+      doc(db, COL_TEMPLATES, workTypeId),
+      (snap) => {
+        setRemote(
+          snap.exists()
+            ? toRemoteTemplate(snap.data() as Partial<PublicWorkTemplate>, workTypeId)
+            : null,
+        );
+      },
+      (e) => console.error(e),
+    );
+    return () => unsub();
+  }, [workTypeId]);
+
+  const remoteChanged =
+    !loading && !saving && !conflict && !!remote && remote.revision !== baseRevision;
+
+  // 最新の内容を読み直して競合パネルを開く
+  const openConflict = async () => {
+    const snap = await getDoc(doc(db, COL_TEMPLATES, workTypeId));
+    if (!snap.exists()) {
+      alert("テンプレが削除されています。");
+      return;
+    }
+    setConflict(
+      toRemoteTemplate(
+        snap.data() as Partial<PublicWorkTemplate>,
+        selectedWork?.label ?? workTypeId,
+      ),
+    );
+  };
+
+  // 競合の基準を最新に進める（以降の保存は最新に対して行う）
+  const adoptRemote = (latest: RemoteTemplate) => {
+    setSavedTemplate({ title: latest.title, steps: latest.steps });
+    setBaseRevision(latest.revision);
+    setLastLoadedAt(latest.updatedAtLabel);
+    setConflict(null);
+  };
+
+  const onTakeTheirs = (latest: RemoteTemplate) => {
+    setTitle(latest.title);
+    setSteps(renumberFromOrder(latest.steps));
+    adoptRemote(latest);
+  };
+
+  const onApplyMerge = (
+    latest: RemoteTemplate,
+    merged: { title: string; steps: TemplateStep[] },
+  ) => {
+    setTitle(merged.title);
+    setSteps(renumberFromOrder(merged.steps));
+    adoptRemote(latest);
+  };
+
   const onAddStep = () => {
     setSteps((prev) =>
       renumberByArrayOrder([
         ...prev,
-        { id: uid(), name: "", order: prev.length + 1 },
+        { id: newStepId(), name: "", order: prev.length + 1, children: [] },
       ]),
     );
   };
 
-  const onDeleteStep = (id: string) => {
-    setSteps((prev) => renumberByArrayOrder(prev.filter((x) => x.id !== id)));
+  // ✅ 保存・復元の後：一覧・最終更新・履歴を取り直す
+  const afterTemplateWrite = async (
+    savedTitle: string,
+    savedSteps: TemplateStep[],
+  ) => {
+    await loadTemplatesMeta();
+
+    const snap = await getDoc(doc(db, COL_TEMPLATES, workTypeId));
+    const data = snap.data() as Partial<PublicWorkTemplate>;
+    const ts = data.updatedAt instanceof Timestamp ? data.updatedAt : null;
+    setLastLoadedAt(ts ? ts.toDate().toLocaleString() : "(更新日時なし)");
+    setSavedTemplate({ title: savedTitle, steps: savedSteps });
+    setHistoryKey((k) => k + 1);
   };
 
-  const onSaveTemplate = async () => {
+  // base: 競合を承知で上書きするときは最新の revision を渡す
+  const onSaveTemplate = async (base = baseRevision) => {
     if (!requireLogin()) return;
 
+    if (hasUnnamedGroup(steps)) {
+      return alert("小工程を持つ大工程の名前が空です。");
+    }
     const fixedSteps = normalizeStepsForSave(steps);
     const fixedTitle = String(
       title || selectedWork?.label || workTypeId,
@@ -594,65 +528,72 @@ export default function WorkSettingsPage() {
 
     setSaving(true);
     try {
-      await setDoc(
-        doc(db, COL_TEMPLATES, workTypeId),
-        {
-          workTypeId,
-          title: fixedTitle,
-          steps: fixedSteps,
-          updatedAt: serverTimestamp(),
-        },
-        { merge: false },
+      // ✅ 検証・版の退避・codes.label の同期はサーバー側
+      const json = await authedPost<{
+        ok: true;
+        title: string;
+        steps: TemplateStep[];
+        revision: number;
+      }>(
+        "/api/admin/templates/save",
+        { workTypeId, title: fixedTitle, steps: fixedSteps, baseRevision: base },
       );
-
-      // codesがあればlabelも同期（任意運用）
-      if (codesMap.has(workTypeId)) {
-        await setDoc(
-          doc(db, COL_CODES, workTypeId),
-          { label: fixedTitle, updatedAt: serverTimestamp() },
-          { merge: true },
-        );
-      }
-
+      setBaseRevision(json.revision);
+      setConflict(null);
+      await afterTemplateWrite(json.title, json.steps);
       alert("保存しました");
-      await loadTemplatesMeta();
-
-      const ref = doc(db, COL_TEMPLATES, workTypeId);
-      const snap = await getDoc(ref);
-      const data = snap.data() as Partial<PublicWorkTemplate>;
-      const ts = data.updatedAt instanceof Timestamp ? data.updatedAt : null;
-      setLastLoadedAt(ts ? ts.toDate().toLocaleString() : "(更新日時なし)");
     } catch (e) {
       console.error(e);
-      alert("保存に失敗しました（コンソール確認）");
+      if (e instanceof Error && e.message === "CONFLICT") {
+        alert("読み込んだ後に他の人が保存しています。差分を確認してください。");
+        await openConflict();
+        return;
+      }
+      alert(
+        `保存に失敗しました（${e instanceof Error ? e.message : "コンソール確認"}）`,
+      );
     } finally {
       setSaving(false);
     }
   };
 
-  // ✅ DnD sensors（PC/スマホ両対応）
-  const sensors = useSensors(
-    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
-    useSensor(KeyboardSensor, {
-      coordinateGetter: sortableKeyboardCoordinates,
-    }),
-  );
-
-  const ids = useMemo(() => steps.map((s) => s.id), [steps]);
-
-  const onDragEnd = (event: DragEndEvent) => {
-    const { active, over } = event;
-    if (!over) return;
-    if (active.id === over.id) return;
-
-    setSteps((prev) => {
-      const oldIndex = prev.findIndex((x) => x.id === String(active.id));
-      const newIndex = prev.findIndex((x) => x.id === String(over.id));
-      if (oldIndex < 0 || newIndex < 0) return prev;
+  // ✅ 版の復元（現在の内容は履歴に退避してから上書き。編集中の未保存分は破棄）
+  const onRestoreVersion = async (version: TemplateVersion) => {
+    if (!requireLogin()) return;
+    const ok = confirm(
+      `「${version.savedAt || version.id}」の版に戻します（${version.steps.length}工程）。\n現在の内容は履歴に残ります。編集中の未保存の変更は破棄されます。\n\n続行しますか？`,
+    );
+    if (!ok) return;
 
-      const moved = arrayMove(prev, oldIndex, newIndex);
-      return renumberByArrayOrder(moved);
-    });
+    setSaving(true);
+    try {
+      const json = await authedPost<{
+        ok: true;
+        title: string;
+        steps: TemplateStep[];
+        revision: number;
+      }>(
+        "/api/admin/templates/restore",
+        { workTypeId, versionId: version.id, baseRevision },
+      );
+      setBaseRevision(json.revision);
+      setConflict(null);
+      setTitle(json.title);
+      setSteps(renumberFromOrder(json.steps));
+      await afterTemplateWrite(json.title, json.steps);
+      alert("復元しました");
+    } catch (e) {
+      console.error(e);
+      if (e instanceof Error && e.message === "CONFLICT") {
+        alert("読み込んだ後に他の人が保存しています。最新を読み込んでから復元してください。");
+        return;
+      }
+      alert(
+        `復元に失敗しました（${e instanceof Error ? e.message : "コンソール確認"}）`,
+      );
+    } finally {
+      setSaving(false);
+    }
   };
 
   // -----------------------------
@@ -740,13 +681,22 @@ export default function WorkSettingsPage() {
                   </button>
                 )}
 
+                <button
+                  type="button"
+                  className="h-10 rounded-md border px-4 text-sm font-semibold bg-white hover:bg-gray-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+                  onClick={() => setDuplicating(true)}
+                  disabled={loading}
+                >
+                  複製
+                </button>
+
                 <button
                   type="button"
                   className="h-10 rounded-md border px-4 text-sm font-semibold bg-white hover:bg-gray-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100"
-                  onClick={() => void hardDelete(workTypeId)}
-                  title="必要時のみ"
+                  onClick={() => void moveToTrash(workTypeId)}
+                  title="ゴミ箱へ移動（ゴミ箱から復元できます）"
                 >
-                  完全削除
+                  削除
                 </button>
               </div>
             </div>
@@ -756,6 +706,21 @@ export default function WorkSettingsPage() {
           </div>
         </div>
 
+        {duplicating && (
+          <WorkTypeDuplicatePanel
+            key={workTypeId}
+            source={{ id: workTypeId, label: selectedWork?.label ?? workTypeId }}
+            steps={savedTemplate?.steps ?? []}
+            revision={baseRevision}
+            onClose={() => setDuplicating(false)}
+            onCreated={async (id) => {
+              setDuplicating(false);
+              await loadTemplatesMeta();
+              setWorkTypeId(id);
+            }}
+          />
+        )}
+
         {/* 追加 / 取り込み */}
         <div className="mt-4 grid gap-3 md:grid-cols-2">
           <div className="rounded-xl border p-4 dark:border-gray-800">
@@ -811,6 +776,16 @@ export default function WorkSettingsPage() {
             </button>
           </div>
         </div>
+
+        <WorkTypeOrderPanel workTypes={workTypes} />
+
+        <WorkTypeTrashPanel
+          reloadKey={trashKey}
+          onRestored={async (id) => {
+            await loadTemplatesMeta();
+            setWorkTypeId(id);
+          }}
+        />
       </div>
 
       {/* 選択中テンプレ編集（usWork選択時は usWork の中身が出る） */}
@@ -824,6 +799,12 @@ export default function WorkSettingsPage() {
                 {COL_TEMPLATES}/{workTypeId}
               </code>
             </div>
+            {derivedFrom && (
+              <div className="mt-1 text-xs text-gray-600 dark:text-gray-300">
+                複製元: {derivedFrom.title}（
+                <span className="font-mono">{derivedFrom.workTypeId}</span>）
+              </div>
+            )}
           </div>
 
           <div className="text-xs text-gray-500 dark:text-gray-400">
@@ -831,6 +812,30 @@ export default function WorkSettingsPage() {
           </div>
         </div>
 
+        {remoteChanged && remote && (
+          <div className="mt-4 flex flex-col gap-2 rounded-xl border border-amber-300 bg-amber-50 p-3 text-sm md:flex-row md:items-center md:justify-between dark:border-amber-900 dark:bg-amber-950/30">
+            <div className="text-amber-800 dark:text-amber-200">
+              他の人が編集しました（{remote.updatedByLabel} ・ {remote.updatedAtLabel}）。編集中の内容には反映されていません。
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                className="h-9 rounded-md border px-3 text-sm font-semibold bg-white hover:bg-gray-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100"
+                onClick={() => void openConflict()}
+              >
+                差分を確認
+              </button>
+              <button
+                type="button"
+                className="h-9 rounded-md border px-3 text-sm font-semibold bg-white hover:bg-gray-50 dark:bg-gray-900 dark:border-gray-700 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100"
+                onClick={() => onTakeTheirs(remote)}
+              >
+                最新を読み込む
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="mt-4 grid gap-2">
           <label className="text-sm font-semibold">テンプレ名</label>
           <input
@@ -867,38 +872,7 @@ export default function WorkSettingsPage() {
             </div>
           ) : (
             <div className="mt-3">
-              <DndContext
-                sensors={sensors}
-                collisionDetection={closestCenter}
-                onDragEnd={onDragEnd}
-              >
-                <SortableContext
-                  items={ids}
-                  strategy={verticalListSortingStrategy}
-                >
-                  <div className="grid gap-2">
-                    {steps.map((s, index) => (
-                      <SortableStepRow
-                        key={s.id}
-                        step={s}
-                        index={index}
-                        onChangeName={(id, v) => {
-                          setSteps((prev) =>
-                            prev.map((x) =>
-                              x.id === id ? { ...x, name: v } : x,
-                            ),
-                          );
-                        }}
-                        onDelete={onDeleteStep}
-                      />
-                    ))}
-                  </div>
-                </SortableContext>
-              </DndContext>
-
-              <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-                並び替えは「≡」をドラッグしてください。
-              </div>
+              <StepTreeEditor steps={steps} setSteps={setSteps} />
             </div>
           )}
         </div>
@@ -914,6 +888,32 @@ export default function WorkSettingsPage() {
             {saving ? "保存中..." : "保存"}
           </button>
         </div>
+
+        {conflict && (
+          <TemplateConflictPanel
+            base={savedTemplate ?? { title: selectedWork?.label ?? workTypeId, steps: [] }}
+            ours={{
+              title: String(title || selectedWork?.label || workTypeId).trim(),
+              steps: normalizeStepsForSave(steps),
+            }}
+            theirs={{ title: conflict.title, steps: conflict.steps }}
+            theirsLabel={`${conflict.updatedByLabel} が ${conflict.updatedAtLabel} に保存しました。`}
+            busy={saving}
+            onApplyMerge={(merged) => onApplyMerge(conflict, merged)}
+            onOverwrite={() => onSaveTemplate(conflict.revision)}
+            onTakeTheirs={() => onTakeTheirs(conflict)}
+            onClose={() => setConflict(null)}
+          />
+        )}
+
+        <TemplateHistoryPanel
+          collectionName={COL_TEMPLATES}
+          workTypeId={workTypeId}
+          current={savedTemplate}
+          reloadKey={historyKey}
+          busy={saving || loading}
+          onRestore={onRestoreVersion}
+        />
       </div>
     </div>
   );
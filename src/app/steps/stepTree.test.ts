@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  findParentId,
+  hasUnnamedGroup,
+  indentStep,
+  moveChild,
+  normalizeStepsForSave,
+  outdentStep,
+  renumberByArrayOrder,
+  renumberFromOrder,
+  type Step,
+} from "./stepTree";
+
+function step(id: string, name: string, children: Step[] = []): Step {
+  return { id, name, order: 0, children };
+}
+
+// id と階層だけを比べる（"a[a1,a2]" の形）
+function shape(steps: Step[]): string {
+  return steps
+    .map((s) => (s.children.length ? `${s.id}[${s.children.map((c) => c.id).join(",")}]` : s.id))
+    .join(" ");
+}
+
+describe("renumberFromOrder", () => {
+  it("各階層を order で並べてから 1..n に振り直す", () => {
+    const steps = renumberFromOrder([
+      { id: "b", name: "B", order: 5, children: [] },
+      {
+        id: "a",
+        name: "A",
+        order: 2,
+        children: [
+          { id: "a2", name: "A2", order: 9 },
+          { id: "a1", name: "A1", order: 1 },
+        ],
+      },
+    ]);
+
+    expect(shape(steps)).toBe("a[a1,a2] b");
+    expect(steps.map((s) => s.order)).toEqual([1, 2]);
+    expect(steps[0]!.children.map((c) => c.order)).toEqual([1, 2]);
+  });
+
+  it("3階層目は読まず、id が無い工程には id を振る", () => {
+    const steps = renumberFromOrder([
+      { name: "A", order: 1, children: [{ id: "a1", name: "A1", order: 1, children: [{ id: "x", name: "X" }] }] },
+    ]);
+
+    expect(steps[0]!.id).not.toBe("");
+    expect(steps[0]!.children[0]!.children).toEqual([]);
+  });
+});
+
+describe("renumberByArrayOrder", () => {
+  it("並べ替えずに配列順で採番する", () => {
+    const steps = renumberByArrayOrder([
+      { ...step("b", "B"), order: 1 },
+      { ...step("a", "A", [{ ...step("a1", "A1"), order: 7 }]), order: 2 },
+    ]);
+
+    expect(shape(steps)).toBe("b a[a1]");
+    expect(steps.map((s) => s.order)).toEqual([1, 2]);
+    expect(steps[1]!.children[0]!.order).toBe(1);
+  });
+});
+
+describe("normalizeStepsForSave", () => {
+  it("空欄を除いて trim し、小工程が無ければ children を省く", () => {
+    const saved = normalizeStepsForSave([
+      step("a", "  A  ", [step("a1", " A1 "), step("a2", "  ")]),
+      step("b", ""),
+      step("c", "C"),
+    ]);
+
+    expect(saved).toEqual([
+      { id: "a", name: "A", order: 1, children: [{ id: "a1", name: "A1", order: 1 }] },
+      { id: "c", name: "C", order: 2 },
+    ]);
+  });
+
+  it("名前が空でも小工程が残る大工程は残す", () => {
+    const saved = normalizeStepsForSave([step("a", "", [step("a1", "A1")])]);
+    expect(saved).toHaveLength(1);
+    expect(saved[0]!.children).toHaveLength(1);
+  });
+});
+
+describe("hasUnnamedGroup", () => {
+  it("名前が空で小工程を持つ大工程を見つける", () => {
+    expect(hasUnnamedGroup([step("a", " ", [step("a1", "A1")])])).toBe(true);
+    expect(hasUnnamedGroup([step("a", " ", [step("a1", " ")])])).toBe(false);
+    expect(hasUnnamedGroup([step("a", "A", [step("a1", "A1")])])).toBe(false);
+  });
+});
+
+describe("findParentId", () => {
+  const steps = [step("a", "A", [step("a1", "A1")]), step("b", "B")];
+
+  it("大工程は空文字、小工程は親の id、無ければ null", () => {
+    expect(findParentId(steps, "b")).toBe("");
+    expect(findParentId(steps, "a1")).toBe("a");
+    expect(findParentId(steps, "zz")).toBeNull();
+  });
+});
+
+describe("moveChild", () => {
+  const steps = [step("a", "A", [step("a1", "A1"), step("a2", "A2")]), step("b", "B", [step("b1", "B1")])];
+
+  it("別の大工程の指定位置へ移す", () => {
+    expect(shape(moveChild(steps, "a2", "b", 0))).toBe("a[a1] b[a2,b1]");
+  });
+
+  it("同じ大工程の中で並べ替える", () => {
+    expect(shape(moveChild(steps, "a1", "a", 1))).toBe("a[a2,a1] b[b1]");
+  });
+
+  it("範囲外の位置は末尾に丸める", () => {
+    expect(shape(moveChild(steps, "a1", "b", 99))).toBe("a[a2] b[b1,a1]");
+  });
+
+  it("大工程や存在しない id は何もしない", () => {
+    expect(moveChild(steps, "a", "b", 0)).toBe(steps);
+    expect(moveChild(steps, "zz", "b", 0)).toBe(steps);
+  });
+});
+
+describe("indentStep / outdentStep", () => {
+  it("字下げで直前の大工程の末尾の小工程になる", () => {
+    const steps = [step("a", "A", [step("a1", "A1")]), step("b", "B"), step("c", "C")];
+    expect(shape(indentStep(steps, "b"))).toBe("a[a1,b] c");
+  });
+
+  it("先頭・小工程を持つ大工程は字下げしない", () => {
+    const steps = [step("a", "A"), step("b", "B", [step("b1", "B1")])];
+    expect(indentStep(steps, "a")).toBe(steps);
+    expect(indentStep(steps, "b")).toBe(steps);
+  });
+
+  it("字上げで親の直後の大工程になる", () => {
+    const steps = [step("a", "A", [step("a1", "A1"), step("a2", "A2")]), step("b", "B")];
+    const out = outdentStep(steps, "a1");
+    expect(shape(out)).toBe("a[a2] a1 b");
+    expect(out.map((s) => s.order)).toEqual([1, 2, 3]);
+  });
+
+  it("大工程は字上げしない", () => {
+    const steps = [step("a", "A")];
+    expect(outdentStep(steps, "a")).toBe(steps);
+  });
+});
@@ -0,0 +1,137 @@
+// ✅ 工程ツリー（大工程 → 小工程の2階層）の並び・採番
+// - 編集中は children を常に配列で持つ（小工程の children は常に空）
+// - 保存時は children が空なら省略（従来のフラットなテンプレと同じ形）
+import type { TemplateStep } from "@/lib/templateVersions";
+
+export type Step = {
+  id: string;
+  name: string;
+  order: number;
+  children: Step[];
+};
+
+export function newStepId() {
+  return `st_${Math.random().toString(36).slice(2, 10)}_${Date.now().toString(36)}`;
+}
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStep(x: unknown, depth: number): Step {
+  const obj = isObj(x) ? x : {};
+  const order = Number(obj.order ?? 0);
+  return {
+    id: String(obj.id || newStepId()),
+    name: typeof obj.name === "string" ? obj.name : String(obj.name ?? ""),
+    order: Number.isFinite(order) ? order : 0,
+    // 小工程の下はさらに持たない（3階層目は読まない）
+    children: depth === 0 && Array.isArray(obj.children) ? obj.children.map((c) => toStep(c, 1)) : [],
+  };
+}
+
+/**
+ * ✅ 配列順のまま order を 1..n に振り直す（DnD/追加/削除の後に使う）
+ * ここでは sort しない。これが重要。各階層とも同じ。
+ */
+export function renumberByArrayOrder(steps: Step[]): Step[] {
+  return steps.map((s, i) => ({
+    ...toStep(s, 0),
+    order: i + 1,
+    children: s.children.map((c, j) => ({ ...toStep(c, 1), order: j + 1 })),
+  }));
+}
+
+/** ✅ ロード時だけ order を信用して各階層を整列 → 配列順に採番 */
+export function renumberFromOrder(steps: unknown[]): Step[] {
+  const byOrder = (a: Step, b: Step) => a.order - b.order;
+  const sorted = steps
+    .map((x) => toStep(x, 0))
+    .map((s) => ({ ...s, children: s.children.slice().sort(byOrder) }))
+    .sort(byOrder);
+  return renumberByArrayOrder(sorted);
+}
+
+/**
+ * ✅ 保存用：空欄除外 + trim + 今の並び（配列順）で各階層を採番
+ * - 名前が空の大工程は、名前のある小工程が残っていなければ除外
+ */
+export function normalizeStepsForSave(steps: Step[]): TemplateStep[] {
+  const trimmed = steps
+    .map((s) => ({
+      id: String(s.id || newStepId()),
+      name: String(s.name || "").trim(),
+      children: s.children
+        .map((c) => ({ id: String(c.id || newStepId()), name: String(c.name || "").trim() }))
+        .filter((c) => c.name.length > 0),
+    }))
+    .filter((s) => s.name.length > 0 || s.children.length > 0);
+
+  return trimmed.map((s, i) => ({
+    id: s.id,
+    name: s.name,
+    order: i + 1,
+    ...(s.children.length ? { children: s.children.map((c, j) => ({ ...c, order: j + 1 })) } : {}),
+  }));
+}
+
+// 保存できない状態（名前が空なのに小工程を持つ大工程）
+export function hasUnnamedGroup(steps: Step[]): boolean {
+  return steps.some((s) => !s.name.trim() && s.children.some((c) => c.name.trim()));
+}
+
+// 親の id（大工程なら ""、見つからなければ null）
+export function findParentId(steps: Step[], id: string): string | null {
+  for (const s of steps) {
+    if (s.id === id) return "";
+    if (s.children.some((c) => c.id === id)) return s.id;
+  }
+  return null;
+}
+
+// 小工程を別の（または同じ）大工程の toIndex へ移す
+export function moveChild(steps: Step[], childId: string, toParentId: string, toIndex: number): Step[] {
+  const from = findParentId(steps, childId);
+  if (!from) return steps;
+  const child = steps.find((s) => s.id === from)!.children.find((c) => c.id === childId)!;
+
+  const removed = steps.map((s) =>
+    s.id === from ? { ...s, children: s.children.filter((c) => c.id !== childId) } : s,
+  );
+  return renumberByArrayOrder(
+    removed.map((s) => {
+      if (s.id !== toParentId) return s;
+      const children = s.children.slice();
+      children.splice(Math.max(0, Math.min(toIndex, children.length)), 0, child);
+      return { ...s, children };
+    }),
+  );
+}
+
+// 字下げ：小工程を持たない大工程を、直前の大工程の末尾の小工程にする
+export function indentStep(steps: Step[], id: string): Step[] {
+  const index = steps.findIndex((s) => s.id === id);
+  if (index <= 0 || steps[index]!.children.length > 0) return steps;
+
+  const step = steps[index]!;
+  const prev = steps[index - 1]!;
+  const next = steps.filter((s) => s.id !== id);
+  return renumberByArrayOrder(
+    next.map((s) => (s.id === prev.id ? { ...s, children: [...s.children, { ...step, children: [] }] } : s)),
+  );
+}
+
+// 字上げ：小工程を親の直後の大工程にする
+export function outdentStep(steps: Step[], childId: string): Step[] {
+  const parentId = findParentId(steps, childId);
+  if (!parentId) return steps;
+
+  const parentIndex = steps.findIndex((s) => s.id === parentId);
+  const parent = steps[parentIndex]!;
+  const child = parent.children.find((c) => c.id === childId)!;
+  const next = steps.map((s) =>
+    s.id === parentId ? { ...s, children: s.children.filter((c) => c.id !== childId) } : s,
+  );
+  next.splice(parentIndex + 1, 0, { ...child, children: [] });
+  return renumberByArrayOrder(next);
+}
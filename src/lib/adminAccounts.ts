@@ -0,0 +1,109 @@
+// src/lib/adminAccounts.ts
+import type { UserRecord } from "firebase-admin/auth";
+import { getAdminAuth } from "@/lib/firebaseAdmin";
+import { ADMIN_ROLE_CLAIM, roleFromClaims, type AdminRole } from "@/lib/adminGuard";
+import { getMailer } from "@/lib/mailer";
+
+export type AdminAccount = {
+  uid: string;
+  email: string;
+  displayName: string;
+  role: AdminRole;
+  disabled: boolean;
+  lastSignInTime: string;
+};
+
+function toAccount(u: UserRecord): AdminAccount | null {
+  const role = roleFromClaims(u.customClaims);
+  if (!role) return null;
+  return {
+    uid: u.uid,
+    email: u.email ?? "",
+    displayName: u.displayName ?? "",
+    role,
+    disabled: u.disabled,
+    lastSignInTime: u.metadata.lastSignInTime ?? "",
+  };
+}
+
+/**
+ * 管理者 = custom claims にロールを持つ Auth ユーザー
+ * （専用のコレクションは持たない。claims が唯一の正）
+ */
+export async function listAdminAccounts(): Promise<AdminAccount[]> {
+  const auth = getAdminAuth();
+  const out: AdminAccount[] = [];
+
+  let pageToken: string | undefined = undefined;
+  do {
+    const page = await auth.listUsers(1000, pageToken);
+    for (const u of page.users) {
+      const a = toAccount(u);
+      if (a) out.push(a);
+    }
+    pageToken = page.pageToken;
+  } while (pageToken);
+
+  return out;
+}
+
+export async function countOwners(): Promise<number> {
+  const admins = await listAdminAccounts();
+  return admins.filter((a) => a.role === "owner" && !a.disabled).length;
+}
+
+/**
+ * ロール付与 / 変更 / 剥奪（role = null）
+ * - 他の claims は残す。旧 admin=true は消す
+ * - 権限が下がる場合は refresh token を失効させる（即時反映）
+ */
+export async function setAdminRole(uid: string, role: AdminRole | null): Promise<void> {
+  const auth = getAdminAuth();
+  const user = await auth.getUser(uid);
+
+  const claims: Record<string, unknown> = { ...(user.customClaims ?? {}) };
+  delete claims.admin;
+  if (role) claims[ADMIN_ROLE_CLAIM] = role;
+  else delete claims[ADMIN_ROLE_CLAIM];
+
+  await auth.setCustomUserClaims(uid, claims);
+
+  const before = roleFromClaims(user.customClaims);
+  if (before && before !== role && !isPromotion(before, role)) {
+    await auth.revokeRefreshTokens(uid);
+  }
+}
+
+const RANK: Record<AdminRole, number> = { viewer: 1, operator: 2, owner: 3 };
+
+function isPromotion(before: AdminRole, after: AdminRole | null): boolean {
+  return !!after && RANK[after] > RANK[before];
+}
+
+// パスワードもソーシャルログインも未設定（招待で作ったまま）のアカウント
+export function needsPasswordSetup(user: UserRecord): boolean {
+  return user.providerData.length === 0;
+}
+
+function adminInviteMail(args: { role: AdminRole; link: string }): { subject: string; text: string } {
+  return {
+    subject: "【reNova】管理画面への招待",
+    text: [
+      `reNova 管理画面の管理者（${args.role}）に招待されました。`,
+      "以下のリンクからパスワードを設定してログインしてください。",
+      "",
+      args.link,
+      "",
+      "※ リンクの有効期限は1時間です。期限切れの場合は招待した管理者に再招待を依頼してください。",
+    ].join("\n"),
+  };
+}
+
+/**
+ * 管理者招待メール（パスワード設定リンク）を本人に送る
+ * - リンクはブラウザやログに残さない（返り値にも含めない）
+ */
+export async function sendAdminInvite(email: string, role: AdminRole): Promise<void> {
+  const link = await getAdminAuth().generatePasswordResetLink(email);
+  await getMailer().send({ to: email, ...adminInviteMail({ role, link }) });
+}
@@ -0,0 +1,64 @@
+// src/lib/adminApi.ts
+// ✅ クライアント側から /api/admin/* を叩く共通処理（IDトークン付き）
+import { auth } from "@/lib/firebaseClient";
+
+export async function readApiError(res: Response): Promise<string> {
+  const status = res.status;
+  const ct = (res.headers.get("content-type") ?? "").toLowerCase();
+
+  if (ct.includes("application/json")) {
+    try {
+      const j = (await res.json()) as unknown;
+      if (typeof j === "object" && j !== null) {
+        const o = j as Record<string, unknown>;
+        const msg = typeof o.error === "string" ? o.error : "";
+        const code = typeof o.errorCode === "string" ? o.errorCode : "";
+        if (msg && code) return `${code}: ${msg}`;
+        if (msg) return msg;
+        if (code) return code;
+      }
+      return `HTTP ${status}`;
+    } catch {
+      // fallthrough
+    }
+  }
+
+  try {
+    const t = (await res.text()).trim();
+    return t || `HTTP ${status}`;
+  } catch {
+    return `HTTP ${status}`;
+  }
+}
+
+export async function authedFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  // 初回表示直後は currentUser が null のことがあるので、認証状態の復元を待つ
+  await auth.authStateReady();
+  const u = auth.currentUser;
+  if (!u) throw new Error("未ログインです。");
+
+  // 毎回 true（ロール変更の claims をすぐ拾う）
+  const token = await u.getIdToken(true);
+
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${token}`);
+
+  const res = await fetch(path, { ...init, headers });
+  if (!res.ok) throw new Error(await readApiError(res));
+  return res;
+}
+
+export async function authedPost<T = unknown>(path: string, body: unknown): Promise<T> {
+  const res = await authedFetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  const json = (await res.json()) as unknown;
+  const o = json as { ok?: unknown; error?: unknown };
+  if (o?.ok === false) {
+    throw new Error(typeof o.error === "string" ? o.error : "error");
+  }
+  return json as T;
+}
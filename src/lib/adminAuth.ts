@@ -47,22 +47,4 @@ export function adminDb(): admin.firestore.Firestore {
   return getAdminDb();
 }
 
-// 管理者チェック（例：IDトークン + custom claims admin=true）
-function getBearer(req: Request): string | null {
-  const h = req.headers.get("authorization") ?? "";
-  const m = h.match(/^Bearer\s+(.+)$/i);
-  return m ? m[1] : null;
-}
-
-export async function requireAdmin(req: Request): Promise<{ uid: string }> {
-  const token = getBearer(req);
-  if (!token) throw new Error("UNAUTHORIZED");
-
-  const decoded = await getAdminAuth().verifyIdToken(token);
-
-  // custom claims: { admin: true } を想定
-  const isAdmin = !!(decoded as unknown as { admin?: unknown }).admin;
-  if (!isAdmin) throw new Error("FORBIDDEN");
-
-  return { uid: decoded.uid };
-}
+// 管理者チェックは src/lib/adminGuard.ts（withAdmin / requireAdmin）に一本化
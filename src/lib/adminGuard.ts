@@ -1,26 +1,130 @@
+// src/lib/adminGuard.ts
+import { NextResponse } from "next/server";
+import type { DecodedIdToken } from "firebase-admin/auth";
 import { getAdminAuth } from "@/lib/firebaseAdmin";
 
-function parseAdminUids(): string[] {
-  const raw = process.env.RENOVA_ADMIN_UIDS ?? "";
-  return raw
-    .split(",")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-}
+/* =========================================================
+   ロール / 権限
+   - custom claims: { adminRole: "owner" | "operator" | "viewer" }
+   - 各APIルートは必要な権限を withAdmin(permission, handler) で宣言する
+========================================================= */
+
+export const ADMIN_ROLES = ["owner", "operator", "viewer"] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export type AdminPermission =
+  | "members:read"
+  | "members:write"
+  | "billing:write"
+  | "templates:write"
+  | "audit:read"
+  | "admins:manage";
 
-export async function requireAdminFromRequest(req: Request): Promise<{
+const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  owner: [
+    "members:read",
+    "members:write",
+    "billing:write",
+    "templates:write",
+    "audit:read",
+    "admins:manage",
+  ],
+  operator: ["members:read", "members:write", "billing:write", "templates:write", "audit:read"],
+  viewer: ["members:read"],
+};
+
+export const ADMIN_ROLE_CLAIM = "adminRole";
+
+export type AdminContext = {
   uid: string;
-}> {
-  const authHeader = req.headers.get("authorization") ?? "";
-  const m = authHeader.match(/^Bearer\s+(.+)$/i);
-  if (!m) throw new Error("missing_authorization");
+  email: string;
+  role: AdminRole;
+};
+
+export class AdminAuthError extends Error {
+  readonly status: 401 | 403;
+
+  constructor(status: 401 | 403) {
+    super(status === 401 ? "UNAUTHORIZED" : "FORBIDDEN");
+    this.name = "AdminAuthError";
+    this.status = status;
+  }
+}
+
+export function isAdminRole(v: unknown): v is AdminRole {
+  return typeof v === "string" && (ADMIN_ROLES as readonly string[]).includes(v);
+}
+
+export function hasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+function getBearer(req: Request): string | null {
+  const h = req.headers.get("authorization") ?? "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1] : null;
+}
+
+// 旧方式（手動で付けた admin=true claim）は owner 扱い
+export function roleFromClaims(claims: Record<string, unknown> | undefined): AdminRole | null {
+  if (!claims) return null;
+  const role = claims[ADMIN_ROLE_CLAIM];
+  if (isAdminRole(role)) return role;
+  if (claims.admin === true) return "owner";
+  return null;
+}
+
+export async function requireAdmin(
+  req: Request,
+  permission: AdminPermission,
+): Promise<AdminContext> {
+  const token = getBearer(req);
+  if (!token) throw new AdminAuthError(401);
 
-  const token = m[1];
-  const decoded = await getAdminAuth().verifyIdToken(token);
-  const uid = decoded.uid;
+  let decoded: DecodedIdToken;
+  try {
+    // checkRevoked: ロール剥奪時に revokeRefreshTokens した古いトークンを弾く
+    decoded = await getAdminAuth().verifyIdToken(token, true);
+  } catch {
+    throw new AdminAuthError(401);
+  }
 
-  const admins = parseAdminUids();
-  if (!admins.includes(uid)) throw new Error("not_admin");
+  const role = roleFromClaims(decoded as unknown as Record<string, unknown>);
+  if (!role || !hasPermission(role, permission)) throw new AdminAuthError(403);
+
+  return { uid: decoded.uid, email: decoded.email ?? "", role };
+}
+
+/* =========================================================
+   レスポンス（全 /api/admin 共通の形）
+   - 401: { ok: false, error: "UNAUTHORIZED" }
+   - 403: { ok: false, error: "FORBIDDEN", required }
+   - 500: { ok: false, error: message }
+========================================================= */
+
+export function adminErrorResponse(e: unknown, permission?: AdminPermission): NextResponse {
+  if (e instanceof AdminAuthError) {
+    return NextResponse.json(
+      e.status === 403 && permission
+        ? { ok: false, error: e.message, required: permission }
+        : { ok: false, error: e.message },
+      { status: e.status },
+    );
+  }
+  const msg = e instanceof Error ? e.message : "UNKNOWN";
+  return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+}
 
-  return { uid };
+export function withAdmin(
+  permission: AdminPermission,
+  handler: (req: Request, ctx: AdminContext) => Promise<Response>,
+): (req: Request) => Promise<Response> {
+  return async (req: Request) => {
+    try {
+      const ctx = await requireAdmin(req, permission);
+      return await handler(req, ctx);
+    } catch (e) {
+      return adminErrorResponse(e, permission);
+    }
+  };
 }
@@ -0,0 +1,120 @@
+// src/lib/auditLog.ts
+import admin from "firebase-admin";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import type { AdminContext } from "@/lib/adminGuard";
+
+// 追記専用（更新・削除するAPIは作らない）
+export const COL_AUDIT = "adminAuditLog";
+
+export type AuditSource = "server" | "client";
+
+export type AuditDiffEntry = {
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+// cron など管理者以外の実行主体は role: "system"
+export type AuditActor = Pick<AdminContext, "uid" | "email"> & {
+  role: AdminContext["role"] | "system";
+};
+
+export const SYSTEM_ACTOR: AuditActor = { uid: "system", email: "", role: "system" };
+
+export type AuditInput = {
+  req: Request;
+  actor: AuditActor;
+  action: string;
+  targetPath: string;
+  before?: unknown;
+  after?: unknown;
+  source?: AuditSource;
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Firestore に保存できる形へ（Timestamp → ISO文字列、undefined → null）
+ * ※ FieldValue（serverTimestamp 等）は呼び出し側で渡さないこと
+ */
+export function toAuditValue(v: unknown): unknown {
+  if (v === undefined) return null;
+  if (v instanceof admin.firestore.Timestamp) return v.toDate().toISOString();
+  if (v instanceof Date) return v.toISOString();
+  if (Array.isArray(v)) return v.map(toAuditValue);
+  if (isObj(v)) {
+    const out: Record<string, unknown> = {};
+    for (const [k, x] of Object.entries(v)) out[k] = toAuditValue(x);
+    return out;
+  }
+  return v;
+}
+
+function flatten(v: unknown, prefix: string, out: Map<string, unknown>) {
+  if (isObj(v)) {
+    const keys = Object.keys(v);
+    if (keys.length === 0 && prefix) out.set(prefix, {});
+    for (const k of keys) flatten(v[k], prefix ? `${prefix}.${k}` : k, out);
+    return;
+  }
+  out.set(prefix, v);
+}
+
+// 変更のあったフィールドだけ（ドット区切りのパスで）返す。配列は丸ごと比較
+export function diffValues(before: unknown, after: unknown): AuditDiffEntry[] {
+  const a = new Map<string, unknown>();
+  const b = new Map<string, unknown>();
+  flatten(toAuditValue(before), "", a);
+  flatten(toAuditValue(after), "", b);
+
+  const paths = new Set<string>([...a.keys(), ...b.keys()]);
+  const out: AuditDiffEntry[] = [];
+  for (const path of [...paths].sort()) {
+    const x = a.has(path) ? a.get(path) : null;
+    const y = b.has(path) ? b.get(path) : null;
+    if (JSON.stringify(x) !== JSON.stringify(y)) {
+      out.push({ path: path || "(root)", before: x, after: y });
+    }
+  }
+  return out;
+}
+
+export function clientIp(req: Request): string {
+  const fwd = req.headers.get("x-forwarded-for") ?? "";
+  const first = fwd.split(",")[0]?.trim();
+  if (first) return first;
+  return req.headers.get("x-real-ip") ?? "";
+}
+
+/**
+ * 監査ログを1件追加
+ * - 本体の更新は済んでいるので、ここで失敗してもAPIは失敗させない（ログだけ残す）
+ */
+export async function writeAuditLog(input: AuditInput): Promise<void> {
+  const before = toAuditValue(input.before);
+  const after = toAuditValue(input.after);
+
+  try {
+    await getAdminDb()
+      .collection(COL_AUDIT)
+      .add({
+        actorUid: input.actor.uid,
+        actorEmail: input.actor.email,
+        actorRole: input.actor.role,
+        action: input.action,
+        targetPath: input.targetPath,
+        before,
+        after,
+        diff: diffValues(before, after),
+        ip: clientIp(input.req),
+        userAgent: input.req.headers.get("user-agent") ?? "",
+        source: input.source ?? "server",
+        createdAtMs: Date.now(),
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+  } catch (e) {
+    console.error("writeAuditLog failed", input.action, input.targetPath, e);
+  }
+}
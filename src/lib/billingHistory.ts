@@ -0,0 +1,165 @@
+// src/lib/billingHistory.ts
+// ✅ メンバー（Stripe 顧客）ごとの請求書・支払い・返金・次回請求プレビュー
+import type Stripe from "stripe";
+import { getStripe, stripeId } from "@/lib/stripe";
+
+const LIST_LIMIT = 24;
+
+export type InvoiceEntry = {
+  id: string;
+  number: string;
+  status: string;
+  createdMs: number;
+  periodStartMs: number;
+  periodEndMs: number;
+  currency: string;
+  subtotal: number;
+  tax: number;
+  total: number;
+  amountPaid: number;
+  amountRemaining: number;
+  hostedInvoiceUrl: string;
+  invoicePdf: string;
+};
+
+export type PaymentEntry = {
+  id: string;
+  createdMs: number;
+  currency: string;
+  amount: number;
+  amountRefunded: number;
+  status: string;
+  description: string;
+  failureMessage: string;
+  receiptUrl: string;
+  paymentIntentId: string;
+};
+
+export type RefundEntry = {
+  id: string;
+  chargeId: string;
+  createdMs: number;
+  currency: string;
+  amount: number;
+  status: string;
+  reason: string;
+};
+
+export type UpcomingInvoice = {
+  currency: string;
+  subtotal: number;
+  tax: number;
+  total: number;
+  amountDue: number;
+  nextPaymentAttemptMs: number | null;
+  periodStartMs: number;
+  periodEndMs: number;
+};
+
+export type BillingHistory = {
+  customerId: string;
+  invoices: InvoiceEntry[];
+  payments: PaymentEntry[];
+  refunds: RefundEntry[];
+  upcoming: UpcomingInvoice | null;
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function taxOf(inv: Stripe.Invoice): number {
+  return (inv.total_taxes ?? []).reduce((sum, t) => sum + t.amount, 0);
+}
+
+function toInvoiceEntry(inv: Stripe.Invoice): InvoiceEntry {
+  return {
+    id: inv.id ?? "",
+    number: inv.number ?? "",
+    status: inv.status ?? "",
+    createdMs: inv.created * 1000,
+    periodStartMs: inv.period_start * 1000,
+    periodEndMs: inv.period_end * 1000,
+    currency: inv.currency,
+    subtotal: inv.subtotal,
+    tax: taxOf(inv),
+    total: inv.total,
+    amountPaid: inv.amount_paid,
+    amountRemaining: inv.amount_remaining,
+    hostedInvoiceUrl: inv.hosted_invoice_url ?? "",
+    invoicePdf: inv.invoice_pdf ?? "",
+  };
+}
+
+function toPaymentEntry(ch: Stripe.Charge): PaymentEntry {
+  return {
+    id: ch.id,
+    createdMs: ch.created * 1000,
+    currency: ch.currency,
+    amount: ch.amount,
+    amountRefunded: ch.amount_refunded,
+    status: ch.refunded ? "refunded" : ch.status,
+    description: ch.description ?? "",
+    failureMessage: ch.failure_message ?? "",
+    receiptUrl: ch.receipt_url ?? "",
+    paymentIntentId: stripeId(ch.payment_intent),
+  };
+}
+
+function toRefundEntry(r: Stripe.Refund, chargeId: string): RefundEntry {
+  return {
+    id: r.id,
+    chargeId,
+    createdMs: r.created * 1000,
+    currency: r.currency,
+    amount: r.amount,
+    status: r.status ?? "",
+    reason: r.reason ?? "",
+  };
+}
+
+// 次回請求が無い（解約済み等）場合は Stripe がエラーを返すので null
+async function previewUpcoming(stripe: Stripe, customerId: string): Promise<UpcomingInvoice | null> {
+  try {
+    const inv = await stripe.invoices.createPreview({ customer: customerId });
+    return {
+      currency: inv.currency,
+      subtotal: inv.subtotal,
+      tax: taxOf(inv),
+      total: inv.total,
+      amountDue: inv.amount_due,
+      nextPaymentAttemptMs: inv.next_payment_attempt ? inv.next_payment_attempt * 1000 : null,
+      periodStartMs: inv.period_start * 1000,
+      periodEndMs: inv.period_end * 1000,
+    };
+  } catch (e) {
+    if (isObj(e) && e.code === "invoice_upcoming_none") return null;
+    throw e;
+  }
+}
+
+/**
+ * 直近 LIST_LIMIT 件ずつ（それ以上は Stripe ダッシュボードで）
+ * - 返金は charge に展開して取る（refunds.list は顧客で絞れない）
+ */
+export async function getBillingHistory(customerId: string): Promise<BillingHistory> {
+  const stripe = getStripe();
+
+  const [invoices, charges, upcoming] = await Promise.all([
+    stripe.invoices.list({ customer: customerId, limit: LIST_LIMIT }),
+    stripe.charges.list({ customer: customerId, limit: LIST_LIMIT, expand: ["data.refunds"] }),
+    previewUpcoming(stripe, customerId),
+  ]);
+
+  const refunds = charges.data
+    .flatMap((ch) => (ch.refunds?.data ?? []).map((r) => toRefundEntry(r, ch.id)))
+    .sort((a, b) => b.createdMs - a.createdMs);
+
+  return {
+    customerId,
+    invoices: invoices.data.map(toInvoiceEntry),
+    payments: charges.data.map(toPaymentEntry),
+    refunds,
+    upcoming,
+  };
+}
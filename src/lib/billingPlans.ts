@@ -0,0 +1,181 @@
+// src/lib/billingPlans.ts
+// ✅ プラン（料金表）カタログ。1プラン = 1つの Stripe Price
+import type Stripe from "stripe";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { getStripe } from "@/lib/stripe";
+
+export const COL_PLANS = "reNovaPlans";
+
+export type PlanInterval = "day" | "week" | "month" | "year";
+
+export type BillingPlan = {
+  id: string;
+  name: string;
+  description: string;
+  stripePriceId: string;
+  // 以下は保存時に Stripe Price から写す（表示用。正は Stripe）
+  amount: number;
+  currency: string;
+  interval: PlanInterval;
+  intervalCount: number;
+  // false = 新規選択不可（既存メンバーはそのまま）
+  active: boolean;
+  sortOrder: number;
+  updatedAtMs: number;
+  updatedBy: string;
+};
+
+export type PlanInput = {
+  id: string;
+  name: string;
+  description: string;
+  stripePriceId: string;
+  active: boolean;
+  sortOrder: number;
+};
+
+export class PlanError extends Error {
+  readonly status: 400 | 404 | 409;
+
+  constructor(code: string, status: 400 | 404 | 409 = 400) {
+    super(code);
+    this.name = "PlanError";
+    this.status = status;
+  }
+}
+
+const PLAN_ID_RE = /^[a-z0-9][a-z0-9_-]{1,39}$/;
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+function toNum(v: unknown, fallback: number): number {
+  return typeof v === "number" && Number.isFinite(v) ? v : fallback;
+}
+
+function toInterval(v: unknown): PlanInterval {
+  return v === "day" || v === "week" || v === "year" ? v : "month";
+}
+
+function toPlan(id: string, data: Record<string, unknown>): BillingPlan {
+  return {
+    id,
+    name: toStr(data.name) || id,
+    description: toStr(data.description),
+    stripePriceId: toStr(data.stripePriceId),
+    amount: toNum(data.amount, 0),
+    currency: toStr(data.currency),
+    interval: toInterval(data.interval),
+    intervalCount: toNum(data.intervalCount, 1),
+    active: data.active !== false,
+    sortOrder: toNum(data.sortOrder, 0),
+    updatedAtMs: toNum(data.updatedAtMs, 0),
+    updatedBy: toStr(data.updatedBy),
+  };
+}
+
+// 件数は少ないので全件取得して並べる
+export async function listPlans(): Promise<BillingPlan[]> {
+  const snap = await getAdminDb().collection(COL_PLANS).get();
+  return snap.docs
+    .map((d) => toPlan(d.id, d.data()))
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.id.localeCompare(b.id));
+}
+
+export async function getPlan(id: string): Promise<BillingPlan | null> {
+  if (!id) return null;
+  const snap = await getAdminDb().collection(COL_PLANS).doc(id).get();
+  return snap.exists ? toPlan(snap.id, snap.data() ?? {}) : null;
+}
+
+// 新規選択（create-user / プラン変更）用。停止中プランは選べない
+export async function requireActivePlan(id: string): Promise<BillingPlan> {
+  const plan = await getPlan(id);
+  if (!plan) throw new PlanError("plan_not_found", 404);
+  if (!plan.active) throw new PlanError("plan_inactive", 409);
+  return plan;
+}
+
+// billing の stripePriceId（サブスクの実際の Price）→ 無ければ planId（割当て済みプラン）
+export function planOfBilling(
+  billing: Record<string, unknown>,
+  plans: readonly BillingPlan[],
+): BillingPlan | null {
+  const priceId = toStr(billing.stripePriceId);
+  const byPrice = priceId ? plans.find((p) => p.stripePriceId === priceId) : undefined;
+  if (byPrice) return byPrice;
+  const planId = toStr(billing.planId);
+  return plans.find((p) => p.id === planId) ?? null;
+}
+
+export function parsePlanInput(body: Record<string, unknown>): PlanInput {
+  return {
+    id: toStr(body.id),
+    name: toStr(body.name),
+    description: toStr(body.description),
+    stripePriceId: toStr(body.stripePriceId),
+    active: body.active !== false,
+    sortOrder: Math.trunc(toNum(body.sortOrder, 0)),
+  };
+}
+
+export function validatePlanInput(input: PlanInput): string | null {
+  if (!PLAN_ID_RE.test(input.id)) return "id_invalid";
+  if (!input.name) return "name_required";
+  if (!/^price_\w+$/.test(input.stripePriceId)) return "stripePriceId_invalid";
+  return null;
+}
+
+async function retrieveRecurringPrice(priceId: string): Promise<Stripe.Price> {
+  let price: Stripe.Price;
+  try {
+    price = await getStripe().prices.retrieve(priceId);
+  } catch (e) {
+    if (isObj(e) && e.code === "resource_missing") throw new PlanError("stripePrice_not_found");
+    throw e;
+  }
+  if (!price.recurring) throw new PlanError("stripePrice_not_recurring");
+  if (price.unit_amount === null) throw new PlanError("stripePrice_not_per_unit");
+  return price;
+}
+
+/**
+ * プランの作成 / 更新（docId = input.id）
+ * - Price は Stripe で存在・定期課金であることを確認し、金額・周期を写す
+ * - 同じ Price を2つのプランに紐づけない（メンバーのプラン判定が曖昧になる）
+ */
+export async function savePlan(input: PlanInput, actorUid: string): Promise<BillingPlan> {
+  const db = getAdminDb();
+
+  const dup = await db
+    .collection(COL_PLANS)
+    .where("stripePriceId", "==", input.stripePriceId)
+    .limit(2)
+    .get();
+  if (dup.docs.some((d) => d.id !== input.id)) throw new PlanError("stripePriceId_in_use", 409);
+
+  const price = await retrieveRecurringPrice(input.stripePriceId);
+  if (input.active && !price.active) throw new PlanError("stripePrice_archived", 409);
+
+  const data = {
+    name: input.name,
+    description: input.description,
+    stripePriceId: price.id,
+    amount: price.unit_amount ?? 0,
+    currency: price.currency,
+    interval: price.recurring?.interval ?? "month",
+    intervalCount: price.recurring?.interval_count ?? 1,
+    active: input.active,
+    sortOrder: input.sortOrder,
+    updatedAtMs: Date.now(),
+    updatedBy: actorUid,
+  };
+
+  await db.collection(COL_PLANS).doc(input.id).set(data, { merge: true });
+  return toPlan(input.id, data);
+}
@@ -0,0 +1,266 @@
+import type Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const stripeMock = vi.hoisted(() => ({
+  subscriptions: { list: vi.fn(), retrieve: vi.fn() },
+}));
+const dbMock = vi.hoisted(() => ({
+  members: [] as { id: string; path: string; data: Record<string, unknown> }[],
+  reports: new Map<string, Record<string, unknown>>(),
+  memberWrites: [] as Record<string, unknown>[],
+}));
+
+vi.mock("@/lib/stripe", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/stripe")>()),
+  getStripe: () => stripeMock,
+}));
+vi.mock("@/lib/firebaseAdmin", () => ({ getAdminDb: () => fakeDb() }));
+vi.mock("@/lib/reNovaMember", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/reNovaMember")>()),
+  findMemberRefByUid: async (uid: string) => {
+    const m = dbMock.members.find((x) => x.data.uid === uid);
+    return m ? memberRef(m.path) : null;
+  },
+}));
+
+import {
+  applyStripeTruth,
+  compareBilling,
+  isStaleFinding,
+  runReconciliation,
+  type DriftItem,
+} from "./billingReconcile";
+
+const PERIOD_END = 1_780_000_000;
+
+// members は1ページ分だけ返し、レポートは reports に溜めるだけの Firestore
+function memberRef(path: string) {
+  const find = () => dbMock.members.find((m) => m.path === path);
+  return {
+    path,
+    get: async () => ({ data: () => find()?.data }),
+    set: async (v: Record<string, unknown>) => {
+      dbMock.memberWrites.push(v);
+      const m = find();
+      if (m) m.data = { ...m.data, billing: { ...(m.data.billing as object), ...(v.billing as object) } };
+    },
+  };
+}
+
+function reportRef(id: string) {
+  return {
+    id,
+    get: async () => ({ exists: dbMock.reports.has(id), data: () => dbMock.reports.get(id) }),
+    set: async (v: Record<string, unknown>) => {
+      dbMock.reports.set(id, v);
+    },
+  };
+}
+
+function fakeDb() {
+  const query = {
+    where: () => query,
+    orderBy: () => query,
+    startAfter: () => query,
+    limit: () => query,
+    get: async () => ({
+      docs: dbMock.members.map((m) => ({ id: m.id, data: () => m.data, ref: { path: m.path } })),
+    }),
+  };
+  return {
+    collection: (name: string) =>
+      name === "reNovaMember" ? query : { doc: (id = "r_new") => reportRef(id) },
+    doc: (path: string) => memberRef(path),
+    runTransaction: async (fn: (tx: unknown) => Promise<void>) =>
+      fn({
+        get: (ref: { get: () => Promise<unknown> }) => ref.get(),
+        update: (ref: { id: string }, v: Record<string, unknown>) => {
+          dbMock.reports.set(ref.id, { ...dbMock.reports.get(ref.id), ...v });
+        },
+      }),
+  };
+}
+
+function sub(id: string, overrides: Partial<Record<string, unknown>> = {}): Stripe.Subscription {
+  return {
+    id,
+    status: "active",
+    customer: "cus_1",
+    cancel_at_period_end: false,
+    metadata: {},
+    items: { data: [{ price: { id: "price_basic" }, current_period_end: PERIOD_END }] },
+    ...overrides,
+  } as unknown as Stripe.Subscription;
+}
+
+function billing(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    status: "active",
+    cancelAtPeriodEnd: false,
+    currentPeriodEndMs: PERIOD_END * 1000,
+    stripeCustomerId: "cus_1",
+    stripePriceId: "price_basic",
+    stripeSubscriptionId: "sub_1",
+    ...overrides,
+  };
+}
+
+function listOf(subs: Stripe.Subscription[]) {
+  return (async function* () {
+    yield* subs;
+  })();
+}
+
+function member(id: string, b: Record<string, unknown>) {
+  return { id, path: `reNovaMember/${id}`, data: { uid: id, billing: b } };
+}
+
+function mismatchItem(fields: DriftItem["fields"], fixedAtMs: number | null = null): DriftItem {
+  return {
+    kind: "mismatch",
+    uid: "m1",
+    memberPath: "reNovaMember/m1",
+    subscriptionId: "sub_1",
+    customerId: "cus_1",
+    stripeStatus: "past_due",
+    fields,
+    fixedAtMs,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  dbMock.members = [];
+  dbMock.reports.clear();
+  dbMock.memberWrites = [];
+});
+
+describe("compareBilling", () => {
+  it("一致していれば差分なし", () => {
+    expect(compareBilling(billing(), sub("sub_1"))).toEqual([]);
+  });
+
+  it("status・価格・期間終了・解約予約・顧客の違いをそれぞれ返す", () => {
+    const drift = compareBilling(
+      billing({
+        status: "inactive",
+        stripePriceId: "price_old",
+        currentPeriodEndMs: 0,
+        cancelAtPeriodEnd: true,
+        stripeCustomerId: "cus_old",
+      }),
+      sub("sub_1", { status: "active" }),
+    );
+
+    expect(drift).toEqual([
+      { field: "status", firestore: "inactive", stripe: "active" },
+      { field: "cancelAtPeriodEnd", firestore: true, stripe: false },
+      { field: "currentPeriodEndMs", firestore: 0, stripe: PERIOD_END * 1000 },
+      { field: "stripeCustomerId", firestore: "cus_old", stripe: "cus_1" },
+      { field: "stripePriceId", firestore: "price_old", stripe: "price_basic" },
+    ]);
+  });
+
+  it("Stripe の状態は billing の status に丸めてから比べる", () => {
+    expect(compareBilling(billing({ status: "inactive" }), sub("sub_1", { status: "past_due" }))).toEqual([]);
+  });
+});
+
+describe("runReconciliation", () => {
+  it("不一致・Stripe に無い・どこにも紐づかないサブスクをレポートにする", async () => {
+    dbMock.members = [
+      member("m1", billing({ status: "inactive" })),
+      member("m2", billing({ stripeSubscriptionId: "sub_gone" })),
+      member("m3", billing({ stripeSubscriptionId: "sub_3" })),
+    ];
+    stripeMock.subscriptions.list.mockReturnValue(
+      listOf([
+        sub("sub_1"),
+        sub("sub_3"),
+        sub("sub_orphan", { metadata: { uid: "m9" } }),
+        sub("sub_company", { metadata: { companyId: "c1" } }),
+        sub("sub_ended", { status: "canceled" }),
+      ]),
+    );
+    stripeMock.subscriptions.retrieve.mockRejectedValue({ code: "resource_missing" });
+
+    const report = await runReconciliation({ trigger: "manual", actorUid: "admin1" });
+
+    expect(report.summary).toEqual({ members: 3, subscriptions: 5, mismatches: 1, missing: 1, orphans: 1 });
+    expect(report.items.map((it) => [it.kind, it.subscriptionId])).toEqual([
+      ["mismatch", "sub_1"],
+      ["missing_in_stripe", "sub_gone"],
+      ["orphan_subscription", "sub_orphan"],
+    ]);
+    expect(report.items[2]!.uid).toBe("m9");
+    expect(dbMock.reports.get(report.id)).toMatchObject({ summary: report.summary });
+  });
+
+  it("Stripe の確認に失敗したら throw してレポートを残さない", async () => {
+    dbMock.members = [member("m1", billing({ stripeSubscriptionId: "sub_x" }))];
+    stripeMock.subscriptions.list.mockReturnValue(listOf([]));
+    stripeMock.subscriptions.retrieve.mockRejectedValue(new Error("network"));
+
+    await expect(runReconciliation({ trigger: "cron", actorUid: "" })).rejects.toThrow("network");
+    expect(dbMock.reports.size).toBe(0);
+  });
+});
+
+describe("isStaleFinding", () => {
+  const item = mismatchItem([{ field: "status", firestore: "inactive", stripe: "active" }]);
+
+  it("記録時の値のままなら古くない", () => {
+    expect(isStaleFinding(item, billing({ status: "inactive" }))).toBe(false);
+  });
+
+  it("値やサブスクが変わっていれば古い", () => {
+    expect(isStaleFinding(item, billing({ status: "active" }))).toBe(true);
+    expect(isStaleFinding(item, billing({ status: "inactive", stripeSubscriptionId: "sub_2" }))).toBe(true);
+  });
+
+  it("紐づけ済みの orphan は古い", () => {
+    const orphan = { ...item, kind: "orphan_subscription" as const, subscriptionId: "sub_9" };
+    expect(isStaleFinding(orphan, billing({ stripeSubscriptionId: "sub_9" }))).toBe(true);
+    expect(isStaleFinding(orphan, billing())).toBe(false);
+  });
+});
+
+describe("applyStripeTruth", () => {
+  it("Stripe の値で上書きして、レポートに修正済みを記録する", async () => {
+    dbMock.members = [member("m1", billing({ status: "inactive" }))];
+    dbMock.reports.set("r1", {
+      items: [mismatchItem([{ field: "status", firestore: "inactive", stripe: "active" }])],
+    });
+    stripeMock.subscriptions.retrieve.mockResolvedValue(sub("sub_1"));
+
+    const result = await applyStripeTruth("r1", 0);
+
+    expect(result.memberPath).toBe("reNovaMember/m1");
+    expect(result.after).toMatchObject({ status: "active" });
+    expect((dbMock.reports.get("r1")!.items as DriftItem[])[0]!.fixedAtMs).toEqual(expect.any(Number));
+  });
+
+  it("修正済みの差分は二度適用しない", async () => {
+    dbMock.reports.set("r1", { items: [mismatchItem([], 123)] });
+
+    await expect(applyStripeTruth("r1", 0)).rejects.toThrow("already_fixed");
+    expect(stripeMock.subscriptions.retrieve).not.toHaveBeenCalled();
+  });
+
+  it("レポート後に billing が変わっていれば上書きしない", async () => {
+    dbMock.members = [member("m1", billing({ status: "active", cancelAtPeriodEnd: true }))];
+    dbMock.reports.set("r1", {
+      items: [mismatchItem([{ field: "status", firestore: "inactive", stripe: "active" }])],
+    });
+    stripeMock.subscriptions.retrieve.mockResolvedValue(sub("sub_1"));
+
+    await expect(applyStripeTruth("r1", 0)).rejects.toThrow("stale_finding");
+    expect(dbMock.memberWrites).toEqual([]);
+  });
+
+  it("Stripe に無い差分は自動修正しない", async () => {
+    dbMock.reports.set("r1", { items: [{ ...mismatchItem([]), kind: "missing_in_stripe" }] });
+
+    await expect(applyStripeTruth("r1", 0)).rejects.toThrow("not_fixable");
+  });
+});
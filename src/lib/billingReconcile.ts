@@ -0,0 +1,304 @@
+// src/lib/billingReconcile.ts
+// ✅ Stripe ↔ reNovaMember.billing の突合（差分レポート + 「Stripe を正として修正」）
+import admin from "firebase-admin";
+import type Stripe from "stripe";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { COL_MEMBERS, findMemberRefByUid } from "@/lib/reNovaMember";
+import { billingMirrorOf, getStripe, isLiveSubscriptionStatus } from "@/lib/stripe";
+
+export const COL_RECONCILE = "billingReconcileReports";
+
+// 比較する項目（billingMirrorOf のキー）
+export const RECONCILE_FIELDS = [
+  "status",
+  "cancelAtPeriodEnd",
+  "currentPeriodEndMs",
+  "stripeCustomerId",
+  "stripePriceId",
+] as const;
+export type ReconcileField = (typeof RECONCILE_FIELDS)[number];
+
+export type FieldDrift = {
+  field: ReconcileField;
+  firestore: unknown;
+  stripe: unknown;
+};
+
+// mismatch: 値の不一致 / missing_in_stripe: Firestore の subscriptionId が Stripe に無い
+// orphan_subscription: どのメンバーにも紐づかない有効なサブスク
+export type DriftKind = "mismatch" | "missing_in_stripe" | "orphan_subscription";
+
+export type DriftItem = {
+  kind: DriftKind;
+  uid: string;
+  memberPath: string;
+  subscriptionId: string;
+  customerId: string;
+  stripeStatus: string;
+  fields: FieldDrift[];
+  fixedAtMs: number | null;
+};
+
+export type ReconcileSummary = {
+  members: number;
+  subscriptions: number;
+  mismatches: number;
+  missing: number;
+  orphans: number;
+};
+
+export type ReconcileTrigger = "manual" | "cron";
+
+export type ReconcileReport = {
+  id: string;
+  createdAtMs: number;
+  trigger: ReconcileTrigger;
+  actorUid: string;
+  summary: ReconcileSummary;
+  items: DriftItem[];
+  truncated: boolean;
+};
+
+// 1ドキュメント 1MB 制限があるので、レポートに残す差分は上限まで
+const MAX_REPORT_ITEMS = 500;
+const PAGE_SIZE = 500;
+
+const ENDED_STATUSES: readonly string[] = ["canceled", "incomplete_expired"];
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function isResourceMissing(e: unknown): boolean {
+  return isObj(e) && e.code === "resource_missing";
+}
+
+// billing と Stripe の subscription の差分（一致なら空配列）
+export function compareBilling(billing: Record<string, unknown>, sub: Stripe.Subscription): FieldDrift[] {
+  const truth = billingMirrorOf(sub);
+  const out: FieldDrift[] = [];
+
+  for (const field of RECONCILE_FIELDS) {
+    const firestore = billing[field] ?? null;
+    const stripe = truth[field] ?? null;
+    if (firestore !== stripe) out.push({ field, firestore, stripe });
+  }
+  return out;
+}
+
+// レポート作成後に billing が変わっていれば、その差分はもう古い（上書きすると新しい値を消す）
+export function isStaleFinding(item: DriftItem, billing: Record<string, unknown>): boolean {
+  const currentSubId = toStr(billing.stripeSubscriptionId);
+  if (item.kind === "orphan_subscription") return currentSubId === item.subscriptionId;
+  if (currentSubId !== item.subscriptionId) return true;
+  return item.fields.some((f) => (billing[f.field] ?? null) !== f.firestore);
+}
+
+async function* membersWithSubscription(
+  db: admin.firestore.Firestore,
+): AsyncGenerator<admin.firestore.QueryDocumentSnapshot> {
+  let last: admin.firestore.QueryDocumentSnapshot | null = null;
+
+  while (true) {
+    let q = db
+      .collection(COL_MEMBERS)
+      .where("billing.stripeSubscriptionId", ">", "")
+      .orderBy("billing.stripeSubscriptionId");
+    if (last) q = q.startAfter(last);
+
+    const snap = await q.limit(PAGE_SIZE).get();
+    for (const d of snap.docs) yield d;
+
+    if (snap.docs.length < PAGE_SIZE) return;
+    last = snap.docs[snap.docs.length - 1]!;
+  }
+}
+
+async function listAllSubscriptions(stripe: Stripe): Promise<Map<string, Stripe.Subscription>> {
+  const map = new Map<string, Stripe.Subscription>();
+  for await (const sub of stripe.subscriptions.list({ status: "all", limit: 100 })) {
+    map.set(sub.id, sub);
+  }
+  return map;
+}
+
+// 一覧に無いもの（期限切れで消えた等）は個別に取り直す
+async function retrieveOrNull(stripe: Stripe, id: string): Promise<Stripe.Subscription | null> {
+  try {
+    return await stripe.subscriptions.retrieve(id);
+  } catch (e) {
+    if (isResourceMissing(e)) return null;
+    throw e;
+  }
+}
+
+/**
+ * 突合を実行してレポートを保存
+ * - stripeSubscriptionId を持つ全メンバー × Stripe の全サブスク（status=all）
+ */
+export async function runReconciliation(args: {
+  trigger: ReconcileTrigger;
+  actorUid: string;
+}): Promise<ReconcileReport> {
+  const db = getAdminDb();
+  const stripe = getStripe();
+
+  const subs = await listAllSubscriptions(stripe);
+  const seen = new Set<string>();
+  const items: DriftItem[] = [];
+  const summary: ReconcileSummary = {
+    members: 0,
+    subscriptions: subs.size,
+    mismatches: 0,
+    missing: 0,
+    orphans: 0,
+  };
+
+  for await (const d of membersWithSubscription(db)) {
+    summary.members++;
+
+    const data = d.data();
+    const billing = isObj(data.billing) ? data.billing : {};
+    const subscriptionId = toStr(billing.stripeSubscriptionId);
+    const base = { uid: toStr(data.uid) || d.id, memberPath: d.ref.path, subscriptionId, fixedAtMs: null };
+    seen.add(subscriptionId);
+
+    const sub = subs.get(subscriptionId) ?? (await retrieveOrNull(stripe, subscriptionId));
+    if (!sub) {
+      summary.missing++;
+      items.push({
+        ...base,
+        kind: "missing_in_stripe",
+        customerId: toStr(billing.stripeCustomerId),
+        stripeStatus: "",
+        fields: [],
+      });
+      continue;
+    }
+
+    const fields = compareBilling(billing, sub);
+    if (fields.length) {
+      summary.mismatches++;
+      items.push({
+        ...base,
+        kind: "mismatch",
+        customerId: billingMirrorOf(sub).stripeCustomerId,
+        stripeStatus: sub.status,
+        fields,
+      });
+    }
+  }
+
+  for (const sub of subs.values()) {
+    if (seen.has(sub.id) || ENDED_STATUSES.includes(sub.status)) continue;
+    // 会社課金のサブスクはメンバーに紐づかないのが正常
+    if (sub.metadata?.companyId) continue;
+    summary.orphans++;
+    items.push({
+      kind: "orphan_subscription",
+      uid: sub.metadata?.uid ?? "",
+      memberPath: "",
+      subscriptionId: sub.id,
+      customerId: billingMirrorOf(sub).stripeCustomerId,
+      stripeStatus: sub.status,
+      fields: [],
+      fixedAtMs: null,
+    });
+  }
+
+  const createdAtMs = Date.now();
+  const ref = db.collection(COL_RECONCILE).doc();
+  const report: ReconcileReport = {
+    id: ref.id,
+    createdAtMs,
+    trigger: args.trigger,
+    actorUid: args.actorUid,
+    summary,
+    items: items.slice(0, MAX_REPORT_ITEMS),
+    truncated: items.length > MAX_REPORT_ITEMS,
+  };
+
+  await ref.set({ ...report, createdAt: admin.firestore.FieldValue.serverTimestamp() });
+  return report;
+}
+
+export class ReconcileFixError extends Error {
+  constructor(code: string) {
+    super(code);
+    this.name = "ReconcileFixError";
+  }
+}
+
+/**
+ * レポートの1件を Stripe を正として修正
+ * - mismatch: そのメンバーの billing を Stripe の値で上書き
+ * - orphan_subscription: metadata.uid のメンバーに紐づける（見つからない / 別の有効なサブスクがあれば修正不可）
+ * - missing_in_stripe: 自動修正しない（手動で確認）
+ * - レポート後に billing が変わっていれば stale_finding（突合し直す）
+ */
+export async function applyStripeTruth(
+  reportId: string,
+  index: number,
+): Promise<{ memberPath: string; before: unknown; after: unknown }> {
+  const db = getAdminDb();
+  const reportRef = db.collection(COL_RECONCILE).doc(reportId);
+  const reportSnap = await reportRef.get();
+  if (!reportSnap.exists) throw new ReconcileFixError("report_not_found");
+
+  const items = (reportSnap.data()?.items ?? []) as DriftItem[];
+  const item = items[index];
+  if (!item) throw new ReconcileFixError("item_not_found");
+  if (item.fixedAtMs) throw new ReconcileFixError("already_fixed");
+  if (item.kind === "missing_in_stripe") throw new ReconcileFixError("not_fixable");
+
+  const stripe = getStripe();
+  const sub = await retrieveOrNull(stripe, item.subscriptionId);
+  if (!sub) throw new ReconcileFixError("subscription_not_found");
+
+  const metaUid = sub.metadata?.uid ?? "";
+  const memberRef =
+    item.kind === "mismatch"
+      ? db.doc(item.memberPath)
+      : metaUid
+        ? await findMemberRefByUid(metaUid)
+        : null;
+  if (!memberRef) throw new ReconcileFixError("no_member_for_subscription");
+
+  const before = (await memberRef.get()).data()?.billing ?? null;
+  if (isStaleFinding(item, isObj(before) ? before : {})) throw new ReconcileFixError("stale_finding");
+
+  // 紐づけで今のサブスクを上書きしない（二重契約は Stripe 側で整理してから）
+  const currentSubId = isObj(before) ? toStr(before.stripeSubscriptionId) : "";
+  if (item.kind === "orphan_subscription" && currentSubId && currentSubId !== sub.id) {
+    const current = await retrieveOrNull(stripe, currentSubId);
+    if (current && isLiveSubscriptionStatus(current.status)) {
+      throw new ReconcileFixError("member_has_live_subscription");
+    }
+  }
+  await memberRef.set(
+    {
+      billing: {
+        ...billingMirrorOf(sub),
+        reconciledAtMs: Date.now(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    },
+    { merge: true },
+  );
+  const after = (await memberRef.get()).data()?.billing ?? null;
+
+  // レポート側にも修正済みを記録（同時に押された場合に備えてトランザクション）
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(reportRef);
+    const current = (snap.data()?.items ?? []) as DriftItem[];
+    if (!current[index]) return;
+    current[index] = { ...current[index], memberPath: memberRef.path, fixedAtMs: Date.now() };
+    tx.update(reportRef, { items: current });
+  });
+
+  return { memberPath: memberRef.path, before, after };
+}
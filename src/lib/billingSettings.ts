@@ -0,0 +1,169 @@
+// src/lib/billingSettings.ts
+// ✅ 課金設定の手動変更（set-billing）の入力チェックと Stripe 照合
+import admin from "firebase-admin";
+import type Stripe from "stripe";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { COL_MEMBERS, type BillingMode, type BillingStatus } from "@/lib/reNovaMember";
+import { billingMirrorOf, getStripe, stripeId } from "@/lib/stripe";
+
+export type BillingSettingsInput = {
+  mode: BillingMode;
+  // free のときだけ指定可（paid は Stripe のサブスク状態から決める）
+  status: BillingStatus | null;
+  stripeCustomerId: string;
+  stripeSubscriptionId: string;
+};
+
+export class BillingSettingsError extends Error {
+  readonly status: 400 | 409;
+
+  constructor(code: string, status: 400 | 409 = 400) {
+    super(code);
+    this.name = "BillingSettingsError";
+    this.status = status;
+  }
+}
+
+const ENDED_STATUSES: readonly string[] = ["canceled", "incomplete_expired"];
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+function isResourceMissing(e: unknown): boolean {
+  return isObj(e) && e.code === "resource_missing";
+}
+
+export function parseBillingSettings(body: Record<string, unknown>): BillingSettingsInput | null {
+  const mode = body.mode === "free" || body.mode === "paid" ? body.mode : null;
+  if (!mode) return null;
+  return {
+    mode,
+    status: body.status === "active" || body.status === "inactive" ? body.status : null,
+    stripeCustomerId: toStr(body.stripeCustomerId),
+    stripeSubscriptionId: toStr(body.stripeSubscriptionId),
+  };
+}
+
+// Stripe を見なくても分かる矛盾（エラーコード or null）
+export function validateBillingShape(input: BillingSettingsInput): string | null {
+  if (input.stripeCustomerId && !/^cus_\w+$/.test(input.stripeCustomerId)) {
+    return "stripeCustomerId_invalid";
+  }
+  if (input.stripeSubscriptionId && !/^sub_\w+$/.test(input.stripeSubscriptionId)) {
+    return "stripeSubscriptionId_invalid";
+  }
+  if (input.mode === "free" && input.stripeSubscriptionId) return "free_with_subscription";
+  if (input.mode === "paid" && input.status) return "status_is_derived_for_paid";
+  return null;
+}
+
+async function retrieveCustomer(stripe: Stripe, id: string): Promise<Stripe.Customer> {
+  try {
+    const c = await stripe.customers.retrieve(id);
+    if (c.deleted) throw new BillingSettingsError("stripeCustomer_deleted");
+    return c;
+  } catch (e) {
+    if (isResourceMissing(e)) throw new BillingSettingsError("stripeCustomer_not_found");
+    throw e;
+  }
+}
+
+async function retrieveSubscription(stripe: Stripe, id: string): Promise<Stripe.Subscription> {
+  try {
+    return await stripe.subscriptions.retrieve(id);
+  } catch (e) {
+    if (isResourceMissing(e)) throw new BillingSettingsError("stripeSubscription_not_found");
+    throw e;
+  }
+}
+
+// 同じ ID が別メンバーに付いていないか
+async function assertNotLinkedElsewhere(field: string, value: string, memberPath: string) {
+  if (!value) return;
+  const q = await getAdminDb().collection(COL_MEMBERS).where(field, "==", value).limit(2).get();
+  if (q.docs.some((d) => d.ref.path !== memberPath)) {
+    throw new BillingSettingsError(`${field.replace("billing.", "")}_in_use`, 409);
+  }
+}
+
+/**
+ * 入力を Stripe と照合して billing に書く値を返す
+ * - ID が実在するか、サブスクの顧客が stripeCustomerId と一致するか
+ * - subscription だけ指定された場合は顧客 ID を Stripe から補完
+ * - 現在のサブスクが生きているのに外す / 別のものに替える場合は拒否（先に解約）
+ * - mode が変わるときは前の mode 用の trial / planId を消す
+ */
+export async function resolveBillingSettings(args: {
+  input: BillingSettingsInput;
+  current: Record<string, unknown>;
+  memberPath: string;
+}): Promise<Record<string, unknown>> {
+  const { input, current } = args;
+  const stripe = getStripe();
+
+  const cleanup =
+    current.mode !== input.mode
+      ? { trial: admin.firestore.FieldValue.delete(), planId: admin.firestore.FieldValue.delete() }
+      : {};
+
+  // 生きているサブスクの紐づけを外す / 付け替えるのは不可（課金だけ続いてしまう）
+  const currentSubId = toStr(current.stripeSubscriptionId);
+  if (currentSubId && currentSubId !== input.stripeSubscriptionId) {
+    const sub = await stripe.subscriptions.retrieve(currentSubId).catch((e: unknown) => {
+      if (isResourceMissing(e)) return null;
+      throw e;
+    });
+    if (sub && !ENDED_STATUSES.includes(sub.status)) {
+      throw new BillingSettingsError("active_subscription_exists", 409);
+    }
+  }
+
+  if (input.mode === "free") {
+    if (input.stripeCustomerId) await retrieveCustomer(stripe, input.stripeCustomerId);
+    await assertNotLinkedElsewhere("billing.stripeCustomerId", input.stripeCustomerId, args.memberPath);
+
+    return {
+      ...cleanup,
+      mode: "free",
+      status: input.status ?? "active",
+      stripeStatus: "",
+      stripeCustomerId: input.stripeCustomerId,
+      stripeSubscriptionId: "",
+      cancelAtPeriodEnd: null,
+      currentPeriodEndMs: null,
+    };
+  }
+
+  // --- paid ---
+  if (input.stripeSubscriptionId) {
+    const sub = await retrieveSubscription(stripe, input.stripeSubscriptionId);
+    const subCustomerId = stripeId(sub.customer);
+    if (input.stripeCustomerId && input.stripeCustomerId !== subCustomerId) {
+      throw new BillingSettingsError("subscription_customer_mismatch");
+    }
+    await assertNotLinkedElsewhere("billing.stripeSubscriptionId", sub.id, args.memberPath);
+    await assertNotLinkedElsewhere("billing.stripeCustomerId", subCustomerId, args.memberPath);
+
+    return { ...cleanup, mode: "paid", ...billingMirrorOf(sub) };
+  }
+
+  // サブスク未作成（支払い待ち）。顧客だけ紐づける
+  if (input.stripeCustomerId) await retrieveCustomer(stripe, input.stripeCustomerId);
+  await assertNotLinkedElsewhere("billing.stripeCustomerId", input.stripeCustomerId, args.memberPath);
+
+  return {
+    ...cleanup,
+    mode: "paid",
+    status: "inactive",
+    stripeStatus: "",
+    stripeCustomerId: input.stripeCustomerId,
+    stripeSubscriptionId: "",
+    cancelAtPeriodEnd: null,
+    currentPeriodEndMs: null,
+  };
+}
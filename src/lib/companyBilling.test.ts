@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { toCompany, type Company } from "@/lib/reNovaCompany";
+
+const stripeMock = vi.hoisted(() => ({
+  subscriptions: { retrieve: vi.fn(), update: vi.fn() },
+}));
+const companyMock = vi.hoisted(() => ({
+  updateCompany: vi.fn(),
+  getCompany: vi.fn(),
+  set: vi.fn(),
+}));
+
+vi.mock("@/lib/stripe", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/stripe")>()),
+  getStripe: () => stripeMock,
+}));
+vi.mock("@/lib/reNovaCompany", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/reNovaCompany")>()),
+  updateCompany: companyMock.updateCompany,
+  getCompany: companyMock.getCompany,
+  companyRef: () => ({ set: companyMock.set, path: "reNovaCompany/c1" }),
+}));
+
+import { updateCompanyWithSeats } from "./companyBilling";
+
+function company(seatLimit: number | null, billed = true): Company {
+  return toCompany("c1", {
+    name: "会社",
+    seatLimit,
+    billing: billed
+      ? { mode: "company", status: "active", stripeStatus: "active", stripeSubscriptionId: "sub_1" }
+      : { mode: "member" },
+  });
+}
+
+const input = {
+  name: "会社",
+  address: "",
+  invoiceAddress: { name: "", postalCode: "", address: "", email: "" },
+  seatLimit: 10,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("updateCompanyWithSeats", () => {
+  it("Stripe の数量変更に失敗したら seatLimit を元に戻して理由を返す", async () => {
+    companyMock.updateCompany.mockResolvedValue({ before: company(5), after: company(10), propagated: 0 });
+    companyMock.getCompany.mockResolvedValue(company(5));
+    stripeMock.subscriptions.retrieve.mockRejectedValue(new Error("card_declined"));
+
+    const result = await updateCompanyWithSeats(company(5), input, "admin1");
+
+    expect(result.seatsError).toBe("card_declined");
+    expect(result.after.seatLimit).toBe(5);
+    expect(companyMock.set).toHaveBeenCalledWith(
+      expect.objectContaining({ seatLimit: 5, updatedBy: "admin1" }),
+      { merge: true },
+    );
+    expect(stripeMock.subscriptions.update).not.toHaveBeenCalled();
+  });
+
+  it("会社課金でなければ Stripe を呼ばない", async () => {
+    companyMock.updateCompany.mockResolvedValue({
+      before: company(5, false),
+      after: company(10, false),
+      propagated: 0,
+    });
+
+    const result = await updateCompanyWithSeats(company(5, false), input, "admin1");
+
+    expect(result.seatsError).toBe("");
+    expect(result.after.seatLimit).toBe(10);
+    expect(stripeMock.subscriptions.retrieve).not.toHaveBeenCalled();
+    expect(companyMock.set).not.toHaveBeenCalled();
+  });
+
+  it("席数が変わらなければ Stripe を呼ばない", async () => {
+    companyMock.updateCompany.mockResolvedValue({ before: company(10), after: company(10), propagated: 0 });
+
+    const result = await updateCompanyWithSeats(company(10), input, "admin1");
+
+    expect(result.seatsError).toBe("");
+    expect(stripeMock.subscriptions.retrieve).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,234 @@
+// src/lib/companyBilling.ts
+// ✅ 会社単位の課金（1サブスク × 席数）。請求書払い（send_invoice）
+import admin from "firebase-admin";
+import type Stripe from "stripe";
+import { requireActivePlan } from "@/lib/billingPlans";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import {
+  companyMembersQuery,
+  companyRef,
+  CompanyError,
+  getCompany,
+  hasOwnLiveSubscription,
+  updateCompany,
+  type Company,
+  type CompanyInput,
+} from "@/lib/reNovaCompany";
+import { billingMirrorOf, getStripe } from "@/lib/stripe";
+
+// 請求書の支払期限（日）
+const INVOICE_DAYS_UNTIL_DUE = 30;
+
+const ENDED_STATUSES: readonly string[] = ["canceled", "incomplete_expired"];
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+// 会社のサブスクが生きているか（解約済み・未作成は false）
+export function isCompanyBilled(company: Company): boolean {
+  return (
+    company.billing.mode === "company" &&
+    !!company.billing.stripeSubscriptionId &&
+    !ENDED_STATUSES.includes(company.billing.stripeStatus)
+  );
+}
+
+// reNovaCompany.billing にミラーする項目（メンバー用 + 席数）
+export function companyBillingMirrorOf(sub: Stripe.Subscription) {
+  return {
+    ...billingMirrorOf(sub),
+    seats: sub.items?.data?.[0]?.quantity ?? null,
+  };
+}
+
+/**
+ * 会社のサブスク状態を会社とメンバーへ反映（開始時・変更時・webhook 共通）
+ * - setMode=true は会社課金の開始時（所属メンバー全員を billing.mode = company に）
+ */
+export async function applyCompanySubscription(
+  company: Company,
+  sub: Stripe.Subscription,
+  extra: Record<string, unknown> = {},
+  setMode = false,
+): Promise<number> {
+  const db = getAdminDb();
+  const mirror = companyBillingMirrorOf(sub);
+
+  await companyRef(company.id).set(
+    {
+      billing: { mode: "company", ...mirror, ...extra, updatedAtMs: Date.now() },
+      updatedAtMs: Date.now(),
+    },
+    { merge: true },
+  );
+
+  const snap = await companyMembersQuery(company.id).get();
+  const targets = snap.docs.filter((d) => {
+    const billing = isObj(d.data().billing) ? (d.data().billing as Record<string, unknown>) : {};
+    return setMode || billing.mode === "company";
+  });
+
+  for (let i = 0; i < targets.length; i += 400) {
+    const batch = db.batch();
+    for (const d of targets.slice(i, i + 400)) {
+      batch.set(
+        d.ref,
+        {
+          billing: {
+            mode: "company",
+            status: mirror.status,
+            // 個別のトライアル・プランは残さない（billingPatchForCompany と同じ）
+            ...(setMode
+              ? { trial: admin.firestore.FieldValue.delete(), planId: admin.firestore.FieldValue.delete() }
+              : {}),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+        },
+        { merge: true },
+      );
+    }
+    await batch.commit();
+  }
+  return targets.length;
+}
+
+async function ensureCustomer(stripe: Stripe, company: Company): Promise<string> {
+  if (company.billing.stripeCustomerId) return company.billing.stripeCustomerId;
+
+  const inv = company.invoiceAddress;
+  const customer = await stripe.customers.create({
+    name: inv.name || company.name,
+    ...(inv.email ? { email: inv.email } : {}),
+    address: {
+      country: "JP",
+      postal_code: inv.postalCode || undefined,
+      line1: inv.address || company.address,
+    },
+    metadata: { companyId: company.id },
+  });
+
+  await companyRef(company.id).set(
+    { billing: { stripeCustomerId: customer.id } },
+    { merge: true },
+  );
+  return customer.id;
+}
+
+/**
+ * 会社課金の開始（席数 = seatLimit のサブスクを作成）
+ * - 個別にサブスク契約中のメンバーがいれば開始できない（先に解約）
+ */
+export async function startCompanyBilling(
+  companyId: string,
+  planId: string,
+): Promise<{ company: Company; subscription: Stripe.Subscription; members: number }> {
+  const company = await getCompany(companyId);
+  if (!company) throw new CompanyError("company_not_found", 404);
+  if (company.seatLimit === null) throw new CompanyError("seatLimit_required");
+  if (isCompanyBilled(company)) throw new CompanyError("company_subscription_exists", 409);
+
+  const members = await companyMembersQuery(companyId).get();
+  const withOwn = members.docs.filter((d) => {
+    const billing = d.data().billing;
+    return isObj(billing) && billing.mode !== "company" && hasOwnLiveSubscription(billing);
+  });
+  if (withOwn.length) throw new CompanyError("member_has_own_subscription", 409);
+
+  const plan = await requireActivePlan(planId);
+  const stripe = getStripe();
+  const customerId = await ensureCustomer(stripe, company);
+
+  const subscription = await stripe.subscriptions.create({
+    customer: customerId,
+    items: [{ price: plan.stripePriceId, quantity: company.seatLimit }],
+    collection_method: "send_invoice",
+    days_until_due: INVOICE_DAYS_UNTIL_DUE,
+    metadata: { companyId, planId: plan.id },
+  });
+
+  const count = await applyCompanySubscription(company, subscription, { planId: plan.id }, true);
+  return { company: (await getCompany(companyId))!, subscription, members: count };
+}
+
+// 会社課金中の席数変更（差額は次回請求で日割り）
+export async function updateCompanySeats(company: Company, seats: number): Promise<Stripe.Subscription> {
+  const stripe = getStripe();
+  const sub = await stripe.subscriptions.retrieve(company.billing.stripeSubscriptionId);
+  const item = sub.items.data[0];
+  if (!item) throw new CompanyError("subscription_item_missing", 409);
+
+  const updated = await stripe.subscriptions.update(sub.id, {
+    items: [{ id: item.id, quantity: seats }],
+    proration_behavior: "create_prorations",
+  });
+  await applyCompanySubscription(company, updated);
+  return updated;
+}
+
+/**
+ * 会社情報の更新（companies/save）。会社課金中に席数が変われば Stripe の数量も変える
+ * - Stripe の変更に失敗したら seatLimit を元に戻し、seatsError に理由を入れて返す（監査ログは呼び出し側）
+ */
+export async function updateCompanyWithSeats(
+  current: Company,
+  input: CompanyInput,
+  actorUid: string,
+): Promise<{ before: Company; after: Company; propagated: number; seatsError: string }> {
+  const { before, after, propagated } = await updateCompany(current.id, input, actorUid);
+  const seats = after.seatLimit;
+  if (!isCompanyBilled(current) || seats === null || seats === before.seatLimit) {
+    return { before, after, propagated, seatsError: "" };
+  }
+
+  try {
+    await updateCompanySeats(after, seats);
+    return { before, after: (await getCompany(current.id))!, propagated, seatsError: "" };
+  } catch (e) {
+    await companyRef(current.id).set(
+      { seatLimit: before.seatLimit, updatedAtMs: Date.now(), updatedBy: actorUid },
+      { merge: true },
+    );
+    const seatsError = e instanceof Error ? e.message : "UNKNOWN";
+    return { before, after: (await getCompany(current.id))!, propagated, seatsError };
+  }
+}
+
+// 会社課金の解約予約 / 取り消し（期間満了で終了。終了後はメンバーが inactive になる）
+export async function setCompanyCancelAtPeriodEnd(
+  companyId: string,
+  cancelAtPeriodEnd: boolean,
+): Promise<{ company: Company; subscription: Stripe.Subscription }> {
+  const company = await getCompany(companyId);
+  if (!company) throw new CompanyError("company_not_found", 404);
+  if (company.billing.mode !== "company" || !company.billing.stripeSubscriptionId) {
+    throw new CompanyError("company_billing_not_active", 409);
+  }
+
+  const subscription = await getStripe().subscriptions.update(company.billing.stripeSubscriptionId, {
+    cancel_at_period_end: cancelAtPeriodEnd,
+  });
+  await applyCompanySubscription(company, subscription);
+  return { company: (await getCompany(companyId))!, subscription };
+}
+
+/**
+ * webhook から：metadata.companyId のサブスクを会社へ反映
+ * - 古いイベント（stripeEventCreated より前）は無視
+ */
+export async function syncCompanySubscription(
+  companyId: string,
+  sub: Stripe.Subscription,
+  eventCreated: number,
+): Promise<string | null> {
+  const company = await getCompany(companyId);
+  if (!company) return null;
+
+  const snap = await companyRef(companyId).get();
+  const billing = isObj(snap.data()?.billing) ? (snap.data()!.billing as Record<string, unknown>) : {};
+  const lastCreated = typeof billing.stripeEventCreated === "number" ? billing.stripeEventCreated : 0;
+  if (eventCreated < lastCreated) return companyRef(companyId).path;
+
+  await applyCompanySubscription(company, sub, { stripeEventCreated: eventCreated });
+  return companyRef(companyId).path;
+}
@@ -0,0 +1,26 @@
+// src/lib/cronGuard.ts
+// ✅ /api/cron/* の認証（Vercel Cron は Authorization: Bearer ${CRON_SECRET} を付けて呼ぶ）
+import { NextResponse } from "next/server";
+
+export function isCronRequest(req: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || !secret.trim()) return false;
+  return (req.headers.get("authorization") ?? "") === `Bearer ${secret}`;
+}
+
+export function withCron(
+  handler: (req: Request) => Promise<Response>,
+): (req: Request) => Promise<Response> {
+  return async (req) => {
+    if (!isCronRequest(req)) {
+      return NextResponse.json({ ok: false, error: "UNAUTHORIZED" }, { status: 401 });
+    }
+    try {
+      return await handler(req);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "UNKNOWN";
+      console.error("cron failed", new URL(req.url).pathname, e);
+      return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+    }
+  };
+}
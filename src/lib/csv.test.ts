@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { UTF8_BOM, neutralizeFormula, parseCsv, toCsv, toCsvLine } from "./csv";
+
+describe("toCsvLine", () => {
+  it("カンマ・ダブルクォート・改行を含むセルだけ囲む", () => {
+    expect(toCsvLine(["a", "b,c", 'say "hi"', "x\ny", null, undefined, 3])).toBe(
+      'a,"b,c","say ""hi""","x\ny",,,3\r\n',
+    );
+  });
+
+  it("数式として解釈される先頭文字には ' を付ける", () => {
+    expect(toCsvLine(["=1+1", "+81", "-2", "@SUM(A1)", "\tx", "a=b"])).toBe(
+      "'=1+1,'+81,'-2,'@SUM(A1),'\tx,a=b\r\n",
+    );
+  });
+
+  it("' を付けたあとも必要ならクォートする", () => {
+    expect(toCsvLine(['=HYPERLINK("http://x","y")', "\rz"])).toBe(
+      `"'=HYPERLINK(""http://x"",""y"")","'\rz"\r\n`,
+    );
+  });
+});
+
+describe("neutralizeFormula", () => {
+  it("対象外の文字列はそのまま", () => {
+    expect(neutralizeFormula("")).toBe("");
+    expect(neutralizeFormula("山田")).toBe("山田");
+    expect(neutralizeFormula("a@example.com")).toBe("a@example.com");
+  });
+});
+
+describe("toCsv / parseCsv", () => {
+  it("BOM 付きで書き出し、読み戻すと同じ行になる", () => {
+    const rows = [
+      ["氏名", "メモ"],
+      ["山田", 'a,"b"\nc'],
+    ];
+    const text = toCsv(rows);
+
+    expect(text.charCodeAt(0)).toBe(0xfeff);
+    expect(text.startsWith(UTF8_BOM)).toBe(true);
+    expect(parseCsv(text)).toEqual(rows);
+  });
+
+  it("CRLF / LF の混在と空行を扱う", () => {
+    expect(parseCsv("a,b\r\n\r\nc,d\n,\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+// src/lib/csv.ts
+// ✅ RFC 4180 相当の最小実装（ダブルクォート / 改行入りセル / CRLF / BOM 対応 / 数式インジェクション対策）
+
+export const UTF8_BOM = "\uFEFF";
+
+export function parseCsv(text: string): string[][] {
+  const src = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+
+    if (inQuotes) {
+      if (c === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += c;
+      }
+      continue;
+    }
+
+    if (c === '"') {
+      inQuotes = true;
+    } else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // 完全な空行は捨てる
+  return rows.filter((r) => r.some((x) => x.trim() !== ""));
+}
+
+// 表計算ソフトで数式として解釈される先頭文字（= + - @ タブ CR）なら ' を付けて文字列にする
+export function neutralizeFormula(v: string): string {
+  return /^[=+\-@\t\r]/.test(v) ? `'${v}` : v;
+}
+
+function escapeCell(v: string): string {
+  const safe = neutralizeFormula(v);
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsvLine(cells: readonly unknown[]): string {
+  return cells.map((v) => escapeCell(v === null || v === undefined ? "" : String(v))).join(",") + "\r\n";
+}
+
+// Excel で日本語が化けないよう BOM 付き
+export function toCsv(rows: readonly (readonly unknown[])[]): string {
+  return UTF8_BOM + rows.map(toCsvLine).join("");
+}
@@ -0,0 +1,223 @@
+// src/lib/dashboardStats.ts
+// ✅ ダッシュボードの集計（reNovaMember は count() 集計のみ / MRR・解約率は Stripe から）
+import admin from "firebase-admin";
+import type Stripe from "stripe";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { COL_MEMBERS } from "@/lib/reNovaMember";
+import { getStripe } from "@/lib/stripe";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 週・月の区切りは日本時間
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+const SIGNUP_WEEKS = 12;
+const CHURN_MONTHS = 6;
+
+// MRR に数えるサブスク（trialing は無料期間なので除く）
+const MRR_STATUSES: readonly string[] = ["active", "past_due"];
+
+export type MemberCounts = {
+  total: number;
+  active: number;
+  inactive: number;
+  free: number;
+  paid: number;
+  trial: number;
+  company: number;
+  disabled: number;
+  deleted: number;
+};
+
+export type WeeklyCount = { weekStartMs: number; count: number };
+
+export type MrrByCurrency = { currency: string; amount: number; subscriptions: number };
+
+export type MonthlyChurn = {
+  monthStartMs: number;
+  // 月初時点で有効だったサブスク数
+  activeAtStart: number;
+  // その月に終了したサブスク数
+  canceled: number;
+  // canceled / activeAtStart（分母 0 は null）
+  rate: number | null;
+};
+
+export type DashboardStats = {
+  generatedAtMs: number;
+  members: MemberCounts;
+  // 今月中に期間満了で終了するメンバー（cancelAtPeriodEnd）
+  scheduledCancellations: { monthStartMs: number; monthEndMs: number; count: number };
+  signupsByWeek: WeeklyCount[];
+  mrr: MrrByCurrency[];
+  churnByMonth: MonthlyChurn[];
+  // Stripe が取れなかった場合（Firestore の集計は返す）
+  stripeError: string;
+};
+
+type Query = admin.firestore.Query;
+
+async function countOf(q: Query): Promise<number> {
+  const snap = await q.count().get();
+  return snap.data().count;
+}
+
+// 日本時間の月初（monthOffset: 0 = 今月, -1 = 先月, 1 = 来月）
+export function jstMonthStartMs(ms: number, monthOffset = 0): number {
+  const d = new Date(ms + JST_OFFSET_MS);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + monthOffset, 1) - JST_OFFSET_MS;
+}
+
+// 日本時間の週初め（月曜 0:00）
+export function jstWeekStartMs(ms: number): number {
+  const local = ms + JST_OFFSET_MS;
+  const dayStart = Math.floor(local / DAY_MS) * DAY_MS;
+  const weekday = (new Date(dayStart).getUTCDay() + 6) % 7;
+  return dayStart - weekday * DAY_MS - JST_OFFSET_MS;
+}
+
+async function memberCounts(): Promise<MemberCounts> {
+  const col = getAdminDb().collection(COL_MEMBERS);
+  const [total, active, inactive, free, paid, trial, company, disabled, deleted] = await Promise.all([
+    countOf(col),
+    countOf(col.where("billing.status", "==", "active")),
+    countOf(col.where("billing.status", "==", "inactive")),
+    countOf(col.where("billing.mode", "==", "free")),
+    countOf(col.where("billing.mode", "==", "paid")),
+    countOf(col.where("billing.mode", "==", "trial")),
+    countOf(col.where("billing.mode", "==", "company")),
+    countOf(col.where("account.state", "==", "disabled")),
+    countOf(col.where("account.state", "==", "deleted")),
+  ]);
+  return { total, active, inactive, free, paid, trial, company, disabled, deleted };
+}
+
+/**
+ * 今月中に終了予定の件数
+ * - 複合インデックス（billing.cancelAtPeriodEnd + billing.currentPeriodEndMs）が必要
+ */
+async function scheduledCancellations(now: number): Promise<DashboardStats["scheduledCancellations"]> {
+  const monthStartMs = jstMonthStartMs(now);
+  const monthEndMs = jstMonthStartMs(now, 1);
+  const count = await countOf(
+    getAdminDb()
+      .collection(COL_MEMBERS)
+      .where("billing.cancelAtPeriodEnd", "==", true)
+      .where("billing.currentPeriodEndMs", ">=", monthStartMs)
+      .where("billing.currentPeriodEndMs", "<", monthEndMs),
+  );
+  return { monthStartMs, monthEndMs, count };
+}
+
+// 直近 SIGNUP_WEEKS 週の新規作成数（createdAt。今週を含む・古い順）
+async function signupsByWeek(now: number): Promise<WeeklyCount[]> {
+  const col = getAdminDb().collection(COL_MEMBERS);
+  const thisWeek = jstWeekStartMs(now);
+  const weeks = Array.from({ length: SIGNUP_WEEKS }, (_, i) => thisWeek - (SIGNUP_WEEKS - 1 - i) * 7 * DAY_MS);
+
+  return Promise.all(
+    weeks.map(async (weekStartMs) => ({
+      weekStartMs,
+      count: await countOf(
+        col
+          .where("createdAt", ">=", admin.firestore.Timestamp.fromMillis(weekStartMs))
+          .where("createdAt", "<", admin.firestore.Timestamp.fromMillis(weekStartMs + 7 * DAY_MS)),
+      ),
+    })),
+  );
+}
+
+// Price 1件の月額換算（最小通貨単位。従量・段階料金は null）
+function monthlyAmount(item: Stripe.SubscriptionItem): number | null {
+  const price = item.price;
+  const recurring = price.recurring;
+  if (!recurring || price.unit_amount === null) return null;
+
+  const perInterval = price.unit_amount * (item.quantity ?? 1);
+  const count = recurring.interval_count || 1;
+  switch (recurring.interval) {
+    case "month":
+      return perInterval / count;
+    case "year":
+      return perInterval / (12 * count);
+    case "week":
+      return (perInterval * 52) / (12 * count);
+    case "day":
+      return (perInterval * 365) / (12 * count);
+    default:
+      return null;
+  }
+}
+
+function toMrr(subs: Stripe.Subscription[]): MrrByCurrency[] {
+  const byCurrency = new Map<string, MrrByCurrency>();
+  for (const sub of subs) {
+    if (!MRR_STATUSES.includes(sub.status)) continue;
+    const row = byCurrency.get(sub.currency) ?? { currency: sub.currency, amount: 0, subscriptions: 0 };
+    for (const item of sub.items.data) {
+      row.amount += monthlyAmount(item) ?? 0;
+    }
+    row.subscriptions += 1;
+    byCurrency.set(sub.currency, row);
+  }
+  return [...byCurrency.values()]
+    .map((r) => ({ ...r, amount: Math.round(r.amount) }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+// 直近 CHURN_MONTHS か月の解約率（今月を含む・古い順）
+function toChurn(subs: Stripe.Subscription[], now: number): MonthlyChurn[] {
+  const months = Array.from({ length: CHURN_MONTHS }, (_, i) => jstMonthStartMs(now, i - (CHURN_MONTHS - 1)));
+
+  return months.map((monthStartMs) => {
+    const monthEndMs = jstMonthStartMs(monthStartMs, 1);
+    let activeAtStart = 0;
+    let canceled = 0;
+    for (const sub of subs) {
+      const startMs = sub.start_date * 1000;
+      const endedMs = sub.ended_at ? sub.ended_at * 1000 : null;
+      // 無料期間のまま終わったものは数えない
+      if (sub.trial_end && endedMs !== null && endedMs <= sub.trial_end * 1000) continue;
+
+      if (startMs < monthStartMs && (endedMs === null || endedMs >= monthStartMs)) activeAtStart += 1;
+      if (endedMs !== null && endedMs >= monthStartMs && endedMs < monthEndMs) canceled += 1;
+    }
+    return { monthStartMs, activeAtStart, canceled, rate: activeAtStart ? canceled / activeAtStart : null };
+  });
+}
+
+async function listAllSubscriptions(stripe: Stripe): Promise<Stripe.Subscription[]> {
+  const subs: Stripe.Subscription[] = [];
+  for await (const sub of stripe.subscriptions.list({ status: "all", limit: 100 })) {
+    subs.push(sub);
+  }
+  return subs;
+}
+
+export async function loadDashboardStats(now = Date.now()): Promise<DashboardStats> {
+  const [members, cancellations, signups] = await Promise.all([
+    memberCounts(),
+    scheduledCancellations(now),
+    signupsByWeek(now),
+  ]);
+
+  let mrr: MrrByCurrency[] = [];
+  let churnByMonth: MonthlyChurn[] = [];
+  let stripeError = "";
+  try {
+    const subs = await listAllSubscriptions(getStripe());
+    mrr = toMrr(subs);
+    churnByMonth = toChurn(subs, now);
+  } catch (e) {
+    stripeError = e instanceof Error ? e.message : "UNKNOWN";
+  }
+
+  return {
+    generatedAtMs: now,
+    members,
+    scheduledCancellations: cancellations,
+    signupsByWeek: signups,
+    mrr,
+    churnByMonth,
+    stripeError,
+  };
+}
@@ -0,0 +1,78 @@
+// src/lib/mailer.ts
+// ✅ メール送信（MAIL_TRANSPORT=smtp で SMTP、それ以外は開発用にコンソール / ファイル出力。本番では送信エラー）
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export type Mailer = {
+  readonly kind: "smtp" | "console";
+  send(msg: MailMessage): Promise<void>;
+};
+
+function mustEnv(name: string): string {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`${name} is missing`);
+  return v;
+}
+
+function mailFrom(): string {
+  return mustEnv("MAIL_FROM");
+}
+
+// SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS（465 は TLS）
+function createSmtpMailer(): Mailer {
+  const port = Number(process.env.SMTP_PORT ?? "587");
+  const user = process.env.SMTP_USER ?? "";
+
+  const transport = nodemailer.createTransport({
+    host: mustEnv("SMTP_HOST"),
+    port,
+    secure: port === 465,
+    ...(user ? { auth: { user, pass: mustEnv("SMTP_PASS") } } : {}),
+  });
+
+  return {
+    kind: "smtp",
+    async send(msg) {
+      await transport.sendMail({ from: mailFrom(), to: msg.to, subject: msg.subject, text: msg.text });
+    },
+  };
+}
+
+// 開発用：送らずにログへ（本文はリンクを含むので出さない）。MAIL_OUTBOX_DIR があれば本文ごと .txt で書き出す
+// 本番で SMTP 未設定のまま「送信済み」にならないよう、production では送信エラーにする
+function createConsoleMailer(): Mailer {
+  const dir = process.env.MAIL_OUTBOX_DIR ?? "";
+  const production = process.env.NODE_ENV === "production";
+
+  return {
+    kind: "console",
+    async send(msg) {
+      if (production) throw new Error("mail_transport_not_configured");
+
+      const body = `To: ${msg.to}\nSubject: ${msg.subject}\n\n${msg.text}\n`;
+      console.info(`[mail] to=${msg.to} subject=${msg.subject}${dir ? ` (${dir})` : ""}`);
+
+      if (dir) {
+        await mkdir(dir, { recursive: true });
+        const safeTo = msg.to.replace(/[^\w.@-]/g, "_");
+        await writeFile(path.join(dir, `${Date.now()}-${safeTo}.txt`), body, "utf8");
+      }
+    },
+  };
+}
+
+let cached: Mailer | null = null;
+
+export function getMailer(): Mailer {
+  if (!cached) {
+    cached = process.env.MAIL_TRANSPORT === "smtp" ? createSmtpMailer() : createConsoleMailer();
+  }
+  return cached;
+}
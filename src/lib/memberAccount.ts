@@ -0,0 +1,87 @@
+// src/lib/memberAccount.ts
+// ✅ メンバーの利用停止 / 再開 / 論理削除 / 物理削除（保持期間後）
+import type admin from "firebase-admin";
+import type Stripe from "stripe";
+import { getAdminAuth } from "@/lib/firebaseAdmin";
+import { getStripe } from "@/lib/stripe";
+
+export const ACCOUNT_STATES = ["active", "disabled", "deleted"] as const;
+export type AccountState = (typeof ACCOUNT_STATES)[number];
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function authCode(e: unknown): string {
+  return isObj(e) ? toStr(e.code) : "";
+}
+
+// account フィールドが無い（既存）メンバーは active 扱い
+export function accountStateOf(data: unknown): AccountState {
+  const account = isObj(data) && isObj(data.account) ? data.account : {};
+  const s = account.state;
+  return s === "disabled" || s === "deleted" ? s : "active";
+}
+
+// 論理削除から物理削除までの日数（MEMBER_RETENTION_DAYS、既定30日）
+export function retentionDays(): number {
+  const n = Number(process.env.MEMBER_RETENTION_DAYS);
+  return Number.isFinite(n) && n >= 0 ? Math.trunc(n) : DEFAULT_RETENTION_DAYS;
+}
+
+export function purgeAfterMs(deletedAtMs: number): number {
+  return deletedAtMs + retentionDays() * DAY_MS;
+}
+
+/**
+ * Auth ユーザーの有効/無効を切り替える
+ * - 無効化時はリフレッシュトークンも失効させる（発行済みIDトークンは最長1時間残る）
+ * - Auth ユーザーが無ければ false
+ */
+export async function setAuthDisabled(uid: string, disabled: boolean): Promise<boolean> {
+  const auth = getAdminAuth();
+  try {
+    await auth.updateUser(uid, { disabled });
+    if (disabled) await auth.revokeRefreshTokens(uid);
+    return true;
+  } catch (e) {
+    if (authCode(e) === "auth/user-not-found") return false;
+    throw e;
+  }
+}
+
+/**
+ * サブスクを即時解約（論理削除用）
+ * - 解約済み / 未登録なら何もしない
+ */
+export async function cancelSubscriptionNow(
+  stripeSubscriptionId: string,
+): Promise<Stripe.Subscription | null> {
+  if (!stripeSubscriptionId) return null;
+
+  const stripe = getStripe();
+  const sub = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+  if (sub.status === "canceled" || sub.status === "incomplete_expired") return sub;
+
+  return stripe.subscriptions.cancel(stripeSubscriptionId);
+}
+
+// Auth ユーザーと reNovaMember ドキュメントを削除（元に戻せない）
+export async function purgeMember(
+  memberRef: admin.firestore.DocumentReference,
+  uid: string,
+): Promise<void> {
+  try {
+    await getAdminAuth().deleteUser(uid);
+  } catch (e) {
+    if (authCode(e) !== "auth/user-not-found") throw e;
+  }
+  await memberRef.delete();
+}
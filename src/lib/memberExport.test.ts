@@ -0,0 +1,47 @@
+import { PassThrough } from "node:stream";
+import ExcelJS from "exceljs";
+import { describe, expect, it } from "vitest";
+import { EXPORT_COLUMNS, writeExportXlsx, type ExportKey, type ExportRow } from "./memberExport";
+
+function exportRow(patch: Partial<ExportRow>): ExportRow {
+  const row = Object.fromEntries(EXPORT_COLUMNS.map((c) => [c.key, ""])) as ExportRow;
+  return { ...row, ...patch };
+}
+
+async function* rowsOf(list: ExportRow[]) {
+  yield* list;
+}
+
+// 書き出した XLSX を読み戻す
+async function roundTrip(list: ExportRow[]): Promise<ExcelJS.Worksheet> {
+  const pass = new PassThrough();
+  const chunks: Buffer[] = [];
+  pass.on("data", (c: Buffer) => chunks.push(c));
+  const ended = new Promise((resolve) => pass.on("end", resolve));
+
+  await writeExportXlsx(pass, rowsOf(list));
+  await ended;
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(Buffer.concat(chunks) as unknown as ArrayBuffer);
+  return workbook.getWorksheet("members")!;
+}
+
+function col(key: ExportKey): number {
+  return EXPORT_COLUMNS.findIndex((c) => c.key === key) + 1;
+}
+
+describe("writeExportXlsx", () => {
+  it("電話番号や記号で始まる値を ' を付けずにそのまま文字列で書く", async () => {
+    const sheet = await roundTrip([
+      exportRow({ uid: "m1", phone: "+819012345678", fullName: "-山田", companyName: "=SUM(1)" }),
+    ]);
+    const row = sheet.getRow(2);
+
+    expect(sheet.getRow(1).getCell(col("phone")).value).toBe("電話番号");
+    expect(row.getCell(col("phone")).value).toBe("+819012345678");
+    expect(row.getCell(col("fullName")).value).toBe("-山田");
+    expect(row.getCell(col("companyName")).value).toBe("=SUM(1)");
+    expect(row.getCell(col("companyName")).type).toBe(ExcelJS.ValueType.String);
+  });
+});
@@ -0,0 +1,116 @@
+// src/lib/memberExport.ts
+// ✅ メンバー + 課金状態のエクスポート（CSV / XLSX 共通の列定義）
+import type { Writable } from "node:stream";
+import ExcelJS from "exceljs";
+import type admin from "firebase-admin";
+import type { AccountState } from "@/lib/memberAccount";
+import { buildMemberQuery, toMemberRow, type MemberListQuery } from "@/lib/memberQuery";
+
+const PAGE_SIZE = 500;
+
+export const EXPORT_COLUMNS = [
+  { key: "uid", header: "uid", width: 30 },
+  { key: "email", header: "メール", width: 32 },
+  { key: "fullName", header: "氏名", width: 18 },
+  { key: "phone", header: "電話番号", width: 16 },
+  { key: "companyName", header: "会社名", width: 24 },
+  { key: "companyAddress", header: "住所", width: 40 },
+  { key: "accountState", header: "利用状態", width: 10 },
+  { key: "mode", header: "課金モード", width: 10 },
+  { key: "status", header: "status", width: 10 },
+  { key: "planId", header: "プランID", width: 16 },
+  { key: "trialEnd", header: "トライアル終了日", width: 20 },
+  { key: "companyId", header: "会社ID", width: 24 },
+  { key: "stripeCustomerId", header: "Stripe顧客ID", width: 22 },
+  { key: "stripeSubscriptionId", header: "StripeサブスクID", width: 30 },
+  { key: "cancelAtPeriodEnd", header: "解約予定", width: 10 },
+  { key: "currentPeriodEnd", header: "期間満了日", width: 20 },
+  { key: "createdAt", header: "作成日", width: 20 },
+] as const;
+
+const ACCOUNT_STATE_LABELS: Record<AccountState, string> = {
+  active: "利用中",
+  disabled: "停止中",
+  deleted: "削除済み",
+};
+
+export type ExportKey = (typeof EXPORT_COLUMNS)[number]["key"];
+export type ExportRow = Record<ExportKey, string>;
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+// 経理向けなので日本時間の表記で出す
+function fmtJst(ms: number | null): string {
+  if (!ms) return "";
+  return new Date(ms).toLocaleString("ja-JP", { timeZone: "Asia/Tokyo", hour12: false });
+}
+
+function timestampMs(v: unknown): number | null {
+  if (v && typeof (v as { toMillis?: unknown }).toMillis === "function") {
+    return (v as admin.firestore.Timestamp).toMillis();
+  }
+  return null;
+}
+
+export function toExportRow(d: admin.firestore.DocumentSnapshot): ExportRow {
+  const row = toMemberRow(d);
+  const data = (d.data() ?? {}) as Record<string, unknown>;
+  const profile = (data.profile as Record<string, unknown> | undefined) ?? {};
+  const billing = (data.billing as Record<string, unknown> | undefined) ?? {};
+
+  return {
+    uid: row.uid,
+    email: row.email,
+    fullName: row.fullName,
+    phone: toStr(profile.phone),
+    companyName: row.companyName,
+    companyAddress: toStr(profile.companyAddress),
+    accountState: ACCOUNT_STATE_LABELS[row.accountState],
+    mode: row.mode,
+    status: row.status,
+    planId: row.planId,
+    trialEnd: fmtJst(row.trialEndMs),
+    companyId: row.companyId,
+    stripeCustomerId: toStr(billing.stripeCustomerId),
+    stripeSubscriptionId: row.stripeSubscriptionId,
+    cancelAtPeriodEnd:
+      row.cancelAtPeriodEnd === null ? "" : row.cancelAtPeriodEnd ? "解約予定" : "継続",
+    currentPeriodEnd: fmtJst(row.currentPeriodEndMs),
+    createdAt: fmtJst(timestampMs(data.createdAt)),
+  };
+}
+
+// 一覧と同じ条件で全件をページングしながら返す（全件をメモリに載せない）
+export async function* iterateMembers(
+  db: admin.firestore.Firestore,
+  q: MemberListQuery,
+): AsyncGenerator<admin.firestore.QueryDocumentSnapshot> {
+  let last: admin.firestore.QueryDocumentSnapshot | null = null;
+
+  while (true) {
+    let query = buildMemberQuery(db, q);
+    if (last) query = query.startAfter(last);
+
+    const snap = await query.limit(PAGE_SIZE).get();
+    for (const d of snap.docs) yield d;
+
+    if (snap.docs.length < PAGE_SIZE) return;
+    last = snap.docs[snap.docs.length - 1]!;
+  }
+}
+
+/**
+ * XLSX をストリームへ書き出す（ExcelJS のストリーミングライター）
+ * - 文字列は文字列セルとして書かれ数式にはならないので、CSV のような ' は付けずに値のまま出す
+ */
+export async function writeExportXlsx(stream: Writable, rows: AsyncIterable<ExportRow>): Promise<void> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream });
+  const sheet = workbook.addWorksheet("members");
+  sheet.columns = EXPORT_COLUMNS.map((c) => ({ header: c.header, key: c.key, width: c.width }));
+
+  for await (const row of rows) sheet.addRow(row).commit();
+  sheet.commit();
+  await workbook.commit();
+}
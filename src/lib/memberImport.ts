@@ -0,0 +1,160 @@
+// src/lib/memberImport.ts
+// ✅ CSV一括登録（dry-run / commit 共通）
+import { getAdminAuth } from "@/lib/firebaseAdmin";
+import { parseCsv } from "@/lib/csv";
+import { normalizePhoneJP, validateMemberInput, type MemberInput } from "@/lib/memberProfile";
+import type { BillingMode } from "@/lib/reNovaMember";
+
+export const IMPORT_MAX_ROWS = 2000;
+// commit 1リクエストあたりの件数（クライアントはこの単位で分割して送る）
+export const IMPORT_BATCH_SIZE = 20;
+
+export type ImportRow = {
+  line: number; // CSV上の行番号（ヘッダー = 1）
+  email: string;
+  fullName: string;
+  phone: string;
+  companyName: string;
+  companyAddress: string;
+  billingMode: string;
+};
+
+export type ImportRowReport = ImportRow & {
+  errors: string[];
+};
+
+type Field = Exclude<keyof ImportRow, "line">;
+
+// ヘッダー名 → 項目（英語 / 日本語どちらでも可）
+const HEADER_ALIASES: Record<string, Field> = {
+  fullname: "fullName",
+  氏名: "fullName",
+  phone: "phone",
+  電話番号: "phone",
+  携帯番号: "phone",
+  company: "companyName",
+  companyname: "companyName",
+  会社名: "companyName",
+  所属会社名: "companyName",
+  address: "companyAddress",
+  companyaddress: "companyAddress",
+  住所: "companyAddress",
+  email: "email",
+  メール: "email",
+  billingmode: "billingMode",
+  課金モード: "billingMode",
+};
+
+const REQUIRED_FIELDS: Field[] = ["fullName", "companyName", "email"];
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function rowsFromCsv(
+  text: string,
+): { ok: true; rows: ImportRow[] } | { ok: false; error: string } {
+  const table = parseCsv(text);
+  if (table.length === 0) return { ok: false, error: "csv_empty" };
+
+  const header = table[0]!.map((h) => HEADER_ALIASES[h.trim().toLowerCase()] ?? null);
+  const missing = REQUIRED_FIELDS.filter((f) => !header.includes(f));
+  if (missing.length) return { ok: false, error: `csv_header_missing:${missing.join(",")}` };
+
+  if (table.length - 1 > IMPORT_MAX_ROWS) {
+    return { ok: false, error: `csv_too_many_rows:max_${IMPORT_MAX_ROWS}` };
+  }
+
+  const rows = table.slice(1).map((cells, i) => {
+    const row: ImportRow = {
+      line: i + 2,
+      email: "",
+      fullName: "",
+      phone: "",
+      companyName: "",
+      companyAddress: "",
+      billingMode: "",
+    };
+    header.forEach((field, col) => {
+      if (field) row[field] = (cells[col] ?? "").trim();
+    });
+    return row;
+  });
+
+  return { ok: true, rows };
+}
+
+export function toBillingModeStrict(v: string): BillingMode | null {
+  const s = v.trim().toLowerCase();
+  if (!s || s === "paid") return "paid";
+  if (s === "free") return "free";
+  return null;
+}
+
+/**
+ * 1行分のチェック（create-user と同じ必須チェック + 電話番号 / 課金モード / メール形式）
+ * - 電話番号は libphonenumber で正規化した値に置き換える
+ */
+export function checkImportRow(row: ImportRow): {
+  input: MemberInput;
+  billingMode: BillingMode | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  const phone = normalizePhoneJP(row.phone);
+  if (phone === null) errors.push("phone_invalid");
+
+  const input: MemberInput = {
+    email: row.email.trim(),
+    profile: {
+      fullName: row.fullName.trim(),
+      phone: phone ?? row.phone,
+      companyName: row.companyName.trim(),
+      companyAddress: row.companyAddress.trim(),
+    },
+  };
+
+  const invalid = validateMemberInput(input);
+  if (invalid) errors.push(invalid);
+  if (input.email && !EMAIL_RE.test(input.email)) errors.push("email_invalid");
+
+  const billingMode = toBillingModeStrict(row.billingMode);
+  if (!billingMode) errors.push("billingMode_invalid");
+
+  return { input, billingMode, errors };
+}
+
+// Firebase Auth に既に存在するメール（getUsers は1回100件まで）
+export async function findExistingEmails(emails: string[]): Promise<Set<string>> {
+  const auth = getAdminAuth();
+  const found = new Set<string>();
+  const uniq = [...new Set(emails.filter((e) => EMAIL_RE.test(e)))];
+
+  for (let i = 0; i < uniq.length; i += 100) {
+    const chunk = uniq.slice(i, i + 100);
+    const res = await auth.getUsers(chunk.map((email) => ({ email })));
+    for (const u of res.users) {
+      if (u.email) found.add(u.email.toLowerCase());
+    }
+  }
+  return found;
+}
+
+// dry-run 用：全行チェック + ファイル内重複 + Auth 既存重複
+export async function buildImportReport(rows: ImportRow[]): Promise<ImportRowReport[]> {
+  const checked = rows.map((r) => ({ row: r, ...checkImportRow(r) }));
+
+  const existing = await findExistingEmails(checked.map((c) => c.input.email));
+  const seen = new Map<string, number>();
+
+  return checked.map(({ row, input, errors }) => {
+    const key = input.email.toLowerCase();
+    const errs = [...errors];
+    if (key) {
+      const firstLine = seen.get(key);
+      if (firstLine !== undefined) errs.push(`email_duplicate_in_file:line_${firstLine}`);
+      else seen.set(key, row.line);
+      if (existing.has(key)) errs.push("email_already_exists");
+    }
+    return { ...row, phone: input.profile.phone, errors: errs };
+  });
+}
@@ -0,0 +1,138 @@
+// src/lib/memberInvite.ts
+// ✅ 招待メール（パスワード無しで作成 → パスワード設定リンクを本人に送る）
+import admin from "firebase-admin";
+import { getAdminAuth } from "@/lib/firebaseAdmin";
+import { getMailer } from "@/lib/mailer";
+
+// failed = メール送信に失敗（再送で復帰）
+export type InviteStatus = "sent" | "accepted" | "expired" | "failed";
+
+// Firebase のパスワード再設定リンク（oobCode）は1時間で失効する
+export const INVITE_LINK_TTL_MS = 60 * 60 * 1000;
+
+type DocRef = admin.firestore.DocumentReference;
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function inviteOf(data: unknown): Record<string, unknown> | null {
+  return isObj(data) && isObj(data.invite) ? data.invite : null;
+}
+
+// 保存値 + 期限から今の状態を出す（招待していないメンバーは null）
+export function inviteStatusOf(data: unknown, now = Date.now()): InviteStatus | null {
+  const invite = inviteOf(data);
+  if (!invite) return null;
+
+  const status = toStr(invite.status);
+  if (status === "accepted" || status === "failed" || status === "expired") return status;
+  if (status !== "sent") return null;
+
+  const expiresAtMs = typeof invite.expiresAtMs === "number" ? invite.expiresAtMs : 0;
+  return expiresAtMs && expiresAtMs <= now ? "expired" : "sent";
+}
+
+function actionCodeSettings(): { url: string } | undefined {
+  // パスワード設定後の戻り先（会員向けアプリのログイン画面など）
+  const url = process.env.INVITE_CONTINUE_URL ?? "";
+  return url ? { url } : undefined;
+}
+
+function inviteMail(args: { fullName: string; link: string }): { subject: string; text: string } {
+  return {
+    subject: "【reNova】アカウントのご案内",
+    text: [
+      `${args.fullName || ""} 様`,
+      "",
+      "reNova のアカウントを作成しました。",
+      "以下のリンクからパスワードを設定してログインしてください。",
+      "",
+      args.link,
+      "",
+      "※ リンクの有効期限は1時間です。期限切れの場合は管理者に再送を依頼してください。",
+    ].join("\n"),
+  };
+}
+
+/**
+ * 招待メールを送って member.invite を更新
+ * - 送信失敗は status=failed で記録して throw しない（アカウント作成自体は成功させる）
+ */
+export async function sendMemberInvite(args: {
+  memberRef: DocRef;
+  email: string;
+  fullName: string;
+  sentBy: string;
+}): Promise<{ status: InviteStatus; error: string }> {
+  const now = Date.now();
+
+  try {
+    const link = await getAdminAuth().generatePasswordResetLink(args.email, actionCodeSettings());
+    await getMailer().send({ to: args.email, ...inviteMail({ fullName: args.fullName, link }) });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : "UNKNOWN";
+    await args.memberRef.set(
+      {
+        invite: {
+          status: "failed",
+          lastError: error,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      },
+      { merge: true },
+    );
+    return { status: "failed", error };
+  }
+
+  await args.memberRef.set(
+    {
+      invite: {
+        status: "sent",
+        sentAtMs: now,
+        expiresAtMs: now + INVITE_LINK_TTL_MS,
+        sentBy: args.sentBy,
+        sentCount: admin.firestore.FieldValue.increment(1),
+        acceptedAtMs: null,
+        lastError: null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    },
+    { merge: true },
+  );
+  return { status: "sent", error: "" };
+}
+
+/**
+ * 初回ログイン済みなら accepted に更新（詳細表示・再送時に呼ぶ）
+ * - 招待中でなければ何もしない
+ */
+export async function refreshInviteStatus(memberRef: DocRef, uid: string): Promise<void> {
+  const snap = await memberRef.get();
+  const status = inviteStatusOf(snap.data());
+  if (status === null || status === "accepted") return;
+
+  let lastSignIn = "";
+  try {
+    lastSignIn = (await getAdminAuth().getUser(uid)).metadata.lastSignInTime ?? "";
+  } catch (e) {
+    if (isObj(e) && e.code === "auth/user-not-found") return;
+    throw e;
+  }
+  if (!lastSignIn) return;
+
+  await memberRef.set(
+    {
+      invite: {
+        status: "accepted",
+        acceptedAtMs: new Date(lastSignIn).getTime(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    },
+    { merge: true },
+  );
+}
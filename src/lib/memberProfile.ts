@@ -0,0 +1,61 @@
+// src/lib/memberProfile.ts
+// ✅ create-user / update-member / CSV取り込み 共通の入力チェック
+import { parsePhoneNumberFromString } from "libphonenumber-js";
+
+export type MemberProfile = {
+  fullName: string;
+  phone: string;
+  companyName: string;
+  companyAddress: string;
+};
+
+export type MemberInput = {
+  email: string;
+  profile: MemberProfile;
+};
+
+export function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+export function normalizePhone(s: string): string {
+  return s.replace(/[^\d+]/g, "").trim();
+}
+
+/**
+ * 日本の番号として解釈して国内表記の数字だけにする（090-1234-5678 → 09012345678）
+ * - +81 始まりも国内表記に寄せる
+ * - 解釈できない / 番号として不正なら null
+ */
+export function normalizePhoneJP(raw: string): string | null {
+  const s = raw.trim();
+  if (!s) return "";
+  const p = parsePhoneNumberFromString(s, "JP");
+  if (!p || !p.isValid()) return null;
+  return p.country === "JP" ? p.formatNational().replace(/\D/g, "") : p.number;
+}
+
+export function parseMemberInput(body: Record<string, unknown>): MemberInput {
+  return {
+    email: toStr(body.email).trim(),
+    profile: {
+      fullName: toStr(body.fullName).trim(),
+      phone: normalizePhone(toStr(body.phone)),
+      companyName: toStr(body.companyName).trim(),
+      companyAddress: toStr(body.companyAddress).trim(),
+    },
+  };
+}
+
+// エラーコード（APIの error にそのまま返す）or null
+export function validateMemberInput(input: MemberInput): string | null {
+  if (!input.email) return "email_required";
+  if (!input.profile.fullName) return "fullName_required";
+  if (!input.profile.companyName) return "companyName_required";
+  return null;
+}
+
+export function validatePassword(password: string): string | null {
+  if (!password || password.length < 6) return "password_min_6";
+  return null;
+}
@@ -0,0 +1,100 @@
+import type admin from "firebase-admin";
+import { describe, expect, it } from "vitest";
+import { buildMemberQuery, parseMemberListQuery, startAfterCursor } from "./memberQuery";
+
+// 呼ばれた where / orderBy / startAfter を記録するだけの Query
+function fakeQuery(calls: string[] = []) {
+  const q = {
+    calls,
+    where: (field: string, op: string, value: unknown) => {
+      calls.push(`where ${field} ${op} ${String(value)}`);
+      return q;
+    },
+    orderBy: (field: string, dir: string) => {
+      calls.push(`orderBy ${field} ${dir}`);
+      return q;
+    },
+    startAfter: (snap: { id: string }) => {
+      calls.push(`startAfter ${snap.id}`);
+      return q;
+    },
+  };
+  return q;
+}
+
+function fakeDb(calls: string[]) {
+  return { collection: () => fakeQuery(calls) } as unknown as admin.firestore.Firestore;
+}
+
+function fakeSnap(id: string, exists: boolean) {
+  return { id, exists } as unknown as admin.firestore.DocumentSnapshot;
+}
+
+describe("parseMemberListQuery", () => {
+  it("不明な値は既定値に落とす", () => {
+    expect(
+      parseMemberListQuery({ searchField: "phone", status: "x", mode: "y", sort: "z", dir: "up" }),
+    ).toEqual({
+      search: "",
+      searchField: "email",
+      status: null,
+      mode: null,
+      cancelScheduled: null,
+      accountState: null,
+      sort: "email",
+      dir: "asc",
+    });
+  });
+
+  it("有効な値はそのまま（検索語は trim）", () => {
+    const q = parseMemberListQuery({
+      search: "  abc ",
+      searchField: "companyName",
+      status: "inactive",
+      mode: "trial",
+      cancelScheduled: true,
+      accountState: "disabled",
+      sort: "currentPeriodEnd",
+      dir: "desc",
+    });
+    expect(q).toMatchObject({
+      search: "abc",
+      searchField: "companyName",
+      status: "inactive",
+      mode: "trial",
+      cancelScheduled: true,
+      accountState: "disabled",
+      sort: "currentPeriodEnd",
+      dir: "desc",
+    });
+  });
+});
+
+describe("buildMemberQuery", () => {
+  it("絞り込み + 指定の並び順", () => {
+    const calls: string[] = [];
+    buildMemberQuery(fakeDb(calls), parseMemberListQuery({ status: "active", sort: "createdAt", dir: "desc" }));
+    expect(calls).toEqual(["where billing.status == active", "orderBy createdAt desc"]);
+  });
+
+  it("検索中は前方一致の項目順（sort は無視）", () => {
+    const calls: string[] = [];
+    buildMemberQuery(fakeDb(calls), parseMemberListQuery({ search: "ab", sort: "createdAt" }));
+    expect(calls).toEqual(["where email >= ab", "where email <= ab\uf8ff", "orderBy email asc"]);
+  });
+});
+
+describe("startAfterCursor", () => {
+  it("cursor のドキュメントがあればその続きから", () => {
+    const q = fakeQuery();
+    const next = startAfterCursor(q as unknown as admin.firestore.Query, fakeSnap("m1", true));
+    expect(next).toBe(q);
+    expect(q.calls).toEqual(["startAfter m1"]);
+  });
+
+  it("消えていれば null（1ページ目に戻さない）", () => {
+    const q = fakeQuery();
+    expect(startAfterCursor(q as unknown as admin.firestore.Query, fakeSnap("gone", false))).toBeNull();
+    expect(q.calls).toEqual([]);
+  });
+});
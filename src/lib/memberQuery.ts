@@ -0,0 +1,149 @@
+// src/lib/memberQuery.ts
+// ✅ members/list（と一覧系API）の検索・絞り込み・並び順
+import type admin from "firebase-admin";
+import { accountStateOf, type AccountState } from "@/lib/memberAccount";
+import { trialOf } from "@/lib/memberTrial";
+import { COL_MEMBERS, type BillingMode, type BillingStatus } from "@/lib/reNovaMember";
+
+export const SEARCH_FIELDS = {
+  email: "email",
+  companyName: "profile.companyName",
+  fullName: "profile.fullName",
+} as const;
+export type SearchField = keyof typeof SEARCH_FIELDS;
+
+export const SORT_FIELDS = {
+  email: "email",
+  createdAt: "createdAt",
+  currentPeriodEnd: "billing.currentPeriodEndMs",
+} as const;
+export type SortKey = keyof typeof SORT_FIELDS;
+
+export type MemberListQuery = {
+  search: string;
+  searchField: SearchField;
+  status: BillingStatus | null;
+  mode: BillingMode | null;
+  cancelScheduled: boolean | null;
+  // account.state が無い既存メンバーは active 扱いなので、絞り込めるのは disabled / deleted のみ
+  accountState: Exclude<AccountState, "active"> | null;
+  sort: SortKey;
+  dir: "asc" | "desc";
+};
+
+export type MemberRow = {
+  uid: string;
+  email: string;
+  fullName: string;
+  companyName: string;
+  mode: BillingMode;
+  status: BillingStatus;
+  stripeSubscriptionId: string;
+  // プラン名は reNovaPlans から画面側で引く（stripePriceId 優先）
+  planId: string;
+  stripePriceId: string;
+  cancelAtPeriodEnd: boolean | null;
+  currentPeriodEndMs: number | null;
+  // trial のみ（終了済みも含む）
+  trialEndMs: number | null;
+  companyId: string;
+  accountState: AccountState;
+};
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+function toBoolOrNull(v: unknown): boolean | null {
+  return typeof v === "boolean" ? v : null;
+}
+function toNumOrNull(v: unknown): number | null {
+  return typeof v === "number" ? v : null;
+}
+function pickStatus(v: unknown): BillingStatus {
+  return v === "active" ? "active" : "inactive";
+}
+function pickMode(v: unknown): BillingMode {
+  return v === "free" || v === "trial" || v === "company" ? v : "paid";
+}
+
+function oneOf<T extends string>(v: unknown, options: readonly T[]): T | null {
+  return typeof v === "string" && (options as readonly string[]).includes(v) ? (v as T) : null;
+}
+
+export function parseMemberListQuery(body: Record<string, unknown>): MemberListQuery {
+  return {
+    search: toStr(body.search).trim(),
+    searchField:
+      oneOf(body.searchField, Object.keys(SEARCH_FIELDS) as SearchField[]) ?? "email",
+    status: oneOf(body.status, ["active", "inactive"] as const),
+    mode: oneOf(body.mode, ["free", "paid", "trial", "company"] as const),
+    cancelScheduled: toBoolOrNull(body.cancelScheduled),
+    accountState: oneOf(body.accountState, ["disabled", "deleted"] as const),
+    sort: oneOf(body.sort, Object.keys(SORT_FIELDS) as SortKey[]) ?? "email",
+    dir: body.dir === "desc" ? "desc" : "asc",
+  };
+}
+
+/**
+ * Firestore のクエリを組み立てる
+ * - 前方一致検索は範囲条件なので、検索中はその項目順で並べる（sort 指定は無視）
+ * - 等価フィルタ × orderBy の組み合わせごとに複合インデックスが必要
+ * - orderBy の項目が無いドキュメントは結果に出ない（createdAt / currentPeriodEndMs の無い古いメンバー）
+ */
+export function buildMemberQuery(
+  db: admin.firestore.Firestore,
+  q: MemberListQuery,
+): admin.firestore.Query {
+  let query: admin.firestore.Query = db.collection(COL_MEMBERS);
+
+  if (q.status) query = query.where("billing.status", "==", q.status);
+  if (q.mode) query = query.where("billing.mode", "==", q.mode);
+  if (q.cancelScheduled !== null) {
+    query = query.where("billing.cancelAtPeriodEnd", "==", q.cancelScheduled);
+  }
+  if (q.accountState) query = query.where("account.state", "==", q.accountState);
+
+  if (q.search) {
+    const field = SEARCH_FIELDS[q.searchField];
+    return query
+      .where(field, ">=", q.search)
+      .where(field, "<=", `${q.search}\uf8ff`)
+      .orderBy(field, "asc");
+  }
+
+  return query.orderBy(SORT_FIELDS[q.sort], q.dir);
+}
+
+/**
+ * cursor（前ページ最後のドキュメント）の続きから
+ * - そのドキュメントが消えていれば null（黙って1ページ目に戻すと重複して並ぶ）
+ */
+export function startAfterCursor(
+  query: admin.firestore.Query,
+  cursorSnap: admin.firestore.DocumentSnapshot,
+): admin.firestore.Query | null {
+  return cursorSnap.exists ? query.startAfter(cursorSnap) : null;
+}
+
+export function toMemberRow(d: admin.firestore.DocumentSnapshot): MemberRow {
+  const data = (d.data() ?? {}) as Record<string, unknown>;
+  const billing = (data.billing as Record<string, unknown> | undefined) ?? {};
+  const profile = (data.profile as Record<string, unknown> | undefined) ?? {};
+
+  return {
+    uid: toStr(data.uid) || d.id,
+    email: toStr(data.email),
+    fullName: toStr(profile.fullName),
+    companyName: toStr(profile.companyName),
+    mode: pickMode(billing.mode),
+    status: pickStatus(billing.status),
+    stripeSubscriptionId: toStr(billing.stripeSubscriptionId),
+    planId: toStr(billing.planId),
+    stripePriceId: toStr(billing.stripePriceId),
+    cancelAtPeriodEnd: toBoolOrNull(billing.cancelAtPeriodEnd),
+    currentPeriodEndMs: toNumOrNull(billing.currentPeriodEndMs),
+    trialEndMs: billing.mode === "trial" ? (trialOf(billing)?.endMs ?? null) : null,
+    companyId: toStr(data.companyId),
+    accountState: accountStateOf(data),
+  };
+}
@@ -0,0 +1,201 @@
+import type admin from "firebase-admin";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const stripeMock = vi.hoisted(() => ({
+  subscriptions: { retrieve: vi.fn(), create: vi.fn() },
+  customers: { retrieve: vi.fn() },
+  paymentMethods: { list: vi.fn() },
+}));
+const mailMock = vi.hoisted(() => ({ send: vi.fn() }));
+const planMock = vi.hoisted(() => ({ getPlan: vi.fn() }));
+
+vi.mock("@/lib/stripe", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/stripe")>()),
+  getStripe: () => stripeMock,
+}));
+vi.mock("@/lib/mailer", () => ({ getMailer: () => mailMock }));
+vi.mock("@/lib/billingPlans", () => planMock);
+
+import {
+  newTrial,
+  processTrialMember,
+  trialOf,
+  trialStatusAt,
+  validateTrialRange,
+  TRIAL_MAX_DAYS,
+} from "./memberTrial";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15);
+
+// set() に渡された内容を記録するだけのスナップショット
+function fakeSnap(data: Record<string, unknown>) {
+  const writes: Record<string, unknown>[] = [];
+  const snap = {
+    id: "m1",
+    data: () => data,
+    ref: {
+      set: async (v: Record<string, unknown>) => {
+        writes.push(v);
+      },
+    },
+  } as unknown as admin.firestore.DocumentSnapshot;
+  return { snap, writes };
+}
+
+function trialMember(trial: { startMs: number; endMs: number }, billing: Record<string, unknown> = {}) {
+  return {
+    uid: "m1",
+    email: "a@example.com",
+    profile: { fullName: "山田" },
+    billing: { mode: "trial", status: "inactive", trial: newTrial(trial.startMs, trial.endMs), ...billing },
+  };
+}
+
+function billingWrite(writes: Record<string, unknown>[]): Record<string, unknown> {
+  return (writes[0]?.billing ?? {}) as Record<string, unknown>;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("trialStatusAt", () => {
+  const trial = { startMs: NOW, endMs: NOW + 10 * DAY_MS };
+
+  it("開始から終了の直前までだけ active", () => {
+    expect(trialStatusAt(trial, NOW - 1)).toBe("inactive");
+    expect(trialStatusAt(trial, NOW)).toBe("active");
+    expect(trialStatusAt(trial, trial.endMs - 1)).toBe("active");
+    expect(trialStatusAt(trial, trial.endMs)).toBe("inactive");
+  });
+});
+
+describe("validateTrialRange", () => {
+  it("日付の抜け・逆転・過去・長すぎをエラーにする", () => {
+    expect(validateTrialRange(null, NOW + DAY_MS, NOW)).toBe("trial_dates_required");
+    expect(validateTrialRange(NOW, NOW, NOW)).toBe("trial_end_before_start");
+    expect(validateTrialRange(NOW - 2 * DAY_MS, NOW - DAY_MS, NOW)).toBe("trial_end_in_past");
+    expect(validateTrialRange(NOW, NOW + (TRIAL_MAX_DAYS + 1) * DAY_MS, NOW)).toBe("trial_too_long");
+    expect(validateTrialRange(NOW, NOW + TRIAL_MAX_DAYS * DAY_MS, NOW)).toBeNull();
+  });
+});
+
+describe("trialOf", () => {
+  it("日付が揃っていなければ null、不明な outcome は null", () => {
+    expect(trialOf({})).toBeNull();
+    expect(trialOf({ trial: { startMs: NOW } })).toBeNull();
+    expect(trialOf({ trial: { startMs: NOW, endMs: NOW + DAY_MS, outcome: "x" } })).toEqual({
+      ...newTrial(NOW, NOW + DAY_MS),
+      outcome: null,
+    });
+  });
+});
+
+describe("processTrialMember", () => {
+  it("開始日が来たら active にする", async () => {
+    const { snap, writes } = fakeSnap(trialMember({ startMs: NOW - DAY_MS, endMs: NOW + 30 * DAY_MS }));
+
+    expect(await processTrialMember(snap, NOW)).toMatchObject({ action: "activated" });
+    expect(billingWrite(writes).status).toBe("active");
+  });
+
+  it("期限の7日前に1回だけリマインドする", async () => {
+    const member = trialMember({ startMs: NOW - DAY_MS, endMs: NOW + 5 * DAY_MS }, { status: "active" });
+    const { snap, writes } = fakeSnap(member);
+
+    expect(await processTrialMember(snap, NOW)).toMatchObject({ action: "reminded", detail: "5d" });
+    expect(mailMock.send).toHaveBeenCalledWith(expect.objectContaining({ to: "a@example.com" }));
+    expect(billingWrite(writes).trial).toEqual({ reminderSentAtMs: NOW });
+
+    const sent = trialMember({ startMs: NOW - DAY_MS, endMs: NOW + 5 * DAY_MS }, { status: "active" });
+    (sent.billing.trial as { reminderSentAtMs: number | null }).reminderSentAtMs = NOW - DAY_MS;
+    expect(await processTrialMember(fakeSnap(sent).snap, NOW)).toBeNull();
+  });
+
+  it("終了済み・削除済み・trial 以外は何もしない", async () => {
+    const ended = trialMember({ startMs: NOW - 30 * DAY_MS, endMs: NOW - DAY_MS });
+    (ended.billing.trial as { outcome: string | null }).outcome = "expired";
+    expect(await processTrialMember(fakeSnap(ended).snap, NOW)).toBeNull();
+
+    const deleted = { ...trialMember({ startMs: NOW, endMs: NOW + DAY_MS }), account: { state: "deleted" } };
+    expect(await processTrialMember(fakeSnap(deleted).snap, NOW)).toBeNull();
+
+    const paid = trialMember({ startMs: NOW, endMs: NOW + DAY_MS }, { mode: "paid" });
+    expect(await processTrialMember(fakeSnap(paid).snap, NOW)).toBeNull();
+  });
+
+  it("期限切れで顧客が無ければ inactive にして理由を残す", async () => {
+    const { snap, writes } = fakeSnap(trialMember({ startMs: NOW - 30 * DAY_MS, endMs: NOW - 1 }));
+
+    expect(await processTrialMember(snap, NOW)).toMatchObject({ action: "expired", detail: "no_customer" });
+    expect(billingWrite(writes)).toMatchObject({
+      status: "inactive",
+      trial: { endedAtMs: NOW, outcome: "expired", convertError: "no_customer" },
+    });
+  });
+
+  it("自分で契約済みのサブスクが生きていれば新しく作らず converted", async () => {
+    stripeMock.subscriptions.retrieve.mockResolvedValue({
+      id: "sub_own",
+      status: "active",
+      customer: "cus_1",
+      cancel_at_period_end: false,
+      items: { data: [{ price: { id: "price_1" }, current_period_end: NOW / 1000 + 3600 }] },
+    });
+    const member = trialMember(
+      { startMs: NOW - 30 * DAY_MS, endMs: NOW - 1 },
+      { stripeCustomerId: "cus_1", stripeSubscriptionId: "sub_own", planId: "basic" },
+    );
+    const { snap, writes } = fakeSnap(member);
+
+    expect(await processTrialMember(snap, NOW)).toMatchObject({
+      action: "converted",
+      detail: "existing:sub_own",
+    });
+    expect(stripeMock.subscriptions.create).not.toHaveBeenCalled();
+    expect(billingWrite(writes)).toMatchObject({
+      mode: "paid",
+      status: "active",
+      stripeSubscriptionId: "sub_own",
+      trial: { outcome: "converted" },
+    });
+    expect(billingWrite(writes)).not.toHaveProperty("planId");
+  });
+
+  it("支払い方法があればプランのサブスクを作って converted", async () => {
+    planMock.getPlan.mockResolvedValue({ id: "basic", active: true, stripePriceId: "price_basic" });
+    stripeMock.customers.retrieve.mockResolvedValue({
+      deleted: false,
+      invoice_settings: { default_payment_method: "pm_1" },
+    });
+    stripeMock.subscriptions.create.mockResolvedValue({
+      id: "sub_new",
+      status: "active",
+      customer: "cus_1",
+      cancel_at_period_end: false,
+      items: { data: [{ price: { id: "price_basic" } }] },
+    });
+    const trial = { startMs: NOW - 30 * DAY_MS, endMs: NOW - 1 };
+    const { snap, writes } = fakeSnap(trialMember(trial, { stripeCustomerId: "cus_1", planId: "basic" }));
+
+    expect(await processTrialMember(snap, NOW)).toMatchObject({ action: "converted", detail: "sub_new" });
+    expect(stripeMock.subscriptions.create).toHaveBeenCalledWith(
+      expect.objectContaining({ customer: "cus_1", default_payment_method: "pm_1" }),
+      { idempotencyKey: `trial-convert:m1:${trial.endMs}` },
+    );
+    expect(billingWrite(writes)).toMatchObject({ mode: "paid", planId: "basic", status: "active" });
+  });
+
+  it("Stripe で確認できなければ throw して、期限切れにしない", async () => {
+    stripeMock.subscriptions.retrieve.mockRejectedValue(new Error("network"));
+    const member = trialMember(
+      { startMs: NOW - 30 * DAY_MS, endMs: NOW - 1 },
+      { stripeCustomerId: "cus_1", stripeSubscriptionId: "sub_own" },
+    );
+    const { snap, writes } = fakeSnap(member);
+
+    await expect(processTrialMember(snap, NOW)).rejects.toThrow("network");
+    expect(writes).toEqual([]);
+  });
+});
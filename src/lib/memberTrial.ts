@@ -0,0 +1,302 @@
+// src/lib/memberTrial.ts
+// ✅ 期間限定の無料トライアル（billing.mode = "trial"）
+import admin from "firebase-admin";
+import type Stripe from "stripe";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { getMailer } from "@/lib/mailer";
+import { accountStateOf } from "@/lib/memberAccount";
+import { getPlan } from "@/lib/billingPlans";
+import { COL_MEMBERS, type BillingStatus } from "@/lib/reNovaMember";
+import { billingMirrorOf, getStripe, isLiveSubscriptionStatus, stripeId } from "@/lib/stripe";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REMINDER_DAYS = 7;
+// 作成フォームで指定できる最長期間
+export const TRIAL_MAX_DAYS = 365;
+
+// converted: Stripe のサブスクへ移行 / expired: 期限切れで inactive
+export type TrialOutcome = "converted" | "expired";
+
+export type TrialInfo = {
+  startMs: number;
+  endMs: number;
+  reminderSentAtMs: number | null;
+  endedAtMs: number | null;
+  outcome: TrialOutcome | null;
+  // 移行できなかった理由（支払い方法なし / プラン未設定 / Stripe エラー）
+  convertError: string;
+};
+
+export type TrialJobResult = {
+  uid: string;
+  action: "activated" | "reminded" | "converted" | "expired";
+  detail: string;
+};
+
+type DocRef = admin.firestore.DocumentReference;
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function toNumOrNull(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+// 期限の何日前にリマインドするか（TRIAL_REMINDER_DAYS、既定7日）
+export function trialReminderDays(): number {
+  const n = Number(process.env.TRIAL_REMINDER_DAYS);
+  return Number.isFinite(n) && n > 0 ? Math.trunc(n) : DEFAULT_REMINDER_DAYS;
+}
+
+export function trialOf(billing: Record<string, unknown>): TrialInfo | null {
+  const t = isObj(billing.trial) ? billing.trial : null;
+  if (!t) return null;
+  const startMs = toNumOrNull(t.startMs);
+  const endMs = toNumOrNull(t.endMs);
+  if (startMs === null || endMs === null) return null;
+  return {
+    startMs,
+    endMs,
+    reminderSentAtMs: toNumOrNull(t.reminderSentAtMs),
+    endedAtMs: toNumOrNull(t.endedAtMs),
+    outcome: t.outcome === "converted" || t.outcome === "expired" ? t.outcome : null,
+    convertError: toStr(t.convertError),
+  };
+}
+
+// 期間内だけ active（開始前・終了後は inactive）
+export function trialStatusAt(trial: { startMs: number; endMs: number }, now = Date.now()): BillingStatus {
+  return trial.startMs <= now && now < trial.endMs ? "active" : "inactive";
+}
+
+// create-user の入力チェック（エラーコード or null）
+export function validateTrialRange(
+  startMs: number | null,
+  endMs: number | null,
+  now = Date.now(),
+): string | null {
+  if (startMs === null || endMs === null) return "trial_dates_required";
+  if (endMs <= startMs) return "trial_end_before_start";
+  if (endMs <= now) return "trial_end_in_past";
+  if (endMs - startMs > TRIAL_MAX_DAYS * DAY_MS) return "trial_too_long";
+  return null;
+}
+
+// createMember に渡す billing.trial の初期値
+export function newTrial(startMs: number, endMs: number): TrialInfo {
+  return { startMs, endMs, reminderSentAtMs: null, endedAtMs: null, outcome: null, convertError: "" };
+}
+
+function fmtDate(ms: number): string {
+  return new Date(ms).toLocaleDateString("ja-JP", { timeZone: "Asia/Tokyo" });
+}
+
+function reminderMail(args: { fullName: string; endMs: number; daysLeft: number }) {
+  return {
+    subject: "【reNova】無料トライアル終了のお知らせ",
+    text: [
+      `${args.fullName || ""} 様`,
+      "",
+      `reNova の無料トライアルは ${fmtDate(args.endMs)} に終了します（残り${args.daysLeft}日）。`,
+      "引き続きご利用いただくには、終了日までにお支払い方法のご登録をお願いします。",
+      "ご登録がない場合、終了日以降はご利用いただけなくなります。",
+    ].join("\n"),
+  };
+}
+
+async function findPaymentMethod(stripe: Stripe, customerId: string): Promise<string> {
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted) return "";
+  const defaultPm = stripeId(customer.invoice_settings?.default_payment_method ?? null);
+  if (defaultPm) return defaultPm;
+  const pms = await stripe.paymentMethods.list({ customer: customerId, limit: 1 });
+  return pms.data[0]?.id ?? "";
+}
+
+/**
+ * トライアルのメンバー用の Stripe 顧客を作る（期限後の自動移行に必要）
+ * - create-user でプラン付きのトライアルを作ったときに呼ぶ
+ * - すでに stripeCustomerId があれば何もしない
+ */
+export async function ensureTrialCustomer(args: {
+  memberRef: DocRef;
+  uid: string;
+  email: string;
+  fullName: string;
+}): Promise<string> {
+  const snap = await args.memberRef.get();
+  const billing = isObj(snap.data()?.billing) ? (snap.data()?.billing as Record<string, unknown>) : {};
+  const existing = toStr(billing.stripeCustomerId);
+  if (existing) return existing;
+
+  const customer = await getStripe().customers.create(
+    {
+      email: args.email,
+      ...(args.fullName ? { name: args.fullName } : {}),
+      metadata: { uid: args.uid },
+    },
+    // 再実行で二重に作らない
+    { idempotencyKey: `trial-customer:${args.uid}` },
+  );
+  await args.memberRef.set({ billing: { stripeCustomerId: customer.id } }, { merge: true });
+  return customer.id;
+}
+
+// 記録済みのサブスクがまだ生きていれば返す（自分で契約した / 前回の移行で作成済み）
+async function findLiveSubscription(
+  stripe: Stripe,
+  billing: Record<string, unknown>,
+): Promise<Stripe.Subscription | null> {
+  const subId = toStr(billing.stripeSubscriptionId);
+  if (!subId) return null;
+  try {
+    const sub = await stripe.subscriptions.retrieve(subId);
+    return isLiveSubscriptionStatus(sub.status) ? sub : null;
+  } catch (e) {
+    if (isObj(e) && e.code === "resource_missing") return null;
+    throw e;
+  }
+}
+
+/**
+ * 期限切れトライアルをサブスクへ移行（できなければ理由を返す）
+ * - すでに生きているサブスクがあれば新しく作らない（existing = true）
+ * - 移行先は billing.planId のプラン、支払い方法は顧客の既定 or 登録済みの1件目
+ */
+async function tryConvert(
+  uid: string,
+  billing: Record<string, unknown>,
+  trial: TrialInfo,
+): Promise<{ sub: Stripe.Subscription; planId: string; existing: boolean } | { error: string }> {
+  const stripe = getStripe();
+  // 確認できないときは throw（期限切れにせず、cron の failed に出して翌日やり直す）
+  const live = await findLiveSubscription(stripe, billing);
+  if (live) return { sub: live, planId: toStr(billing.planId), existing: true };
+
+  const customerId = toStr(billing.stripeCustomerId);
+  if (!customerId) return { error: "no_customer" };
+
+  const plan = await getPlan(toStr(billing.planId));
+  if (!plan) return { error: "no_plan" };
+  if (!plan.active) return { error: "plan_inactive" };
+
+  try {
+    const paymentMethod = await findPaymentMethod(stripe, customerId);
+    if (!paymentMethod) return { error: "no_payment_method" };
+
+    const sub = await stripe.subscriptions.create(
+      {
+        customer: customerId,
+        items: [{ price: plan.stripePriceId }],
+        default_payment_method: paymentMethod,
+        metadata: { uid, planId: plan.id, source: "trial_conversion" },
+      },
+      // cron の再実行で二重に作らない
+      { idempotencyKey: `trial-convert:${uid}:${trial.endMs}` },
+    );
+    return { sub, planId: plan.id, existing: false };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : "UNKNOWN" };
+  }
+}
+
+async function endTrial(
+  memberRef: DocRef,
+  uid: string,
+  billing: Record<string, unknown>,
+  trial: TrialInfo,
+  now: number,
+): Promise<TrialJobResult> {
+  const converted = await tryConvert(uid, billing, trial);
+
+  // 自分で契約済みのサブスクは状態をミラーするだけ（planId は契約時のものを残す）
+  if ("sub" in converted) {
+    await memberRef.set(
+      {
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        billing: {
+          mode: "paid",
+          ...billingMirrorOf(converted.sub),
+          ...(converted.existing ? {} : { planId: converted.planId }),
+          trial: { endedAtMs: now, outcome: "converted", convertError: "" },
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      },
+      { merge: true },
+    );
+    return {
+      uid,
+      action: "converted",
+      detail: converted.existing ? `existing:${converted.sub.id}` : converted.sub.id,
+    };
+  }
+
+  await memberRef.set(
+    {
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      billing: {
+        status: "inactive",
+        trial: { endedAtMs: now, outcome: "expired", convertError: converted.error },
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    },
+    { merge: true },
+  );
+  return { uid, action: "expired", detail: converted.error };
+}
+
+/**
+ * トライアル中メンバー1件分の処理（cron から）
+ * - 期限切れ → 移行 or inactive / 開始日到来 → active / 期限 N 日前 → リマインド（1回だけ）
+ * - 何もしなければ null
+ */
+export async function processTrialMember(
+  snap: admin.firestore.DocumentSnapshot,
+  now = Date.now(),
+): Promise<TrialJobResult | null> {
+  const data = (snap.data() ?? {}) as Record<string, unknown>;
+  const billing = isObj(data.billing) ? data.billing : {};
+  const trial = trialOf(billing);
+  if (billing.mode !== "trial" || !trial || trial.outcome) return null;
+  if (accountStateOf(data) === "deleted") return null;
+
+  const uid = toStr(data.uid) || snap.id;
+  const memberRef = snap.ref;
+
+  if (now >= trial.endMs) return endTrial(memberRef, uid, billing, trial, now);
+
+  if (trialStatusAt(trial, now) === "active" && billing.status !== "active") {
+    await memberRef.set(
+      { billing: { status: "active", updatedAt: admin.firestore.FieldValue.serverTimestamp() } },
+      { merge: true },
+    );
+    return { uid, action: "activated", detail: "" };
+  }
+
+  const daysLeft = Math.ceil((trial.endMs - now) / DAY_MS);
+  if (trial.reminderSentAtMs === null && now >= trial.startMs && daysLeft <= trialReminderDays()) {
+    const email = toStr(data.email);
+    const profile = isObj(data.profile) ? data.profile : {};
+    if (!email) return null;
+
+    await getMailer().send({
+      to: email,
+      ...reminderMail({ fullName: toStr(profile.fullName), endMs: trial.endMs, daysLeft }),
+    });
+    await memberRef.set({ billing: { trial: { reminderSentAtMs: now } } }, { merge: true });
+    return { uid, action: "reminded", detail: `${daysLeft}d` };
+  }
+
+  return null;
+}
+
+// mode == trial のメンバー（終了済みも含む。件数は少ない前提）
+export async function listTrialMembers(): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const snap = await getAdminDb().collection(COL_MEMBERS).where("billing.mode", "==", "trial").get();
+  return snap.docs;
+}
@@ -0,0 +1,9 @@
+// src/lib/money.ts
+// ✅ Stripe の金額（最小通貨単位）の表示。JPY などはそのまま、USD 等は 1/100
+const ZERO_DECIMAL = ["jpy", "krw", "vnd"];
+
+export function fmtMoney(amount: number, currency: string): string {
+  const cur = (currency || "jpy").toLowerCase();
+  const value = ZERO_DECIMAL.includes(cur) ? amount : amount / 100;
+  return new Intl.NumberFormat("ja-JP", { style: "currency", currency: cur.toUpperCase() }).format(value);
+}
@@ -0,0 +1,47 @@
+import admin from "firebase-admin";
+import { describe, expect, it } from "vitest";
+import { billingPatchForCompany, toCompany } from "./reNovaCompany";
+
+function company(mode: "member" | "company") {
+  return toCompany("c1", {
+    name: "会社",
+    billing:
+      mode === "company"
+        ? { mode, status: "active", stripeStatus: "active", stripeSubscriptionId: "sub_c" }
+        : { mode },
+  });
+}
+
+const trialing = {
+  mode: "trial",
+  status: "active",
+  planId: "basic",
+  trial: { startMs: 1, endMs: 2, outcome: null },
+};
+
+describe("billingPatchForCompany", () => {
+  it("会社課金の会社に入ると、個別のトライアルとプランを消す", () => {
+    const patch = billingPatchForCompany(trialing, company("company"));
+
+    expect(patch).toMatchObject({ mode: "company", status: "active" });
+    expect(patch!.trial).toEqual(admin.firestore.FieldValue.delete());
+    expect(patch!.planId).toEqual(admin.firestore.FieldValue.delete());
+  });
+
+  it("個別のサブスクが生きていれば会社課金の会社には入れない", () => {
+    const own = { mode: "paid", stripeSubscriptionId: "sub_own", stripeStatus: "active" };
+    expect(() => billingPatchForCompany(own, company("company"))).toThrow("member_has_own_subscription");
+  });
+
+  it("個別課金の会社なら billing は変えない", () => {
+    expect(billingPatchForCompany(trialing, company("member"))).toBeNull();
+    expect(billingPatchForCompany(trialing, null)).toBeNull();
+  });
+
+  it("会社課金から抜けると個別課金（inactive）に戻す", () => {
+    expect(billingPatchForCompany({ mode: "company", status: "active" }, null)).toEqual({
+      mode: "paid",
+      status: "inactive",
+    });
+  });
+});
@@ -0,0 +1,376 @@
+// src/lib/reNovaCompany.ts
+// ✅ 会社（reNovaCompany）とメンバーの所属・席数
+// - メンバーは companyId で所属。profile.companyName / companyAddress は会社からのコピー（一覧検索・出力用）
+import admin from "firebase-admin";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { COL_MEMBERS, type BillingStatus } from "@/lib/reNovaMember";
+
+export const COL_COMPANIES = "reNovaCompany";
+
+// member: メンバーごとに課金（従来）/ company: 会社の1サブスクで席数分をまとめて課金
+export type CompanyBillingMode = "member" | "company";
+
+export type InvoiceAddress = {
+  name: string;
+  postalCode: string;
+  address: string;
+  email: string;
+};
+
+export type CompanyBilling = {
+  mode: CompanyBillingMode;
+  status: BillingStatus;
+  stripeStatus: string;
+  stripeCustomerId: string;
+  stripeSubscriptionId: string;
+  stripePriceId: string;
+  planId: string;
+  // サブスクの数量（= 課金している席数）
+  seats: number | null;
+  cancelAtPeriodEnd: boolean | null;
+  currentPeriodEndMs: number | null;
+};
+
+export type Company = {
+  id: string;
+  name: string;
+  // 表記ゆれ吸収用（companyNameKey）
+  nameKey: string;
+  address: string;
+  invoiceAddress: InvoiceAddress;
+  // null = 無制限
+  seatLimit: number | null;
+  billing: CompanyBilling;
+  createdAtMs: number;
+  updatedAtMs: number;
+};
+
+export type CompanyInput = {
+  name: string;
+  address: string;
+  invoiceAddress: InvoiceAddress;
+  seatLimit: number | null;
+};
+
+export class CompanyError extends Error {
+  readonly status: 400 | 404 | 409;
+
+  constructor(code: string, status: 400 | 404 | 409 = 400) {
+    super(code);
+    this.name = "CompanyError";
+    this.status = status;
+  }
+}
+
+type DocRef = admin.firestore.DocumentReference;
+
+const MAX_SEATS = 10000;
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+function toNumOrNull(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function toBoolOrNull(v: unknown): boolean | null {
+  return typeof v === "boolean" ? v : null;
+}
+
+/**
+ * 会社名の比較キー（全角半角・空白・大小文字・法人格の書き方の違いを吸収）
+ * 例）「株式会社 TSリフォーム」「(株)ＴＳリフォーム」→「tsリフォーム」
+ */
+export function companyNameKey(name: string): string {
+  return name
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/株式会社|有限会社|合同会社|\(株\)|\(有\)|\(同\)|㈱|㈲/g, "")
+    .replace(/\s+/g, "");
+}
+
+function toInvoiceAddress(v: unknown): InvoiceAddress {
+  const o = isObj(v) ? v : {};
+  return {
+    name: toStr(o.name),
+    postalCode: toStr(o.postalCode),
+    address: toStr(o.address),
+    email: toStr(o.email),
+  };
+}
+
+function toCompanyBilling(v: unknown): CompanyBilling {
+  const b = isObj(v) ? v : {};
+  return {
+    mode: b.mode === "company" ? "company" : "member",
+    status: b.status === "active" ? "active" : "inactive",
+    stripeStatus: toStr(b.stripeStatus),
+    stripeCustomerId: toStr(b.stripeCustomerId),
+    stripeSubscriptionId: toStr(b.stripeSubscriptionId),
+    stripePriceId: toStr(b.stripePriceId),
+    planId: toStr(b.planId),
+    seats: toNumOrNull(b.seats),
+    cancelAtPeriodEnd: toBoolOrNull(b.cancelAtPeriodEnd),
+    currentPeriodEndMs: toNumOrNull(b.currentPeriodEndMs),
+  };
+}
+
+export function toCompany(id: string, data: Record<string, unknown>): Company {
+  const name = toStr(data.name);
+  return {
+    id,
+    name,
+    nameKey: toStr(data.nameKey) || companyNameKey(name),
+    address: toStr(data.address),
+    invoiceAddress: toInvoiceAddress(data.invoiceAddress),
+    seatLimit: toNumOrNull(data.seatLimit),
+    billing: toCompanyBilling(data.billing),
+    createdAtMs: toNumOrNull(data.createdAtMs) ?? 0,
+    updatedAtMs: toNumOrNull(data.updatedAtMs) ?? 0,
+  };
+}
+
+export function parseCompanyInput(body: Record<string, unknown>): CompanyInput {
+  const seat = body.seatLimit;
+  return {
+    name: toStr(body.name),
+    address: toStr(body.address),
+    invoiceAddress: toInvoiceAddress(body.invoiceAddress),
+    seatLimit: typeof seat === "number" ? seat : null,
+  };
+}
+
+export function validateCompanyInput(input: CompanyInput): string | null {
+  if (!input.name) return "name_required";
+  if (
+    input.seatLimit !== null &&
+    (!Number.isInteger(input.seatLimit) || input.seatLimit < 1 || input.seatLimit > MAX_SEATS)
+  ) {
+    return "seatLimit_invalid";
+  }
+  if (input.invoiceAddress.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.invoiceAddress.email)) {
+    return "invoiceEmail_invalid";
+  }
+  return null;
+}
+
+export function companyRef(id: string): DocRef {
+  return getAdminDb().collection(COL_COMPANIES).doc(id);
+}
+
+export function companyMembersQuery(companyId: string): admin.firestore.Query {
+  return getAdminDb().collection(COL_MEMBERS).where("companyId", "==", companyId);
+}
+
+// 席の使用数 = 所属メンバー数（停止中・論理削除中も含む。物理削除で空く）
+export async function countCompanyMembers(companyId: string): Promise<number> {
+  const snap = await companyMembersQuery(companyId).count().get();
+  return snap.data().count;
+}
+
+export async function getCompany(id: string): Promise<Company | null> {
+  if (!id) return null;
+  const snap = await companyRef(id).get();
+  return snap.exists ? toCompany(snap.id, snap.data() ?? {}) : null;
+}
+
+// 件数は多くない前提で全件を名前順に
+export async function listCompanies(): Promise<Company[]> {
+  const snap = await getAdminDb().collection(COL_COMPANIES).get();
+  return snap.docs
+    .map((d) => toCompany(d.id, d.data()))
+    .sort((a, b) => a.name.localeCompare(b.name, "ja"));
+}
+
+export async function findCompanyByName(name: string): Promise<Company | null> {
+  const key = companyNameKey(name);
+  if (!key) return null;
+  const snap = await getAdminDb().collection(COL_COMPANIES).where("nameKey", "==", key).limit(1).get();
+  return snap.empty ? null : toCompany(snap.docs[0]!.id, snap.docs[0]!.data());
+}
+
+/**
+ * 会社の作成（同じ nameKey の会社があれば作らずにそれを返す）
+ */
+export async function createCompany(
+  input: CompanyInput,
+  actorUid: string,
+): Promise<{ company: Company; created: boolean }> {
+  const existing = await findCompanyByName(input.name);
+  if (existing) return { company: existing, created: false };
+
+  const now = Date.now();
+  const ref = getAdminDb().collection(COL_COMPANIES).doc();
+  const data = {
+    name: input.name,
+    nameKey: companyNameKey(input.name),
+    address: input.address,
+    invoiceAddress: input.invoiceAddress,
+    seatLimit: input.seatLimit,
+    billing: { mode: "member", status: "inactive" },
+    createdAtMs: now,
+    updatedAtMs: now,
+    createdBy: actorUid,
+    updatedBy: actorUid,
+  };
+  await ref.set(data);
+  return { company: toCompany(ref.id, data), created: true };
+}
+
+// create-user 用：空きが無ければ CompanyError（確定はトランザクションで再確認）
+export async function requireSeatAvailable(company: Company): Promise<void> {
+  if (company.seatLimit === null) return;
+  if ((await countCompanyMembers(company.id)) >= company.seatLimit) {
+    throw new CompanyError("seat_limit_reached", 409);
+  }
+}
+
+// 会社名・住所の変更を所属メンバーの profile に反映
+async function propagateProfile(company: Company): Promise<number> {
+  const db = getAdminDb();
+  const snap = await companyMembersQuery(company.id).get();
+
+  for (let i = 0; i < snap.docs.length; i += 400) {
+    const batch = db.batch();
+    for (const d of snap.docs.slice(i, i + 400)) {
+      batch.set(
+        d.ref,
+        {
+          profile: { companyName: company.name, companyAddress: company.address },
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        { merge: true },
+      );
+    }
+    await batch.commit();
+  }
+  return snap.size;
+}
+
+/**
+ * 会社情報の更新
+ * - 席数は所属メンバー数より減らせない
+ * - 名前・住所が変わったら所属メンバーの profile も書き換える
+ * - 会社課金中の席数変更は companyBilling.updateCompanyWithSeats から（Stripe の数量も変える）
+ */
+export async function updateCompany(
+  id: string,
+  input: CompanyInput,
+  actorUid: string,
+): Promise<{ before: Company; after: Company; propagated: number }> {
+  const before = await getCompany(id);
+  if (!before) throw new CompanyError("company_not_found", 404);
+
+  const nameKey = companyNameKey(input.name);
+  if (nameKey !== before.nameKey) {
+    const dup = await findCompanyByName(input.name);
+    if (dup && dup.id !== id) throw new CompanyError("company_name_in_use", 409);
+  }
+
+  if (input.seatLimit !== null && input.seatLimit < (await countCompanyMembers(id))) {
+    throw new CompanyError("seatLimit_below_members", 409);
+  }
+
+  await companyRef(id).set(
+    {
+      name: input.name,
+      nameKey,
+      address: input.address,
+      invoiceAddress: input.invoiceAddress,
+      seatLimit: input.seatLimit,
+      updatedAtMs: Date.now(),
+      updatedBy: actorUid,
+    },
+    { merge: true },
+  );
+
+  const after = (await getCompany(id))!;
+  const propagated =
+    after.name !== before.name || after.address !== before.address ? await propagateProfile(after) : 0;
+
+  return { before, after, propagated };
+}
+
+const ENDED_STATUSES: readonly string[] = ["canceled", "incomplete_expired"];
+
+// 個別のサブスクが生きているか（会社課金と二重にならないように）
+export function hasOwnLiveSubscription(billing: Record<string, unknown>): boolean {
+  const subId = toStr(billing.stripeSubscriptionId);
+  return !!subId && !ENDED_STATUSES.includes(toStr(billing.stripeStatus));
+}
+
+/**
+ * 所属変更で billing に書く内容（変えなければ null）
+ * - 会社課金の会社に入る: mode = company（status は会社のサブスクに従う）
+ *   個別のトライアル・プランは消す（trial cron や集計が個別課金・トライアル中と見ないように）
+ * - 会社課金の会社から抜ける: 個別課金（paid / inactive）に戻す
+ */
+export function billingPatchForCompany(
+  billing: Record<string, unknown>,
+  company: Company | null,
+): Record<string, unknown> | null {
+  if (company?.billing.mode === "company") {
+    if (hasOwnLiveSubscription(billing)) throw new CompanyError("member_has_own_subscription", 409);
+    return {
+      mode: "company",
+      status: company.billing.status,
+      trial: admin.firestore.FieldValue.delete(),
+      planId: admin.firestore.FieldValue.delete(),
+    };
+  }
+  return billing.mode === "company" ? { mode: "paid", status: "inactive" } : null;
+}
+
+/**
+ * メンバーの所属を変更（companyId = null で所属解除）
+ * - 席数の上限はトランザクション内で数えて確認
+ * - billing は billingPatchForCompany の通り
+ */
+export async function assignMemberToCompany(
+  memberRef: DocRef,
+  companyId: string | null,
+): Promise<{ fromCompanyId: string; toCompanyId: string }> {
+  const db = getAdminDb();
+
+  return db.runTransaction(async (tx) => {
+    const memberSnap = await tx.get(memberRef);
+    if (!memberSnap.exists) throw new CompanyError("NOT_FOUND", 404);
+    const data = memberSnap.data() ?? {};
+    const billing = isObj(data.billing) ? data.billing : {};
+    const fromCompanyId = toStr(data.companyId);
+    const toCompanyId = companyId ?? "";
+
+    if (fromCompanyId === toCompanyId) return { fromCompanyId, toCompanyId };
+
+    const patch: Record<string, unknown> = {
+      companyId: toCompanyId || admin.firestore.FieldValue.delete(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    let company: Company | null = null;
+    if (toCompanyId) {
+      const companySnap = await tx.get(companyRef(toCompanyId));
+      if (!companySnap.exists) throw new CompanyError("company_not_found", 404);
+      company = toCompany(companySnap.id, companySnap.data() ?? {});
+
+      const used = (await tx.get(companyMembersQuery(toCompanyId).count())).data().count;
+      if (company.seatLimit !== null && used >= company.seatLimit) {
+        throw new CompanyError("seat_limit_reached", 409);
+      }
+
+      patch.profile = { companyName: company.name, companyAddress: company.address };
+    }
+
+    const billingPatch = billingPatchForCompany(billing, company);
+    if (billingPatch) {
+      patch.billing = { ...billingPatch, updatedAt: admin.firestore.FieldValue.serverTimestamp() };
+    }
+
+    tx.set(memberRef, patch, { merge: true });
+    return { fromCompanyId, toCompanyId };
+  });
+}
@@ -0,0 +1,105 @@
+// src/lib/reNovaMember.ts
+import admin from "firebase-admin";
+import { getAdminAuth, getAdminDb } from "@/lib/firebaseAdmin";
+import type { MemberInput } from "@/lib/memberProfile";
+import type { TrialInfo } from "@/lib/memberTrial";
+
+export const COL_MEMBERS = "reNovaMember";
+
+// trial: 期間限定の無料（billing.trial の期間内だけ active。期限処理は cron）
+// company: 所属会社のサブスクで課金（status は reNovaCompany.billing に従う）
+export type BillingMode = "free" | "paid" | "trial" | "company";
+export type BillingStatus = "active" | "inactive";
+
+type DocRef = admin.firestore.DocumentReference;
+
+export async function findMemberRefByUid(uid: string): Promise<DocRef | null> {
+  const db = getAdminDb();
+
+  // 1) docId = uid
+  const byId = db.collection(COL_MEMBERS).doc(uid);
+  const byIdSnap = await byId.get();
+  if (byIdSnap.exists) return byId;
+
+  // 2) auto docId + uid field
+  const q = await db.collection(COL_MEMBERS).where("uid", "==", uid).limit(1).get();
+  if (q.empty) return null;
+  return q.docs[0].ref;
+}
+
+async function findOneBy(field: string, value: string): Promise<DocRef | null> {
+  if (!value) return null;
+  const q = await getAdminDb().collection(COL_MEMBERS).where(field, "==", value).limit(1).get();
+  return q.empty ? null : q.docs[0].ref;
+}
+
+// Stripe側の情報からメンバーを探す（metadata.uid → subscriptionId → customerId の順）
+export async function findMemberRefByStripe(args: {
+  uid?: string;
+  stripeSubscriptionId?: string;
+  stripeCustomerId?: string;
+}): Promise<DocRef | null> {
+  if (args.uid) {
+    const byUid = await findMemberRefByUid(args.uid);
+    if (byUid) return byUid;
+  }
+
+  const bySub = await findOneBy("billing.stripeSubscriptionId", args.stripeSubscriptionId ?? "");
+  if (bySub) return bySub;
+
+  return findOneBy("billing.stripeCustomerId", args.stripeCustomerId ?? "");
+}
+
+/**
+ * Auth ユーザー + reNovaMember ドキュメントを作成（create-user / CSV取り込み共通）
+ * - password 省略時はパスワード無しで作成（本人がパスワード再設定から設定する）
+ */
+export async function createMember(args: {
+  input: MemberInput;
+  password?: string;
+  billingMode: BillingMode;
+  // paid / trial のみ。reNovaPlans の docId（未指定 = 未割当て。trial は移行先のプラン）
+  planId?: string;
+  // trial のみ（memberTrial.newTrial で作る）
+  trial?: TrialInfo;
+  // 省略時は mode から（free = active / それ以外 = inactive）
+  status?: BillingStatus;
+}): Promise<DocRef> {
+  const { email, profile } = args.input;
+
+  // --- create auth user ---
+  const userRecord = await getAdminAuth().createUser({
+    email,
+    ...(args.password ? { password: args.password } : {}),
+    displayName: profile.fullName,
+  });
+
+  const uid = userRecord.uid;
+
+  // ✅ ここが reNovaMember
+  const memberRef = getAdminDb().collection(COL_MEMBERS).doc(uid);
+  await memberRef.set(
+    {
+      uid,
+      email,
+
+      profile,
+
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+
+      billing: {
+        mode: args.billingMode, // free / paid
+        status: args.status ?? (args.billingMode === "free" ? "active" : "inactive"),
+        stripeCustomerId: "",
+        stripeSubscriptionId: "",
+        ...(args.planId ? { planId: args.planId } : {}),
+        ...(args.trial ? { trial: args.trial } : {}),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    },
+    { merge: true },
+  );
+
+  return memberRef;
+}
@@ -0,0 +1,66 @@
+// src/lib/stripe.ts
+import Stripe from "stripe";
+import type { BillingStatus } from "@/lib/reNovaMember";
+
+function mustEnv(name: string): string {
+  const v = process.env[name];
+  if (!v || !v.trim()) throw new Error(`${name} is missing`);
+  return v;
+}
+
+/**
+ * STRIPE_API_HOST / STRIPE_API_PORT / STRIPE_API_PROTOCOL を指定するとその宛先へ
+ * （ローカルの stripe-mock などで動作確認する用。本番では未設定）
+ */
+export function getStripe(): Stripe {
+  const host = process.env.STRIPE_API_HOST ?? "";
+  const port = process.env.STRIPE_API_PORT ?? "";
+  const protocol = process.env.STRIPE_API_PROTOCOL === "http" ? "http" : "https";
+
+  return new Stripe(mustEnv("STRIPE_SECRET_KEY"), {
+    ...(host ? { host, protocol } : {}),
+    ...(host && port ? { port: Number(port) } : {}),
+  });
+}
+
+export function getStripeWebhookSecret(): string {
+  return mustEnv("STRIPE_WEBHOOK_SECRET");
+}
+
+// Stripe の subscription.status → reNovaMember.billing.status
+export function toBillingStatus(stripeStatus: Stripe.Subscription.Status): BillingStatus {
+  return stripeStatus === "active" || stripeStatus === "trialing" ? "active" : "inactive";
+}
+
+// 終わっていないサブスク（解約済み・未完了のまま期限切れ 以外）。二重作成・上書きを防ぐ判定用
+export function isLiveSubscriptionStatus(stripeStatus: string): boolean {
+  return stripeStatus !== "canceled" && stripeStatus !== "incomplete_expired";
+}
+
+// current_period_end は新しいAPIでは items 側にある（旧フィールドも一応見る）
+export function subscriptionPeriodEndMs(sub: Stripe.Subscription): number | null {
+  const item = sub.items?.data?.[0];
+  if (item && typeof item.current_period_end === "number") {
+    return item.current_period_end * 1000;
+  }
+  const legacy = (sub as unknown as { current_period_end?: unknown }).current_period_end;
+  return typeof legacy === "number" ? legacy * 1000 : null;
+}
+
+export function stripeId(v: string | { id: string } | null | undefined): string {
+  if (!v) return "";
+  return typeof v === "string" ? v : v.id;
+}
+
+// reNovaMember.billing にミラーする項目（webhook / 突合の修正で共通）
+export function billingMirrorOf(sub: Stripe.Subscription) {
+  return {
+    status: toBillingStatus(sub.status),
+    stripeStatus: sub.status,
+    stripeCustomerId: stripeId(sub.customer),
+    stripeSubscriptionId: sub.id,
+    stripePriceId: sub.items?.data?.[0]?.price?.id ?? "",
+    cancelAtPeriodEnd: sub.cancel_at_period_end,
+    currentPeriodEndMs: subscriptionPeriodEndMs(sub),
+  };
+}
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const stripeMock = vi.hoisted(() => ({
+  subscriptions: { cancel: vi.fn() },
+  customers: { createBalanceTransaction: vi.fn() },
+  refunds: { create: vi.fn() },
+}));
+
+vi.mock("@/lib/stripe", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/stripe")>()),
+  getStripe: () => stripeMock,
+}));
+
+import { cancelImmediately, fixedCancelPlans, resolveCancelPlan, type LastPayment } from "./stripeCancel";
+
+const lastPayment: LastPayment = {
+  invoiceId: "in_1",
+  invoiceNumber: "0001",
+  amountPaid: 3000,
+  paidAtMs: null,
+  paymentIntentId: "pi_1",
+  chargeId: "ch_1",
+  refundable: 3000,
+};
+
+const preview = { prorationCredit: 1200, lastPayment };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  stripeMock.subscriptions.cancel.mockResolvedValue({ id: "sub_1", status: "canceled" });
+});
+
+describe("resolveCancelPlan", () => {
+  it("クレジットと返金はどちらか一方だけ", () => {
+    expect(resolveCancelPlan("none", null, preview)).toEqual({ creditAmount: 0, refundAmount: 0 });
+    expect(resolveCancelPlan("credit", null, preview)).toEqual({ creditAmount: 1200, refundAmount: 0 });
+    expect(resolveCancelPlan("prorated_refund", null, preview)).toEqual({ creditAmount: 0, refundAmount: 1200 });
+    expect(resolveCancelPlan("full_refund", null, preview)).toEqual({ creditAmount: 0, refundAmount: 3000 });
+    expect(resolveCancelPlan("partial_refund", 500, preview)).toEqual({ creditAmount: 0, refundAmount: 500 });
+  });
+
+  it("未使用分の返金は返金可能額まで", () => {
+    const small = { prorationCredit: 5000, lastPayment: { ...lastPayment, refundable: 800 } };
+    expect(resolveCancelPlan("prorated_refund", null, small).refundAmount).toBe(800);
+  });
+
+  it("補償できない・範囲外の額はエラー", () => {
+    expect(() => resolveCancelPlan("credit", null, { ...preview, prorationCredit: 0 })).toThrow("nothing_to_credit");
+    expect(() => resolveCancelPlan("full_refund", null, { ...preview, lastPayment: null })).toThrow("nothing_to_refund");
+    expect(() => resolveCancelPlan("partial_refund", 1.5, preview)).toThrow("refundAmount_invalid");
+    expect(() => resolveCancelPlan("partial_refund", 3001, preview)).toThrow("refundAmount_exceeds_refundable");
+  });
+});
+
+describe("fixedCancelPlans", () => {
+  it("選べない補償は null", () => {
+    expect(fixedCancelPlans({ prorationCredit: 1200, lastPayment: null })).toEqual({
+      none: { creditAmount: 0, refundAmount: 0 },
+      credit: { creditAmount: 1200, refundAmount: 0 },
+      prorated_refund: null,
+      full_refund: null,
+    });
+  });
+});
+
+describe("cancelImmediately", () => {
+  const base = {
+    subscriptionId: "sub_1",
+    customerId: "cus_1",
+    currency: "jpy",
+    lastPayment,
+    metadata: { uid: "m1" },
+  };
+
+  it("Stripe の日割りは使わず、クレジットだけ付ける", async () => {
+    stripeMock.customers.createBalanceTransaction.mockResolvedValue({ id: "cbtxn_1", amount: -1200 });
+
+    const result = await cancelImmediately({ ...base, plan: { creditAmount: 1200, refundAmount: 0 } });
+
+    expect(stripeMock.subscriptions.cancel).toHaveBeenCalledWith("sub_1", { prorate: false, invoice_now: false });
+    expect(stripeMock.customers.createBalanceTransaction).toHaveBeenCalledWith(
+      "cus_1",
+      expect.objectContaining({ amount: -1200, currency: "jpy" }),
+      { idempotencyKey: "cancel-credit:sub_1:1200" },
+    );
+    expect(stripeMock.refunds.create).not.toHaveBeenCalled();
+    expect(result.credit).toMatchObject({ id: "cbtxn_1" });
+  });
+
+  it("全額返金ではクレジットを付けない", async () => {
+    stripeMock.refunds.create.mockResolvedValue({ id: "re_1", amount: 3000 });
+
+    await cancelImmediately({ ...base, plan: { creditAmount: 0, refundAmount: 3000 } });
+
+    expect(stripeMock.subscriptions.cancel).toHaveBeenCalledWith("sub_1", { prorate: false, invoice_now: false });
+    expect(stripeMock.refunds.create).toHaveBeenCalledWith(
+      expect.objectContaining({ payment_intent: "pi_1", amount: 3000 }),
+      { idempotencyKey: "cancel-refund:sub_1:3000" },
+    );
+    expect(stripeMock.customers.createBalanceTransaction).not.toHaveBeenCalled();
+  });
+
+  it("解約後に返金が失敗したら理由を返す", async () => {
+    stripeMock.refunds.create.mockRejectedValue(new Error("charge_already_refunded"));
+
+    const result = await cancelImmediately({ ...base, plan: { creditAmount: 0, refundAmount: 3000 } });
+
+    expect(result).toMatchObject({ refund: null, remedyError: "charge_already_refunded" });
+  });
+});
@@ -0,0 +1,241 @@
+// src/lib/stripeCancel.ts
+// ✅ 即時解約（日割りクレジット or 返金のどちらか1つ）とそのプレビュー
+import type Stripe from "stripe";
+import { getStripe, stripeId } from "@/lib/stripe";
+
+// 1回の解約で選べる補償は1つだけ（日割りクレジットと返金を重ねると二重に補償になる）
+// - credit: 未使用分を顧客残高へ / prorated_refund: 未使用分だけ返金
+// - full_refund: 最新請求書を全額返金 / partial_refund: 金額を指定して返金
+export const CANCEL_REMEDIES = ["none", "credit", "prorated_refund", "full_refund", "partial_refund"] as const;
+export type CancelRemedy = (typeof CANCEL_REMEDIES)[number];
+
+export type LastPayment = {
+  invoiceId: string;
+  invoiceNumber: string;
+  amountPaid: number;
+  paidAtMs: number | null;
+  paymentIntentId: string;
+  chargeId: string;
+  // 返金可能額（支払額 - 返金済み額）
+  refundable: number;
+};
+
+export type CancelPreview = {
+  subscriptionId: string;
+  subscriptionStatus: Stripe.Subscription.Status;
+  customerId: string;
+  currency: string;
+  // 未使用期間の日割りクレジット（正の値、最小通貨単位）
+  prorationCredit: number;
+  lastPayment: LastPayment | null;
+  // 本番の解約にも同じ値を渡して、プレビューと同じ日割りにする
+  prorationDate: number;
+};
+
+// 実際に行う補償（どちらか一方だけが正）
+export type CancelPlan = {
+  creditAmount: number;
+  refundAmount: number;
+};
+
+// 最新請求書の支払い（PaymentIntent or Charge）と返金可能額
+async function findLastPayment(
+  stripe: Stripe,
+  invoice: Stripe.Invoice | null,
+): Promise<LastPayment | null> {
+  if (!invoice?.id || invoice.amount_paid <= 0) return null;
+
+  const payments = await stripe.invoicePayments.list({ invoice: invoice.id, status: "paid", limit: 1 });
+  const p = payments.data[0];
+  if (!p) return null;
+
+  const paymentIntentId = stripeId(p.payment.payment_intent);
+  let charge: Stripe.Charge | null = null;
+
+  if (paymentIntentId) {
+    const pi = await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ["latest_charge"] });
+    charge = typeof pi.latest_charge === "object" ? pi.latest_charge : null;
+  } else if (p.payment.charge) {
+    charge = await stripe.charges.retrieve(stripeId(p.payment.charge));
+  }
+  if (!charge) return null;
+
+  return {
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.number ?? "",
+    amountPaid: invoice.amount_paid,
+    paidAtMs: invoice.status_transitions.paid_at ? invoice.status_transitions.paid_at * 1000 : null,
+    paymentIntentId,
+    chargeId: charge.id,
+    refundable: Math.max(charge.amount - charge.amount_refunded, 0),
+  };
+}
+
+/**
+ * 今すぐ解約した場合の日割りクレジットと、最新請求書の返金可能額
+ * - 日割りは Stripe の請求書プレビュー（cancel_now）で計算
+ * - prorationDate はプレビュー時の値（解約時に渡すと同じ額になる）。省略時は今
+ */
+export async function previewImmediateCancel(
+  subscriptionId: string,
+  prorationDate: number | null = null,
+): Promise<CancelPreview> {
+  const stripe = getStripe();
+  const sub = await stripe.subscriptions.retrieve(subscriptionId, { expand: ["latest_invoice"] });
+  const at = prorationDate ?? Math.floor(Date.now() / 1000);
+
+  let prorationCredit = 0;
+  if (sub.status !== "canceled") {
+    const preview = await stripe.invoices.createPreview({
+      subscription: subscriptionId,
+      subscription_details: {
+        cancel_now: true,
+        proration_behavior: "create_prorations",
+        proration_date: at,
+      },
+    });
+    prorationCredit = -preview.lines.data
+      .filter((l) => l.amount < 0)
+      .reduce((sum, l) => sum + l.amount, 0);
+  }
+
+  const latestInvoice = typeof sub.latest_invoice === "object" ? sub.latest_invoice : null;
+
+  return {
+    subscriptionId,
+    subscriptionStatus: sub.status,
+    customerId: stripeId(sub.customer),
+    currency: sub.currency,
+    prorationCredit,
+    lastPayment: await findLastPayment(stripe, latestInvoice),
+    prorationDate: at,
+  };
+}
+
+export class CancelRequestError extends Error {
+  constructor(code: string) {
+    super(code);
+    this.name = "CancelRequestError";
+  }
+}
+
+/**
+ * 補償の内容から、実際のクレジット額・返金額を決める（none は両方 0）。範囲外は CancelRequestError
+ * - プレビュー画面の表示と解約の実行で同じ計算を使う
+ */
+export function resolveCancelPlan(
+  remedy: CancelRemedy,
+  amount: number | null,
+  preview: Pick<CancelPreview, "prorationCredit" | "lastPayment">,
+): CancelPlan {
+  if (remedy === "none") return { creditAmount: 0, refundAmount: 0 };
+
+  if (remedy === "credit") {
+    if (preview.prorationCredit <= 0) throw new CancelRequestError("nothing_to_credit");
+    return { creditAmount: preview.prorationCredit, refundAmount: 0 };
+  }
+
+  const refundable = preview.lastPayment?.refundable ?? 0;
+  if (refundable <= 0) throw new CancelRequestError("nothing_to_refund");
+  if (remedy === "full_refund") return { creditAmount: 0, refundAmount: refundable };
+
+  if (remedy === "prorated_refund") {
+    // 未使用分が最新の支払いより大きい場合（複数回分の前払い等）は返金可能額まで
+    const refundAmount = Math.min(preview.prorationCredit, refundable);
+    if (refundAmount <= 0) throw new CancelRequestError("nothing_to_refund");
+    return { creditAmount: 0, refundAmount };
+  }
+
+  if (amount === null || !Number.isInteger(amount) || amount <= 0) {
+    throw new CancelRequestError("refundAmount_invalid");
+  }
+  if (amount > refundable) throw new CancelRequestError("refundAmount_exceeds_refundable");
+  return { creditAmount: 0, refundAmount: amount };
+}
+
+export type FixedCancelRemedy = Exclude<CancelRemedy, "partial_refund">;
+
+// 金額指定の無い補償ごとの実行額（選べないものは null）。プレビューで表示する額
+export function fixedCancelPlans(
+  preview: Pick<CancelPreview, "prorationCredit" | "lastPayment">,
+): Record<FixedCancelRemedy, CancelPlan | null> {
+  const planOf = (remedy: FixedCancelRemedy) => {
+    try {
+      return resolveCancelPlan(remedy, null, preview);
+    } catch (e) {
+      if (e instanceof CancelRequestError) return null;
+      throw e;
+    }
+  };
+  return {
+    none: planOf("none"),
+    credit: planOf("credit"),
+    prorated_refund: planOf("prorated_refund"),
+    full_refund: planOf("full_refund"),
+  };
+}
+
+/**
+ * 即時解約 → 補償（クレジット or 返金のどちらか）
+ * - Stripe 側の日割り（prorate）は使わない。額はプレビューと同じ計算で決めたものだけを付ける
+ * - クレジットは顧客残高へ、返金は最新請求書の支払いに対して行う
+ * - 解約後に補償が失敗した場合は remedyError で返す
+ */
+export async function cancelImmediately(args: {
+  subscriptionId: string;
+  customerId: string;
+  currency: string;
+  plan: CancelPlan;
+  lastPayment: LastPayment | null;
+  metadata: Record<string, string>;
+}): Promise<{
+  subscription: Stripe.Subscription;
+  credit: Stripe.CustomerBalanceTransaction | null;
+  refund: Stripe.Refund | null;
+  remedyError: string;
+}> {
+  const stripe = getStripe();
+  const { creditAmount, refundAmount } = args.plan;
+
+  const subscription = await stripe.subscriptions.cancel(args.subscriptionId, {
+    prorate: false,
+    invoice_now: false,
+  });
+
+  try {
+    if (creditAmount > 0) {
+      const credit = await stripe.customers.createBalanceTransaction(
+        args.customerId,
+        {
+          amount: -creditAmount,
+          currency: args.currency,
+          description: `Unused time on ${args.subscriptionId}`,
+          metadata: args.metadata,
+        },
+        // 同じ解約で二重にクレジットしない
+        { idempotencyKey: `cancel-credit:${args.subscriptionId}:${creditAmount}` },
+      );
+      return { subscription, credit, refund: null, remedyError: "" };
+    }
+
+    if (refundAmount > 0 && args.lastPayment) {
+      const refund = await stripe.refunds.create(
+        {
+          ...(args.lastPayment.paymentIntentId
+            ? { payment_intent: args.lastPayment.paymentIntentId }
+            : { charge: args.lastPayment.chargeId }),
+          amount: refundAmount,
+          reason: "requested_by_customer",
+          metadata: args.metadata,
+        },
+        // 同じ解約で二重返金しない
+        { idempotencyKey: `cancel-refund:${args.subscriptionId}:${refundAmount}` },
+      );
+      return { subscription, credit: null, refund, remedyError: "" };
+    }
+  } catch (e) {
+    return { subscription, credit: null, refund: null, remedyError: e instanceof Error ? e.message : "UNKNOWN" };
+  }
+
+  return { subscription, credit: null, refund: null, remedyError: "" };
+}
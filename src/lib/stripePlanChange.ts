@@ -0,0 +1,110 @@
+// src/lib/stripePlanChange.ts
+// ✅ サブスクのプラン（Price）切り替えとその日割りプレビュー
+import type Stripe from "stripe";
+import { getStripe } from "@/lib/stripe";
+
+// create_prorations: 差額は次回請求に載せる / always_invoice: 差額を今すぐ請求 / none: 日割りしない
+export type ProrationBehavior = "create_prorations" | "always_invoice" | "none";
+
+export type PlanChangePreview = {
+  subscriptionId: string;
+  currentPriceId: string;
+  newPriceId: string;
+  currency: string;
+  // 日割りの差額（正 = 追加請求、負 = クレジット。最小通貨単位）
+  prorationAmount: number;
+  // 変更後の次回請求（日割り分を含む）
+  nextInvoiceTotal: number;
+  nextPaymentAttemptMs: number | null;
+  // 本番の更新にも同じ値を渡して、プレビューと同じ日割りにする
+  prorationDate: number;
+};
+
+export class PlanChangeError extends Error {
+  readonly status: 400 | 409;
+
+  constructor(code: string, status: 400 | 409 = 400) {
+    super(code);
+    this.name = "PlanChangeError";
+    this.status = status;
+  }
+}
+
+const ENDED_STATUSES: readonly string[] = ["canceled", "incomplete_expired"];
+
+async function retrieveChangeableItem(
+  stripe: Stripe,
+  subscriptionId: string,
+  newPriceId: string,
+): Promise<{ sub: Stripe.Subscription; item: Stripe.SubscriptionItem }> {
+  const sub = await stripe.subscriptions.retrieve(subscriptionId);
+  if (ENDED_STATUSES.includes(sub.status)) throw new PlanChangeError("subscription_ended", 409);
+
+  // 1サブスク = 1アイテム前提（複数アイテムは Stripe ダッシュボードで）
+  const items = sub.items.data;
+  if (items.length !== 1) throw new PlanChangeError("subscription_has_multiple_items", 409);
+  const item = items[0]!;
+  if (item.price.id === newPriceId) throw new PlanChangeError("same_plan", 409);
+
+  return { sub, item };
+}
+
+/**
+ * プラン変更した場合の請求プレビュー（Stripe には何も書き込まない）
+ */
+export async function previewPlanChange(
+  subscriptionId: string,
+  newPriceId: string,
+): Promise<PlanChangePreview> {
+  const stripe = getStripe();
+  const { sub, item } = await retrieveChangeableItem(stripe, subscriptionId, newPriceId);
+  const prorationDate = Math.floor(Date.now() / 1000);
+
+  const preview = await stripe.invoices.createPreview({
+    subscription: subscriptionId,
+    subscription_details: {
+      items: [{ id: item.id, price: newPriceId }],
+      proration_behavior: "create_prorations",
+      proration_date: prorationDate,
+    },
+  });
+
+  const prorationAmount = preview.lines.data
+    .filter((l) => l.parent?.subscription_item_details?.proration === true)
+    .reduce((sum, l) => sum + l.amount, 0);
+
+  return {
+    subscriptionId,
+    currentPriceId: item.price.id,
+    newPriceId,
+    currency: sub.currency,
+    prorationAmount,
+    nextInvoiceTotal: preview.total,
+    nextPaymentAttemptMs: preview.next_payment_attempt ? preview.next_payment_attempt * 1000 : null,
+    prorationDate,
+  };
+}
+
+/**
+ * プラン変更（アイテムの Price を差し替え）
+ * - prorationDate はプレビュー時の値（none のときは使わない）
+ */
+export async function changeSubscriptionPrice(args: {
+  subscriptionId: string;
+  newPriceId: string;
+  prorationBehavior: ProrationBehavior;
+  prorationDate: number | null;
+  metadata: Record<string, string>;
+}): Promise<Stripe.Subscription> {
+  const stripe = getStripe();
+  const { item } = await retrieveChangeableItem(stripe, args.subscriptionId, args.newPriceId);
+
+  return stripe.subscriptions.update(args.subscriptionId, {
+    items: [{ id: item.id, price: args.newPriceId }],
+    proration_behavior: args.prorationBehavior,
+    ...(args.prorationBehavior !== "none" && args.prorationDate
+      ? { proration_date: args.prorationDate }
+      : {}),
+    metadata: args.metadata,
+  });
+}
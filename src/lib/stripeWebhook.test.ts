@@ -0,0 +1,115 @@
+import type Stripe from "stripe";
+import { describe, expect, it } from "vitest";
+import { claimOf, decideSubscriptionSync, subscriptionTargetOf } from "./stripeWebhook";
+
+const NOW = Date.UTC(2026, 0, 15);
+const CREATED = 1_770_000_000;
+
+function sub(id: string, overrides: Partial<Record<string, unknown>> = {}): Stripe.Subscription {
+  return {
+    id,
+    status: "active",
+    customer: "cus_1",
+    cancel_at_period_end: false,
+    metadata: { uid: "m1" },
+    items: { data: [{ price: { id: "price_basic" }, current_period_end: CREATED + 3600 }] },
+    ...overrides,
+  } as unknown as Stripe.Subscription;
+}
+
+describe("claimOf", () => {
+  it("処理済み・無視済みは重複として弾く", () => {
+    expect(claimOf({ status: "processed" })).toBe("duplicate");
+    expect(claimOf({ status: "ignored" })).toBe("duplicate");
+  });
+
+  it("初回・処理中・失敗はリトライとして処理する", () => {
+    expect(claimOf(null)).toBe("new");
+    expect(claimOf({ status: "processing" })).toBe("new");
+    expect(claimOf({ status: "failed" })).toBe("new");
+  });
+});
+
+describe("subscriptionTargetOf", () => {
+  it("metadata.companyId があれば会社へ、無ければメンバーへ", () => {
+    expect(subscriptionTargetOf(sub("sub_c", { metadata: { companyId: "c1", uid: "m1" } }))).toEqual({
+      kind: "company",
+      companyId: "c1",
+    });
+    expect(subscriptionTargetOf(sub("sub_1"))).toEqual({ kind: "member", uid: "m1" });
+    expect(subscriptionTargetOf(sub("sub_1", { metadata: {} }))).toEqual({ kind: "member", uid: "" });
+  });
+});
+
+describe("decideSubscriptionSync", () => {
+  it("Stripe の値と event.created を書く", () => {
+    const decision = decideSubscriptionSync({
+      billing: {},
+      sub: sub("sub_1"),
+      eventCreated: CREATED,
+      nowMs: NOW,
+      invoice: { id: "in_1", result: "paid" },
+    });
+
+    expect(decision).toEqual({
+      action: "write",
+      billing: expect.objectContaining({
+        status: "active",
+        stripeSubscriptionId: "sub_1",
+        stripeEventCreated: CREATED,
+        lastInvoiceId: "in_1",
+        lastInvoiceResult: "paid",
+      }),
+    });
+  });
+
+  it("記録より古いイベントは上書きしない（同時刻は反映）", () => {
+    const billing = { stripeSubscriptionId: "sub_1", stripeStatus: "canceled", stripeEventCreated: CREATED };
+
+    expect(
+      decideSubscriptionSync({ billing, sub: sub("sub_1"), eventCreated: CREATED - 1, nowMs: NOW }),
+    ).toEqual({ action: "skip", reason: "stale_event" });
+    expect(
+      decideSubscriptionSync({ billing, sub: sub("sub_1"), eventCreated: CREATED, nowMs: NOW }).action,
+    ).toBe("write");
+  });
+
+  it("記録済みの別サブスクが生きていれば、そのイベントは無視する", () => {
+    const billing = { stripeSubscriptionId: "sub_live", stripeStatus: "active" };
+
+    expect(
+      decideSubscriptionSync({ billing, sub: sub("sub_old", { status: "canceled" }), eventCreated: CREATED, nowMs: NOW }),
+    ).toEqual({ action: "skip", reason: "other_subscription" });
+  });
+
+  it("記録済みのサブスクが終わっていれば新しいサブスクで上書きする", () => {
+    const billing = { stripeSubscriptionId: "sub_old", stripeStatus: "canceled" };
+    const decision = decideSubscriptionSync({ billing, sub: sub("sub_new"), eventCreated: CREATED, nowMs: NOW });
+
+    expect(decision).toMatchObject({ action: "write", billing: { stripeSubscriptionId: "sub_new" } });
+  });
+
+  it("トライアル中に契約したら paid にして移行済みにする", () => {
+    const billing = { mode: "trial", trial: { startMs: 0, endMs: NOW + 1, outcome: null } };
+    const decision = decideSubscriptionSync({ billing, sub: sub("sub_1"), eventCreated: CREATED, nowMs: NOW });
+
+    expect(decision).toMatchObject({
+      action: "write",
+      billing: { mode: "paid", trial: { endedAtMs: NOW, outcome: "converted", convertError: "" } },
+    });
+  });
+
+  it("終わったトライアル・未払いのサブスクでは移行しない", () => {
+    const ended = { mode: "trial", trial: { outcome: "expired" } };
+    const unpaid = { mode: "trial", trial: { outcome: null } };
+
+    for (const [billing, s] of [
+      [ended, sub("sub_1")],
+      [unpaid, sub("sub_1", { status: "incomplete" })],
+    ] as const) {
+      const decision = decideSubscriptionSync({ billing, sub: s, eventCreated: CREATED, nowMs: NOW });
+      expect(decision.action).toBe("write");
+      expect(decision.action === "write" && decision.billing).not.toHaveProperty("mode");
+    }
+  });
+});
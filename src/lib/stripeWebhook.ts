@@ -0,0 +1,86 @@
+// src/lib/stripeWebhook.ts
+// ✅ Stripe webhook の1イベントごとの判定（重複・順序・別サブスク・トライアル移行・会社課金の振り分け）
+// Firestore / Stripe には触らない。読み書きは route 側
+import type Stripe from "stripe";
+import { billingMirrorOf, isLiveSubscriptionStatus } from "@/lib/stripe";
+
+export type EventClaim = "new" | "duplicate";
+
+export type InvoiceResult = "paid" | "payment_failed";
+
+export type SubscriptionTarget =
+  | { kind: "company"; companyId: string }
+  | { kind: "member"; uid: string };
+
+export type SyncSkipReason = "stale_event" | "other_subscription";
+
+export type SyncDecision =
+  | { action: "skip"; reason: SyncSkipReason }
+  | { action: "write"; billing: Record<string, unknown> };
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/**
+ * stripeWebhookEvents の記録から、このイベントを処理するか
+ * - processed / ignored は重複配信
+ * - processing 中 / failed は Stripe のリトライとして再処理する
+ */
+export function claimOf(stored: Record<string, unknown> | null): EventClaim {
+  const status = stored?.status;
+  return status === "processed" || status === "ignored" ? "duplicate" : "new";
+}
+
+// 会社課金のサブスクは reNovaCompany 側へ（メンバーには status だけ配る）
+export function subscriptionTargetOf(sub: Stripe.Subscription): SubscriptionTarget {
+  const companyId = sub.metadata?.companyId ?? "";
+  if (companyId) return { kind: "company", companyId };
+  return { kind: "member", uid: sub.metadata?.uid ?? "" };
+}
+
+/**
+ * subscription イベントを reNovaMember.billing へどう反映するか
+ * - 古いイベントが後から届いた場合（stripeEventCreated より前）は上書きしない
+ * - 記録済みの別サブスクがまだ生きていれば上書きしない（解約済みの古いサブスクのイベントなど）
+ * - トライアル中に自分で契約した場合は paid に切り替え、トライアルは移行済みにする（cron が二重に作らない）
+ */
+export function decideSubscriptionSync(args: {
+  billing: Record<string, unknown>;
+  sub: Stripe.Subscription;
+  eventCreated: number;
+  nowMs: number;
+  invoice?: { id: string; result: InvoiceResult };
+}): SyncDecision {
+  const { billing, sub, eventCreated, invoice } = args;
+
+  const lastCreated = typeof billing.stripeEventCreated === "number" ? billing.stripeEventCreated : 0;
+  if (eventCreated < lastCreated) return { action: "skip", reason: "stale_event" };
+
+  const storedSubId = toStr(billing.stripeSubscriptionId);
+  const storedStatus = toStr(billing.stripeStatus);
+  const storedLive = storedStatus !== "" && isLiveSubscriptionStatus(storedStatus);
+  if (storedSubId && storedSubId !== sub.id && storedLive) {
+    return { action: "skip", reason: "other_subscription" };
+  }
+
+  const trial = isObj(billing.trial) ? billing.trial : {};
+  const convertsTrial =
+    billing.mode === "trial" && !trial.outcome && (sub.status === "active" || sub.status === "trialing");
+
+  return {
+    action: "write",
+    billing: {
+      ...billingMirrorOf(sub),
+      ...(convertsTrial
+        ? { mode: "paid", trial: { endedAtMs: args.nowMs, outcome: "converted", convertError: "" } }
+        : {}),
+      stripeEventCreated: eventCreated,
+      ...(invoice ? { lastInvoiceId: invoice.id, lastInvoiceResult: invoice.result } : {}),
+    },
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { diffTemplates, mergeTemplates, toTemplateSteps, type TemplateStep } from "./templateVersions";
+
+// 配列順で order を振った工程（"a" / ["a", "A"] / ["a", "A", [子...]]）
+type Spec = string | [string, string] | [string, string, Spec[]];
+
+function steps(specs: Spec[]): TemplateStep[] {
+  return specs.map((spec, i) => {
+    const [id, name, children] = typeof spec === "string" ? [spec, spec.toUpperCase(), []] : spec;
+    const kids = steps(children ?? []);
+    return { id, name, order: i + 1, ...(kids.length ? { children: kids } : {}) };
+  });
+}
+
+function tpl(specs: Spec[], title = "T") {
+  return { title, steps: steps(specs) };
+}
+
+// id と階層だけ（"a[a1,a2] b"）
+function shape(list: TemplateStep[]): string {
+  return list
+    .map((s) => (s.children?.length ? `${s.id}[${s.children.map((c) => c.id).join(",")}]` : s.id))
+    .join(" ");
+}
+
+describe("toTemplateSteps", () => {
+  it("order で並べ、名前の無い工程と3階層目を落とす", () => {
+    const list = toTemplateSteps([
+      { id: "b", name: "B", order: 2 },
+      { id: "x", name: " ", order: 0 },
+      { id: "a", name: "A", order: 1, children: [{ id: "a1", name: "A1", order: 1, children: [{ id: "z", name: "Z" }] }] },
+    ]);
+    expect(shape(list)).toBe("a[a1] b");
+    expect(list[0]!.children![0]!.children).toBeUndefined();
+  });
+});
+
+describe("diffTemplates", () => {
+  it("追加・削除・名前変更・移動を位置つきで返す", () => {
+    const diff = diffTemplates(
+      tpl(["a", "b", ["c", "C", ["c1"]]], "旧"),
+      tpl([["c", "C", ["c1"]], "a", ["d", "D"], ["b", "B2"]], "新"),
+    );
+
+    expect(diff.title).toEqual({ from: "旧", to: "新" });
+    expect(diff.steps).toEqual(
+      expect.arrayContaining([
+        { kind: "added", at: "3", name: "D" },
+        { kind: "renamed", at: "4", from: "B", to: "B2" },
+        { kind: "moved", from: "3", to: "1", name: "C" },
+      ]),
+    );
+    // 大工程ごと動いた小工程は moved にしない
+    expect(diff.steps.some((s) => s.kind === "moved" && s.name === "C1")).toBe(false);
+  });
+
+  it("同じ内容なら差分なし", () => {
+    expect(diffTemplates(tpl(["a", "b"]), tpl(["a", "b"]))).toEqual({ title: null, steps: [] });
+  });
+});
+
+describe("mergeTemplates", () => {
+  it("片方だけの名前変更・テンプレ名変更はそちらを採る", () => {
+    const merged = mergeTemplates(tpl(["a", "b"]), tpl([["a", "A2"], "b"]), tpl(["a", ["b", "B2"]], "T2"));
+
+    expect(merged.title).toBe("T2");
+    expect(merged.steps.map((s) => s.name)).toEqual(["A2", "B2"]);
+    expect(merged.conflicts).toEqual([]);
+  });
+
+  it("両方が別々に名前を変えたら自分を採り、衝突として返す", () => {
+    const merged = mergeTemplates(tpl(["a"]), tpl([["a", "自分"]]), tpl([["a", "相手"]]));
+
+    expect(merged.steps[0]!.name).toBe("自分");
+    expect(merged.conflicts).toHaveLength(1);
+  });
+
+  it("相手が消した工程は消し、自分が名前を変えていれば残す", () => {
+    const merged = mergeTemplates(tpl(["a", "b", "c"]), tpl(["a", ["b", "B2"], "c"]), tpl(["a"]));
+
+    expect(shape(merged.steps)).toBe("a b");
+    expect(merged.steps[1]!.name).toBe("B2");
+    expect(merged.conflicts).toHaveLength(1);
+  });
+
+  it("相手の追加は、相手側で直前にあった工程の後ろに入る", () => {
+    const merged = mergeTemplates(tpl(["a", "b", "c"]), tpl(["c", "a", "b"]), tpl(["a", "b", "x", "c"]));
+
+    // 並べ替えたのは自分だけ → 自分の並び + 相手の x は b の後ろ
+    expect(shape(merged.steps)).toBe("c a b x");
+    expect(merged.steps.map((s) => s.order)).toEqual([1, 2, 3, 4]);
+    expect(merged.conflicts).toEqual([]);
+  });
+
+  it("相手だけが並べ替えていれば相手の並びに、自分の追加を差し込む", () => {
+    const merged = mergeTemplates(tpl(["a", "b", "c"]), tpl(["a", "b", "x", "c"]), tpl(["c", "a", "b"]));
+
+    expect(shape(merged.steps)).toBe("c a b x");
+  });
+
+  it("両方が別々に並べ替えたら自分の並びを採り、衝突として返す", () => {
+    const merged = mergeTemplates(tpl(["a", "b", "c"]), tpl(["c", "b", "a"]), tpl(["b", "a", "c"]));
+
+    expect(shape(merged.steps)).toBe("c b a");
+    expect(merged.conflicts).toHaveLength(1);
+  });
+
+  it("小工程の追加は同じ大工程の中に入る", () => {
+    const merged = mergeTemplates(
+      tpl([["a", "A", ["a1", "a2"]]]),
+      tpl([["a", "A", ["a1", "a2"]], "b"]),
+      tpl([["a", "A", ["a1", "n", "a2"]]]),
+    );
+
+    expect(shape(merged.steps)).toBe("a[a1,n,a2] b");
+  });
+
+  it("自分が消した大工程に相手が足した小工程は、大工程として末尾に残す", () => {
+    const merged = mergeTemplates(
+      tpl([["a", "A", ["a1"]], "b"]),
+      tpl(["b"]),
+      tpl([["a", "A", ["a1", "a2"]], "b"]),
+    );
+
+    expect(shape(merged.steps)).toBe("b a2");
+  });
+});
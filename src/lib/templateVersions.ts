@@ -0,0 +1,285 @@
+// src/lib/templateVersions.ts
+// ✅ 工程テンプレの版履歴（publicWorkTemplates/{id}/versions）と版どうしの差分
+// - 保存のたびに「上書きされる直前の版」を1件残す
+// - クライアント / サーバーどちらからも使う（firebase SDK には依存しない）
+
+export const SUBCOL_VERSIONS = "versions";
+
+// 一覧に出す件数
+export const VERSION_LIST_LIMIT = 50;
+
+// 工程は2階層まで（大工程 → 小工程）。children は大工程のみ、無ければ省略（従来のフラットな形）
+export const MAX_STEP_DEPTH = 2;
+
+export type TemplateStep = {
+  id: string;
+  name: string;
+  order: number;
+  children?: TemplateStep[];
+};
+
+export type VersionAuthor = {
+  uid: string;
+  email: string;
+};
+
+// save: 通常の保存で退避 / restore: 版の復元で退避
+export type VersionReason = "save" | "restore";
+
+// at / from / to は表示用の位置（"2" = 2番目の大工程、"2-1" = その1番目の小工程）
+export type StepChange =
+  | { kind: "added"; at: string; name: string }
+  | { kind: "removed"; at: string; name: string }
+  | { kind: "renamed"; at: string; from: string; to: string }
+  | { kind: "moved"; from: string; to: string; name: string };
+
+export type TemplateDiff = {
+  title: { from: string; to: string } | null;
+  steps: StepChange[];
+};
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+export function toAuthor(v: unknown): VersionAuthor | null {
+  if (!isObj(v)) return null;
+  const uid = toStr(v.uid);
+  return uid ? { uid, email: toStr(v.email) } : null;
+}
+
+/**
+ * Firestore の steps 配列 → 各階層 order 順の TemplateStep[]
+ * - 名前が空のものは除く（小工程を持つ大工程は残す）
+ * - MAX_STEP_DEPTH より深い children は読まない
+ */
+export function toTemplateSteps(v: unknown, depth = 1): TemplateStep[] {
+  if (!Array.isArray(v)) return [];
+  return v
+    .filter(isObj)
+    .map((x) => {
+      const children = depth < MAX_STEP_DEPTH ? toTemplateSteps(x.children, depth + 1) : [];
+      return {
+        id: String(x.id ?? ""),
+        name: String(x.name ?? ""),
+        order: Number(x.order ?? 0),
+        ...(children.length ? { children } : {}),
+      };
+    })
+    .filter((s) => s.name.trim().length > 0 || !!s.children?.length)
+    .sort((a, b) => a.order - b.order);
+}
+
+type FlatStep = { id: string; name: string; pos: string; parentId: string };
+
+// 大工程 → その小工程 の順に1列へ（差分用）
+function flatten(steps: TemplateStep[]): FlatStep[] {
+  const out: FlatStep[] = [];
+  steps.forEach((s, i) => {
+    out.push({ id: s.id, name: s.name, pos: String(i + 1), parentId: "" });
+    (s.children ?? []).forEach((c, j) => {
+      out.push({ id: c.id, name: c.name, pos: `${i + 1}-${j + 1}`, parentId: s.id });
+    });
+  });
+  return out;
+}
+
+// 共通して残っている工程のうち、並びが保たれている最長の列（LCS）
+function stableIds(from: string[], to: string[]): Set<string> {
+  const n = from.length;
+  const m = to.length;
+  const dp: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      dp[i]![j] = from[i] === to[j] ? dp[i + 1]![j + 1]! + 1 : Math.max(dp[i + 1]![j]!, dp[i]![j + 1]!);
+    }
+  }
+
+  const keep = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (from[i] === to[j]) {
+      keep.add(from[i]!);
+      i++;
+      j++;
+    } else if (dp[i + 1]![j]! >= dp[i]![j + 1]!) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return keep;
+}
+
+/**
+ * from → to の差分（工程は id で対応づける）
+ * - 別の大工程へ移った小工程・並びが変わった工程は moved
+ */
+export function diffTemplates(
+  from: { title: string; steps: TemplateStep[] },
+  to: { title: string; steps: TemplateStep[] },
+): TemplateDiff {
+  const fromFlat = flatten(from.steps);
+  const toFlat = flatten(to.steps);
+  const fromById = new Map(fromFlat.map((s) => [s.id, s]));
+  const toById = new Map(toFlat.map((s) => [s.id, s]));
+
+  // 並びは階層ごと（同じ親の下）に比べる。大工程ごと動かしても小工程は moved にしない
+  const common = new Set<string>();
+  const parents = new Set(toFlat.map((s) => s.parentId));
+  for (const parentId of parents) {
+    const sameParent = (list: FlatStep[], other: Map<string, FlatStep>) =>
+      list.filter((s) => s.parentId === parentId && other.get(s.id)?.parentId === parentId).map((s) => s.id);
+    stableIds(sameParent(fromFlat, toById), sameParent(toFlat, fromById)).forEach((id) => common.add(id));
+  }
+
+  const steps: StepChange[] = [];
+  for (const s of fromFlat) {
+    if (!toById.has(s.id)) steps.push({ kind: "removed", at: s.pos, name: s.name });
+  }
+  for (const s of toFlat) {
+    const prev = fromById.get(s.id);
+    if (!prev) {
+      steps.push({ kind: "added", at: s.pos, name: s.name });
+      continue;
+    }
+    if (!common.has(s.id)) {
+      steps.push({ kind: "moved", from: prev.pos, to: s.pos, name: s.name });
+    }
+    if (prev.name !== s.name) steps.push({ kind: "renamed", at: s.pos, from: prev.name, to: s.name });
+  }
+
+  return {
+    title: from.title !== to.title ? { from: from.title, to: to.title } : null,
+    steps,
+  };
+}
+
+export type TemplateMerge = {
+  title: string;
+  steps: TemplateStep[];
+  // 自動では決められず、自分側を採った箇所（表示用）
+  conflicts: string[];
+};
+
+type Template = { title: string; steps: TemplateStep[] };
+
+// 共通の id だけを残した「親 > 子」の並び（並びが変わったかの比較用）
+function layoutOf(flat: FlatStep[], ids: Set<string>): string {
+  return flat
+    .filter((s) => ids.has(s.id))
+    .map((s) => `${s.parentId}>${s.id}`)
+    .join(",");
+}
+
+/**
+ * 3-way マージ（base = 読み込んだ版、ours = 編集中、theirs = 他の人が保存した最新）
+ * - 名前・テンプレ名：片方だけ変えていればそちら。両方が別々に変えたら ours
+ * - 削除：片方が消し、もう片方が名前を変えていなければ消す（変えていれば残す）
+ * - 並び：片方だけ並べ替えていればその並び。両方なら ours の並びに、相手の追加分を差し込む
+ */
+export function mergeTemplates(base: Template, ours: Template, theirs: Template): TemplateMerge {
+  const conflicts: string[] = [];
+  const baseFlat = flatten(base.steps);
+  const oursFlat = flatten(ours.steps);
+  const theirsFlat = flatten(theirs.steps);
+  const baseById = new Map(baseFlat.map((s) => [s.id, s]));
+  const oursById = new Map(oursFlat.map((s) => [s.id, s]));
+  const theirsById = new Map(theirsFlat.map((s) => [s.id, s]));
+
+  let title = ours.title;
+  if (ours.title === base.title) title = theirs.title;
+  else if (theirs.title !== base.title && theirs.title !== ours.title) {
+    conflicts.push(`テンプレ名: 相手「${theirs.title}」/ 自分「${ours.title}」→ 自分を採用`);
+  }
+
+  // 残す工程と名前
+  const names = new Map<string, string>();
+  for (const s of [...oursFlat, ...theirsFlat]) {
+    if (names.has(s.id)) continue;
+    const b = baseById.get(s.id);
+    const o = oursById.get(s.id);
+    const t = theirsById.get(s.id);
+
+    if (o && t) {
+      let name = o.name;
+      if (b && o.name === b.name) name = t.name;
+      else if (o.name !== t.name && (!b || t.name !== b.name)) {
+        conflicts.push(`名前: 相手「${t.name}」/ 自分「${o.name}」→ 自分を採用`);
+      }
+      names.set(s.id, name);
+      continue;
+    }
+    if (!b) {
+      names.set(s.id, s.name); // 片方が追加
+      continue;
+    }
+    // 片方が削除
+    if (s.name !== b.name) {
+      names.set(s.id, s.name);
+      conflicts.push(`「${s.name}」は${o ? "相手" : "自分"}が削除しましたが、名前が変更されているので残しました`);
+    }
+  }
+
+  // 並びの元にする側
+  const common = (side: Map<string, FlatStep>) =>
+    new Set(baseFlat.filter((s) => side.has(s.id)).map((s) => s.id));
+  const oursCommon = common(oursById);
+  const theirsCommon = common(theirsById);
+  const oursMoved = layoutOf(oursFlat, oursCommon) !== layoutOf(baseFlat, oursCommon);
+  const theirsMoved = layoutOf(theirsFlat, theirsCommon) !== layoutOf(baseFlat, theirsCommon);
+  const useTheirs = theirsMoved && !oursMoved;
+  if (oursMoved && theirsMoved) {
+    const both = new Set([...oursCommon].filter((id) => theirsCommon.has(id)));
+    if (layoutOf(oursFlat, both) !== layoutOf(theirsFlat, both)) {
+      conflicts.push("並び順: 両方で変更されているため自分の並びを採用");
+    }
+  }
+  const primary = useTheirs ? theirs.steps : ours.steps;
+  const secondaryFlat = useTheirs ? oursFlat : theirsFlat;
+
+  type Node = { id: string; children: Node[] };
+  const tree: Node[] = [];
+  const placed = new Set<string>();
+  for (const s of primary) {
+    const children = (s.children ?? []).filter((c) => names.has(c.id)).map((c) => ({ id: c.id, children: [] }));
+    if (names.has(s.id)) {
+      tree.push({ id: s.id, children });
+    } else {
+      tree.push(...children); // 親が消えた小工程は大工程に上げる
+    }
+  }
+  tree.forEach((n) => {
+    placed.add(n.id);
+    n.children.forEach((c) => placed.add(c.id));
+  });
+
+  // 並びの元に無い工程（相手の追加など）を、元の側で直前にあった兄弟の後ろへ
+  for (const s of secondaryFlat) {
+    if (placed.has(s.id) || !names.has(s.id)) continue;
+    placed.add(s.id);
+    const parent = s.parentId ? tree.find((n) => n.id === s.parentId) : undefined;
+    if (s.parentId && !parent) {
+      tree.push({ id: s.id, children: [] }); // 親が大工程として残っていなければ末尾へ
+      continue;
+    }
+    const list = parent ? parent.children : tree;
+    const siblings = secondaryFlat.filter((x) => x.parentId === s.parentId);
+    const prevIds = siblings.slice(0, siblings.findIndex((x) => x.id === s.id)).map((x) => x.id);
+    const prevIndex = list.reduce((at, n, i) => (prevIds.includes(n.id) ? i : at), -1);
+    list.splice(prevIndex + 1, 0, { id: s.id, children: [] });
+  }
+
+  const toSteps = (list: Node[]): TemplateStep[] =>
+    list.map((n, i) => {
+      const children = toSteps(n.children);
+      return { id: n.id, name: names.get(n.id) ?? "", order: i + 1, ...(children.length ? { children } : {}) };
+    });
+
+  return { title, steps: toSteps(tree), conflicts };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { TemplateStep } from "./templateVersions";
+import { copySteps, parseStepPaths } from "./workTemplates";
+
+const source: TemplateStep[] = [
+  {
+    id: "a",
+    name: "解体",
+    order: 1,
+    children: [
+      { id: "a1", name: "内装解体", order: 1 },
+      { id: "a2", name: "搬出", order: 2 },
+    ],
+  },
+  { id: "b", name: "下地", order: 2 },
+  { id: "c", name: "仕上げ", order: 3, children: [{ id: "c1", name: "塗装", order: 1 }] },
+];
+
+// 名前と階層だけ（"解体[内装解体,搬出] 下地"）
+function shape(list: TemplateStep[]): string {
+  return list
+    .map((s) => (s.children?.length ? `${s.name}[${s.children.map((c) => c.name).join(",")}]` : s.name))
+    .join(" ");
+}
+
+describe("copySteps", () => {
+  it("stepPaths が無ければ全工程を id を振り直してコピー", () => {
+    const copied = copySteps(source, undefined);
+
+    expect(shape(copied)).toBe("解体[内装解体,搬出] 下地 仕上げ[塗装]");
+    expect(copied.map((s) => s.id)).not.toContain("a");
+  });
+
+  it("大工程だけを選ぶと小工程ごとコピーする", () => {
+    expect(shape(copySteps(source, ["1", "2"]))).toBe("解体[内装解体,搬出] 下地");
+  });
+
+  it("小工程を選べばその小工程だけ、大工程は残す", () => {
+    const copied = copySteps(source, ["1", "1-2", "3-1"]);
+
+    expect(shape(copied)).toBe("解体[搬出] 仕上げ[塗装]");
+    expect(copied.map((s) => s.order)).toEqual([1, 2]);
+    expect(copied[0]!.children!.map((c) => c.order)).toEqual([1]);
+  });
+});
+
+describe("parseStepPaths", () => {
+  it("位置の形式でなければ null、無ければ undefined", () => {
+    expect(parseStepPaths(undefined)).toBeUndefined();
+    expect(parseStepPaths(["1", "2-3"])).toEqual(["1", "2-3"]);
+    expect(parseStepPaths(["0"])).toBeNull();
+    expect(parseStepPaths(["1-2-3"])).toBeNull();
+    expect(parseStepPaths("1")).toBeNull();
+  });
+});
@@ -0,0 +1,602 @@
+// src/lib/workTemplates.ts
+// ✅ 工事種類（proclinkWorkTypeCodes）と工程テンプレ（publicWorkTemplates）の書き込み
+// - 画面（/steps）からは API 経由でのみ書く。両コレクションへの書き込みは1トランザクション
+import admin from "firebase-admin";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import {
+  MAX_STEP_DEPTH,
+  SUBCOL_VERSIONS,
+  toTemplateSteps,
+  type TemplateStep,
+  type VersionAuthor,
+  type VersionReason,
+} from "@/lib/templateVersions";
+
+export const COL_CODES = "proclinkWorkTypeCodes";
+export const COL_TEMPLATES = "publicWorkTemplates";
+// 削除した工事種類（docId = 工事種類の id）
+export const COL_TRASH = "workTypeTrash";
+
+const MAX_LABEL_LENGTH = 100;
+const MAX_STEPS = 200;
+const MAX_STEP_NAME_LENGTH = 200;
+const MAX_STEP_ID_LENGTH = 100;
+// 並び替えは1トランザクション（書き込み上限 500）に収める
+const MAX_WORK_TYPES = 400;
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class WorkTemplateError extends Error {
+  readonly status: 400 | 404 | 409;
+
+  constructor(code: string, status: 400 | 404 | 409 = 400) {
+    super(code);
+    this.name = "WorkTemplateError";
+    this.status = status;
+  }
+}
+
+// 監査ログ用（変更前 / 変更後）
+export type WriteResult = {
+  before: unknown;
+  after: unknown;
+};
+
+type Tx = admin.firestore.Transaction;
+type DocRef = admin.firestore.DocumentReference;
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function toStr(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function codesCol() {
+  return getAdminDb().collection(COL_CODES);
+}
+
+function templateRef(id: string): DocRef {
+  return getAdminDb().collection(COL_TEMPLATES).doc(id);
+}
+
+// テンプレの版番号（書き込むたびに +1。無いもの・未作成は 0）
+export function templateRevision(data: Record<string, unknown> | undefined): number {
+  const n = data?.revision;
+  return typeof n === "number" && Number.isInteger(n) && n >= 0 ? n : 0;
+}
+
+// 読み込んだ時点の版番号（リクエストの baseRevision）
+export function parseRevision(v: unknown): number | null {
+  return typeof v === "number" && Number.isInteger(v) && v >= 0 ? v : null;
+}
+
+function trashRef(id: string): DocRef {
+  return getAdminDb().collection(COL_TRASH).doc(id);
+}
+
+// ゴミ箱から自動で完全削除するまでの日数（WORK_TYPE_TRASH_RETENTION_DAYS、既定30日）
+export function trashRetentionDays(): number {
+  const n = Number(process.env.WORK_TYPE_TRASH_RETENTION_DAYS);
+  return Number.isFinite(n) && n >= 0 ? Math.trunc(n) : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// 表示名・テンプレ名（trim 後に空なら null）
+export function parseLabel(v: unknown): string | null {
+  const s = toStr(v).trim();
+  if (!s || s.length > MAX_LABEL_LENGTH) return null;
+  return s;
+}
+
+// docId として使える id（/ を含まない・空でない）
+export function parseDocId(v: unknown): string | null {
+  const s = toStr(v).trim();
+  if (!s || s.includes("/") || s === "." || s === ".." || s.length > 1500) return null;
+  return s;
+}
+
+/**
+ * 保存する工程一覧の検証（エラーコード or 正規化済みの配列）
+ * - name は trim して空は不可 / id はツリー全体で重複不可
+ * - order は各階層で 1..n の連番（順不同で受けて order 順に並べる）
+ * - children は大工程のみ（MAX_STEP_DEPTH まで）。空なら保存しない（従来のフラットな形）
+ */
+export function validateSteps(v: unknown): { steps: TemplateStep[] } | { error: string } {
+  const ids = new Set<string>();
+  let total = 0;
+
+  const walk = (list: unknown, depth: number): TemplateStep[] | string => {
+    if (!Array.isArray(list)) return "steps_invalid";
+
+    const steps: TemplateStep[] = [];
+    for (const x of list) {
+      if (!isObj(x)) return "steps_invalid";
+      const id = toStr(x.id).trim();
+      const name = toStr(x.name).trim();
+      const order = x.order;
+
+      if (++total > MAX_STEPS) return "steps_too_many";
+      if (!id || id.length > MAX_STEP_ID_LENGTH) return "step_id_invalid";
+      if (ids.has(id)) return "step_id_duplicate";
+      if (!name) return "step_name_required";
+      if (name.length > MAX_STEP_NAME_LENGTH) return "step_name_too_long";
+      if (typeof order !== "number" || !Number.isInteger(order)) return "step_order_invalid";
+      ids.add(id);
+
+      let children: TemplateStep[] = [];
+      if (x.children !== undefined && x.children !== null) {
+        if (depth >= MAX_STEP_DEPTH) return "step_depth_exceeded";
+        const parsed = walk(x.children, depth + 1);
+        if (typeof parsed === "string") return parsed;
+        children = parsed;
+      }
+      steps.push({ id, name, order, ...(children.length ? { children } : {}) });
+    }
+
+    steps.sort((a, b) => a.order - b.order);
+    if (steps.some((s, i) => s.order !== i + 1)) return "step_order_invalid";
+    return steps;
+  };
+
+  const result = walk(v, 1);
+  return typeof result === "string" ? { error: result } : { steps: result };
+}
+
+async function nextCodeOrder(tx: Tx): Promise<number> {
+  const snap = await tx.get(codesCol().orderBy("order", "desc").limit(1));
+  const top = snap.docs[0]?.data().order;
+  return typeof top === "number" && Number.isFinite(top) ? top + 1 : 1;
+}
+
+// テンプレ上書きの前に、今の内容を versions へ退避（tx 内で読んだ before を渡す）
+function archiveVersion(
+  tx: Tx,
+  ref: DocRef,
+  before: Record<string, unknown>,
+  author: VersionAuthor,
+  reason: VersionReason,
+) {
+  tx.set(ref.collection(SUBCOL_VERSIONS).doc(), {
+    workTypeId: ref.id,
+    title: toStr(before.title),
+    steps: Array.isArray(before.steps) ? before.steps : [],
+    revision: templateRevision(before),
+    savedAt: before.updatedAt ?? null,
+    savedBy: before.updatedBy ?? null,
+    archivedAt: admin.firestore.FieldValue.serverTimestamp(),
+    archivedBy: author,
+    reason,
+  });
+}
+
+// 工事種類の追加（codes は自動ID、templates も同じIDで空テンプレを作る）
+export async function addWorkType(label: string, author: VersionAuthor): Promise<WriteResult & { id: string }> {
+  const db = getAdminDb();
+  const codeRef = codesCol().doc();
+  const id = codeRef.id;
+
+  return db.runTransaction(async (tx) => {
+    const order = await nextCodeOrder(tx);
+    const now = admin.firestore.FieldValue.serverTimestamp();
+
+    tx.set(codeRef, { label, order, enabled: true, createdAt: now, updatedAt: now });
+    tx.set(templateRef(id), {
+      workTypeId: id,
+      title: label,
+      steps: [],
+      revision: 1,
+      updatedAt: now,
+      updatedBy: author,
+    });
+
+    return {
+      id,
+      before: null,
+      after: {
+        code: { label, order, enabled: true },
+        template: { workTypeId: id, title: label, steps: [] },
+      },
+    };
+  });
+}
+
+function newStepId(): string {
+  return `st_${Math.random().toString(36).slice(2, 10)}_${Date.now().toString(36)}`;
+}
+
+// 複製時に選ぶ工程の位置（"2" = 2番目の大工程、"2-1" = その1番目の小工程。省略 = 全工程）
+// id の無い古い工程も選べるよう、id ではなく位置で選ぶ
+export function parseStepPaths(v: unknown): string[] | null | undefined {
+  if (v === undefined || v === null) return undefined;
+  if (!Array.isArray(v) || v.length > MAX_STEPS) return null;
+  return v.every((x) => typeof x === "string" && /^[1-9]\d*(-[1-9]\d*)?$/.test(x)) ? (v as string[]) : null;
+}
+
+/**
+ * 工程をコピー（id は振り直し、order は各階層 1..n）
+ * - stepPaths があればその位置の工程だけ。小工程が1つでも選ばれていれば大工程も残す
+ * - 大工程だけが選ばれ、小工程が1つも選ばれていなければ小工程ごとコピーする（空の大工程にしない）
+ */
+export function copySteps(steps: TemplateStep[], stepPaths: string[] | undefined): TemplateStep[] {
+  const picked = stepPaths ? new Set(stepPaths) : null;
+  return steps
+    .map((s, i) => {
+      const path = String(i + 1);
+      const all = s.children ?? [];
+      const chosen = all.filter((_, j) => !picked || picked.has(`${path}-${j + 1}`));
+      const wholeGroup = !!picked && picked.has(path) && chosen.length === 0;
+      return { ...s, path, children: wholeGroup ? all : chosen };
+    })
+    .filter((s) => !picked || picked.has(s.path) || s.children.length > 0)
+    .map((s, i) => ({
+      id: newStepId(),
+      name: s.name,
+      order: i + 1,
+      ...(s.children.length
+        ? { children: s.children.map((c, j) => ({ id: newStepId(), name: c.name, order: j + 1 })) }
+        : {}),
+    }));
+}
+
+/**
+ * 工事種類の複製（codes は自動ID、templates も同じIDで作る。1トランザクション）
+ * - 工程は複製元の保存済みの内容から（編集中の未保存分は含まない）
+ * - 複製元は templates.derivedFrom に残す（id・revision・テンプレ名）
+ * - sourceRevision（位置を選んだ時点の revision）が今と違えば CONFLICT（位置がずれているため）
+ */
+export async function duplicateWorkType(args: {
+  sourceId: string;
+  label: string;
+  stepPaths: string[] | undefined;
+  sourceRevision: number | null;
+  author: VersionAuthor;
+}): Promise<WriteResult & { id: string }> {
+  const db = getAdminDb();
+  const codeRef = codesCol().doc();
+  const id = codeRef.id;
+
+  return db.runTransaction(async (tx) => {
+    const [sourceCode, sourceTemplate] = await Promise.all([
+      tx.get(codesCol().doc(args.sourceId)),
+      tx.get(templateRef(args.sourceId)),
+    ]);
+    if (!sourceCode.exists && !sourceTemplate.exists) throw new WorkTemplateError("NOT_FOUND", 404);
+    const order = await nextCodeOrder(tx);
+
+    const source = sourceTemplate.data() ?? {};
+    if (args.sourceRevision !== null && args.sourceRevision !== templateRevision(source)) {
+      throw new WorkTemplateError("CONFLICT", 409);
+    }
+    const parsed = validateSteps(copySteps(toTemplateSteps(source.steps), args.stepPaths));
+    if ("error" in parsed) throw new WorkTemplateError(`source_${parsed.error}`, 409);
+
+    const derivedFrom = {
+      workTypeId: args.sourceId,
+      revision: templateRevision(source),
+      title: toStr(source.title) || toStr(sourceCode.data()?.label) || args.sourceId,
+    };
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const template = { workTypeId: id, title: args.label, steps: parsed.steps, derivedFrom };
+
+    tx.set(codeRef, { label: args.label, order, enabled: true, createdAt: now, updatedAt: now });
+    tx.set(templateRef(id), { ...template, revision: 1, updatedAt: now, updatedBy: args.author });
+
+    return {
+      id,
+      before: null,
+      after: { code: { label: args.label, order, enabled: true }, template },
+    };
+  });
+}
+
+/**
+ * 表示名の変更（codes.label と templates.title を揃える。codes が無ければ作る）
+ * - テンプレ名も変わるので revision を進める（編集中の人の保存は競合になる）
+ */
+export async function renameWorkType(id: string, label: string): Promise<WriteResult & { revision: number }> {
+  const db = getAdminDb();
+  return db.runTransaction(async (tx) => {
+    const codeRef = codesCol().doc(id);
+    const [codeSnap, templateSnap] = await Promise.all([tx.get(codeRef), tx.get(templateRef(id))]);
+    if (!codeSnap.exists && !templateSnap.exists) throw new WorkTemplateError("NOT_FOUND", 404);
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const revision = templateRevision(templateSnap.data()) + 1;
+    tx.set(codeRef, { label, updatedAt: now }, { merge: true });
+    tx.set(templateRef(id), { workTypeId: id, title: label, revision, updatedAt: now }, { merge: true });
+
+    return {
+      revision,
+      before: {
+        label: codeSnap.data()?.label ?? null,
+        title: templateSnap.data()?.title ?? null,
+      },
+      after: { label, title: label },
+    };
+  });
+}
+
+export async function setWorkTypeEnabled(id: string, enabled: boolean): Promise<WriteResult> {
+  const db = getAdminDb();
+  return db.runTransaction(async (tx) => {
+    const codeRef = codesCol().doc(id);
+    const snap = await tx.get(codeRef);
+    if (!snap.exists) throw new WorkTemplateError("NOT_FOUND", 404);
+
+    tx.set(codeRef, { enabled, updatedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+    return { before: { enabled: snap.data()?.enabled ?? null }, after: { enabled } };
+  });
+}
+
+/**
+ * 削除 = ゴミ箱へ移動（codes + templates を workTypeTrash/{id} に退避して消す。1トランザクション）
+ * - versions はテンプレの下に残す（復元で元に戻る・完全削除で消す）
+ */
+export async function trashWorkType(id: string, author: VersionAuthor): Promise<WriteResult> {
+  const db = getAdminDb();
+  const codeRef = codesCol().doc(id);
+  const tRef = templateRef(id);
+
+  return db.runTransaction(async (tx) => {
+    const [codeSnap, templateSnap] = await Promise.all([tx.get(codeRef), tx.get(tRef)]);
+    if (!codeSnap.exists && !templateSnap.exists) throw new WorkTemplateError("NOT_FOUND", 404);
+
+    const code = codeSnap.data() ?? null;
+    const template = templateSnap.data() ?? null;
+    const label = toStr(code?.label) || toStr(template?.title) || id;
+    const purgeAfterMs = Date.now() + trashRetentionDays() * DAY_MS;
+
+    tx.set(trashRef(id), {
+      workTypeId: id,
+      label,
+      code,
+      template,
+      deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+      deletedBy: author,
+      purgeAfterMs,
+    });
+    tx.delete(codeRef);
+    tx.delete(tRef);
+
+    return { before: { code, template }, after: { trash: `${COL_TRASH}/${id}`, purgeAfterMs } };
+  });
+}
+
+export type TrashedWorkType = {
+  id: string;
+  label: string;
+  stepCount: number;
+  deletedAtMs: number | null;
+  deletedBy: VersionAuthor | null;
+  purgeAfterMs: number;
+};
+
+export async function listTrashedWorkTypes(): Promise<TrashedWorkType[]> {
+  const snap = await getAdminDb().collection(COL_TRASH).orderBy("deletedAt", "desc").get();
+  return snap.docs.map((d) => {
+    const data = d.data();
+    const template = isObj(data.template) ? data.template : {};
+    const deletedBy = isObj(data.deletedBy) ? data.deletedBy : null;
+    return {
+      id: d.id,
+      label: toStr(data.label) || d.id,
+      stepCount: toTemplateSteps(template.steps).length,
+      deletedAtMs: data.deletedAt instanceof admin.firestore.Timestamp ? data.deletedAt.toMillis() : null,
+      deletedBy: deletedBy ? { uid: toStr(deletedBy.uid), email: toStr(deletedBy.email) } : null,
+      purgeAfterMs: typeof data.purgeAfterMs === "number" ? data.purgeAfterMs : 0,
+    };
+  });
+}
+
+/**
+ * ゴミ箱から戻す（codes + templates を元の id で書き戻す）
+ * - 同じ id がすでにある場合は戻さない（409）
+ * - templates の revision は進める（削除前に開いていた画面からの保存は競合になる）
+ */
+export async function restoreTrashedWorkType(id: string): Promise<WriteResult> {
+  const db = getAdminDb();
+  const codeRef = codesCol().doc(id);
+  const tRef = templateRef(id);
+
+  return db.runTransaction(async (tx) => {
+    const [trashSnap, codeSnap, templateSnap] = await Promise.all([
+      tx.get(trashRef(id)),
+      tx.get(codeRef),
+      tx.get(tRef),
+    ]);
+    if (!trashSnap.exists) throw new WorkTemplateError("NOT_FOUND", 404);
+    if (codeSnap.exists || templateSnap.exists) throw new WorkTemplateError("ALREADY_EXISTS", 409);
+
+    const data = trashSnap.data() ?? {};
+    const code = isObj(data.code) ? data.code : null;
+    const template = isObj(data.template) ? data.template : null;
+    const now = admin.firestore.FieldValue.serverTimestamp();
+
+    if (code) tx.set(codeRef, { ...code, updatedAt: now });
+    if (template) tx.set(tRef, { ...template, revision: templateRevision(template) + 1 });
+    tx.delete(trashRef(id));
+
+    return { before: { trash: `${COL_TRASH}/${id}` }, after: { code, template } };
+  });
+}
+
+/**
+ * ゴミ箱から完全削除（trash を消した後に versions を消す）
+ * - versions は件数が多いとトランザクションの上限を超えるので分けて消す
+ */
+export async function purgeTrashedWorkType(id: string): Promise<WriteResult> {
+  const db = getAdminDb();
+  const tRef = templateRef(id);
+
+  const before = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(trashRef(id));
+    if (!snap.exists) throw new WorkTemplateError("NOT_FOUND", 404);
+    tx.delete(trashRef(id));
+    return snap.data() ?? null;
+  });
+
+  const versions = await tRef.collection(SUBCOL_VERSIONS).get();
+  for (let i = 0; i < versions.docs.length; i += 400) {
+    const batch = db.batch();
+    versions.docs.slice(i, i + 400).forEach((d) => batch.delete(d.ref));
+    await batch.commit();
+  }
+
+  return { before: { ...before, versions: versions.size }, after: null };
+}
+
+// templates にあって codes 未登録のものを codes に作る（既存の docId を維持）
+export async function importWorkTypesFromTemplates(): Promise<WriteResult & { count: number }> {
+  const db = getAdminDb();
+  return db.runTransaction(async (tx) => {
+    const [templates, codes] = await Promise.all([
+      tx.get(db.collection(COL_TEMPLATES)),
+      tx.get(codesCol()),
+    ]);
+    const existing = new Set(codes.docs.map((d) => d.id));
+
+    let nextOrder = 1;
+    for (const d of codes.docs) {
+      const order = d.data().order;
+      if (typeof order === "number" && Number.isFinite(order)) nextOrder = Math.max(nextOrder, order + 1);
+    }
+
+    const imported: { id: string; label: string; order: number }[] = [];
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    for (const d of templates.docs) {
+      if (existing.has(d.id)) continue;
+      const label = toStr(d.data().title).trim() || d.id;
+      const order = nextOrder++;
+      tx.set(codesCol().doc(d.id), { label, order, enabled: true, createdAt: now, updatedAt: now });
+      imported.push({ id: d.id, label, order });
+    }
+
+    return { count: imported.length, before: null, after: { imported } };
+  });
+}
+
+// 並び順の保存で受ける id の一覧（重複なし・docId として正しいもの）
+export function parseIdList(v: unknown): string[] | null {
+  if (!Array.isArray(v) || v.length === 0 || v.length > MAX_WORK_TYPES) return null;
+  const ids = v.map(parseDocId);
+  if (ids.some((id) => id === null)) return null;
+  const list = ids as string[];
+  return new Set(list).size === list.length ? list : null;
+}
+
+/**
+ * 工事種類の並び替え（ids の順に codes.order を 1..n で振り直す。1トランザクション）
+ * - ids は画面の一覧（codes + codes 未登録のテンプレ）そのまま
+ * - codes 未登録のテンプレ（画面では order 999999 扱い）は、ここで codes を作って並びに入れる
+ * - 画面を開いた後に工事種類が増減していれば STALE_LIST（409）
+ */
+export async function reorderWorkTypes(ids: string[]): Promise<WriteResult> {
+  const db = getAdminDb();
+  return db.runTransaction(async (tx) => {
+    const codes = await tx.get(codesCol());
+    const codeById = new Map(codes.docs.map((d) => [d.id, d.data()]));
+    const missing = ids.filter((id) => !codeById.has(id));
+    const templates = await Promise.all(missing.map((id) => tx.get(templateRef(id))));
+
+    if (templates.some((t) => !t.exists) || codes.docs.some((d) => !ids.includes(d.id))) {
+      throw new WorkTemplateError("STALE_LIST", 409);
+    }
+    const templateById = new Map(templates.map((t) => [t.id, t.data() ?? {}]));
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const before: { id: string; order: number | null }[] = [];
+    const after: { id: string; order: number }[] = [];
+    ids.forEach((id, i) => {
+      const order = i + 1;
+      const code = codeById.get(id);
+      const prev = code?.order;
+      before.push({ id, order: typeof prev === "number" ? prev : null });
+      after.push({ id, order });
+
+      if (code) {
+        if (prev !== order) tx.update(codesCol().doc(id), { order, updatedAt: now });
+        return;
+      }
+      const label = toStr(templateById.get(id)?.title).trim() || id;
+      tx.set(codesCol().doc(id), { label, order, enabled: true, createdAt: now, updatedAt: now });
+    });
+
+    return { before, after };
+  });
+}
+
+/**
+ * テンプレの上書き保存（直前の版を versions へ退避 + codes.label も同期）
+ * - 未作成のテンプレはそのまま作る（退避なし）
+ * - baseRevision が今の revision と違えば、読み込んだ後に誰かが保存している → CONFLICT
+ */
+export async function saveTemplate(args: {
+  id: string;
+  title: string;
+  steps: TemplateStep[];
+  author: VersionAuthor;
+  reason: VersionReason;
+  baseRevision: number;
+}): Promise<WriteResult & { revision: number }> {
+  const db = getAdminDb();
+  const tRef = templateRef(args.id);
+  const codeRef = codesCol().doc(args.id);
+
+  return db.runTransaction(async (tx) => {
+    const [templateSnap, codeSnap] = await Promise.all([tx.get(tRef), tx.get(codeRef)]);
+    const before = templateSnap.data();
+    const current = templateRevision(before);
+    if (current !== args.baseRevision) throw new WorkTemplateError("CONFLICT", 409);
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const revision = current + 1;
+
+    if (before) archiveVersion(tx, tRef, before, args.author, args.reason);
+    tx.set(tRef, {
+      workTypeId: args.id,
+      title: args.title,
+      steps: args.steps,
+      revision,
+      updatedAt: now,
+      updatedBy: args.author,
+      // 複製元の記録は保存・復元しても残す
+      ...(before?.derivedFrom ? { derivedFrom: before.derivedFrom } : {}),
+    });
+    if (codeSnap.exists) {
+      tx.set(codeRef, { label: args.title, updatedAt: now }, { merge: true });
+    }
+
+    return {
+      revision,
+      before: before ?? null,
+      after: { workTypeId: args.id, title: args.title, steps: args.steps, revision },
+    };
+  });
+}
+
+// 版の読み出し（復元用）
+export async function getTemplateVersion(
+  id: string,
+  versionId: string,
+): Promise<{ title: string; steps: TemplateStep[] } | null> {
+  const snap = await templateRef(id).collection(SUBCOL_VERSIONS).doc(versionId).get();
+  if (!snap.exists) return null;
+  const data = snap.data() ?? {};
+  // id の無い古い工程には採番し、各階層の order を 1..n に振り直す
+  const steps = toTemplateSteps(data.steps).map((s, i) => ({
+    id: s.id || `st_restored_${i + 1}`,
+    name: s.name,
+    order: i + 1,
+    ...(s.children
+      ? {
+          children: s.children.map((c, j) => ({
+            id: c.id || `st_restored_${i + 1}_${j + 1}`,
+            name: c.name,
+            order: j + 1,
+          })),
+        }
+      : {}),
+  }));
+  return { title: toStr(data.title), steps };
+}
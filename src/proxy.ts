@@ -0,0 +1,19 @@
+// src/proxy.ts
+import { NextResponse, type NextRequest } from "next/server";
+
+/**
+ * /api/admin/* の入口チェック（保険）
+ * - Bearer が無いリクエストはルートに届く前に 401
+ * - トークン検証とロール判定は各ルートの withAdmin() が行う
+ */
+export function proxy(req: NextRequest) {
+  const h = req.headers.get("authorization") ?? "";
+  if (!/^Bearer\s+.+$/i.test(h)) {
+    return NextResponse.json({ ok: false, error: "UNAUTHORIZED" }, { status: 401 });
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: "/api/admin/:path*",
+};